@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import type { AnalysisResult } from '@/lib/analyze';
+import type { AlertRule, AlertRuleInput, AlertRuleType } from '@/lib/alerts';
+import { authenticatedFetch } from '@/lib/miniapp';
+
+interface AlertsPanelProps {
+  analysis: AnalysisResult;
+  language?: 'ru' | 'en';
+}
+
+const translations = {
+  ru: {
+    title: 'Уведомления',
+    add: 'Добавить',
+    empty: 'Нет правил. Уведомления приходят в Mini App.',
+    post: 'Пост',
+    threshold: 'Порог',
+    above: 'выше',
+    below: 'ниже',
+    types: {
+      price_cross: 'Цена пересекает',
+      post_pnl: 'PnL поста',
+      portfolio_change: 'Изменение портфеля за 24ч',
+      creator_sell: 'Автор продает свои токены',
+    },
+  },
+  en: {
+    title: 'Alerts',
+    add: 'Add',
+    empty: 'No rules yet. Alerts arrive as Mini App notifications.',
+    post: 'Post',
+    threshold: 'Threshold',
+    above: 'above',
+    below: 'below',
+    types: {
+      price_cross: 'Price crosses',
+      post_pnl: 'Post PnL',
+      portfolio_change: 'Portfolio change over 24h',
+      creator_sell: 'Creator sells own tokens',
+    },
+  },
+};
+
+function describe(rule: AlertRule, t: typeof translations['en']): string {
+  switch (rule.type) {
+    case 'price_cross':
+      return `${t.types.price_cross} ${t[rule.direction]} $${rule.priceUsd}`;
+    case 'post_pnl':
+      return `${t.types.post_pnl} ${t[rule.direction]} ${rule.pnlPct}%`;
+    case 'portfolio_change':
+      return `${t.types.portfolio_change} ±${rule.changePct}%`;
+    case 'creator_sell':
+      return t.types.creator_sell;
+  }
+}
+
+export default function AlertsPanel({ analysis, language = 'ru' }: AlertsPanelProps) {
+  const t = translations[language];
+  const posts = analysis.portfolio.posts;
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [type, setType] = useState<AlertRuleType>('post_pnl');
+  const [tokenAddress, setTokenAddress] = useState<string>(posts[0]?.postTokenAddress || '');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [threshold, setThreshold] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authenticatedFetch('/api/alerts')
+      .then(res => res.json())
+      .then(data => setRules(data.rules || []))
+      .catch(err => console.warn('Failed to load alerts:', err));
+  }, []);
+
+  const buildRule = (): AlertRuleInput | null => {
+    const post = posts.find(p => p.postTokenAddress === tokenAddress);
+    const value = parseFloat(threshold);
+    const label = post?.postName;
+
+    switch (type) {
+      case 'price_cross':
+        return { type, label, tokenAddress, direction, priceUsd: value };
+      case 'post_pnl':
+        return { type, label, tokenAddress, direction, pnlPct: value, averageBuyPriceUsd: parseFloat(post?.averageBuyPrice || '0') };
+      case 'portfolio_change':
+        return {
+          type,
+          walletAddresses: analysis.addresses || [analysis.wallet.address],
+          tokenAddresses: posts.map(p => p.postTokenAddress),
+          changePct: value,
+        };
+      case 'creator_sell':
+        return { type, label, tokenAddress };
+    }
+  };
+
+  const addRule = async () => {
+    setError(null);
+    try {
+      const res = await authenticatedFetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule: buildRule() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed to create alert: ${res.status}`);
+      setRules(prev => [...prev, data.rule]);
+      setThreshold('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to create alert');
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      await authenticatedFetch(`/api/alerts?id=${id}`, { method: 'DELETE' });
+      setRules(prev => prev.filter(rule => rule.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete alert');
+    }
+  };
+
+  const needsToken = type !== 'portfolio_change';
+  const needsDirection = type === 'price_cross' || type === 'post_pnl';
+  const inputClass = 'bg-white/5 border border-white/20 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-400';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xl font-bold bg-gradient-to-r from-yellow-400 to-orange-400 bg-clip-text text-transparent">
+        🔔 {t.title}
+      </h3>
+
+      {rules.length === 0 ? (
+        <div className="text-sm text-gray-400">{t.empty}</div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between bg-white/5 rounded-xl p-3 border border-white/10">
+              <div>
+                <div className="text-sm text-white">{describe(rule, t)}</div>
+                {rule.label && <div className="text-xs text-gray-500">{rule.label}</div>}
+              </div>
+              <button onClick={() => deleteRule(rule.id)} className="text-gray-400 hover:text-red-400 px-2">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as AlertRuleType)} className={inputClass}>
+          {(Object.keys(t.types) as AlertRuleType[]).map(key => (
+            <option key={key} value={key}>{t.types[key]}</option>
+          ))}
+        </select>
+
+        {needsToken && (
+          <select value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)} className={inputClass}>
+            {posts.map(post => (
+              <option key={post.postTokenAddress} value={post.postTokenAddress}>
+                {post.postName || post.postTokenAddress.slice(0, 10)}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {type !== 'creator_sell' && (
+          <div className="flex gap-2">
+            {needsDirection && (
+              <select value={direction} onChange={(e) => setDirection(e.target.value as 'above' | 'below')} className={inputClass}>
+                <option value="above">{t.above}</option>
+                <option value="below">{t.below}</option>
+              </select>
+            )}
+            <input
+              type="number"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder={type === 'price_cross' ? `${t.threshold}, $` : `${t.threshold}, %`}
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+        )}
+
+        <button
+          onClick={addRule}
+          className="bg-gradient-to-r from-yellow-500/30 to-orange-500/30 hover:from-yellow-500/40 hover:to-orange-500/40 border border-yellow-500/50 text-yellow-200 font-semibold py-2 px-4 rounded-xl transition-all duration-200"
+        >
+          {t.add}
+        </button>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import type { AnalysisResult } from '@/lib/analyze';
+import type { CreatorCoinAnalytics, CreatorCoinInput } from '@/lib/creatorAnalytics';
+import { authenticatedFetch } from '@/lib/miniapp';
+
+interface CreatorDashboardProps {
+  analysis: AnalysisResult;
+  language?: 'ru' | 'en';
+}
+
+const translations = {
+  ru: {
+    title: 'Кабинет автора',
+    load: 'Загрузить статистику',
+    continue: 'Продолжить сканирование',
+    loading: 'Сканирование истории...',
+    noCoins: 'Нет авторских токенов',
+    coins: 'Токенов',
+    holders: 'Держатели',
+    volume: 'Объем торгов',
+    rewards: 'Награды автора',
+    creatorShare: 'У автора',
+    top10: 'Топ-10 держателей',
+    pool: 'В пуле',
+    swaps: 'Свопов',
+    topHolders: 'Крупнейшие держатели',
+    topBuyers: 'Крупнейшие покупатели',
+    creator: 'автор',
+    scanned: 'Просканировано',
+    noBuyers: 'Покупок пока нет',
+  },
+  en: {
+    title: 'Creator Dashboard',
+    load: 'Load creator stats',
+    continue: 'Continue scan',
+    loading: 'Scanning coin history...',
+    noCoins: 'No author coins',
+    coins: 'Coins',
+    holders: 'Holders',
+    volume: 'Trading Volume',
+    rewards: 'Creator Rewards',
+    creatorShare: 'Creator Holds',
+    top10: 'Top 10 Holders',
+    pool: 'In Pool',
+    swaps: 'Swaps',
+    topHolders: 'Top Holders',
+    topBuyers: 'Top Buyers',
+    creator: 'creator',
+    scanned: 'Scanned',
+    noBuyers: 'No buys yet',
+  },
+};
+
+/**
+ * Author coins of the analysis (the server finds their creation block and price)
+ */
+function creatorCoins(analysis: AnalysisResult): CreatorCoinInput[] {
+  return analysis.portfolio.posts
+    .filter(post => post.isAuthorToken)
+    .map(post => ({
+      tokenAddress: post.postTokenAddress,
+      name: post.postName,
+    }));
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+const formatUsd = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+const formatTokens = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+const formatQuote = (value: number, symbol?: string) =>
+  `${value.toLocaleString('en-US', { maximumFractionDigits: value < 1 ? 6 : 2 })} ${symbol || ''}`.trim();
+
+export default function CreatorDashboard({ analysis, language = 'ru' }: CreatorDashboardProps) {
+  const t = translations[language];
+  const coins = creatorCoins(analysis);
+  const [results, setResults] = useState<CreatorCoinAnalytics[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await authenticatedFetch('/api/creator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          addresses: analysis.addresses || [analysis.wallet.address],
+          coins,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed to load creator stats: ${res.status}`);
+      setResults(data.coins);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load creator stats');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const incomplete = results?.some(coin => !coin.complete);
+  const totals = (results || []).reduce(
+    (sum, coin) => ({
+      holders: sum.holders + coin.holderCount,
+      volume: sum.volume + coin.volumeUSD,
+      rewards: sum.rewards + coin.creatorRewardsUSD,
+    }),
+    { holders: 0, volume: 0, rewards: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold bg-gradient-to-r from-green-400 via-emerald-400 to-teal-400 bg-clip-text text-transparent">
+          ✍️ {t.title}
+        </h2>
+        {coins.length > 0 && (!results || incomplete) && (
+          <button
+            onClick={load}
+            disabled={loading}
+            className="bg-gradient-to-r from-green-500/30 to-emerald-500/30 hover:from-green-500/40 hover:to-emerald-500/40 border border-green-500/50 text-green-200 font-semibold py-2 px-4 rounded-xl transition-all duration-200 disabled:opacity-50"
+          >
+            {loading ? t.loading : results ? t.continue : t.load}
+          </button>
+        )}
+      </div>
+
+      {coins.length === 0 && <div className="text-sm text-gray-400">{t.noCoins}</div>}
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {results && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              [t.coins, results.length.toString()],
+              [t.holders, totals.holders.toLocaleString('en-US')],
+              [t.volume, formatUsd(totals.volume)],
+              [t.rewards, formatUsd(totals.rewards)],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">{label}</div>
+                <div className="text-lg font-bold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {results.map(coin => (
+            <div key={coin.tokenAddress} className="bg-white/5 rounded-2xl p-5 border border-white/10 space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="text-lg font-semibold text-white">{coin.name || shortAddress(coin.tokenAddress)}</div>
+                  <a
+                    href={`https://basescan.org/token/${coin.tokenAddress}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs font-mono text-blue-400 hover:text-blue-300"
+                  >
+                    {coin.tokenAddress}
+                  </a>
+                </div>
+                {!coin.complete && (
+                  <span className="text-xs text-yellow-300">
+                    {t.scanned} {coin.syncedBlock.toLocaleString('en-US')} / {coin.latestBlock.toLocaleString('en-US')}
+                  </span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                {[
+                  [t.holders, coin.holderCount.toLocaleString('en-US'), 'text-white'],
+                  [t.volume, `${formatUsd(coin.volumeUSD)}`, 'text-blue-300', formatQuote(coin.volumeQuote, coin.quoteSymbol)],
+                  [t.rewards, formatUsd(coin.creatorRewardsUSD), 'text-green-400', formatQuote(coin.creatorRewardsCurrency, coin.quoteSymbol)],
+                  [t.swaps, coin.swapCount.toLocaleString('en-US'), 'text-white'],
+                  [t.creatorShare, `${coin.creatorSharePct.toFixed(2)}%`, 'text-purple-300', formatTokens(coin.creatorBalance)],
+                  [t.top10, `${coin.top10SharePct.toFixed(2)}%`, 'text-white'],
+                  [t.pool, `${coin.poolSharePct.toFixed(2)}%`, 'text-gray-300'],
+                ].map(([label, value, color, detail]) => (
+                  <div key={label} className="bg-white/5 rounded-xl p-3 border border-white/10">
+                    <div className="text-xs text-gray-400 mb-1 uppercase tracking-wide">{label}</div>
+                    <div className={`text-base font-bold ${color}`}>{value}</div>
+                    {detail && <div className="text-xs text-gray-500">{detail}</div>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.topHolders}</h4>
+                  <div className="space-y-1">
+                    {coin.topHolders.map(holder => (
+                      <div key={holder.address} className="flex justify-between text-sm">
+                        <span className="font-mono text-gray-300">
+                          {shortAddress(holder.address)}
+                          {holder.isCreator && <span className="ml-2 font-sans text-xs text-purple-300">{t.creator}</span>}
+                        </span>
+                        <span className="text-white">{holder.sharePct.toFixed(2)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-2">{t.topBuyers}</h4>
+                  {coin.topBuyers.length === 0 ? (
+                    <div className="text-sm text-gray-500">{t.noBuyers}</div>
+                  ) : (
+                    <div className="space-y-1">
+                      {coin.topBuyers.map(buyer => (
+                        <div key={buyer.address} className="flex justify-between text-sm">
+                          <span className="font-mono text-gray-300">{shortAddress(buyer.address)}</span>
+                          <span className="text-white">
+                            {formatTokens(buyer.tokens)} <span className="text-gray-500">({formatUsd(buyer.usdSpent)})</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
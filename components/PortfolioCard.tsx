@@ -1,8 +1,10 @@
 import React from 'react';
 import { PortfolioAnalytics } from '@/lib/calcPnL';
+import type { WalletBreakdown } from '@/lib/analyze';
 
 interface PortfolioCardProps {
   portfolio: PortfolioAnalytics;
+  wallets?: WalletBreakdown[]; // Multi-wallet analysis: per-wallet slices of the combined portfolio
   language?: 'ru' | 'en';
 }
 
@@ -24,6 +26,17 @@ const translations = {
     invested: 'Вложено',
     totalProfit: 'Общий профит',
     totalLoss: 'Общий убыток',
+    realizedPnL: 'Реализованный PnL',
+    unrealizedPnL: 'Нереализованный PnL',
+    lots: 'лотов',
+    combined: 'Объединено кошельков',
+    byWallet: 'По кошелькам',
+    posts: 'постов',
+    internalTransfers: 'внутренних переводов',
+    rewardsIncome: 'Доход от наград',
+    rewardsIncomeDesc: 'Награды Zora автору и рефереру, не входят в PnL',
+    liquidationValue: 'Ликвидационная стоимость',
+    liquidationValueDesc: 'Если продать все позиции в их пулы прямо сейчас',
   },
   en: {
     pnl: 'PnL',
@@ -42,14 +55,29 @@ const translations = {
     invested: 'Invested',
     totalProfit: 'Total Profit',
     totalLoss: 'Total Loss',
+    realizedPnL: 'Realized PnL',
+    unrealizedPnL: 'Unrealized PnL',
+    lots: 'lots',
+    combined: 'Wallets combined',
+    byWallet: 'By Wallet',
+    posts: 'posts',
+    internalTransfers: 'internal transfers',
+    rewardsIncome: 'Rewards Income',
+    rewardsIncomeDesc: 'Zora creator and referral rewards, not included in PnL',
+    liquidationValue: 'Liquidation Value',
+    liquidationValueDesc: 'Selling every position into its pool right now',
   },
 };
 
-export default function PortfolioCard({ portfolio, language = 'ru' }: PortfolioCardProps) {
+export default function PortfolioCard({ portfolio, wallets, language = 'ru' }: PortfolioCardProps) {
   const t = translations[language];
   const totalPnL = parseFloat(portfolio.totalPnL);
   const totalPnLPct = portfolio.totalPnLPct;
   const isPositive = totalPnL >= 0;
+  const totalCurrentValue = parseFloat(portfolio.totalCurrentValue);
+  const liquidationSlippagePct = portfolio.totalLiquidationValue !== undefined && totalCurrentValue > 0
+    ? Math.max(0, (1 - parseFloat(portfolio.totalLiquidationValue) / totalCurrentValue) * 100)
+    : 0;
 
   // Calculate PnL percentage for gauge (0-100 scale, centered at 50%)
   const pnlGaugeValue = Math.min(Math.max(totalPnLPct + 50, 0), 100);
@@ -130,6 +158,9 @@ export default function PortfolioCard({ portfolio, language = 'ru' }: PortfolioC
             {totalPnL >= 0 ? '+' : ''}${totalPnL.toFixed(2)}
           </div>
           <div className="text-sm text-gray-400 font-medium uppercase tracking-wide">{t.totalProfitLoss}</div>
+          {wallets && wallets.length > 1 && (
+            <div className="text-xs text-gray-500 mt-2">{t.combined}: {wallets.length}</div>
+          )}
         </div>
       </div>
 
@@ -150,6 +181,79 @@ export default function PortfolioCard({ portfolio, language = 'ru' }: PortfolioC
         </div>
       </div>
 
+      {/* Lot accounting */}
+      {portfolio.totalRealizedPnL !== undefined && portfolio.totalUnrealizedPnL !== undefined && (
+        <div className="grid grid-cols-2 gap-4 mt-4">
+          <div className="bg-white/5 rounded-2xl p-5 border border-white/10">
+            <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">
+              {t.realizedPnL} ({portfolio.costBasisMethod?.toUpperCase()})
+            </div>
+            <div className={`text-xl font-bold ${parseFloat(portfolio.totalRealizedPnL) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {parseFloat(portfolio.totalRealizedPnL) >= 0 ? '+' : ''}${parseFloat(portfolio.totalRealizedPnL).toFixed(2)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">{portfolio.closedLotCount || 0} {t.lots}</div>
+          </div>
+
+          <div className="bg-white/5 rounded-2xl p-5 border border-white/10">
+            <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">{t.unrealizedPnL}</div>
+            <div className={`text-xl font-bold ${parseFloat(portfolio.totalUnrealizedPnL) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {parseFloat(portfolio.totalUnrealizedPnL) >= 0 ? '+' : ''}${parseFloat(portfolio.totalUnrealizedPnL).toFixed(2)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">{portfolio.openLotCount || 0} {t.lots}</div>
+          </div>
+        </div>
+      )}
+
+      {/* Hook rewards - income outside trading PnL */}
+      {parseFloat(portfolio.totalRewardsIncome || '0') > 0 && (
+        <div className="bg-gradient-to-br from-yellow-500/10 to-orange-500/10 rounded-2xl p-5 border border-yellow-500/20 mt-4">
+          <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">🎁 {t.rewardsIncome}</div>
+          <div className="text-xl font-bold text-yellow-300">+${parseFloat(portfolio.totalRewardsIncome!).toFixed(2)}</div>
+          <div className="text-xs text-gray-500 mt-1">{t.rewardsIncomeDesc}</div>
+        </div>
+      )}
+
+      {/* Exit liquidity - what the pools would actually pay vs mark-to-market */}
+      {portfolio.totalLiquidationValue !== undefined && (
+        <div className="bg-white/5 rounded-2xl p-5 border border-white/10 mt-4">
+          <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">💧 {t.liquidationValue}</div>
+          <div className="text-xl font-bold text-cyan-300">
+            ${parseFloat(portfolio.totalLiquidationValue).toFixed(2)}
+            {liquidationSlippagePct > 0 && (
+              <span className="ml-2 text-sm font-semibold text-red-400">-{liquidationSlippagePct.toFixed(1)}%</span>
+            )}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{t.liquidationValueDesc}</div>
+        </div>
+      )}
+
+      {/* Per-wallet breakdown of a combined portfolio */}
+      {wallets && wallets.length > 1 && (
+        <div className="space-y-3">
+          <div className="text-lg font-bold text-white">{t.byWallet}</div>
+          {wallets.map((wallet) => {
+            const walletPnL = parseFloat(wallet.totalPnL);
+            return (
+              <div key={wallet.address} className="flex items-center justify-between bg-white/5 rounded-2xl p-4 border border-white/10">
+                <div>
+                  <div className="font-mono text-sm text-white">{wallet.address.slice(0, 6)}...{wallet.address.slice(-4)}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {wallet.postCount} {t.posts}
+                    {wallet.internalTransfers > 0 && ` · ${wallet.internalTransfers} ${t.internalTransfers}`}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-bold text-white">${parseFloat(wallet.totalCurrentValue).toFixed(2)}</div>
+                  <div className={`text-xs font-semibold ${walletPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {walletPnL >= 0 ? '+' : ''}${walletPnL.toFixed(2)} ({wallet.totalPnLPct >= 0 ? '+' : ''}{wallet.totalPnLPct.toFixed(1)}%)
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Сегментированная статистика */}
       {portfolio.authorTokens && portfolio.purchasedTokens && (
         <div className="mt-8 space-y-6">
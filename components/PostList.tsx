@@ -3,9 +3,26 @@ import { PostAnalytics } from '@/lib/calcPnL';
 
 interface PostListProps {
   posts: PostAnalytics[];
+  detailHref?: (post: PostAnalytics) => string | undefined; // Post detail page (trade ledger), when available
+  onSelectDetail?: (post: PostAnalytics) => void; // In-page trade ledger, for posts without a detail page
+  openDetailsInNewTab?: boolean;
 }
 
-export default function PostList({ posts }: PostListProps) {
+const slippageColor = (pct: number) => pct > 10 ? 'text-red-400' : pct > 2 ? 'text-yellow-300' : 'text-gray-400';
+
+const priceProvenanceTitle = (post: PostAnalytics) => {
+  const provenance = post.priceProvenance;
+  if (!provenance) return undefined;
+  return [
+    `Source: ${provenance.source}${provenance.pool ? ` (${provenance.pool.slice(0, 10)}...)` : ''}`,
+    provenance.liquidityUSD !== undefined ? `Liquidity: $${provenance.liquidityUSD.toFixed(0)}` : '',
+    provenance.crossCheck ? `Cross-check: ${provenance.crossCheck.source} $${parseFloat(provenance.crossCheck.price).toFixed(6)}` : '',
+    provenance.confidence !== undefined ? `Confidence: ${Math.round(provenance.confidence * 100)}%` : '',
+    ...(provenance.warnings || []),
+  ].filter(Boolean).join('\n');
+};
+
+export default function PostList({ posts, detailHref, onSelectDetail, openDetailsInNewTab = false }: PostListProps) {
   if (posts.length === 0) {
     return (
       <div className="text-center py-12 text-gray-400">
@@ -28,6 +45,7 @@ export default function PostList({ posts }: PostListProps) {
         const cardGradient = isPositive
           ? 'from-green-500/5 via-transparent to-transparent'
           : 'from-red-500/5 via-transparent to-transparent';
+        const href = detailHref?.(post);
 
         return (
           <div
@@ -63,9 +81,17 @@ export default function PostList({ posts }: PostListProps) {
                 </div>
                 <div className="bg-white/5 rounded-xl p-4 border border-white/10">
                   <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">Current</div>
-                  <div className="text-base font-bold text-purple-300">
+                  <div className="text-base font-bold text-purple-300" title={priceProvenanceTitle(post)}>
                     ${parseFloat(post.currentPrice).toFixed(6)}
                   </div>
+                  {post.priceProvenance?.lowConfidence && (
+                    <div className="text-xs text-yellow-300 mt-1" title={priceProvenanceTitle(post)}>
+                      ⚠ Low confidence price
+                      {post.priceProvenance.disagreementPct !== undefined && post.priceProvenance.disagreementPct > 10 && (
+                        <span className="ml-1">(sources {post.priceProvenance.disagreementPct.toFixed(0)}% apart)</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="bg-white/5 rounded-xl p-4 border border-white/10">
                   <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">Initial Value</div>
@@ -78,15 +104,51 @@ export default function PostList({ posts }: PostListProps) {
                   <div className="text-base font-bold">
                     ${parseFloat(post.currentValue).toFixed(2)}
                   </div>
+                  {post.liquidationValue && (
+                    <div
+                      className="text-xs text-gray-400 mt-1"
+                      title={(post.exitEstimates || [])
+                        .map(exit => `Sell ${exit.sharePct}%: $${exit.valueUSD} (-${exit.slippagePct.toFixed(1)}%)${exit.filled ? '' : ', pool too shallow'}`)
+                        .join('\n')}
+                    >
+                      Liquidation: <span className="font-semibold text-white">${parseFloat(post.liquidationValue).toFixed(2)}</span>
+                      <span className={`ml-1 ${slippageColor(post.liquidationSlippagePct || 0)}`}>
+                        (-{(post.liquidationSlippagePct || 0).toFixed(1)}%)
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
               <div className="flex justify-between items-center text-sm mb-3">
                 <span className="text-gray-400">
                   PnL: <span className={`font-bold ${pnlColor}`}>{parseFloat(post.pnl) >= 0 ? '+' : ''}${parseFloat(post.pnl).toFixed(2)}</span>
+                  {post.rewardsIncome && (
+                    <span className="ml-3">
+                      Rewards: <span className="font-bold text-yellow-300">+${parseFloat(post.rewardsIncome).toFixed(2)}</span>
+                    </span>
+                  )}
                 </span>
                 <span className="text-gray-400">
                   <span className="text-blue-400 font-semibold">{post.buyCount}</span> buys • <span className="text-purple-400 font-semibold">{post.sellCount}</span> sells
+                  {href && (
+                    <a
+                      href={href}
+                      target={openDetailsInNewTab ? '_blank' : undefined}
+                      rel={openDetailsInNewTab ? 'noopener noreferrer' : undefined}
+                      className="ml-3 text-blue-400 hover:text-blue-300 font-semibold"
+                    >
+                      Trades →
+                    </a>
+                  )}
+                  {!href && onSelectDetail && (
+                    <button
+                      onClick={() => onSelectDetail(post)}
+                      className="ml-3 text-blue-400 hover:text-blue-300 font-semibold"
+                    >
+                      Trades →
+                    </button>
+                  )}
                 </span>
               </div>
 
@@ -0,0 +1,106 @@
+import React from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LedgerEntry } from '@/lib/tradeLedger';
+
+interface PostPriceChartProps {
+  ledger: LedgerEntry[];
+  currentPrice: number; // USD
+}
+
+interface PricePoint {
+  timestamp: number; // ms
+  price: number;
+  buy?: number;
+  sell?: number;
+}
+
+export default function PostPriceChart({ ledger, currentPrice }: PostPriceChartProps) {
+  // Execution prices of the wallet's own trades, then the current price (same samples as TradePriceSource)
+  const data: PricePoint[] = ledger
+    .filter(entry => (entry.side === 'buy' || entry.side === 'sell') && entry.pricePerTokenUSD > 0)
+    .map(entry => ({
+      timestamp: entry.timestamp * 1000,
+      price: entry.pricePerTokenUSD,
+      [entry.side]: entry.pricePerTokenUSD,
+    }));
+  if (currentPrice > 0) {
+    data.push({ timestamp: Date.now(), price: currentPrice });
+  }
+
+  const formatPrice = (value: number) => `$${value < 0.01 ? value.toPrecision(3) : value.toFixed(4)}`;
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+  if (data.length === 0) {
+    return (
+      <div className="h-80 flex items-center justify-center text-gray-400 text-sm">
+        No priced trades for this post
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="h-80 w-full min-h-[320px] min-w-[0]">
+        <ResponsiveContainer width="100%" height="100%" minHeight={320} minWidth={0}>
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatDate}
+              stroke="rgba(255, 255, 255, 0.5)"
+              style={{ fontSize: '12px' }}
+            />
+            <YAxis
+              tickFormatter={formatPrice}
+              stroke="rgba(255, 255, 255, 0.5)"
+              style={{ fontSize: '12px' }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'rgba(13, 15, 20, 0.95)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '8px',
+                color: '#fff',
+              }}
+              formatter={(value: any) => formatPrice(value)}
+              labelFormatter={(label) => `Date: ${formatDate(label)}`}
+            />
+
+            {/* Price Line */}
+            <Line
+              type="linear"
+              dataKey="price"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={false}
+              name="Price"
+            />
+
+            {/* Trade Markers */}
+            <Scatter dataKey="buy" fill="#10b981" name="Buy" />
+            <Scatter dataKey="sell" fill="#ef4444" name="Sell" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Legend */}
+      <div className="flex justify-center gap-6 mt-4 text-sm">
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-0.5 bg-blue-400"></div>
+          <span className="text-gray-400">Price</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-2.5 h-2.5 rounded-full bg-green-500"></div>
+          <span className="text-gray-400">Buy</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-2.5 h-2.5 rounded-full bg-red-500"></div>
+          <span className="text-gray-400">Sell</span>
+        </div>
+      </div>
+    </div>
+  );
+}
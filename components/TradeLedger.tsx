@@ -0,0 +1,130 @@
+import React from 'react';
+import { LedgerEntry } from '@/lib/tradeLedger';
+
+interface TradeLedgerProps {
+  ledger: LedgerEntry[];
+  language?: 'ru' | 'en';
+}
+
+const translations = {
+  ru: {
+    date: 'Дата',
+    tx: 'Транзакция',
+    side: 'Тип',
+    amount: 'Токенов',
+    paid: 'ETH / USD',
+    price: 'Цена за токен',
+    position: 'Позиция',
+    realizedPnL: 'Реализованный PnL',
+    buy: 'Покупка',
+    sell: 'Продажа',
+    mint: 'Минт',
+    transfer_in: 'Перевод (вход)',
+    transfer_out: 'Перевод (выход)',
+    estimated: 'оценка',
+    noTrades: 'Нет сделок по этому посту',
+  },
+  en: {
+    date: 'Date',
+    tx: 'Transaction',
+    side: 'Side',
+    amount: 'Tokens',
+    paid: 'ETH / USD',
+    price: 'Price per Token',
+    position: 'Position',
+    realizedPnL: 'Realized PnL',
+    buy: 'Buy',
+    sell: 'Sell',
+    mint: 'Mint',
+    transfer_in: 'Transfer in',
+    transfer_out: 'Transfer out',
+    estimated: 'estimated',
+    noTrades: 'No trades for this post',
+  },
+};
+
+const sideStyles: Record<LedgerEntry['side'], string> = {
+  buy: 'bg-green-500/20 text-green-300 border-green-500/50',
+  sell: 'bg-red-500/20 text-red-300 border-red-500/50',
+  mint: 'bg-purple-500/20 text-purple-300 border-purple-500/50',
+  transfer_in: 'bg-blue-500/20 text-blue-300 border-blue-500/50',
+  transfer_out: 'bg-gray-500/20 text-gray-300 border-gray-500/50',
+};
+
+export default function TradeLedger({ ledger, language = 'ru' }: TradeLedgerProps) {
+  const t = translations[language];
+
+  if (ledger.length === 0) {
+    return <div className="text-center py-12 text-gray-400">{t.noTrades}</div>;
+  }
+
+  const formatTokens = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  const formatPrice = (value: number) => `$${value < 0.01 ? value.toPrecision(3) : value.toFixed(4)}`;
+  // Mints and transfers move tokens without paying for them
+  const isTrade = (entry: LedgerEntry) => entry.side === 'buy' || entry.side === 'sell';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase tracking-wide border-b border-white/10">
+            <th className="py-3 pr-4 font-medium">{t.date}</th>
+            <th className="py-3 pr-4 font-medium">{t.tx}</th>
+            <th className="py-3 pr-4 font-medium">{t.side}</th>
+            <th className="py-3 pr-4 font-medium text-right">{t.amount}</th>
+            <th className="py-3 pr-4 font-medium text-right">{t.paid}</th>
+            <th className="py-3 pr-4 font-medium text-right">{t.price}</th>
+            <th className="py-3 pr-4 font-medium text-right">{t.position}</th>
+            <th className="py-3 font-medium text-right">{t.realizedPnL}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.map((entry, index) => (
+            <tr key={`${entry.hash}-${index}`} className="border-b border-white/5 hover:bg-white/5">
+              <td className="py-3 pr-4 text-gray-300 whitespace-nowrap">
+                {new Date(entry.timestamp * 1000).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US')}
+              </td>
+              <td className="py-3 pr-4 font-mono">
+                <a
+                  href={`https://basescan.org/tx/${entry.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  {entry.hash.slice(0, 8)}...{entry.hash.slice(-6)}
+                </a>
+              </td>
+              <td className="py-3 pr-4">
+                <span className={`px-2 py-1 rounded-lg text-xs font-semibold border ${sideStyles[entry.side]}`}>
+                  {t[entry.side]}
+                </span>
+              </td>
+              <td className="py-3 pr-4 text-right">{formatTokens(entry.tokenAmount)}</td>
+              <td className="py-3 pr-4 text-right whitespace-nowrap">
+                {!isTrade(entry) ? '—' : (
+                  <>
+                    <div>{entry.ethAmount.toFixed(6)} ETH</div>
+                    <div
+                      className="text-xs text-gray-400"
+                      title={entry.ethPriceUSD > 0 ? `ETH/USD $${entry.ethPriceUSD.toFixed(2)}` : undefined}
+                    >
+                      ${entry.usdAmount.toFixed(2)}{entry.quoteCurrency === 'USDC' ? ' USDC' : ''}
+                      {entry.priceSource === 'heuristic' && ` (${t.estimated})`}
+                    </div>
+                  </>
+                )}
+              </td>
+              <td className="py-3 pr-4 text-right">
+                {!isTrade(entry) ? '—' : formatPrice(entry.pricePerTokenUSD)}
+              </td>
+              <td className="py-3 pr-4 text-right">{formatTokens(entry.position)}</td>
+              <td className={`py-3 text-right font-semibold ${entry.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {entry.realizedPnL >= 0 ? '+' : '-'}${Math.abs(entry.realizedPnL).toFixed(2)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+import { ethers } from 'ethers';
+import { KeyValueStore, getSharedStore } from './storage';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { PostPriceService } from './getPostPrice';
+import { PnLCalculator } from './calcPnL';
+import { EthUsdOracle } from './ethUsdOracle';
+import { inspectTokens, TokenInspection } from './multicall';
+import { NotificationSender, NotificationStore } from './notifications';
+import { CoinAuthorshipDetector } from './coinAuthorship';
+import { UNISWAP_V4_POOL_MANAGER } from './uniswapV4Detector';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Where a notification tap lands (the Mini App home URL from the manifest)
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://post-screen.vercel.app';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Portfolio samples are kept a bit longer than the 24h comparison window
+const SAMPLE_RETENTION_MS = DAY_MS + 2 * 60 * 60 * 1000;
+// Max blocks scanned per evaluation for creator sells (~2.7h of Base blocks)
+const MAX_LOG_RANGE = 5000;
+export const MAX_ALERTS_PER_FID = 20;
+// One run stays well inside the cron function's 60s; rules left over go first next run
+const EVALUATION_BUDGET_MS = 40 * 1000;
+const MAX_PRICED_TOKENS_PER_RUN = 250;
+
+export type AlertRuleType = 'price_cross' | 'post_pnl' | 'portfolio_change' | 'creator_sell';
+export type AlertDirection = 'above' | 'below';
+
+/**
+ * What the evaluator remembers between runs
+ */
+export interface AlertRuleState {
+  lastCheckedAt?: number; // ms
+  lastValue?: number; // Price (USD) or PnL % at the last check - crossings are transitions from it
+  lastTriggeredAt?: number; // ms
+  lastBlock?: number; // creator_sell: logs are scanned after this block
+  samples?: { t: number; v: number }[]; // portfolio_change: USD value over the last day
+  parkedAt?: number; // ms - the owner had no notification token; the rule starts over once they do
+}
+
+interface AlertRuleBase {
+  id: string;
+  fid: number;
+  createdAt: number; // ms
+  label?: string; // Token symbol or post name shown in notifications
+  state: AlertRuleState;
+}
+
+export interface PriceCrossRule extends AlertRuleBase {
+  type: 'price_cross';
+  tokenAddress: string;
+  direction: AlertDirection;
+  priceUsd: number;
+}
+
+/**
+ * PnL % of a held post against the average buy price from the user's analysis
+ */
+export interface PostPnLRule extends AlertRuleBase {
+  type: 'post_pnl';
+  tokenAddress: string;
+  averageBuyPriceUsd: number;
+  direction: AlertDirection;
+  pnlPct: number;
+}
+
+/**
+ * Value of the given wallets' post tokens moved by more than changePct over 24h
+ */
+export interface PortfolioChangeRule extends AlertRuleBase {
+  type: 'portfolio_change';
+  walletAddresses: string[];
+  tokenAddresses: string[];
+  changePct: number;
+}
+
+/**
+ * The coin's creator sold author tokens into the coin's pool
+ * The creator is read from the coin itself (owners and payout recipient) on every run,
+ * never taken from the client
+ */
+export interface CreatorSellRule extends AlertRuleBase {
+  type: 'creator_sell';
+  tokenAddress: string;
+}
+
+export type AlertRule = PriceCrossRule | PostPnLRule | PortfolioChangeRule | CreatorSellRule;
+
+// Rule as submitted by the client - id, owner and state are assigned by the store
+type WithoutStoreFields<T> = T extends AlertRule ? Omit<T, 'id' | 'fid' | 'createdAt' | 'state'> : never;
+export type AlertRuleInput = WithoutStoreFields<AlertRule>;
+
+export interface AlertEvaluationSummary {
+  rules: number;
+  triggered: number;
+  notified: number; // Notifications the client accepted
+  deferred: number; // Rules left for the next run (time or pricing budget used up)
+  parked: number; // Rules not evaluated because their owner has notifications off
+  errors: number;
+}
+
+interface TriggeredAlert {
+  title: string;
+  body: string;
+}
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === 'string' && /^0x[a-fA-F0-9]{40}$/.test(value);
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+const isDirection = (value: unknown): value is AlertDirection => value === 'above' || value === 'below';
+
+/**
+ * Check a client-submitted rule; returns an error message or null
+ */
+export function validateAlertRule(input: any): string | null {
+  if (!input || typeof input !== 'object') return 'Rule is required';
+  if (input.label !== undefined && (typeof input.label !== 'string' || input.label.length > 64)) return 'Invalid label';
+
+  switch (input.type) {
+    case 'price_cross':
+      if (!isAddress(input.tokenAddress)) return 'Invalid token address';
+      if (!isDirection(input.direction)) return 'Direction must be above or below';
+      if (!isPositive(input.priceUsd)) return 'Price must be a positive number';
+      return null;
+    case 'post_pnl':
+      if (!isAddress(input.tokenAddress)) return 'Invalid token address';
+      if (!isDirection(input.direction)) return 'Direction must be above or below';
+      if (!isPositive(input.averageBuyPriceUsd)) return 'Average buy price must be a positive number';
+      if (typeof input.pnlPct !== 'number' || !isFinite(input.pnlPct)) return 'PnL threshold must be a number';
+      return null;
+    case 'portfolio_change':
+      if (!Array.isArray(input.walletAddresses) || input.walletAddresses.length === 0 || input.walletAddresses.length > 5 || !input.walletAddresses.every(isAddress)) {
+        return 'Between 1 and 5 valid wallet addresses are required';
+      }
+      if (!Array.isArray(input.tokenAddresses) || input.tokenAddresses.length === 0 || input.tokenAddresses.length > 200 || !input.tokenAddresses.every(isAddress)) {
+        return 'Between 1 and 200 valid token addresses are required';
+      }
+      if (!isPositive(input.changePct)) return 'Change threshold must be a positive number';
+      return null;
+    case 'creator_sell':
+      if (!isAddress(input.tokenAddress)) return 'Invalid token address';
+      return null;
+    default:
+      return 'Unknown rule type';
+  }
+}
+
+/**
+ * Alert rules per FID in the shared key-value store
+ */
+export class AlertStore {
+  private store: KeyValueStore;
+
+  constructor(store?: KeyValueStore) {
+    this.store = store || getSharedStore('Alert rules');
+  }
+
+  private key(fid: number, id: string): string {
+    return `alerts:${fid}:${id}`;
+  }
+
+  async create(fid: number, input: AlertRuleInput): Promise<AlertRule> {
+    // Only the fields of the rule type are kept from client input
+    const fields = ((): AlertRuleInput => {
+      switch (input.type) {
+        case 'price_cross':
+          return { type: input.type, label: input.label, tokenAddress: input.tokenAddress, direction: input.direction, priceUsd: input.priceUsd };
+        case 'post_pnl':
+          return { type: input.type, label: input.label, tokenAddress: input.tokenAddress, averageBuyPriceUsd: input.averageBuyPriceUsd, direction: input.direction, pnlPct: input.pnlPct };
+        case 'portfolio_change':
+          return { type: input.type, label: input.label, walletAddresses: input.walletAddresses, tokenAddresses: input.tokenAddresses, changePct: input.changePct };
+        case 'creator_sell':
+          return { type: input.type, label: input.label, tokenAddress: input.tokenAddress };
+      }
+    })();
+    const rule = {
+      ...fields,
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      fid,
+      createdAt: Date.now(),
+      state: {},
+    } as AlertRule;
+    await this.store.set(this.key(fid, rule.id), rule);
+    return rule;
+  }
+
+  async update(rule: AlertRule): Promise<void> {
+    await this.store.set(this.key(rule.fid, rule.id), rule);
+  }
+
+  async delete(fid: number, id: string): Promise<void> {
+    await this.store.delete(this.key(fid, id));
+  }
+
+  async list(fid: number): Promise<AlertRule[]> {
+    return this.load(await this.store.keys(`alerts:${fid}:`));
+  }
+
+  async listAll(): Promise<AlertRule[]> {
+    return this.load(await this.store.keys('alerts:'));
+  }
+
+  private async load(keys: string[]): Promise<AlertRule[]> {
+    const rules = await Promise.all(keys.map(key => this.store.get<AlertRule>(key)));
+    return rules
+      .filter((rule): rule is AlertRule => !!rule)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+export interface AlertEvaluatorOptions {
+  store?: AlertStore;
+  notifications?: NotificationStore;
+  sender?: NotificationSender;
+  chainData?: ChainDataProvider;
+  coinGeckoApiKey?: string;
+}
+
+/**
+ * Scheduled evaluation of the stored rules, least recently checked first: tokens
+ * are priced through PostPriceService as rules need them and every rule's state is
+ * saved as soon as it is evaluated, so a run cut short by its budget loses nothing.
+ * Alerts that fire together go to their owner as one notification. Rules of users
+ * with notifications off are parked instead of evaluated - nothing could reach them
+ */
+export class AlertEvaluator {
+  private store: AlertStore;
+  private notifications: NotificationStore;
+  private sender: NotificationSender;
+  private chainData: ChainDataProvider;
+  private priceService: PostPriceService;
+  private pnlCalculator: PnLCalculator;
+  private authorship: CoinAuthorshipDetector;
+  private ethPriceUSD: Promise<number> | null = null;
+
+  constructor(options: AlertEvaluatorOptions = {}) {
+    this.store = options.store || new AlertStore();
+    this.notifications = options.notifications || new NotificationStore();
+    this.sender = options.sender || new NotificationSender(this.notifications);
+    this.chainData = options.chainData || createDefaultChainDataProvider();
+    const ethUsd = new EthUsdOracle(this.chainData, { coinGeckoApiKey: options.coinGeckoApiKey });
+    this.priceService = new PostPriceService(options.coinGeckoApiKey, this.chainData, ethUsd);
+    this.pnlCalculator = new PnLCalculator(ethUsd);
+    this.authorship = new CoinAuthorshipDetector(this.chainData);
+  }
+
+  async evaluateAll(now: number = Date.now()): Promise<AlertEvaluationSummary> {
+    const startedAt = Date.now();
+    const allRules = await this.store.listAll();
+    const summary: AlertEvaluationSummary = { rules: allRules.length, triggered: 0, notified: 0, deferred: 0, parked: 0, errors: 0 };
+    if (allRules.length === 0) {
+      return summary;
+    }
+
+    const subscribed = new Set((await this.notifications.list()).map(subscription => subscription.fid));
+    const rules: AlertRule[] = [];
+    for (const rule of allRules) {
+      if (subscribed.has(rule.fid)) {
+        // Back from parking: a baseline from before the break would fire on stale history
+        if (rule.state.parkedAt !== undefined) rule.state = {};
+        rules.push(rule);
+        continue;
+      }
+      summary.parked++;
+      if (rule.state.parkedAt === undefined) {
+        rule.state = { parkedAt: now };
+        await this.store.update(rule);
+      }
+    }
+    rules.sort((a, b) => (a.state.lastCheckedAt || 0) - (b.state.lastCheckedAt || 0));
+
+    const watchedTokens = Array.from(new Set(rules
+      .filter((rule): rule is Exclude<AlertRule, PortfolioChangeRule> => rule.type !== 'portfolio_change')
+      .map(rule => rule.tokenAddress.toLowerCase())));
+    const metadata = await inspectTokens(this.chainData, watchedTokens);
+    const latestBlock = rules.some(rule => rule.type === 'creator_sell')
+      ? await this.chainData.getBlockNumber()
+      : 0;
+
+    const prices = new Map<string, number | null>();
+    // Triggered rules wait for their owner's notification before their state is saved
+    const triggeredByFid = new Map<number, { rule: AlertRule; previousState: AlertRuleState; alert: TriggeredAlert }[]>();
+
+    for (const rule of rules) {
+      if (Date.now() - startedAt > EVALUATION_BUDGET_MS) {
+        summary.deferred++;
+        continue;
+      }
+
+      const needed = this.pricedTokens(rule).filter(token => !prices.has(token));
+      if (needed.length > 0 && prices.size > 0 && prices.size + needed.length > MAX_PRICED_TOKENS_PER_RUN) {
+        summary.deferred++;
+        continue;
+      }
+
+      try {
+        await this.priceTokens(needed, prices);
+        const previousState: AlertRuleState = JSON.parse(JSON.stringify(rule.state));
+        const triggered = await this.evaluateRule(rule, prices, metadata, latestBlock, now);
+        rule.state.lastCheckedAt = now;
+        if (triggered) {
+          summary.triggered++;
+          triggeredByFid.set(rule.fid, [...(triggeredByFid.get(rule.fid) || []), { rule, previousState, alert: triggered }]);
+        } else {
+          await this.store.update(rule);
+        }
+      } catch (error) {
+        summary.errors++;
+        console.warn(`Alert ${rule.id} (${rule.type}, FID ${rule.fid}) failed:`, error);
+      }
+    }
+
+    for (const [fid, triggered] of triggeredByFid.entries()) {
+      try {
+        summary.notified += await this.notify(fid, triggered, now);
+      } catch (error) {
+        summary.errors++;
+        console.warn(`Alert notification for FID ${fid} failed:`, error);
+      }
+    }
+
+    console.log(`🔔 Alerts: ${summary.rules} rules, ${summary.triggered} triggered, ${summary.notified} notifications delivered, ${summary.deferred} deferred, ${summary.parked} parked, ${summary.errors} errors`);
+    return summary;
+  }
+
+  /**
+   * One notification for everything that fired for the FID (clients allow one per 30s).
+   * Rules only advance when it was delivered - otherwise their previous state is kept
+   * and the same crossing fires again on the next run
+   */
+  private async notify(
+    fid: number,
+    triggered: { rule: AlertRule; previousState: AlertRuleState; alert: TriggeredAlert }[],
+    now: number
+  ): Promise<number> {
+    const [first] = triggered;
+    const result = await this.sender.sendToFid(fid, {
+      notificationId: triggered.length === 1 ? `alert-${first.rule.id}-${now}` : `alerts-${fid}-${now}`,
+      title: triggered.length === 1 ? first.alert.title : `${triggered.length} alerts triggered`,
+      body: triggered.length === 1 ? first.alert.body : triggered.map(t => t.alert.title).join(' • '),
+      targetUrl: APP_URL,
+    });
+
+    for (const { rule, previousState } of triggered) {
+      if (result.delivered > 0) {
+        rule.state.lastTriggeredAt = now;
+      } else {
+        rule.state = { ...previousState, lastCheckedAt: now };
+      }
+      await this.store.update(rule);
+    }
+    return result.delivered;
+  }
+
+  private pricedTokens(rule: AlertRule): string[] {
+    switch (rule.type) {
+      case 'portfolio_change':
+        return Array.from(new Set(rule.tokenAddresses.map(token => token.toLowerCase())));
+      case 'creator_sell':
+        return [];
+      default:
+        return [rule.tokenAddress.toLowerCase()];
+    }
+  }
+
+  /**
+   * Add USD prices for the tokens to the run's price map (null when unpriced)
+   */
+  private async priceTokens(tokens: string[], prices: Map<string, number | null>): Promise<void> {
+    const BATCH_SIZE = 5;
+    for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
+      await Promise.all(tokens.slice(i, i + BATCH_SIZE).map(async token => {
+        prices.set(token, null);
+        try {
+          const priceData = await this.priceService.getPostPrice(undefined, token);
+          let price = parseFloat(priceData.price || '0');
+          if (!priceData.isUSD && price > 0) {
+            this.ethPriceUSD = this.ethPriceUSD || this.pnlCalculator.getETHPrice();
+            price *= await this.ethPriceUSD;
+          }
+          if (isFinite(price) && price > 0) prices.set(token, price);
+        } catch (error) {
+          console.warn(`Alert pricing failed for ${token}:`, error);
+        }
+      }));
+    }
+  }
+
+  private async evaluateRule(
+    rule: AlertRule,
+    prices: Map<string, number | null>,
+    metadata: Map<string, TokenInspection>,
+    latestBlock: number,
+    now: number
+  ): Promise<TriggeredAlert | null> {
+    const name = (token: string) => rule.label || (metadata.get(token.toLowerCase())?.symbol ? `$${metadata.get(token.toLowerCase())!.symbol}` : `${token.slice(0, 8)}...`);
+
+    switch (rule.type) {
+      case 'price_cross': {
+        const price = prices.get(rule.tokenAddress.toLowerCase());
+        if (!price) return null;
+        const crossed = this.crossed(rule.state.lastValue, price, rule.priceUsd, rule.direction);
+        rule.state.lastValue = price;
+        return crossed
+          ? {
+              title: `${name(rule.tokenAddress)} ${rule.direction} $${rule.priceUsd}`,
+              body: `${name(rule.tokenAddress)} is now $${price.toPrecision(4)} (${rule.direction} your $${rule.priceUsd} alert)`,
+            }
+          : null;
+      }
+
+      case 'post_pnl': {
+        const price = prices.get(rule.tokenAddress.toLowerCase());
+        if (!price) return null;
+        const pnlPct = (price / rule.averageBuyPriceUsd - 1) * 100;
+        const crossed = this.crossed(rule.state.lastValue, pnlPct, rule.pnlPct, rule.direction);
+        rule.state.lastValue = pnlPct;
+        return crossed
+          ? {
+              title: `${name(rule.tokenAddress)} PnL ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(1)}%`,
+              body: `Your position in ${name(rule.tokenAddress)} went ${rule.direction} ${rule.pnlPct}% PnL (price $${price.toPrecision(4)})`,
+            }
+          : null;
+      }
+
+      case 'portfolio_change': {
+        const value = await this.portfolioValue(rule, prices);
+        if (value === null) return null; // A held token has no price this run - a partial sum would look like a crash
+        const samples = [...(rule.state.samples || []), { t: now, v: value }].filter(s => now - s.t <= SAMPLE_RETENTION_MS);
+        rule.state.samples = samples;
+        rule.state.lastValue = value;
+
+        // Oldest sample at least a day old; no comparison until the rule has a day of history
+        const base = samples.filter(s => now - s.t >= DAY_MS).pop();
+        if (!base || base.v <= 0) return null;
+        const changePct = (value / base.v - 1) * 100;
+        const recentlyTriggered = rule.state.lastTriggeredAt !== undefined && now - rule.state.lastTriggeredAt < DAY_MS;
+        if (Math.abs(changePct) < rule.changePct || recentlyTriggered) return null;
+        return {
+          title: `Portfolio ${changePct >= 0 ? '+' : ''}${changePct.toFixed(1)}% in 24h`,
+          body: `Your post tokens are worth $${value.toFixed(2)} (was $${base.v.toFixed(2)} 24h ago)`,
+        };
+      }
+
+      case 'creator_sell': {
+        // First run only records where to start - history before the rule is not news
+        const fromBlock = rule.state.lastBlock !== undefined
+          ? Math.max(rule.state.lastBlock + 1, latestBlock - MAX_LOG_RANGE)
+          : latestBlock;
+        rule.state.lastBlock = latestBlock;
+        if (fromBlock >= latestBlock) return null;
+
+        const creators = await this.authorship.getCreators(rule.tokenAddress);
+        if (creators.length === 0) return null;
+
+        // A sale pays the tokens into the V4 PoolManager; gifts and moves between wallets go elsewhere
+        const logs = await this.chainData.getLogs({
+          address: rule.tokenAddress,
+          topics: [
+            TRANSFER_TOPIC,
+            creators.map(creator => ethers.zeroPadValue(creator, 32)),
+            ethers.zeroPadValue(UNISWAP_V4_POOL_MANAGER.toLowerCase(), 32),
+          ],
+          fromBlock,
+          toBlock: latestBlock,
+        });
+        if (logs.length === 0) return null;
+
+        const amount = logs.reduce((sum, log) => sum + BigInt(log.data === '0x' ? 0 : log.data), 0n);
+        const decimals = metadata.get(rule.tokenAddress.toLowerCase())?.decimals ?? 18;
+        return {
+          title: `Creator sold ${name(rule.tokenAddress)}`,
+          body: `The creator sold ${parseFloat(ethers.formatUnits(amount, decimals)).toLocaleString('en-US')} ${name(rule.tokenAddress)} into its pool`,
+        };
+      }
+    }
+  }
+
+  /**
+   * True when value moved to the other side of the threshold since the last check
+   */
+  private crossed(previous: number | undefined, value: number, threshold: number, direction: AlertDirection): boolean {
+    if (previous === undefined) return false; // First check only sets the baseline
+    return direction === 'above'
+      ? previous < threshold && value >= threshold
+      : previous > threshold && value <= threshold;
+  }
+
+  private async portfolioValue(rule: PortfolioChangeRule, prices: Map<string, number | null>): Promise<number | null> {
+    let value = 0;
+    let complete = true;
+    for (const wallet of rule.walletAddresses) {
+      const holdings = await inspectTokens(this.chainData, rule.tokenAddresses, wallet);
+      holdings.forEach((inspection, token) => {
+        if (!inspection.balance) return;
+        const price = prices.get(token);
+        if (!price) {
+          complete = false;
+          return;
+        }
+        value += parseFloat(ethers.formatUnits(inspection.balance, inspection.decimals ?? 18)) * price;
+      });
+    }
+    return complete ? value : null;
+  }
+}
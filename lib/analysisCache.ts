@@ -0,0 +1,127 @@
+import { Transaction, WalletData, WalletSyncState } from './wallet';
+import { ReconstructedTrade } from './tradeReconstruction';
+import { KeyValueStore, getDefaultStore } from './storage';
+
+// 2: trades decoded from the wallet's own swaps only (earlier entries summed every swap in the tx)
+// 3: multi-hop routes followed to their ETH/USDC leg, quote decimals kept for other quotes
+// 4: cached transfers carry their log index (transfers are deduplicated by hash and log index)
+const CACHE_VERSION = 4;
+
+// Negative classifications are re-checked after a day (RPC errors look like "not a BaseApp token")
+const NEGATIVE_CLASSIFICATION_TTL = 24 * 60 * 60 * 1000;
+
+export interface TokenClassification {
+  isBaseApp: boolean;
+  checkedAt: number; // ms
+}
+
+export type SerializedTrade = Omit<ReconstructedTrade, 'tokenAmount' | 'quoteAmount'> & {
+  tokenAmount: string;
+  quoteAmount: string;
+};
+
+export interface CachedTokenHistory {
+  lastBlock: number; // Transfers are complete up to this block
+  transfers: Transaction[]; // Token transfer events (findTokenTransactions format)
+  trades: Record<string, SerializedTrade>; // By lowercased tx hash
+}
+
+export interface WalletCacheEntry {
+  version: number;
+  address: string;
+  updatedAt: number; // ms
+  wallet: WalletSyncState;
+  classifications: Record<string, TokenClassification>; // By lowercased token address
+  tokens: Record<string, CachedTokenHistory>; // By lowercased token address
+}
+
+export function serializeTrade(trade: ReconstructedTrade): SerializedTrade {
+  return {
+    ...trade,
+    tokenAmount: trade.tokenAmount.toString(),
+    quoteAmount: trade.quoteAmount.toString(),
+  };
+}
+
+export function deserializeTrade(trade: SerializedTrade): ReconstructedTrade {
+  return {
+    ...trade,
+    tokenAmount: BigInt(trade.tokenAmount),
+    quoteAmount: BigInt(trade.quoteAmount),
+  };
+}
+
+/**
+ * Per-wallet analysis state persisted between runs: sync position, token
+ * classification and per-token transfers/trades, so a repeat analysis only
+ * fetches what happened after the last analyzed block
+ */
+export class AnalysisCache {
+  private store: KeyValueStore;
+
+  constructor(store?: KeyValueStore) {
+    this.store = store || getDefaultStore();
+  }
+
+  private key(address: string): string {
+    return `wallet:${address.toLowerCase()}`;
+  }
+
+  async load(address: string): Promise<WalletCacheEntry | null> {
+    try {
+      const entry = await this.store.get<WalletCacheEntry>(this.key(address));
+      if (!entry || entry.version !== CACHE_VERSION) {
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      console.warn(`Analysis cache read failed for ${address}:`, error);
+      return null;
+    }
+  }
+
+  async save(entry: WalletCacheEntry): Promise<void> {
+    try {
+      entry.updatedAt = Date.now();
+      await this.store.set(this.key(entry.address), entry);
+    } catch (error) {
+      // Cache is an optimization - never fail the analysis because of it
+      console.warn(`Analysis cache write failed for ${entry.address}:`, error);
+    }
+  }
+
+  async clear(address: string): Promise<void> {
+    await this.store.delete(this.key(address));
+  }
+
+  /**
+   * Fresh entry for a wallet, keeping classifications and token histories from a previous one
+   * The wallet state is copied: the analysis goes on to overwrite walletData's balances with
+   * balanceOf() at latest, and the next sync applies transfers after lastBlock on top of the
+   * cached balances - they have to stay the ones as of lastBlock
+   */
+  static createEntry(address: string, walletData: WalletData, previous?: WalletCacheEntry | null): WalletCacheEntry {
+    return {
+      version: CACHE_VERSION,
+      address: address.toLowerCase(),
+      updatedAt: Date.now(),
+      wallet: {
+        lastBlock: walletData.lastBlock || 0,
+        tokens: walletData.tokens.map(token => ({ ...token })),
+        transactions: [...walletData.transactions],
+      },
+      classifications: previous?.classifications || {},
+      tokens: previous?.tokens || {},
+    };
+  }
+
+  /**
+   * Cached classification if still valid (positives never expire)
+   */
+  static getClassification(entry: WalletCacheEntry | null, tokenAddress: string, now: number = Date.now()): boolean | undefined {
+    const cached = entry?.classifications[tokenAddress.toLowerCase()];
+    if (!cached) return undefined;
+    if (!cached.isBaseApp && now - cached.checkedAt > NEGATIVE_CLASSIFICATION_TTL) return undefined;
+    return cached.isBaseApp;
+  }
+}
@@ -0,0 +1,81 @@
+import { MAX_WALLETS_PER_ANALYSIS } from './analyze';
+import { FarcasterResolver } from './farcaster';
+import { COST_BASIS_METHODS, CostBasisMethod } from './lotAccounting';
+
+/**
+ * What an analysis request body asks for, validated
+ */
+export interface AnalysisRequest {
+  walletAddresses: string[];
+  farcasterUsername?: string; // When the wallets came from a Farcaster account
+  costBasisMethod?: CostBasisMethod;
+  refresh: boolean;
+}
+
+export type AnalysisRequestResult =
+  | { ok: true; request: AnalysisRequest }
+  | { ok: false; status: 400 | 404; error: string };
+
+/**
+ * Wallets to analyze from a /api/analyze or /api/analyzeStream body: `address` or
+ * `addresses`, plus the verified and custody addresses of `fid` / `username`
+ */
+export async function resolveAnalysisRequest(body: any): Promise<AnalysisRequestResult> {
+  const { address, addresses, fid, username, costBasisMethod, refresh } = body || {};
+
+  // Several owned wallets can be analyzed as one portfolio
+  const walletAddresses: string[] = Array.isArray(addresses) && addresses.length > 0 ? [...addresses] : (address ? [address] : []);
+
+  // A Farcaster account stands for its verified and custody addresses
+  let farcasterUsername: string | undefined;
+  const hasFid = fid !== undefined && fid !== null && fid !== '';
+  const hasFarcasterAccount = hasFid || !!username;
+  if (hasFarcasterAccount) {
+    if (hasFid && !/^\d+$/.test(String(fid))) {
+      return { ok: false, status: 400, error: 'Invalid FID' };
+    }
+    const identity = await new FarcasterResolver().resolve(hasFid ? Number(fid) : String(username));
+    const linked = identity ? FarcasterResolver.addressesOf(identity) : [];
+    if (linked.length === 0) {
+      return { ok: false, status: 404, error: 'No Ethereum addresses linked to this Farcaster account' };
+    }
+    console.log(`Farcaster FID ${identity!.fid} (@${identity!.username || '?'}): ${linked.length} linked addresses`);
+    farcasterUsername = identity!.username;
+    for (const linkedAddress of linked) {
+      if (!walletAddresses.some(a => a.toLowerCase() === linkedAddress.toLowerCase())) {
+        walletAddresses.push(linkedAddress);
+      }
+    }
+  }
+
+  if (walletAddresses.length === 0) {
+    return { ok: false, status: 400, error: 'Wallet address is required' };
+  }
+
+  if (walletAddresses.length > MAX_WALLETS_PER_ANALYSIS) {
+    if (!hasFarcasterAccount) {
+      return { ok: false, status: 400, error: `Too many wallets: at most ${MAX_WALLETS_PER_ANALYSIS} per analysis` };
+    }
+    // Accounts with many verifications: keep the first ones (verified before custody)
+    console.warn(`Analyzing ${MAX_WALLETS_PER_ANALYSIS} of ${walletAddresses.length} linked addresses`);
+    walletAddresses.splice(MAX_WALLETS_PER_ANALYSIS);
+  }
+
+  if (!walletAddresses.every(a => typeof a === 'string' && /^0x[a-fA-F0-9]{40}$/.test(a))) {
+    return { ok: false, status: 400, error: 'Invalid wallet address format' };
+  }
+
+  if (costBasisMethod && !COST_BASIS_METHODS.includes(costBasisMethod)) {
+    return { ok: false, status: 400, error: `Invalid cost basis method. Use one of: ${COST_BASIS_METHODS.join(', ')}` };
+  }
+
+  return {
+    ok: true,
+    request: {
+      walletAddresses,
+      farcasterUsername,
+      costBasisMethod: costBasisMethod as CostBasisMethod | undefined,
+      refresh: refresh === true,
+    },
+  };
+}
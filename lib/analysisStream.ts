@@ -0,0 +1,108 @@
+import type { AnalysisProgress, AnalysisResult } from './analyze';
+import type { PostAnalytics } from './calcPnL';
+import type { LogEntry } from './logger';
+
+/**
+ * Server-Sent Events emitted by /api/analyzeStream
+ */
+export type AnalysisStreamEvent =
+  | { event: 'log'; data: LogEntry }
+  | { event: 'progress'; data: AnalysisProgress }
+  | { event: 'post'; data: PostAnalytics }
+  | { event: 'result'; data: AnalysisResult }
+  | { event: 'error'; data: { error: string; details?: string } };
+
+export interface AnalysisStreamHandlers {
+  onLog?: (entry: LogEntry) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onPost?: (post: PostAnalytics) => void;
+}
+
+/**
+ * Serialize one event as an SSE frame
+ */
+export function formatStreamEvent(event: AnalysisStreamEvent): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+function parseFrame(frame: string): AnalysisStreamEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith(':')) continue; // Keep-alive comment
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) } as AnalysisStreamEvent;
+  } catch (error) {
+    console.warn('Failed to parse stream event:', frame.slice(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Read an analysis stream (fetch Response body) until the final result
+ * EventSource is not used because the analysis request is a POST
+ */
+export async function readAnalysisStream(
+  response: Response,
+  handlers: AnalysisStreamHandlers = {}
+): Promise<AnalysisResult> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: AnalysisResult | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const parsed = parseFrame(frame);
+      if (!parsed) continue;
+
+      switch (parsed.event) {
+        case 'log':
+          handlers.onLog?.(parsed.data);
+          break;
+        case 'progress':
+          handlers.onProgress?.(parsed.data);
+          break;
+        case 'post':
+          handlers.onPost?.(parsed.data);
+          break;
+        case 'result':
+          result = parsed.data;
+          break;
+        case 'error':
+          throw new Error(parsed.data.error || 'Analysis failed');
+      }
+    }
+  }
+
+  if (!result) {
+    // Connection closed before the result (function timeout or network drop)
+    throw new Error('GATEWAY_TIMEOUT');
+  }
+
+  return result;
+}
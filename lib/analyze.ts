@@ -1,19 +1,82 @@
 import { WalletService, WalletData, Transaction, TokenBalance } from './wallet';
 import { BaseAppPostTransaction } from './detectBaseAppPost';
-import { PostPriceService, PriceData } from './getPostPrice';
-import { PnLCalculator, PostAnalytics, PortfolioAnalytics } from './calcPnL';
+import { PostPriceService, PriceData, createPriceData } from './getPostPrice';
+import { PnLCalculator, PostAnalytics, PortfolioAnalytics, ExitEstimate } from './calcPnL';
 import { BaseAppDetector } from './baseAppDetector';
 import { enrichTokensWithDexScreener } from './findTokensViaDexScreener';
-import { isBaseAppTokenByPool, isBaseAppTokenByReferrer, isBaseAppTokenByPoolCheck } from './uniswapV4Detector';
+import { isBaseAppTokenByPool, isBaseAppTokenByReferrer, isBaseAppTokenByPoolCheck, createBaseClient, BaseClient, getCoinPriceInQuote } from './uniswapV4Detector';
 import { BASE_PLATFORM_REFERRER } from './uniswapV4Detector';
 import { Logger, LogEntry } from './logger';
+import { PortfolioHistoryService, PortfolioHistoryPoint, TokenTradeHistory } from './portfolioHistory';
+import { TradeReconstructor, ReconstructedTrade } from './tradeReconstruction';
+import { CostBasisMethod } from './lotAccounting';
+import { AnalysisCache, WalletCacheEntry, CachedTokenHistory, serializeTrade, deserializeTrade } from './analysisCache';
+import { ChainDataProvider, ChainDataJsonRpcProvider, createDefaultChainDataProvider } from './chainData';
+import { inspectTokens, TokenInspection } from './multicall';
+import { getWalletRewardsIncome, rewardsIncomeUSD } from './zoraRewards';
+import { CoinAuthorshipDetector } from './coinAuthorship';
+import { V4SwapSimulator } from './swapSimulator';
+import { HistoricalPriceService, PoolPriceSource } from './historicalPrice';
+import { EthUsdOracle } from './ethUsdOracle';
+import type { ShareTicket } from './snapshots';
 import { ethers } from 'ethers';
 import type { Address } from 'viem';
 
 export interface AnalysisResult {
   wallet: WalletData;
   portfolio: PortfolioAnalytics;
+  history?: PortfolioHistoryPoint[];
   logs?: LogEntry[];
+  // Multi-wallet analysis only (see analyzeWallets)
+  addresses?: string[];
+  wallets?: WalletBreakdown[];
+  share?: ShareTicket; // Turns this result into a public snapshot on request (POST /api/share)
+  snapshotId?: string; // Public share link /p/<id>, once shared (see lib/snapshots.ts)
+}
+
+// Shares of a position (%) simulated as partial exits; the last one is the full liquidation
+const EXIT_SHARES_PCT = [25, 50, 100];
+
+// Upper bound for one combined analysis - every wallet is a full sync + classification pass
+export const MAX_WALLETS_PER_ANALYSIS = 5;
+
+/**
+ * One owned wallet's slice of a combined portfolio: its holdings of the
+ * combined positions, valued at the combined average cost
+ */
+export interface WalletBreakdown {
+  address: string;
+  postCount: number;
+  totalInvested: string; // USD, cost basis of the tokens this wallet holds
+  totalCurrentValue: string; // USD
+  totalPnL: string; // USD
+  totalPnLPct: number;
+  internalTransfers: number; // Transfers to/from other wallets of the set
+}
+
+export interface AnalyticsOptions {
+  costBasisMethod?: CostBasisMethod;
+  cache?: AnalysisCache | null; // null disables persistence
+  refresh?: boolean; // Ignore cached state and re-analyze from scratch (result is still cached)
+  chainData?: ChainDataProvider; // Defaults to Etherscan V2 + Base RPC (see createDefaultChainDataProvider)
+}
+
+export type AnalysisStep = 'wallet' | 'bytecode' | 'referrer' | 'prices' | 'posts' | 'portfolio' | 'history' | 'done';
+
+export interface AnalysisProgress {
+  step: AnalysisStep;
+  current?: number; // e.g. batch N of M while analyzing posts
+  total?: number;
+  detail?: string;
+}
+
+/**
+ * Optional hooks for callers that want results as they come in (streaming endpoint)
+ */
+export interface AnalysisListener {
+  onProgress?: (progress: AnalysisProgress) => void;
+  onPost?: (post: PostAnalytics) => void;
+  signal?: AbortSignal; // Once aborted the analysis rejects at its next step instead of finishing
 }
 
 export class AnalyticsService {
@@ -21,18 +84,58 @@ export class AnalyticsService {
   private priceService: PostPriceService;
   private pnlCalculator: PnLCalculator;
   private baseAppDetector: BaseAppDetector;
+  private authorshipDetector: CoinAuthorshipDetector;
+  private swapSimulator: V4SwapSimulator;
+  private historicalPrices: HistoricalPriceService;
+  private tradeReconstructor: TradeReconstructor;
+  private chainData: ChainDataProvider;
+  private ethUsd: EthUsdOracle;
+  private baseClient: BaseClient;
+  private analysisCache: AnalysisCache | null;
+  private refresh: boolean;
   private logger: Logger;
 
-  constructor(baseScanApiKey?: string, coinGeckoApiKey?: string) {
-    this.walletService = new WalletService(baseScanApiKey);
-    this.priceService = new PostPriceService(coinGeckoApiKey);
-    this.pnlCalculator = new PnLCalculator(coinGeckoApiKey);
-    this.baseAppDetector = new BaseAppDetector();
+  constructor(baseScanApiKey?: string, coinGeckoApiKey?: string, options: AnalyticsOptions = {}) {
+    this.chainData = options.chainData || createDefaultChainDataProvider(baseScanApiKey);
+    this.baseClient = createBaseClient(this.chainData);
+
+    this.walletService = new WalletService(baseScanApiKey, this.chainData);
+    // One ETH/USD rate for the whole analysis (prices, cost basis, USDC legs, history)
+    this.ethUsd = new EthUsdOracle(this.chainData, { coinGeckoApiKey, maxAgeMs: Infinity });
+
+    this.priceService = new PostPriceService(coinGeckoApiKey, this.chainData, this.ethUsd);
+    this.pnlCalculator = new PnLCalculator(this.ethUsd, options.costBasisMethod);
+    this.baseAppDetector = new BaseAppDetector(this.chainData, this.baseClient);
+    this.authorshipDetector = new CoinAuthorshipDetector(this.chainData);
+    this.swapSimulator = new V4SwapSimulator(this.chainData);
+    this.historicalPrices = new HistoricalPriceService(this.chainData, this.ethUsd);
+    this.tradeReconstructor = new TradeReconstructor(new ChainDataJsonRpcProvider(this.chainData), this.baseClient);
+    this.analysisCache = options.cache === undefined ? new AnalysisCache() : options.cache;
+    this.refresh = !!options.refresh;
     this.logger = new Logger();
   }
 
-  async analyzeWallet(address: string): Promise<AnalysisResult> {
+  /**
+   * Subscribe to the analysis logger; returns an unsubscribe function
+   */
+  subscribeToLogs(listener: (logs: LogEntry[]) => void): () => void {
+    return this.logger.subscribe(listener);
+  }
+
+  async analyzeWallet(address: string, listener: AnalysisListener = {}): Promise<AnalysisResult> {
     this.logger.clear();
+    return this.analyzeSingleWallet(address, listener);
+  }
+
+  private async analyzeSingleWallet(address: string, listener: AnalysisListener): Promise<AnalysisResult> {
+    const emitProgress = (progress: AnalysisProgress) => {
+      try {
+        listener.onProgress?.(progress);
+      } catch (error) {
+        console.warn('Progress listener failed:', error);
+      }
+    };
+
     this.logger.info('🚀 Начало анализа кошелька');
     this.logger.info(`Адрес кошелька: ${address.slice(0, 6)}...${address.slice(-4)}`);
     
@@ -41,16 +144,23 @@ export class AnalyticsService {
     console.log('Has API key:', !!this.walletService.baseScanApiKey);
     console.log('API key length:', this.walletService.baseScanApiKey?.length || 0);
     
+    // Add overall timeout protection (2 minutes max for entire analysis)
+    let analysisTimeout: NodeJS.Timeout | undefined;
     try {
-      // Add overall timeout protection (2 minutes max for entire analysis)
-      let analysisTimeout: NodeJS.Timeout | null = null;
       analysisTimeout = setTimeout(() => {
         console.error('⚠️ Analysis timeout - this should not happen, but protecting against infinite loops');
       }, 120000);
       
       // Get wallet data
       this.logger.info('📊 Загрузка данных кошелька...');
-      const walletData = await this.walletService.getWalletData(address);
+      emitProgress({ step: 'wallet' });
+      const cacheEntry = this.refresh ? null : await this.analysisCache?.load(address) || null;
+      if (cacheEntry) {
+        this.logger.info(`💾 Найден кэш анализа (блок ${cacheEntry.wallet.lastBlock}), загружаю только новые транзакции...`);
+      }
+      const walletData = await this.walletService.getWalletData(address, cacheEntry?.wallet);
+      listener.signal?.throwIfAborted();
+      const nextCacheEntry = AnalysisCache.createEntry(address, walletData, cacheEntry);
       this.logger.success(`Найдено токенов: ${walletData.tokens.length}`);
       this.logger.success(`Найдено транзакций: ${walletData.transactions.length}`);
 
@@ -85,169 +195,40 @@ export class AnalyticsService {
       };
     }
 
-    // STEP 1: Fast bytecode check to filter tokens (this is very fast)
-    this.logger.info(`\n🔍 Шаг 1: Проверка байткода токенов`);
-    this.logger.info(`Проверяю ${tokensWithBalance.length} токенов на соответствие BaseApp байткоду...`);
-    console.log(`\n=== Step 1: Fast Bytecode Filter ===`);
-    console.log(`Checking ${tokensWithBalance.length} wallet tokens for BaseApp bytecode fingerprint...`);
-    console.log(`This is fast - we'll only check platformReferrer() for tokens that match bytecode`);
-    
-    let baseAppTokenAddresses = await this.detectBaseAppTokensByBytecode(tokensWithBalance);
-    this.logger.success(`Найдено ${baseAppTokenAddresses.size} токенов с BaseApp байткодом (из ${tokensWithBalance.length} всего)`);
-    console.log(`✓ Found ${baseAppTokenAddresses.size} tokens with BaseApp bytecode (out of ${tokensWithBalance.length} total)`);
-    
-    if (baseAppTokenAddresses.size > 0) {
-      console.log(`BaseApp token addresses (bytecode match):`, Array.from(baseAppTokenAddresses).slice(0, 10).map(a => a.slice(0, 10) + '...'));
+    // STEP 1-2: Classify tokens; tokens classified on a previous run come from the cache
+    const baseAppTokenAddresses = new Set<string>();
+    const unclassifiedTokens: TokenBalance[] = [];
+    for (const token of tokensWithBalance) {
+      const cached = AnalysisCache.getClassification(cacheEntry, token.tokenAddress);
+      if (cached === undefined) {
+        unclassifiedTokens.push(token);
+      } else if (cached) {
+        baseAppTokenAddresses.add(token.tokenAddress.toLowerCase());
+      }
     }
 
-    // STEP 2: Verify bytecode matches via platformReferrer() (only for filtered tokens - much faster!)
-    if (baseAppTokenAddresses.size > 0) {
-      this.logger.info(`\n✅ Шаг 2: Проверка platformReferrer()`);
-      this.logger.info(`Проверяю ${baseAppTokenAddresses.size} токенов через platformReferrer()...`);
-      console.log(`\n=== Step 2: Verifying ${baseAppTokenAddresses.size} tokens via platformReferrer() ===`);
-      console.log(`Only checking tokens that passed bytecode filter - this is much faster!`);
-      
-      // Get tokens that passed bytecode check
-      const bytecodeMatchedTokens = tokensWithBalance.filter(t => 
-        baseAppTokenAddresses.has(t.tokenAddress.toLowerCase())
-      );
-      
-      // Verify via platformReferrer() - this is fast since we only check filtered tokens
-      const verifiedTokens = await this.verifyTokensByReferrer(bytecodeMatchedTokens);
-      
-      if (verifiedTokens.size > 0) {
-        this.logger.success(`Подтверждено ${verifiedTokens.size} BaseApp токенов через platformReferrer()`);
-        console.log(`✓ Verified ${verifiedTokens.size} BaseApp tokens via platformReferrer()`);
-        baseAppTokenAddresses = verifiedTokens;
-      } else {
-        this.logger.warning('Проверка platformReferrer() не подтвердила токены, но байткод совпадает');
-        console.warn('⚠️ Bytecode matches found but platformReferrer() verification failed');
-        console.warn('Trusting bytecode matches (bytecode is a strong indicator)');
-        // Keep bytecode matches - bytecode is reliable
+    if (unclassifiedTokens.length < tokensWithBalance.length) {
+      this.logger.info(`💾 Из кэша: ${tokensWithBalance.length - unclassifiedTokens.length} токенов уже проверены (${baseAppTokenAddresses.size} BaseApp)`);
+    }
+
+    if (unclassifiedTokens.length > 0) {
+      const detected = await this.classifyTokens(unclassifiedTokens, walletData, emitProgress);
+      const checkedAt = Date.now();
+      for (const token of unclassifiedTokens) {
+        const tokenKey = token.tokenAddress.toLowerCase();
+        const isBaseApp = detected.has(tokenKey);
+        nextCacheEntry.classifications[tokenKey] = { isBaseApp, checkedAt };
+        if (isBaseApp) baseAppTokenAddresses.add(tokenKey);
       }
-    } else {
-      console.warn('\n⚠️ No BaseApp tokens found by bytecode check');
-      console.warn('Trying fallback methods: platformReferrer() and pool-based detection...');
-      console.warn('This is slower but more reliable - some tokens may not match bytecode fingerprint');
-      
-      try {
-        // FALLBACK 1: Try platformReferrer() check for all tokens
-        this.logger.info('\n🔄 Резервный метод 1: Проверка всех токенов через platformReferrer()');
-        console.log('\n=== Fallback 1: Checking all tokens via platformReferrer() ===');
-        const referrerMatches = await this.detectBaseAppTokensByReferrer(tokensWithBalance);
-        
-        if (referrerMatches.size > 0) {
-          this.logger.success(`Найдено ${referrerMatches.size} BaseApp токенов через platformReferrer()`);
-          console.log(`✓ Found ${referrerMatches.size} BaseApp tokens via platformReferrer() check`);
-          baseAppTokenAddresses = referrerMatches;
-        } else {
-          this.logger.warning('Не найдено BaseApp токенов через platformReferrer()');
-          console.warn('⚠️ No BaseApp tokens found via platformReferrer() check');
-          
-          try {
-            // FALLBACK 2: Try pool-based detection
-            this.logger.info('\n🔄 Резервный метод 2: Поиск токенов через Uniswap V4 пулы');
-            this.logger.info('Проверяю пулы...');
-            console.log('\n=== Fallback 2: Checking tokens via Uniswap V4 pools ===');
-            const poolMatches = await this.detectBaseAppTokensByPool(tokensWithBalance);
-            
-            if (poolMatches.size > 0) {
-              this.logger.success(`Найдено ${poolMatches.size} BaseApp токенов через проверку пулов`);
-              console.log(`✓ Found ${poolMatches.size} BaseApp tokens via pool check`);
-              baseAppTokenAddresses = poolMatches;
-            } else {
-              this.logger.warning('Не найдено BaseApp токенов через пулы');
-              console.warn('⚠️ No BaseApp tokens found via platformReferrer() or pool check');
-              
-              try {
-                // FALLBACK 3: Try transaction-based detection
-                this.logger.info('\n🔄 Резервный метод 3: Анализ транзакций');
-                console.log('\n=== Fallback 3: Checking tokens via transaction patterns ===');
-                const transactionMatches = await this.detectBaseAppTokensByTransactions(tokensWithBalance, walletData);
-                
-                if (transactionMatches.size > 0) {
-                  this.logger.success(`Найдено ${transactionMatches.size} BaseApp токенов через анализ транзакций`);
-                  console.log(`✓ Found ${transactionMatches.size} BaseApp tokens via transaction patterns`);
-                  baseAppTokenAddresses = transactionMatches;
-                } else {
-                  // FALLBACK 4: Try name/symbol pattern matching (heuristic)
-                  this.logger.info('\n🔄 Резервный метод 4: Поиск по паттернам имени/символа');
-                  console.log('\n=== Fallback 4: Checking tokens via name/symbol patterns ===');
-                  const patternMatches = this.detectBaseAppTokensByPatterns(tokensWithBalance);
-                  
-                  if (patternMatches.size > 0) {
-                    this.logger.success(`Найдено ${patternMatches.size} BaseApp токенов по паттернам`);
-                    console.log(`✓ Found ${patternMatches.size} BaseApp tokens via name/symbol patterns`);
-                    baseAppTokenAddresses = patternMatches;
-                  } else {
-                    this.logger.warning('⚠️ BaseApp токены не найдены ни одним методом');
-                    console.warn('⚠️ No BaseApp tokens found via any method');
-                    console.warn('Possible reasons:');
-                    console.warn('1. Tokens are not Base App tokens (not created via Base App)');
-                    console.warn('2. Tokens do not have platformReferrer() function (not Zora coins)');
-                    console.warn('3. Network/RPC issues preventing checks');
-                    console.warn('4. Tokens may be created via other platforms (Zora directly, not Base App)');
-                    
-                    return {
-                      wallet: walletData,
-                      portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
-                    };
-                  }
-                }
-              } catch (fallbackError: any) {
-                console.error('Transaction/pattern detection failed:', fallbackError);
-                console.error('Error message:', fallbackError.message);
-                console.error('Error stack:', fallbackError.stack);
-                console.warn('⚠️ Fallback methods failed, returning empty result');
-                
-                return {
-                  wallet: walletData,
-                  portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
-                };
-              }
-            }
-          } catch (poolError: any) {
-            console.error('Pool-based detection failed:', poolError);
-            console.warn('⚠️ No BaseApp tokens found via any method (pool check failed)');
-            console.warn('Possible reasons:');
-            console.warn('1. Tokens are not Base App tokens (not created via Base App)');
-            console.warn('2. Tokens do not have platformReferrer() function (not Zora coins)');
-            console.warn('3. Network/RPC issues preventing checks');
-            
+    }
+
+    listener.signal?.throwIfAborted();
+    if (baseAppTokenAddresses.size === 0) {
+      await this.analysisCache?.save(nextCacheEntry);
       return {
         wallet: walletData,
         portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
       };
-          }
-        }
-      } catch (referrerError: any) {
-        console.error('PlatformReferrer detection failed:', referrerError);
-        console.warn('⚠️ Fallback method failed, trying pool-based detection...');
-        
-        try {
-          // FALLBACK 2: Try pool-based detection
-          console.log('\n=== Fallback 2: Checking tokens via Uniswap V4 pools ===');
-          const poolMatches = await this.detectBaseAppTokensByPool(tokensWithBalance);
-          
-          if (poolMatches.size > 0) {
-            console.log(`✓ Found ${poolMatches.size} BaseApp tokens via pool check`);
-            baseAppTokenAddresses = poolMatches;
-          } else {
-            console.warn('⚠️ No BaseApp tokens found via any method');
-            return {
-              wallet: walletData,
-              portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
-            };
-          }
-        } catch (poolError: any) {
-          console.error('Pool-based detection also failed:', poolError);
-          console.warn('⚠️ All detection methods failed');
-          return {
-            wallet: walletData,
-            portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
-          };
-        }
-      }
     }
 
     // STEP 2: Filter to only BaseApp tokens
@@ -258,12 +239,13 @@ export class AnalyticsService {
 
     // STEP 3: Enrich tokens with DexScreener data (cross-check)
     this.logger.info(`\n💰 Шаг 3: Получение цен токенов`);
-    let dexScreenerData = new Map<string, { hasPrice: boolean; priceUsd?: string }>();
+    emitProgress({ step: 'prices', total: baseAppTokens.length });
+    let dexScreenerData = new Map<string, { hasPrice: boolean; priceUsd?: string; liquidityUsd?: number }>();
     if (baseAppTokens.length > 0) {
       try {
         this.logger.info(`Проверяю ${baseAppTokens.length} токенов через DexScreener...`);
         console.log(`Step 3a: Cross-checking ${baseAppTokens.length} BaseApp tokens with DexScreener...`);
-        dexScreenerData = await enrichTokensWithDexScreener(baseAppTokens);
+        dexScreenerData = await enrichTokensWithDexScreener(baseAppTokens, this.chainData);
       } catch (error) {
         this.logger.warning('DexScreener недоступен, продолжаю без него');
         console.warn('DexScreener enrichment failed, continuing without it:', error);
@@ -276,14 +258,20 @@ export class AnalyticsService {
     const tokensWithPrices = await Promise.all(
       baseAppTokens.map(async (token) => {
         try {
-          // Try primary price service first
-          const priceData = await this.priceService.getPostPrice(undefined, token.tokenAddress);
+          // Pool price, checked against the DexScreener batch fetched above
+          const dexReference = dexScreenerData.get(token.tokenAddress.toLowerCase());
+          let priceData = await this.priceService.getPostPrice(undefined, token.tokenAddress, {
+            reference: dexReference?.hasPrice && dexReference.priceUsd
+              ? createPriceData('dexscreener', dexReference.priceUsd, { liquidityUSD: dexReference.liquidityUsd })
+              : null,
+          });
           let priceValue = parseFloat(priceData.price || '0');
           
           // If price is 0 or invalid, try DexScreener data as fallback
           if (isNaN(priceValue) || priceValue <= 0) {
             const dexData = dexScreenerData.get(token.tokenAddress.toLowerCase());
             if (dexData?.hasPrice && dexData.priceUsd) {
+              priceData = createPriceData('dexscreener', dexData.priceUsd, { liquidityUSD: dexData.liquidityUsd });
               priceValue = parseFloat(dexData.priceUsd);
               console.log(`  Using DexScreener price for ${token.symbol}: $${priceValue}`);
             }
@@ -301,7 +289,9 @@ export class AnalyticsService {
           const fallbackPrice = dexData?.priceUsd ? parseFloat(dexData.priceUsd) : 0;
           return {
             token,
-            priceData: { price: fallbackPrice.toString(), source: 'dexscreener', timestamp: Date.now() } as any,
+            priceData: fallbackPrice > 0
+              ? createPriceData('dexscreener', dexData!.priceUsd!, { liquidityUSD: dexData!.liquidityUsd })
+              : createPriceData('none', '0'),
             priceValue: fallbackPrice,
           };
         }
@@ -350,62 +340,523 @@ export class AnalyticsService {
     // Batch process tokens to avoid too many API calls
     const BATCH_SIZE = 3; // Process 3 tokens at a time
     for (let i = 0; i < validTokens.length; i += BATCH_SIZE) {
+      listener.signal?.throwIfAborted();
       const batch = validTokens.slice(i, i + BATCH_SIZE);
       const batchNum = Math.floor(i / BATCH_SIZE) + 1;
       const totalBatches = Math.ceil(validTokens.length / BATCH_SIZE);
       this.logger.info(`Обрабатываю пакет ${batchNum}/${totalBatches} (${batch.length} токенов)...`);
       console.log(`Processing batch ${batchNum}/${totalBatches} (${batch.length} BaseApp tokens)...`);
+      emitProgress({ step: 'posts', current: batchNum, total: totalBatches });
       
-      const batchPromises = batch.map(({ token }) => this.analyzeToken(token, address, walletData));
+      const batchPromises = batch.map(({ token }) => this.analyzeToken(token, address, walletData, nextCacheEntry));
       const batchResults = await Promise.allSettled(batchPromises);
       
       for (const result of batchResults) {
         if (result.status === 'fulfilled' && result.value) {
           postsAnalytics.push(result.value);
+          try {
+            listener.onPost?.(result.value);
+          } catch (error) {
+            console.warn('Post listener failed:', error);
+          }
         } else if (result.status === 'rejected') {
           this.logger.error(`Ошибка анализа токена: ${result.reason}`);
           console.error('Token analysis failed:', result.reason);
         }
       }
-      
-      this.logger.success(`Пакет ${batchNum} завершен: проанализировано ${postsAnalytics.length} постов`);
-      console.log(`Batch ${batchNum} complete: ${postsAnalytics.length} posts analyzed so far`);
+      
+      this.logger.success(`Пакет ${batchNum} завершен: проанализировано ${postsAnalytics.length} постов`);
+      console.log(`Batch ${batchNum} complete: ${postsAnalytics.length} posts analyzed so far`);
+    }
+
+    await this.analysisCache?.save(nextCacheEntry);
+    listener.signal?.throwIfAborted();
+
+    // Calculate portfolio totals
+    this.logger.info('📊 Расчет итоговой статистики...');
+    emitProgress({ step: 'portfolio' });
+    const portfolio = this.pnlCalculator.calculatePortfolioAnalytics(postsAnalytics);
+
+    this.logger.success(`✅ Анализ завершен!`);
+    this.logger.success(`Проанализировано постов: ${postsAnalytics.length}`);
+    this.logger.success(`Общий PnL: ${portfolio.totalPnLPct.toFixed(2)}%`);
+
+    console.log(`Total posts analyzed: ${postsAnalytics.length}`);
+    console.log(`Portfolio PnL: ${portfolio.totalPnLPct.toFixed(2)}%`);
+
+    // STEP 6: Replay trades into a daily portfolio history
+    let history: PortfolioHistoryPoint[] = [];
+    try {
+      this.logger.info('📉 Построение истории портфеля...');
+      emitProgress({ step: 'history' });
+      history = await this.buildPortfolioHistory(postsAnalytics, walletData);
+      this.logger.success(`История портфеля: ${history.length} дней`);
+    } catch (error) {
+      this.logger.warning('Не удалось построить историю портфеля');
+      console.warn('Portfolio history failed:', error);
+    }
+
+    emitProgress({ step: 'done' });
+
+    return {
+      wallet: walletData,
+      portfolio,
+      history,
+      logs: this.logger.getLogs(),
+    };
+    } catch (error: any) {
+      // Nobody is waiting for the empty result below
+      if (listener.signal?.aborted) throw error;
+      console.error('Error in analyzeWallet:', error);
+      console.error('Error message:', error.message);
+      console.error('Error stack:', error.stack);
+      
+      // Return empty result instead of throwing
+      return {
+        wallet: {
+          address,
+          balance: '0',
+          tokens: [],
+          transactions: [],
+        },
+        portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
+      };
+    } finally {
+      // Also on the early returns and errors - the timer would keep the process alive
+      clearTimeout(analysisTimeout);
+      // Recording backends write their fixture once per analysis
+      await this.chainData.flush?.().catch(error => console.warn('Chain data flush failed:', error));
+    }
+  }
+
+  /**
+   * Analyze several owned wallets (smart wallet, EOA, verified addresses) as
+   * one portfolio. Token transfers between them are not trades: they are left
+   * out of the combined history, so cost basis follows the tokens
+   */
+  async analyzeWallets(addresses: string[], listener: AnalysisListener = {}): Promise<AnalysisResult> {
+    const uniqueAddresses = Array.from(new Map(addresses.map(a => [a.toLowerCase(), a])).values());
+    if (uniqueAddresses.length <= 1) {
+      return this.analyzeWallet(uniqueAddresses[0] || addresses[0], listener);
+    }
+
+    const emitProgress = (progress: AnalysisProgress) => {
+      try {
+        listener.onProgress?.(progress);
+      } catch (error) {
+        console.warn('Progress listener failed:', error);
+      }
+    };
+
+    this.logger.clear();
+    this.logger.info(`👛 Объединенный анализ ${uniqueAddresses.length} кошельков`);
+    console.log(`=== Starting combined analysis of ${uniqueAddresses.length} wallets ===`);
+
+    try {
+      // Full pass per wallet; posts are emitted only once merged
+      const results: AnalysisResult[] = [];
+      for (const [i, address] of uniqueAddresses.entries()) {
+        const label = `${i + 1}/${uniqueAddresses.length} ${address.slice(0, 6)}...${address.slice(-4)}`;
+        this.logger.info(`\n👛 Кошелек ${label}`);
+        results.push(await this.analyzeSingleWallet(address, {
+          onProgress: (progress) => {
+            if (progress.step !== 'done') emitProgress({ ...progress, detail: label });
+          },
+          signal: listener.signal,
+        }));
+      }
+
+      const owned = new Set(uniqueAddresses.map(a => a.toLowerCase()));
+      const isInternal = (tx: Transaction) =>
+        owned.has(tx.from?.toLowerCase()) && owned.has(tx.to?.toLowerCase());
+      const wallet = this.mergeWalletData(results.map(r => r.wallet));
+
+      // Every token analyzed as a post in any of the wallets
+      const postTokens = new Map<string, PostAnalytics[]>();
+      for (const result of results) {
+        for (const post of result.portfolio.posts) {
+          const tokenKey = post.postTokenAddress.toLowerCase();
+          postTokens.set(tokenKey, [...(postTokens.get(tokenKey) || []), post]);
+        }
+      }
+
+      this.logger.info(`\n🔗 Объединение ${postTokens.size} постов из ${uniqueAddresses.length} кошельков...`);
+      emitProgress({ step: 'portfolio' });
+      const posts: PostAnalytics[] = [];
+      const internalHashes = new Map<string, Set<string>>(); // By lowercased wallet address
+      for (const [tokenKey, walletPosts] of postTokens.entries()) {
+        listener.signal?.throwIfAborted();
+        const combinedToken = wallet.tokens.find(t => t.tokenAddress.toLowerCase() === tokenKey);
+        if (!combinedToken) continue;
+
+        // A wallet that sent the token to another owned wallet has no balance left and
+        // was skipped in its own pass - its buys still belong to the combined cost basis
+        const sourcePosts = [...walletPosts];
+        for (const [i, result] of results.entries()) {
+          const hasPost = result.portfolio.posts.some(p => p.postTokenAddress.toLowerCase() === tokenKey);
+          const token = result.wallet.tokens.find(t => t.tokenAddress.toLowerCase() === tokenKey);
+          if (hasPost || !token) continue;
+          const history = await this.analyzeToken(token, uniqueAddresses[i], result.wallet, undefined, true);
+          if (history) sourcePosts.push(history);
+        }
+
+        for (const tx of sourcePosts.flatMap(post => post.transactions || []).filter(isInternal)) {
+          for (const party of [tx.from.toLowerCase(), tx.to.toLowerCase()]) {
+            internalHashes.set(party, (internalHashes.get(party) || new Set()).add(tx.hash.toLowerCase()));
+          }
+        }
+
+        const merged = await this.mergePostAnalytics(sourcePosts, combinedToken, isInternal);
+        posts.push(merged);
+        try {
+          listener.onPost?.(merged);
+        } catch (error) {
+          console.warn('Post listener failed:', error);
+        }
+      }
+
+      listener.signal?.throwIfAborted();
+      const portfolio = this.pnlCalculator.calculatePortfolioAnalytics(posts);
+      const wallets = uniqueAddresses.map((address, i) =>
+        this.buildWalletBreakdown(address, results[i].wallet, posts, internalHashes.get(address.toLowerCase())?.size || 0)
+      );
+
+      const internalCount = new Set(
+        Array.from(internalHashes.values()).flatMap(hashes => Array.from(hashes))
+      ).size;
+      this.logger.success(`✅ Объединенный анализ завершен!`);
+      this.logger.success(`Проанализировано постов: ${posts.length}`);
+      this.logger.info(`Внутренних переводов исключено: ${internalCount}`);
+      this.logger.success(`Общий PnL: ${portfolio.totalPnLPct.toFixed(2)}%`);
+
+      let history: PortfolioHistoryPoint[] = [];
+      try {
+        this.logger.info('📉 Построение истории портфеля...');
+        emitProgress({ step: 'history' });
+        history = await this.buildPortfolioHistory(posts, wallet);
+        this.logger.success(`История портфеля: ${history.length} дней`);
+      } catch (error) {
+        this.logger.warning('Не удалось построить историю портфеля');
+        console.warn('Portfolio history failed:', error);
+      }
+
+      emitProgress({ step: 'done' });
+
+      return {
+        wallet,
+        portfolio,
+        history,
+        logs: this.logger.getLogs(),
+        addresses: uniqueAddresses,
+        wallets,
+      };
+    } finally {
+      // Source-wallet histories above may have recorded more responses
+      await this.chainData.flush?.().catch(error => console.warn('Chain data flush failed:', error));
+    }
+  }
+
+  /**
+   * Union of several wallets: token balances summed per contract,
+   * transactions seen by more than one wallet kept once
+   */
+  private mergeWalletData(wallets: WalletData[]): WalletData {
+    const tokens = new Map<string, TokenBalance>();
+    for (const walletData of wallets) {
+      for (const token of walletData.tokens) {
+        const tokenKey = token.tokenAddress.toLowerCase();
+        const existing = tokens.get(tokenKey);
+        if (!existing) {
+          tokens.set(tokenKey, { ...token });
+          continue;
+        }
+        const balance = BigInt(existing.balance || '0') + BigInt(token.balance || '0');
+        const decimals = existing.decimals || token.decimals || 18;
+        existing.balance = balance.toString();
+        existing.balanceFormatted = ethers.formatUnits(balance, decimals);
+        existing.lastTransferBlock = Math.max(existing.lastTransferBlock || 0, token.lastTransferBlock || 0);
+      }
+    }
+
+    const seen = new Set<string>();
+    const transactions = wallets
+      .flatMap(walletData => walletData.transactions)
+      .filter(tx => {
+        const hash = tx.hash.toLowerCase();
+        if (seen.has(hash)) return false;
+        seen.add(hash);
+        return true;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const ethBalance = wallets.reduce((sum, walletData) => sum + parseFloat(walletData.balance || '0'), 0);
+
+    return {
+      address: wallets[0]?.address || '',
+      balance: ethBalance.toString(),
+      tokens: Array.from(tokens.values()),
+      transactions,
+    };
+  }
+
+  /**
+   * Recompute one token across wallets from the union of their records,
+   * without transfers between owned wallets, on the combined balance
+   */
+  private async mergePostAnalytics(
+    posts: PostAnalytics[],
+    token: TokenBalance,
+    isInternal: (tx: Transaction) => boolean
+  ): Promise<PostAnalytics> {
+    // The same swap can show up in two wallets' histories (e.g. bought by one, delivered to another)
+    const seen = new Set<string>();
+    const transactions = posts
+      .flatMap(post => post.transactions || [])
+      .filter(tx => {
+        if (isInternal(tx)) return false;
+        const id = `${tx.hash.toLowerCase()}-${tx.from?.toLowerCase()}-${tx.to?.toLowerCase()}-${tx.amount}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    // Authorship is verified per wallet on-chain - the coin is authored if any wallet of the set created it
+    const isAuthorToken = posts.some(post => post.isAuthorToken);
+
+    // currentPrice is already in USD after the per-wallet pass
+    const priced = posts.find(post => parseFloat(post.currentPrice) > 0) || posts[0];
+    const currentPrice: PriceData = {
+      source: 'none',
+      ...priced?.priceProvenance,
+      price: priced?.currentPrice || '0',
+      timestamp: Date.now(),
+      isUSD: true,
+    };
+
+    const analytics = await this.pnlCalculator.calculatePostAnalytics(
+      transactions,
+      token.balanceFormatted,
+      currentPrice,
+      token.decimals,
+      isAuthorToken
+    );
+
+    analytics.postTokenAddress = token.tokenAddress;
+    analytics.postId = posts.find(post => post.postId)?.postId;
+    analytics.postName = posts.find(post => post.postName)?.postName || token.name || token.symbol;
+    analytics.transactions = transactions;
+
+    // Each wallet was paid its own rewards
+    const rewardPosts = posts.filter(post => post.rewardsIncome !== undefined);
+    if (rewardPosts.length > 0) {
+      analytics.rewardsIncome = rewardPosts.reduce((sum, post) => sum + parseFloat(post.rewardsIncome!), 0).toFixed(2);
+      analytics.rewardPayouts = rewardPosts.reduce((sum, post) => sum + (post.rewardPayouts || 0), 0);
+    }
+
+    // Exit depth depends on the combined size, not on each wallet's slice
+    await this.attachLiquidationValue(analytics, token);
+    return analytics;
+  }
+
+  /**
+   * A wallet's holdings of the combined positions, at the combined average cost
+   */
+  private buildWalletBreakdown(
+    address: string,
+    walletData: WalletData,
+    posts: PostAnalytics[],
+    internalTransfers: number
+  ): WalletBreakdown {
+    let invested = 0;
+    let currentValue = 0;
+    let postCount = 0;
+
+    for (const post of posts) {
+      const token = walletData.tokens.find(t => t.tokenAddress.toLowerCase() === post.postTokenAddress.toLowerCase());
+      const balance = parseFloat(token?.balanceFormatted || '0');
+      if (!(balance > 0)) continue;
+      postCount++;
+      currentValue += balance * (parseFloat(post.currentPrice) || 0);
+      if (!post.isAuthorToken) {
+        invested += balance * (parseFloat(post.averageBuyPrice) || 0);
+      }
+    }
+
+    const pnl = currentValue - invested;
+    return {
+      address,
+      postCount,
+      totalInvested: invested.toFixed(2),
+      totalCurrentValue: currentValue.toFixed(2),
+      totalPnL: pnl.toFixed(2),
+      totalPnLPct: invested > 0 ? (pnl / invested) * 100 : 0,
+      internalTransfers,
+    };
+  }
+
+  /**
+   * Classify wallet tokens as BaseApp posts: bytecode fingerprint, then
+   * platformReferrer() verification, then the fallback detectors
+   */
+  private async classifyTokens(
+    tokens: TokenBalance[],
+    walletData: WalletData,
+    emitProgress: (progress: AnalysisProgress) => void
+  ): Promise<Set<string>> {
+    // STEP 1: Fast bytecode check to filter tokens (this is very fast)
+    this.logger.info(`\n🔍 Шаг 1: Проверка байткода токенов`);
+    this.logger.info(`Проверяю ${tokens.length} токенов на соответствие BaseApp байткоду...`);
+    console.log(`\n=== Step 1: Fast Bytecode Filter ===`);
+    console.log(`Checking ${tokens.length} wallet tokens for BaseApp bytecode fingerprint...`);
+    console.log(`This is fast - we'll only check platformReferrer() for tokens that match bytecode`);
+    
+    emitProgress({ step: 'bytecode', total: tokens.length });
+    let baseAppTokenAddresses = await this.detectBaseAppTokensByBytecode(tokens);
+    this.logger.success(`Найдено ${baseAppTokenAddresses.size} токенов с BaseApp байткодом (из ${tokens.length} всего)`);
+    console.log(`✓ Found ${baseAppTokenAddresses.size} tokens with BaseApp bytecode (out of ${tokens.length} total)`);
+    
+    if (baseAppTokenAddresses.size > 0) {
+      console.log(`BaseApp token addresses (bytecode match):`, Array.from(baseAppTokenAddresses).slice(0, 10).map(a => a.slice(0, 10) + '...'));
+    }
+
+    // STEP 2: Verify bytecode matches via platformReferrer() (only for filtered tokens - much faster!)
+    if (baseAppTokenAddresses.size > 0) {
+      this.logger.info(`\n✅ Шаг 2: Проверка platformReferrer()`);
+      this.logger.info(`Проверяю ${baseAppTokenAddresses.size} токенов через platformReferrer()...`);
+      console.log(`\n=== Step 2: Verifying ${baseAppTokenAddresses.size} tokens via platformReferrer() ===`);
+      console.log(`Only checking tokens that passed bytecode filter - this is much faster!`);
+      
+      // Get tokens that passed bytecode check
+      const bytecodeMatchedTokens = tokens.filter(t => 
+        baseAppTokenAddresses.has(t.tokenAddress.toLowerCase())
+      );
+      
+      // Verify via platformReferrer() - this is fast since we only check filtered tokens
+      emitProgress({ step: 'referrer', total: bytecodeMatchedTokens.length });
+      const verifiedTokens = await this.verifyTokensByReferrer(bytecodeMatchedTokens, walletData.address);
+      
+      if (verifiedTokens.size > 0) {
+        this.logger.success(`Подтверждено ${verifiedTokens.size} BaseApp токенов через platformReferrer()`);
+        console.log(`✓ Verified ${verifiedTokens.size} BaseApp tokens via platformReferrer()`);
+        baseAppTokenAddresses = verifiedTokens;
+      } else {
+        this.logger.warning('Проверка platformReferrer() не подтвердила токены, но байткод совпадает');
+        console.warn('⚠️ Bytecode matches found but platformReferrer() verification failed');
+        console.warn('Trusting bytecode matches (bytecode is a strong indicator)');
+        // Keep bytecode matches - bytecode is reliable
+      }
+    } else {
+      console.warn('\n⚠️ No BaseApp tokens found by bytecode check');
+      console.warn('Trying fallback methods: platformReferrer() and pool-based detection...');
+      console.warn('This is slower but more reliable - some tokens may not match bytecode fingerprint');
+      
+      try {
+        // FALLBACK 1: Try platformReferrer() check for all tokens
+        this.logger.info('\n🔄 Резервный метод 1: Проверка всех токенов через platformReferrer()');
+        console.log('\n=== Fallback 1: Checking all tokens via platformReferrer() ===');
+        const referrerMatches = await this.detectBaseAppTokensByReferrer(tokens, walletData.address);
+        
+        if (referrerMatches.size > 0) {
+          this.logger.success(`Найдено ${referrerMatches.size} BaseApp токенов через platformReferrer()`);
+          console.log(`✓ Found ${referrerMatches.size} BaseApp tokens via platformReferrer() check`);
+          baseAppTokenAddresses = referrerMatches;
+        } else {
+          this.logger.warning('Не найдено BaseApp токенов через platformReferrer()');
+          console.warn('⚠️ No BaseApp tokens found via platformReferrer() check');
+          
+          try {
+            // FALLBACK 2: Try pool-based detection
+            this.logger.info('\n🔄 Резервный метод 2: Поиск токенов через Uniswap V4 пулы');
+            this.logger.info('Проверяю пулы...');
+            console.log('\n=== Fallback 2: Checking tokens via Uniswap V4 pools ===');
+            const poolMatches = await this.detectBaseAppTokensByPool(tokens);
+            
+            if (poolMatches.size > 0) {
+              this.logger.success(`Найдено ${poolMatches.size} BaseApp токенов через проверку пулов`);
+              console.log(`✓ Found ${poolMatches.size} BaseApp tokens via pool check`);
+              baseAppTokenAddresses = poolMatches;
+            } else {
+              this.logger.warning('Не найдено BaseApp токенов через пулы');
+              console.warn('⚠️ No BaseApp tokens found via platformReferrer() or pool check');
+              
+              try {
+                // FALLBACK 3: Try transaction-based detection
+                this.logger.info('\n🔄 Резервный метод 3: Анализ транзакций');
+                console.log('\n=== Fallback 3: Checking tokens via transaction patterns ===');
+                const transactionMatches = await this.detectBaseAppTokensByTransactions(tokens, walletData);
+                
+                if (transactionMatches.size > 0) {
+                  this.logger.success(`Найдено ${transactionMatches.size} BaseApp токенов через анализ транзакций`);
+                  console.log(`✓ Found ${transactionMatches.size} BaseApp tokens via transaction patterns`);
+                  baseAppTokenAddresses = transactionMatches;
+                } else {
+                  // FALLBACK 4: Try name/symbol pattern matching (heuristic)
+                  this.logger.info('\n🔄 Резервный метод 4: Поиск по паттернам имени/символа');
+                  console.log('\n=== Fallback 4: Checking tokens via name/symbol patterns ===');
+                  const patternMatches = this.detectBaseAppTokensByPatterns(tokens);
+                  
+                  if (patternMatches.size > 0) {
+                    this.logger.success(`Найдено ${patternMatches.size} BaseApp токенов по паттернам`);
+                    console.log(`✓ Found ${patternMatches.size} BaseApp tokens via name/symbol patterns`);
+                    baseAppTokenAddresses = patternMatches;
+                  } else {
+                    this.logger.warning('⚠️ BaseApp токены не найдены ни одним методом');
+                    console.warn('⚠️ No BaseApp tokens found via any method');
+                    console.warn('Possible reasons:');
+                    console.warn('1. Tokens are not Base App tokens (not created via Base App)');
+                    console.warn('2. Tokens do not have platformReferrer() function (not Zora coins)');
+                    console.warn('3. Network/RPC issues preventing checks');
+                    console.warn('4. Tokens may be created via other platforms (Zora directly, not Base App)');
+                    
+                    return new Set<string>();
+                  }
+                }
+              } catch (fallbackError: any) {
+                console.error('Transaction/pattern detection failed:', fallbackError);
+                console.error('Error message:', fallbackError.message);
+                console.error('Error stack:', fallbackError.stack);
+                console.warn('⚠️ Fallback methods failed, returning empty result');
+                
+                return new Set<string>();
+              }
+            }
+          } catch (poolError: any) {
+            console.error('Pool-based detection failed:', poolError);
+            console.warn('⚠️ No BaseApp tokens found via any method (pool check failed)');
+            console.warn('Possible reasons:');
+            console.warn('1. Tokens are not Base App tokens (not created via Base App)');
+            console.warn('2. Tokens do not have platformReferrer() function (not Zora coins)');
+            console.warn('3. Network/RPC issues preventing checks');
+            
+      return new Set<string>();
+          }
+        }
+      } catch (referrerError: any) {
+        console.error('PlatformReferrer detection failed:', referrerError);
+        console.warn('⚠️ Fallback method failed, trying pool-based detection...');
+        
+        try {
+          // FALLBACK 2: Try pool-based detection
+          console.log('\n=== Fallback 2: Checking tokens via Uniswap V4 pools ===');
+          const poolMatches = await this.detectBaseAppTokensByPool(tokens);
+          
+          if (poolMatches.size > 0) {
+            console.log(`✓ Found ${poolMatches.size} BaseApp tokens via pool check`);
+            baseAppTokenAddresses = poolMatches;
+          } else {
+            console.warn('⚠️ No BaseApp tokens found via any method');
+            return new Set<string>();
+          }
+        } catch (poolError: any) {
+          console.error('Pool-based detection also failed:', poolError);
+          console.warn('⚠️ All detection methods failed');
+          return new Set<string>();
+        }
+      }
     }
 
-    // Calculate portfolio totals
-    this.logger.info('📊 Расчет итоговой статистики...');
-    const portfolio = this.pnlCalculator.calculatePortfolioAnalytics(postsAnalytics, address, walletData);
-
-    this.logger.success(`✅ Анализ завершен!`);
-    this.logger.success(`Проанализировано постов: ${postsAnalytics.length}`);
-    this.logger.success(`Общий PnL: ${portfolio.totalPnLPct.toFixed(2)}%`);
-
-    console.log(`Total posts analyzed: ${postsAnalytics.length}`);
-    console.log(`Portfolio PnL: ${portfolio.totalPnLPct.toFixed(2)}%`);
-
-    clearTimeout(analysisTimeout);
-
-    return {
-      wallet: walletData,
-      portfolio,
-      logs: this.logger.getLogs(),
-    };
-    } catch (error: any) {
-      console.error('Error in analyzeWallet:', error);
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
-      
-      // Return empty result instead of throwing
-      return {
-        wallet: {
-          address,
-          balance: '0',
-          tokens: [],
-          transactions: [],
-        },
-        portfolio: this.pnlCalculator.calculatePortfolioAnalytics([]),
-      };
-    }
+    return baseAppTokenAddresses;
   }
 
   /**
@@ -471,194 +922,79 @@ export class AnalyticsService {
   private async analyzeToken(
     token: TokenBalance,
     address: string,
-    walletData: WalletData
+    walletData: WalletData,
+    cacheEntry?: WalletCacheEntry,
+    includeEmpty: boolean = false // Combined analysis needs the history of wallets that moved a token away
   ): Promise<PostAnalytics | null> {
     try {
       // Skip zero balance tokens
-      if (parseFloat(token.balanceFormatted) === 0) {
+      if (!includeEmpty && parseFloat(token.balanceFormatted) === 0) {
         return null;
       }
 
       console.log(`Analyzing token: ${token.symbol} (${token.tokenAddress})`);
       console.log(`  Balance: ${token.balanceFormatted} ${token.symbol}`);
 
-      // Find all transactions related to this token (batch this call)
-      const tokenTxs = await this.findTokenTransactions(address, token.tokenAddress, walletData.transactions);
+      // Find all transactions related to this token (only new ones if cached)
+      const tokenKey = token.tokenAddress.toLowerCase();
+      const cachedHistory = cacheEntry?.tokens[tokenKey];
+      const tokenTxs = await this.loadTokenTransfers(address, token, walletData, cachedHistory);
       console.log(`  Found ${tokenTxs.length} token transactions`);
 
-        // Find corresponding ETH transactions for token purchases
-        // Match token transfers with ETH transactions by timestamp and block
+        // Decode receipts first: Transfer logs + V4 Swap events give exact amounts
         const postTransactions: BaseAppPostTransaction[] = [];
         const tokenDecimals = token.decimals || 18;
         const addressLower = address.toLowerCase();
-        
-        // Group transactions by block for better matching
-        const transactionsByBlock = new Map<number, Transaction[]>();
-        for (const tx of walletData.transactions) {
-          if (!transactionsByBlock.has(tx.blockNumber)) {
-            transactionsByBlock.set(tx.blockNumber, []);
-          }
-          transactionsByBlock.get(tx.blockNumber)!.push(tx);
+        const reconstructed = await this.reconstructTokenTrades(tokenTxs, address, token, cachedHistory);
+        if (cacheEntry && tokenTxs.every(tx => tx.tokenValue !== undefined && tx.logIndex !== undefined)) {
+          // Only transfer lists from the tokentx API, with every event's log index, are complete enough to cache
+          cacheEntry.tokens[tokenKey] = {
+            lastBlock: Math.max(token.lastTransferBlock || 0, ...tokenTxs.map(tx => tx.blockNumber)),
+            transfers: tokenTxs,
+            trades: Object.fromEntries(
+              Array.from(reconstructed.trades.entries()).map(([hash, trade]) => [hash, serializeTrade(trade)])
+            ),
+          };
         }
-        
+        // One record per transaction - the receipt already nets all Transfer events;
+        // token moves without a quote leg are transfers, not trades
+        const handledHashes = new Set<string>();
         for (const tokenTx of tokenTxs) {
-          const isBuy = tokenTx.to?.toLowerCase() === addressLower;
-          const isSell = tokenTx.from?.toLowerCase() === addressLower;
-          
-          if (isBuy) {
-            // Find ETH transaction in the same block or nearby blocks
-            let ethTx: Transaction | undefined;
-            
-            // First try same block
-            const sameBlockTxs = transactionsByBlock.get(tokenTx.blockNumber) || [];
-            ethTx = sameBlockTxs.find((tx) => {
-              return tx.from?.toLowerCase() === addressLower && 
-                     BigInt(tx.value || '0') > 0n &&
-                     tx.hash !== tokenTx.hash;
-            });
-            
-            // If not found, try nearby blocks (within 3 blocks)
-            if (!ethTx) {
-              for (let blockOffset = 1; blockOffset <= 3; blockOffset++) {
-                const nearbyBlockTxs = transactionsByBlock.get(tokenTx.blockNumber + blockOffset) || [];
-                ethTx = nearbyBlockTxs.find((tx) => {
-                  const timeDiff = Math.abs(tx.timestamp - tokenTx.timestamp);
-                  return tx.from?.toLowerCase() === addressLower && 
-                         BigInt(tx.value || '0') > 0n &&
-                         timeDiff <= 60; // Within 60 seconds
-                });
-                if (ethTx) break;
-                
-                const prevBlockTxs = transactionsByBlock.get(tokenTx.blockNumber - blockOffset) || [];
-                ethTx = prevBlockTxs.find((tx) => {
-                  const timeDiff = Math.abs(tx.timestamp - tokenTx.timestamp);
-                  return tx.from?.toLowerCase() === addressLower && 
-                         BigInt(tx.value || '0') > 0n &&
-                         timeDiff <= 60;
-                });
-                if (ethTx) break;
-              }
-            }
-            
-            // Если нет ETH транзакции при получении токена - это mint (авторский токен)
-            const isMint = !ethTx || BigInt(ethTx.value || '0') === 0n;
-            
-            // tokenTx.value is token amount in smallest units
-            // ethTx.value is ETH paid in wei
-            postTransactions.push({
-              ...tokenTx,
-              isBaseAppPost: true,
-              postTokenAddress: token.tokenAddress,
-              type: isMint ? 'mint' : 'buy',
-              amount: tokenTx.tokenValue || tokenTx.value || '0', // Token amount
-              price: isMint ? '0' : (ethTx?.value || '0'), // ETH paid (0 for mint)
-            });
-          } else if (isSell) {
-            // For sells, try to find ETH received
-            let ethTx: Transaction | undefined;
-            const sameBlockTxs = transactionsByBlock.get(tokenTx.blockNumber) || [];
-            ethTx = sameBlockTxs.find((tx) => {
-              return tx.to?.toLowerCase() === addressLower && 
-                     BigInt(tx.value || '0') > 0n &&
-                     tx.hash !== tokenTx.hash;
-            });
-            
-            // Try nearby blocks for ETH received (расширяем поиск)
-            if (!ethTx) {
-              for (let blockOffset = 1; blockOffset <= 5; blockOffset++) {
-                const nearbyBlockTxs = transactionsByBlock.get(tokenTx.blockNumber + blockOffset) || [];
-                ethTx = nearbyBlockTxs.find((tx) => {
-                  const timeDiff = Math.abs(tx.timestamp - tokenTx.timestamp);
-                  return tx.to?.toLowerCase() === addressLower && 
-                         BigInt(tx.value || '0') > 0n &&
-                         timeDiff <= 120; // Увеличиваем окно до 2 минут
-                });
-                if (ethTx) break;
-                
-                const prevBlockTxs = transactionsByBlock.get(tokenTx.blockNumber - blockOffset) || [];
-                ethTx = prevBlockTxs.find((tx) => {
-                  const timeDiff = Math.abs(tx.timestamp - tokenTx.timestamp);
-                  return tx.to?.toLowerCase() === addressLower && 
-                         BigInt(tx.value || '0') > 0n &&
-                         timeDiff <= 120;
-                });
-                if (ethTx) break;
-              }
-            }
-            
-            // Если не нашли ETH транзакцию, но есть sell - все равно записываем
-            // Цену можно будет определить позже из текущей цены токена
-            const sellAmount = tokenTx.tokenValue || tokenTx.value || '0';
-            const ethReceived = ethTx?.value || '0';
-            
-            this.logger.info(`Найдена продажа: ${token.symbol}, количество: ${ethers.formatUnits(sellAmount, token.decimals || 18)}, ETH получено: ${ethers.formatEther(ethReceived)}`);
-            
-            postTransactions.push({
-              ...tokenTx,
-              isBaseAppPost: true,
-              postTokenAddress: token.tokenAddress,
-              type: 'sell',
-              amount: sellAmount, // Token amount sold
-              price: ethReceived, // ETH received (может быть 0 если не найдена ETH транзакция)
-            });
+          const hashLower = tokenTx.hash.toLowerCase();
+          if (handledHashes.has(hashLower)) continue;
+          handledHashes.add(hashLower);
+
+          const trade = reconstructed.trades.get(hashLower)
+            || this.transferMove(tokenTxs.filter(tx => tx.hash.toLowerCase() === hashLower), addressLower);
+          if (trade) {
+            postTransactions.push(this.toPostTransaction(tokenTx, trade, token));
           }
         }
 
-        // If no transactions found but token has balance, try to find any ETH transaction
-        // that might be related (user might have bought but transfer event not captured)
-        if (postTransactions.length === 0 && parseFloat(token.balanceFormatted) > 0) {
-          console.log(`No transactions found for token ${token.symbol}, but balance exists: ${token.balanceFormatted}`);
-          
-          // Look for any ETH transactions that might be purchases
-          // This is a fallback - in production you'd decode transaction logs
-          const possiblePurchaseTxs = walletData.transactions
-            .filter(tx => BigInt(tx.value || '0') > 0n)
-            .slice(0, 5); // Check last 5 ETH transactions
-          
-          for (const ethTx of possiblePurchaseTxs) {
-            postTransactions.push({
-              ...ethTx,
-              isBaseAppPost: true,
-              postTokenAddress: token.tokenAddress,
-              type: 'buy',
-              amount: token.balance, // Assume all balance was bought
-              price: ethTx.value,
-            });
-          }
-          
-          // If still no transactions, create placeholder
-          if (postTransactions.length === 0) {
-            console.log(`Creating placeholder transaction for ${token.symbol}`);
-            postTransactions.push({
-              hash: 'mint',
-              from: address,
-              to: token.tokenAddress,
-              value: '0',
-              timestamp: Date.now() / 1000,
-              blockNumber: 0,
-              input: '',
-              isBaseAppPost: true,
-              postTokenAddress: token.tokenAddress,
-              type: 'mint',
-              amount: token.balance,
-              price: '0',
-            });
-          }
+        const hasBalance = parseFloat(token.balanceFormatted) > 0;
+        if (postTransactions.length === 0 && hasBalance) {
+          // History truncated or unreadable - value the balance without inventing a cost basis
+          console.warn(`  No transfers of ${token.symbol} found for a balance of ${token.balanceFormatted} - cost basis unknown`);
         }
 
-        if (postTransactions.length > 0) {
+        if (postTransactions.length > 0 || hasBalance) {
           // Get current price (with timeout to avoid hanging)
           let currentPrice: PriceData;
+          let priceTimeout: NodeJS.Timeout | undefined;
           try {
             currentPrice = await Promise.race([
-              this.priceService.getPostPrice(undefined, token.tokenAddress),
-              new Promise<PriceData>((_, reject) => 
-                setTimeout(() => reject(new Error('Price fetch timeout')), 10000)
-              )
+              this.priceService.getPostPrice(undefined, token.tokenAddress, {
+                crossCheck: BigInt(token.balance || '0') > 0n,
+              }),
+              new Promise<PriceData>((_, reject) => {
+                priceTimeout = setTimeout(() => reject(new Error('Price fetch timeout')), 10000);
+              })
             ]);
           } catch (error) {
             console.warn(`Price fetch failed for ${token.symbol}:`, error);
-            currentPrice = { price: '0', source: 'none', timestamp: Date.now() };
+            currentPrice = createPriceData('none', '0');
+          } finally {
+            clearTimeout(priceTimeout);
           }
 
           // Check price value
@@ -677,83 +1013,24 @@ export class AnalyticsService {
             console.warn(`  ⚠️ Zero price for ${token.symbol} - will analyze with price = 0`);
           }
 
-          // Определяем, является ли токен авторским
-          // Авторский токен = есть mint транзакции ИЛИ все транзакции получения без оплаты ETH
-          let isAuthorToken = postTransactions.some(tx => 
-            tx.type === 'mint'
-          );
-          
-          // Если нет явных mint, проверяем: если все покупки были с нулевой оплатой ETH - это авторский токен
-          if (!isAuthorToken) {
-            const buyTxs = postTransactions.filter(tx => tx.type === 'buy');
-            if (buyTxs.length > 0) {
-              const allBuysAreFree = buyTxs.every(tx => 
-                !tx.price || BigInt(tx.price || '0') === 0n
-              );
-              if (allBuysAreFree) {
-                isAuthorToken = true;
-                // Переклассифицируем buy в mint
-                buyTxs.forEach(tx => {
-                  tx.type = 'mint';
-                });
-              }
-            }
-          }
-          
-          // Дополнительная проверка: если токен был получен первым и без оплаты - это авторский токен
-          if (!isAuthorToken && postTransactions.length > 0) {
-            // Сортируем транзакции по времени
-            const sortedTxs = [...postTransactions].sort((a, b) => a.timestamp - b.timestamp);
-            const firstTx = sortedTxs[0];
-            
-            // Если первая транзакция - получение токена без оплаты ETH, это авторский токен
-            if (firstTx.type === 'buy' && (!firstTx.price || BigInt(firstTx.price || '0') === 0n)) {
-              isAuthorToken = true;
-              firstTx.type = 'mint';
-              this.logger.info(`Токен ${token.symbol} определен как авторский (первая транзакция без оплаты)`);
-            }
-          }
-          
-          // Если все еще не определили, проверяем через транзакции создания поста
-          if (!isAuthorToken) {
-            // Ищем транзакции создания поста от пользователя
-            // Обычно это транзакции где пользователь создал пост и получил токены
-            const creationTxs = walletData.transactions.filter(tx => {
-              const txFrom = tx.from?.toLowerCase();
-              const addressLower = address.toLowerCase();
-              
-              // Проверяем, является ли пользователь создателем
-              if (txFrom === addressLower) {
-                // Проверяем, связана ли транзакция с этим токеном
-                const txTo = tx.to?.toLowerCase();
-                const tokenLower = token.tokenAddress.toLowerCase();
-                
-                // Если транзакция идет к токену или содержит адрес токена
-                if (txTo === tokenLower || 
-                    tx.input.toLowerCase().includes(tokenLower.slice(2))) {
-                  // Проверяем, что это не покупка (нет оплаты ETH)
-                  if (!tx.value || BigInt(tx.value || '0') === 0n) {
-                    return true;
-                  }
-                }
-              }
-              return false;
-            });
-            
-            if (creationTxs.length > 0) {
-              isAuthorToken = true;
-              this.logger.info(`Токен ${token.symbol} определен как авторский (найдены транзакции создания)`);
-            }
-          }
-          
-          // Если все еще не определили, используем метод из PnLCalculator
-          if (!isAuthorToken) {
-            const pnlCalc = this.pnlCalculator as any;
-            if (pnlCalc.isAuthorToken) {
-              isAuthorToken = pnlCalc.isAuthorToken(token.tokenAddress, address, walletData.transactions);
-            }
+          // Авторство проверяется по контракту монеты и событию создания в фабрике,
+          // а не по бесплатному получению (airdrop и подарки - не авторские токены)
+          const receipts = tokenTxs.filter(tx => tx.to?.toLowerCase() === addressLower && tx.blockNumber > 0);
+          const firstReceiptBlock = receipts.length > 0 ? Math.min(...receipts.map(tx => tx.blockNumber)) : undefined;
+          const authorship = await this.authorshipDetector.detect(token.tokenAddress, address, firstReceiptBlock);
+          const isAuthorToken = authorship.isAuthor;
+          if (isAuthorToken) {
+            // Бесплатные получения автора - его доля при создании, а не покупки
+            postTransactions
+              .filter(tx => tx.type === 'transfer_in')
+              .forEach(tx => {
+                tx.type = 'mint';
+              });
+            this.logger.info(`Токен ${token.symbol} определен как авторский (${authorship.source})`);
           }
 
+          await this.attachExecutionValues(postTransactions, token);
+
           // Calculate PnL
           const analytics = await this.pnlCalculator.calculatePostAnalytics(
             postTransactions,
@@ -764,7 +1041,11 @@ export class AnalyticsService {
           );
 
           // Add post name
+          analytics.postTokenAddress = token.tokenAddress;
           analytics.postName = token.name || token.symbol;
+          analytics.transactions = postTransactions;
+          await this.attachRewardsIncome(analytics, token, address, tokenTxs);
+          await this.attachLiquidationValue(analytics, token);
 
           console.log(`  ✓ ${token.symbol} analyzed: PnL ${analytics.pnlPct.toFixed(2)}%`);
           return analytics;
@@ -777,63 +1058,362 @@ export class AnalyticsService {
       return null;
     }
 
+  /**
+   * Zora hook market rewards the wallet earned on the coin (as creator or referrer),
+   * kept apart from trading PnL
+   */
+  private async attachRewardsIncome(
+    analytics: PostAnalytics,
+    token: TokenBalance,
+    address: string,
+    tokenTxs: Transaction[]
+  ): Promise<void> {
+    if (tokenTxs.length === 0) return;
+
+    try {
+      const pool = await this.tradeReconstructor.getPool(token.tokenAddress);
+      if (!pool?.coinType) return;
+
+      // Rewards start with the coin's first swap - nothing to find before the wallet's first transfer of it
+      const startBlock = Math.min(...tokenTxs.map(tx => tx.blockNumber));
+      const income = await getWalletRewardsIncome(this.chainData, pool, token.tokenAddress, address, startBlock);
+      if (!income || income.payouts === 0) return;
+
+      const usd = rewardsIncomeUSD(income, pool, token.tokenAddress, parseFloat(analytics.currentPrice) || 0, token.decimals || 18);
+      analytics.rewardsIncome = usd.toFixed(2);
+      analytics.rewardPayouts = income.payouts;
+      this.logger.info(`🎁 Награды ${token.symbol}: ${income.payouts} выплат, $${usd.toFixed(2)}`);
+    } catch (error) {
+      console.warn(`  Rewards income lookup failed for ${token.symbol}:`, error);
+    }
+  }
+
+  /**
+   * Value of actually selling the balance (and parts of it) into the coin's pool,
+   * next to the spot mark-to-market currentValue
+   */
+  private async attachLiquidationValue(analytics: PostAnalytics, token: TokenBalance): Promise<void> {
+    const balance = BigInt(token.balance || '0');
+    const currentValue = parseFloat(analytics.currentValue) || 0;
+    if (balance === 0n || currentValue <= 0) return;
+
+    try {
+      const pool = await this.tradeReconstructor.getPool(token.tokenAddress);
+      if (!pool) return;
+
+      const priceInQuote = getCoinPriceInQuote(pool, token.tokenAddress);
+      if (priceInQuote <= 0) return;
+      const quoteUSD = (parseFloat(analytics.currentPrice) || 0) / priceInQuote;
+      const quote = pool.currency0.address.toLowerCase() === token.tokenAddress.toLowerCase() ? pool.currency1 : pool.currency0;
+
+      const estimates: ExitEstimate[] = [];
+      for (const sharePct of EXIT_SHARES_PCT) {
+        const simulation = await this.swapSimulator.simulateSell(pool, token.tokenAddress, balance * BigInt(sharePct) / 100n);
+        if (!simulation) return;
+
+        const valueUSD = parseFloat(ethers.formatUnits(simulation.amountOut, quote.decimals)) * quoteUSD;
+        const markUSD = currentValue * sharePct / 100;
+        estimates.push({
+          sharePct,
+          valueUSD: valueUSD.toFixed(2),
+          slippagePct: markUSD > 0 ? Math.max(0, (1 - valueUSD / markUSD) * 100) : 0,
+          filled: simulation.filled,
+        });
+      }
+
+      const full = estimates[estimates.length - 1];
+      analytics.exitEstimates = estimates;
+      analytics.liquidationValue = full.valueUSD;
+      analytics.liquidationSlippagePct = full.slippagePct;
+      this.logger.info(`💧 Ликвидация ${token.symbol}: $${full.valueUSD} (проскальзывание ${full.slippagePct.toFixed(1)}%)`);
+    } catch (error) {
+      console.warn(`  Liquidation estimate failed for ${token.symbol}:`, error);
+    }
+  }
+
+  /**
+   * Decode receipts of a token's transfer transactions into exact trades
+   */
+  private async reconstructTokenTrades(
+    tokenTxs: Transaction[],
+    address: string,
+    token: TokenBalance,
+    cachedHistory?: CachedTokenHistory
+  ): Promise<{ trades: Map<string, ReconstructedTrade> }> {
+    if (tokenTxs.length === 0) {
+      return { trades: new Map() };
+    }
+
+    try {
+      // Receipts never change - reuse trades decoded on previous runs
+      const trades = new Map<string, ReconstructedTrade>();
+      for (const [hash, trade] of Object.entries(cachedHistory?.trades || {})) {
+        trades.set(hash, deserializeTrade(trade));
+      }
+      const missingHashes = tokenTxs.map(tx => tx.hash).filter(hash => !trades.has(hash.toLowerCase()));
+      if (missingHashes.length > 0) {
+        const decoded = await this.tradeReconstructor.reconstructTrades(missingHashes, address, token.tokenAddress);
+        decoded.forEach((trade, hash) => trades.set(hash, trade));
+      }
+      const priced = Array.from(trades.values()).filter(t => t.quoteCurrency === 'ETH' || t.quoteCurrency === 'USDC');
+      console.log(`  Reconstructed ${priced.length}/${trades.size} trades from receipts for ${token.symbol}`);
+      return { trades };
+    } catch (error) {
+      console.warn(`  Trade reconstruction failed for ${token.symbol}, recording its moves as transfers:`, error);
+      return { trades: new Map() };
+    }
+  }
+
+  private toPostTransaction(
+    tokenTx: Transaction,
+    trade: ReconstructedTrade,
+    token: TokenBalance
+  ): BaseAppPostTransaction {
+    // Non-ETH legs get their ETH equivalent at the trade's block in attachExecutionValues
+    const priceWei = trade.quoteCurrency === 'ETH' ? trade.quoteAmount : 0n;
+    const isTrade = trade.side === 'buy' || trade.side === 'sell';
+
+    if (trade.side === 'sell') {
+      const received = trade.quoteCurrency === 'ETH'
+        ? `${ethers.formatEther(trade.quoteAmount)} ETH`
+        : `${ethers.formatUnits(trade.quoteAmount, trade.quoteDecimals ?? 18)} ${trade.quoteCurrency === 'USDC' ? 'USDC' : trade.quoteTokenAddress}`;
+      this.logger.info(`Найдена продажа: ${token.symbol}, количество: ${ethers.formatUnits(trade.tokenAmount, token.decimals || 18)}, получено: ${received}`);
+    }
+
+    return {
+      ...tokenTx,
+      blockNumber: trade.blockNumber || tokenTx.blockNumber,
+      isBaseAppPost: true,
+      postTokenAddress: token.tokenAddress,
+      type: trade.side,
+      amount: trade.tokenAmount.toString(),
+      price: priceWei.toString(),
+      ...(isTrade && {
+        quoteCurrency: trade.quoteCurrency,
+        quoteTokenAddress: trade.quoteTokenAddress,
+        quoteAmount: trade.quoteAmount.toString(),
+        quoteDecimals: trade.quoteDecimals,
+        priceSource: 'receipt' as const,
+      }),
+      logIndexes: trade.logIndexes,
+    };
+  }
+
+  /**
+   * Net move of the token in one transaction from its Transfer rows, for
+   * transactions whose receipt could not be read; never a trade
+   */
+  private transferMove(transfers: Transaction[], walletAddress: string): ReconstructedTrade | null {
+    let delta = 0n;
+    for (const tx of transfers) {
+      if (tx.tokenValue === undefined) continue;
+      if (tx.to?.toLowerCase() === walletAddress) delta += BigInt(tx.tokenValue);
+      if (tx.from?.toLowerCase() === walletAddress) delta -= BigInt(tx.tokenValue);
+    }
+    if (delta === 0n) return null;
+
+    console.warn(`  Receipt of ${transfers[0].hash.slice(0, 10)}... unavailable - recorded as a transfer`);
+    return {
+      hash: transfers[0].hash,
+      blockNumber: transfers[0].blockNumber,
+      side: delta > 0n ? 'transfer_in' : 'transfer_out',
+      tokenAmount: delta > 0n ? delta : -delta,
+      quoteAmount: 0n,
+      logIndexes: transfers.map(tx => tx.logIndex).filter((logIndex): logIndex is number => logIndex !== undefined),
+    };
+  }
+
+  /**
+   * Value every record at its own block: ETH/USD from the oracle as of the block
+   * (the current rate only when no historical answer exists), USDC legs as paid,
+   * creator coin / ZORA legs at the quote token's pool price of the block.
+   * Transfers in of someone else's coin (airdrops, gifts) are valued at the pool
+   * price of their block - that is their cost basis; author mints stay at zero
+   */
+  private async attachExecutionValues(
+    postTransactions: BaseAppPostTransaction[],
+    token: TokenBalance
+  ): Promise<void> {
+    const blocks = Array.from(new Set(postTransactions.map(tx => tx.blockNumber).filter(block => block > 0)));
+    const ratesByBlock = new Map<number, number>();
+    const BATCH_SIZE = 5;
+    for (let i = 0; i < blocks.length; i += BATCH_SIZE) {
+      const batch = blocks.slice(i, i + BATCH_SIZE);
+      const rates = await Promise.all(batch.map(block => this.historicalPrices.getEthPriceAt(block).catch(() => null)));
+      batch.forEach((block, index) => {
+        if (rates[index]) ratesByBlock.set(block, rates[index]!);
+      });
+    }
+
+    const missing = postTransactions.filter(tx => !ratesByBlock.has(tx.blockNumber));
+    const currentRate = missing.length > 0 ? await this.ethUsd.getPrice() : 0;
+    if (missing.length > 0) {
+      console.warn(`  ETH/USD at block unavailable for ${missing.length} record(s) - valued at the current rate`);
+    }
+
+    for (const tx of postTransactions) {
+      const blockRate = ratesByBlock.get(tx.blockNumber);
+      const ethPriceUSD = blockRate || currentRate;
+      tx.ethPriceUSD = ethPriceUSD;
+      tx.ethPriceSource = blockRate ? 'block' : 'current';
+
+      if (tx.type !== 'buy' && tx.type !== 'sell') {
+        tx.valueUSD = 0;
+      } else if (tx.quoteCurrency === 'USDC' && tx.quoteAmount) {
+        tx.valueUSD = parseFloat(ethers.formatUnits(tx.quoteAmount, 6));
+        tx.price = ethPriceUSD > 0 ? ethers.parseEther((tx.valueUSD / ethPriceUSD).toFixed(18)).toString() : '0';
+      } else if (tx.quoteCurrency === 'OTHER') {
+        tx.valueUSD = 0; // Priced below
+      } else {
+        tx.valueUSD = parseFloat(ethers.formatEther(tx.price || '0')) * ethPriceUSD;
+      }
+    }
+
+    const otherQuoted = postTransactions.filter(tx => tx.quoteCurrency === 'OTHER' && tx.quoteTokenAddress && tx.quoteAmount);
+    for (let i = 0; i < otherQuoted.length; i += BATCH_SIZE) {
+      const batch = otherQuoted.slice(i, i + BATCH_SIZE);
+      const prices = await Promise.all(batch.map(tx =>
+        this.historicalPrices.getPriceAt(tx.quoteTokenAddress!, tx.blockNumber).catch(() => null)
+      ));
+      batch.forEach((tx, index) => {
+        const price = prices[index];
+        if (!price || price.priceUSD <= 0) {
+          console.warn(`  No pool price for quote ${tx.quoteTokenAddress!.slice(0, 10)}... at block ${tx.blockNumber} - ${tx.type} of ${token.symbol} kept at zero value`);
+          return;
+        }
+        tx.valueUSD = parseFloat(ethers.formatUnits(tx.quoteAmount!, tx.quoteDecimals ?? 18)) * price.priceUSD;
+        tx.price = tx.ethPriceUSD! > 0 ? ethers.parseEther((tx.valueUSD / tx.ethPriceUSD!).toFixed(18)).toString() : '0';
+      });
+    }
+
+    const receipts = postTransactions.filter(tx => tx.type === 'transfer_in' && tx.blockNumber > 0 && tx.amount);
+    for (let i = 0; i < receipts.length; i += BATCH_SIZE) {
+      const batch = receipts.slice(i, i + BATCH_SIZE);
+      const prices = await Promise.all(batch.map(tx =>
+        this.historicalPrices.getPriceAt(token.tokenAddress, tx.blockNumber).catch(() => null)
+      ));
+      batch.forEach((tx, index) => {
+        const price = prices[index];
+        if (!price || price.priceUSD <= 0) {
+          console.warn(`  No pool price for ${token.symbol} at block ${tx.blockNumber} - transfer in kept at zero cost`);
+          return;
+        }
+        tx.valueUSD = parseFloat(ethers.formatUnits(tx.amount!, token.decimals)) * price.priceUSD;
+      });
+    }
+  }
+
+  /**
+   * Token transfer events for a wallet/token pair; with a cached history only
+   * transfers after its last block are fetched (none if the balance did not move)
+   */
+  private async loadTokenTransfers(
+    address: string,
+    token: TokenBalance,
+    walletData: WalletData,
+    cachedHistory?: CachedTokenHistory
+  ): Promise<Transaction[]> {
+    if (!cachedHistory) {
+      return this.findTokenTransactions(address, token.tokenAddress, walletData.transactions);
+    }
+
+    if (cachedHistory.lastBlock >= (token.lastTransferBlock || 0)) {
+      console.log(`  Using ${cachedHistory.transfers.length} cached transfers (up to block ${cachedHistory.lastBlock})`);
+      return cachedHistory.transfers;
+    }
+
+    const newTransfers = await this.findTokenTransactions(
+      address,
+      token.tokenAddress,
+      walletData.transactions,
+      cachedHistory.lastBlock + 1
+    );
+    console.log(`  Found ${newTransfers.length} new transfers after block ${cachedHistory.lastBlock}`);
+
+    // Newest first, like the tokentx API; a Transfer event is its hash and log index
+    // (cached rows always have one; new rows without one are all after the cached range)
+    const seen = new Set<string>();
+    return [...newTransfers, ...cachedHistory.transfers].filter(tx => {
+      if (tx.logIndex === undefined) return true;
+      const id = `${tx.hash.toLowerCase()}:${tx.logIndex}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }
+
+  /**
+   * Build daily portfolio value / cost basis / PnL series from the
+   * per-token records collected in analyzeToken
+   */
+  private async buildPortfolioHistory(
+    postsAnalytics: PostAnalytics[],
+    walletData: WalletData
+  ): Promise<PortfolioHistoryPoint[]> {
+    const tokens: TokenTradeHistory[] = postsAnalytics
+      .filter(post => post.transactions && post.transactions.length > 0)
+      .map(post => ({
+        tokenAddress: post.postTokenAddress,
+        decimals: walletData.tokens.find(t => t.tokenAddress.toLowerCase() === post.postTokenAddress.toLowerCase())?.decimals || 18,
+        transactions: post.transactions!,
+        currentPriceUSD: parseFloat(post.currentPrice) || 0,
+      }));
+
+    // Records without a rate of their own are valued at ETH/USD as of their time
+    const ethPriceAt = async (timestamp: number): Promise<number> =>
+      await this.historicalPrices.getEthPriceAt(timestamp) ?? await this.ethUsd.getPrice();
+    // Pool prices at past blocks fill the gaps between the wallet's own trades
+    const historyService = new PortfolioHistoryService(ethPriceAt, new PoolPriceSource(this.historicalPrices, ethPriceAt));
+    return historyService.buildDailySeries(tokens, walletData.transactions);
+  }
+
+  /**
+   * Fill in metadata the transfer history lacked and take the on-chain balance
+   * (balances rebuilt from transfers drift when the history is truncated)
+   */
+  private applyTokenInspection(token: TokenBalance, inspection: TokenInspection | undefined): void {
+    if (!inspection) return;
+
+    if ((!token.name || token.name === 'Unknown') && inspection.name) token.name = inspection.name;
+    if ((!token.symbol || token.symbol === 'UNK') && inspection.symbol) token.symbol = inspection.symbol;
+    if (inspection.decimals !== undefined) token.decimals = inspection.decimals;
+
+    if (inspection.balance !== undefined) {
+      token.balance = inspection.balance.toString();
+      token.balanceFormatted = parseFloat(ethers.formatUnits(inspection.balance, token.decimals)).toFixed(6);
+    }
+  }
+
   /**
    * Verify tokens that passed bytecode check via platformReferrer()
-   * This is fast because we only check tokens that already matched bytecode
+   * One Multicall3 pass also refreshes their metadata and balances
    */
-  private async verifyTokensByReferrer(tokens: TokenBalance[]): Promise<Set<string>> {
+  private async verifyTokensByReferrer(tokens: TokenBalance[], walletAddress: string): Promise<Set<string>> {
     const verifiedAddresses = new Set<string>();
     
     if (tokens.length === 0) {
       return verifiedAddresses;
     }
 
-    console.log(`Verifying ${tokens.length} bytecode-matched tokens via platformReferrer()...`);
+    console.log(`Verifying ${tokens.length} bytecode-matched tokens via platformReferrer() (Multicall3)...`);
+    const inspections = await inspectTokens(this.chainData, tokens.map(t => t.tokenAddress), walletAddress);
+    const baseReferrer = BASE_PLATFORM_REFERRER.toLowerCase();
     
-    // Check all tokens in parallel batches (fast since we only check filtered tokens)
-    const BATCH_SIZE = 20; // Larger batches since we have fewer tokens
-    const totalBatches = Math.ceil(tokens.length / BATCH_SIZE);
-    
-    for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
-      const batch = tokens.slice(i, i + BATCH_SIZE);
-      const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-      console.log(`  Verifying batch ${batchNum}/${totalBatches} (${batch.length} tokens)...`);
-      
-      const checkPromises = batch.map(async (token) => {
-        const tokenAddress = token.tokenAddress as Address;
-        const tokenName = token.symbol || token.tokenAddress.slice(0, 10) + '...';
-        
-        try {
-          const isBaseApp = await Promise.race([
-            isBaseAppTokenByReferrer(tokenAddress),
-            new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 5000))
-          ]);
-          
-          if (isBaseApp) {
-            verifiedAddresses.add(token.tokenAddress.toLowerCase());
-            console.log(`    ✓ ${tokenName} verified as BaseApp token`);
-          } else {
-            console.log(`    ⚠ ${tokenName} has BaseApp bytecode but platformReferrer() check failed`);
-            // Still trust bytecode - it's a strong indicator
-            verifiedAddresses.add(token.tokenAddress.toLowerCase());
-            console.log(`    ✓ ${tokenName} trusted as BaseApp based on bytecode`);
-          }
-          
-          return { address: token.tokenAddress, isBaseApp };
-        } catch (error: any) {
-          // If check fails, still trust bytecode match
-          console.log(`    ⚠ ${tokenName} verification failed, trusting bytecode match`);
-          verifiedAddresses.add(token.tokenAddress.toLowerCase());
-          return { address: token.tokenAddress, isBaseApp: true };
-        }
-      });
-      
-      await Promise.allSettled(checkPromises);
+    for (const token of tokens) {
+      const tokenAddress = token.tokenAddress.toLowerCase();
+      const tokenName = token.symbol || token.tokenAddress.slice(0, 10) + '...';
+      const inspection = inspections.get(tokenAddress);
+      this.applyTokenInspection(token, inspection);
       
-      // Minimal delay between batches
-      if (i + BATCH_SIZE < tokens.length) {
-        await new Promise(resolve => setTimeout(resolve, 50));
+      if (inspection?.platformReferrer === baseReferrer) {
+        console.log(`    ✓ ${tokenName} verified as BaseApp token`);
+      } else if (inspection?.platformReferrer) {
+        console.log(`    ⚠ ${tokenName} has BaseApp bytecode but platformReferrer() is ${inspection.platformReferrer.slice(0, 10)}...`);
+      } else {
+        console.log(`    ⚠ ${tokenName} platformReferrer() unavailable, trusting bytecode match`);
       }
+      // Bytecode is a strong indicator - keep the token either way
+      verifiedAddresses.add(tokenAddress);
     }
     
     return verifiedAddresses;
@@ -841,11 +1421,11 @@ export class AnalyticsService {
 
   /**
    * Alternative method: Detect BaseApp tokens by directly checking platformReferrer()
-   * This is the fastest and most direct method according to Base documentation
    * Base App tokens are Zora coins with platformReferrer() == BASE_PLATFORM_REFERRER
+   * All wallet tokens are checked through Multicall3, so there is no cap on token count
    * NOTE: This method is now only used as fallback - prefer bytecode filtering first
    */
-  private async detectBaseAppTokensByReferrer(tokens: TokenBalance[]): Promise<Set<string>> {
+  private async detectBaseAppTokensByReferrer(tokens: TokenBalance[], walletAddress: string): Promise<Set<string>> {
     const baseAppAddresses = new Set<string>();
     
     if (tokens.length === 0) {
@@ -853,115 +1433,46 @@ export class AnalyticsService {
     }
 
     try {
-      console.log(`\n=== Alternative: Checking ${tokens.length} tokens via platformReferrer() ===`);
-      console.log('This is the fastest method - directly checks platformReferrer() on each token');
+      console.log(`\n=== Alternative: Checking ${tokens.length} tokens via platformReferrer() (Multicall3) ===`);
       console.log('Base App tokens are Zora coins with platformReferrer() == BASE_PLATFORM_REFERRER');
       
-      // Limit to reasonable number to avoid timeout (check top tokens by balance first)
-      // Sort by balance to prioritize likely BaseApp posts
-      const sortedTokens = [...tokens].sort((a, b) => {
-        const balanceA = parseFloat(a.balanceFormatted || '0');
-        const balanceB = parseFloat(b.balanceFormatted || '0');
-        return balanceB - balanceA; // Higher balance first
-      });
-      
-      // Check top 80 tokens by balance (reasonable limit to avoid timeout)
-      const MAX_TOKENS_TO_CHECK = 80;
-      const tokensToCheck = sortedTokens.slice(0, Math.min(MAX_TOKENS_TO_CHECK, sortedTokens.length));
-      
-      console.log(`Checking top ${tokensToCheck.length} tokens by balance (out of ${tokens.length} total) via platformReferrer()`);
+      const inspections = await inspectTokens(this.chainData, tokens.map(t => t.tokenAddress), walletAddress);
+      const baseReferrer = BASE_PLATFORM_REFERRER.toLowerCase();
+      let zoraCoins = 0;
       
-      // Check tokens in batches (this is fast since we're just calling a view function)
-      // Increased batch size and reduced delays for faster processing
-      const BATCH_SIZE = 20; // Smaller batches to avoid RPC rate limits
-      const totalBatches = Math.ceil(tokensToCheck.length / BATCH_SIZE);
-      
-      // Add overall timeout for fallback check (30 seconds max)
-      const fallbackTimeout = setTimeout(() => {
-        console.warn('⚠️ Fallback check timeout - returning results so far');
-      }, 30000);
-      
-      for (let i = 0; i < tokensToCheck.length; i += BATCH_SIZE) {
-      const batch = tokensToCheck.slice(i, i + BATCH_SIZE);
-      const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-      console.log(`  Checking batch ${batchNum}/${totalBatches} (${batch.length} tokens)...`);
-      
-      const checkPromises = batch.map(async (token) => {
-        const tokenAddress = token.tokenAddress as Address;
-        const tokenName = token.symbol || token.tokenAddress.slice(0, 10) + '...';
+      for (const token of tokens) {
+        const tokenAddress = token.tokenAddress.toLowerCase();
+        const inspection = inspections.get(tokenAddress);
+        this.applyTokenInspection(token, inspection);
         
-        try {
-          // First try direct platformReferrer() check (fastest)
-          let isBaseApp = false;
-          
-          try {
-            // Use only direct platformReferrer check (fastest method)
-            // Skip pool-based check to maximize speed - if platformReferrer() doesn't exist, token is not a Zora coin
-            isBaseApp = await Promise.race([
-              isBaseAppTokenByReferrer(tokenAddress),
-              new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 3000)) // Shorter timeout for speed
-            ]);
-          } catch (error: any) {
-            // If check fails or times out, token is not a Base App token
-            // This is expected for non-Zora tokens (they don't have platformReferrer function)
-            isBaseApp = false;
-          }
-          
-          if (isBaseApp) {
-            baseAppAddresses.add(token.tokenAddress.toLowerCase());
-            console.log(`    ✓ ${tokenName} (${token.tokenAddress.slice(0, 10)}...) is BaseApp token`);
-          } else {
-            // Log first few failures for debugging
-            if (baseAppAddresses.size === 0 && i < 3) {
-              console.log(`    ✗ ${tokenName} (${token.tokenAddress.slice(0, 10)}...) is NOT BaseApp token`);
-            }
-          }
-          
-          return { address: token.tokenAddress, isBaseApp };
-        } catch (error: any) {
-          console.log(`    ⚠ ${tokenName} check failed: ${error.message}`);
-          return { address: token.tokenAddress, isBaseApp: false };
+        if (!inspection?.platformReferrer) continue; // Not a Zora coin
+        zoraCoins++;
+        
+        if (inspection.platformReferrer === baseReferrer) {
+          baseAppAddresses.add(tokenAddress);
+          console.log(`    ✓ ${token.symbol || 'Unknown'} (${tokenAddress.slice(0, 10)}...) is BaseApp token`);
         }
-      });
+      }
       
-      await Promise.allSettled(checkPromises);
+      console.log(`\n✓ Found ${baseAppAddresses.size} BaseApp tokens via platformReferrer() check (${zoraCoins} Zora coins out of ${tokens.length} tokens)`);
       
-      // Small delay between batches to avoid RPC rate limits
-      if (i + BATCH_SIZE < tokensToCheck.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+      if (baseAppAddresses.size === 0) {
+        console.warn('⚠️ No BaseApp tokens found via platformReferrer()');
+        console.warn('This could mean:');
+        console.warn('1. Tokens are not Zora coins (no platformReferrer() function)');
+        console.warn('2. Tokens are Zora coins but created directly (not via Base App)');
+        console.warn('3. Tokens are BaseApp but platformReferrer() check failed');
+        console.warn('Sample tokens checked:', tokens.slice(0, 5).map(t => ({
+          symbol: t.symbol || 'Unknown',
+          address: t.tokenAddress.slice(0, 10) + '...',
+          balance: t.balanceFormatted
+        })));
       }
-    }
-    
-    if (fallbackTimeout) {
-      clearTimeout(fallbackTimeout);
-    }
-    
-    console.log(`\n✓ Found ${baseAppAddresses.size} BaseApp tokens via platformReferrer() check`);
-    
-    if (baseAppAddresses.size === 0) {
-      console.warn('⚠️ No BaseApp tokens found via platformReferrer()');
-      console.warn('This could mean:');
-      console.warn('1. Tokens are not Zora coins (no platformReferrer() function)');
-      console.warn('2. Tokens are Zora coins but created directly (not via Base App)');
-      console.warn('3. Tokens are BaseApp but platformReferrer() check failed');
-      console.warn(`Checked ${tokensToCheck.length} tokens total`);
-      console.warn('Sample tokens checked:', tokensToCheck.slice(0, 5).map(t => ({
-        symbol: t.symbol || 'Unknown',
-        address: t.tokenAddress.slice(0, 10) + '...',
-        balance: t.balanceFormatted
-      })));
-    } else {
-      console.log('✓ BaseApp token addresses found:', Array.from(baseAppAddresses).slice(0, 10).map(a => {
-        const token = tokensToCheck.find(t => t.tokenAddress.toLowerCase() === a);
-        return `${a.slice(0, 10)}... (${token?.symbol || 'Unknown'})`;
-      }));
-    }
-    
-    return baseAppAddresses;
+      
+      return baseAppAddresses;
     } catch (error: any) {
       console.error('Error in detectBaseAppTokensByReferrer:', error);
       console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
       // Return empty set on error - don't break the entire analysis
       return new Set<string>();
     }
@@ -1004,11 +1515,15 @@ export class AnalyticsService {
         console.log(`  Checking batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(tokensToCheck.length / BATCH_SIZE)} (direct platformReferrer)...`);
         
         const checkPromises = batch.map(async (token) => {
+          let referrerTimeout: NodeJS.Timeout | undefined;
+          let poolTimeout: NodeJS.Timeout | undefined;
           try {
             // First try direct platformReferrer() check (fastest method from docs)
             const isBaseApp = await Promise.race([
-              isBaseAppTokenByReferrer(token.tokenAddress as Address),
-              new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 3000))
+              isBaseAppTokenByReferrer(token.tokenAddress as Address, this.baseClient),
+              new Promise<boolean>((_, reject) => {
+                referrerTimeout = setTimeout(() => reject(new Error('Timeout')), 3000);
+              })
             ]);
             
             if (isBaseApp) {
@@ -1021,8 +1536,10 @@ export class AnalyticsService {
             // Only for tokens that didn't pass direct check
             try {
               const isBaseAppByPool = await Promise.race([
-                isBaseAppTokenByPool(token.tokenAddress as Address),
-                new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 8000))
+                isBaseAppTokenByPool(token.tokenAddress as Address, this.baseClient),
+                new Promise<boolean>((_, reject) => {
+                  poolTimeout = setTimeout(() => reject(new Error('Timeout')), 8000);
+                })
               ]);
               
               if (isBaseAppByPool) {
@@ -1038,6 +1555,9 @@ export class AnalyticsService {
           } catch (error: any) {
             // Both checks failed
             return { address: token.tokenAddress, isBaseApp: false };
+          } finally {
+            clearTimeout(referrerTimeout);
+            clearTimeout(poolTimeout);
           }
         });
         
@@ -1188,30 +1708,25 @@ export class AnalyticsService {
   private async findTokenTransactions(
     walletAddress: string,
     tokenAddress: string,
-    allTransactions: Transaction[]
+    allTransactions: Transaction[],
+    startBlock: number = 0
   ): Promise<Transaction[]> {
-    // Use Etherscan API V2 to get ERC-20 Transfer events for this specific token
+    // Get ERC-20 Transfer events for this specific token from the chain data provider
     try {
-      const apiKey = this.walletService.baseScanApiKey || '';
-      const ETHERSCAN_API_V2 = 'https://api.etherscan.io/v2/api';
-      const BASE_CHAIN_ID = '8453'; // Base chain ID
-      
-      const response = await fetch(
-        `${ETHERSCAN_API_V2}?chainid=${BASE_CHAIN_ID}&module=account&action=tokentx&contractaddress=${tokenAddress}&address=${walletAddress}&startblock=0&endblock=99999999&sort=desc${apiKey ? `&apikey=${apiKey}` : ''}`
-      );
-      
-      const data = await response.json();
+      const rows = await this.chainData.getTokenTransfers({
+        address: walletAddress,
+        contractAddress: tokenAddress,
+        startBlock,
+      });
       
-      console.log(`Token transactions API response for ${tokenAddress}:`, {
-        status: data.status,
-        resultCount: data.result?.length || 0,
-        message: data.message
+      console.log(`Token transactions for ${tokenAddress} via ${this.chainData.name}:`, {
+        resultCount: rows.length,
       });
       
-      if (data.status === '1' && data.result && Array.isArray(data.result)) {
+      if (rows.length > 0) {
         // Convert token transfer events to Transaction format
         // In token transfer events, 'value' is the token amount, not ETH
-        const tokenTxs: Transaction[] = data.result.map((tx: any) => ({
+        const tokenTxs: Transaction[] = rows.map(tx => ({
           hash: tx.hash,
           from: tx.from,
           to: tx.to,
@@ -1223,10 +1738,15 @@ export class AnalyticsService {
           // Store additional token data
           tokenValue: tx.value, // Token amount
           tokenDecimals: parseInt(tx.tokenDecimal || '18'),
+          logIndex: tx.logIndex !== undefined ? parseInt(tx.logIndex) : undefined,
         }));
         
         return tokenTxs;
       }
+
+      if (startBlock > 0) {
+        return [];
+      }
     } catch (error) {
       console.error(`Error fetching token transactions for ${tokenAddress}:`, error);
     }
@@ -1,6 +1,8 @@
 import { ethers } from 'ethers';
-import { isBaseAppTokenByPool } from './uniswapV4Detector';
+import { BaseClient, isBaseAppTokenByPool } from './uniswapV4Detector';
 import type { Address } from 'viem';
+import { ChainDataJsonRpcProvider, ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { batchGetCode } from './multicall';
 
 // BaseApp token fingerprint - EIP-1167 Minimal Proxy clone
 // All BaseApp tokens have identical runtime bytecode
@@ -15,20 +17,15 @@ const BASEAPP_PREFIX_LOWER = BASEAPP_PREFIX.toLowerCase();
 const MINIMAL_PROXY_SIG = '363d3d373d3d3d363d73';
 
 export class BaseAppDetector {
+  private chainData: ChainDataProvider;
   private provider: ethers.JsonRpcProvider;
+  private poolClient?: BaseClient;
   private codeCache: Map<string, boolean> = new Map();
 
-  constructor(provider?: ethers.JsonRpcProvider) {
-    // Use provided provider or create new one with retry logic
-    if (provider) {
-      this.provider = provider;
-    } else {
-      // Create provider with retry configuration
-      this.provider = new ethers.JsonRpcProvider('https://mainnet.base.org', {
-        name: 'base',
-        chainId: 8453,
-      });
-    }
+  constructor(chainData?: ChainDataProvider, poolClient?: BaseClient) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+    this.provider = new ChainDataJsonRpcProvider(this.chainData);
+    this.poolClient = poolClient;
   }
 
   /**
@@ -37,101 +34,78 @@ export class BaseAppDetector {
    * @param address Token contract address
    * @returns true if the token is a BaseApp token
    */
-  async isBaseAppToken(address: string, retries: number = 2): Promise<boolean> {
+  async isBaseAppToken(address: string): Promise<boolean> {
     // Check cache first
     const cacheKey = address.toLowerCase();
     if (this.codeCache.has(cacheKey)) {
       return this.codeCache.get(cacheKey)!;
     }
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        // Get code with retry logic
-        let code: string;
-        try {
-          code = await this.provider.getCode(address);
-        } catch (rpcError: any) {
-          if (attempt < retries && (rpcError.code === 'TIMEOUT' || rpcError.message?.includes('timeout'))) {
-            console.log(`Retry ${attempt + 1}/${retries} for ${address.slice(0, 10)}... (RPC timeout)`);
-            await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1))); // Exponential backoff
-            continue;
-          }
-          throw rpcError;
-        }
-        
-        if (!code || code === '0x' || code.length < 20) {
-          this.codeCache.set(cacheKey, false);
-          return false;
-        }
+    try {
+      // Retries, backoff and endpoint failover happen in the RPC transport
+      const code = await this.provider.getCode(address);
+      
+      if (!code || code === '0x' || code.length < 20) {
+        this.codeCache.set(cacheKey, false);
+        return false;
+      }
 
-        const codeLower = code.toLowerCase();
-        
-        // Debug: log code length and first few bytes
-        if (code.length > 0) {
-          console.log(`  Token ${address.slice(0, 10)}... bytecode length: ${code.length}, starts with: ${code.slice(0, 50)}...`);
-          console.log(`  Expected prefix: ${BASEAPP_PREFIX_LOWER.slice(0, 50)}...`);
-        }
-        
-        // Check full fingerprint (most accurate)
-        const hasFullFingerprint = codeLower === BASEAPP_FINGERPRINT_LOWER;
-        const hasPrefix = codeLower.startsWith(BASEAPP_PREFIX_LOWER);
-        const hasBaseAppBytecode = hasFullFingerprint || hasPrefix;
-        
-        if (hasFullFingerprint) {
-          console.log(`  ✓ ${address.slice(0, 10)}... matches full BaseApp fingerprint`);
-        } else if (hasPrefix) {
-          console.log(`  ✓ ${address.slice(0, 10)}... matches BaseApp prefix`);
-        } else {
-          console.log(`  ✗ ${address.slice(0, 10)}... does NOT match BaseApp bytecode`);
-          console.log(`    Code starts with: ${codeLower.slice(0, 60)}`);
-          console.log(`    Expected starts: ${BASEAPP_PREFIX_LOWER.slice(0, 60)}`);
-          this.codeCache.set(cacheKey, false);
-          return false;
-        }
-        
-        // Additional verification: check platformReferrer via pool if available (skip on mobile for speed)
-        const isMobile = typeof window !== 'undefined' && typeof navigator !== 'undefined' &&
-                         (window.innerWidth < 768 || /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent));
-        
-        // Skip referrer check on mobile to speed things up - bytecode is sufficient
-        if (!isMobile) {
-          try {
-            const isBaseAppByPool = await Promise.race([
-              isBaseAppTokenByPool(address as Address),
-              new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 10000))
-            ]);
-            if (hasBaseAppBytecode && isBaseAppByPool) {
-              console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by both bytecode and pool platformReferrer`);
-            } else if (hasBaseAppBytecode) {
-              console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (pool check failed or not available)`);
-            }
-          } catch (error) {
-            // If pool check fails, still trust bytecode match (bytecode is the primary indicator)
-            console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (pool check skipped or failed)`);
+      const codeLower = code.toLowerCase();
+      
+      // Debug: log code length and first few bytes
+      if (code.length > 0) {
+        console.log(`  Token ${address.slice(0, 10)}... bytecode length: ${code.length}, starts with: ${code.slice(0, 50)}...`);
+        console.log(`  Expected prefix: ${BASEAPP_PREFIX_LOWER.slice(0, 50)}...`);
+      }
+      
+      // Check full fingerprint (most accurate)
+      const hasFullFingerprint = codeLower === BASEAPP_FINGERPRINT_LOWER;
+      const hasPrefix = codeLower.startsWith(BASEAPP_PREFIX_LOWER);
+      const hasBaseAppBytecode = hasFullFingerprint || hasPrefix;
+      
+      if (hasFullFingerprint) {
+        console.log(`  ✓ ${address.slice(0, 10)}... matches full BaseApp fingerprint`);
+      } else if (hasPrefix) {
+        console.log(`  ✓ ${address.slice(0, 10)}... matches BaseApp prefix`);
+      } else {
+        console.log(`  ✗ ${address.slice(0, 10)}... does NOT match BaseApp bytecode`);
+        console.log(`    Code starts with: ${codeLower.slice(0, 60)}`);
+        console.log(`    Expected starts: ${BASEAPP_PREFIX_LOWER.slice(0, 60)}`);
+        this.codeCache.set(cacheKey, false);
+        return false;
+      }
+      
+      // Additional verification: check platformReferrer via pool if available (skip on mobile for speed)
+      const isMobile = typeof window !== 'undefined' && typeof navigator !== 'undefined' &&
+                       (window.innerWidth < 768 || /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent));
+      
+      // Skip referrer check on mobile to speed things up - bytecode is sufficient
+      if (!isMobile) {
+        try {
+          const isBaseAppByPool = await Promise.race([
+            isBaseAppTokenByPool(address as Address, this.poolClient),
+            new Promise<boolean>((_, reject) => setTimeout(() => reject(new Error('Timeout')), 10000))
+          ]);
+          if (hasBaseAppBytecode && isBaseAppByPool) {
+            console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by both bytecode and pool platformReferrer`);
+          } else if (hasBaseAppBytecode) {
+            console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (pool check failed or not available)`);
           }
-        } else {
-          console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (mobile - pool check skipped)`);
-        }
-        
-        this.codeCache.set(cacheKey, hasBaseAppBytecode);
-        return hasBaseAppBytecode;
-      } catch (error: any) {
-        if (attempt < retries && (error.code === 'TIMEOUT' || error.message?.includes('timeout') || error.message?.includes('network'))) {
-          console.log(`Retry ${attempt + 1}/${retries} for ${address.slice(0, 10)}... (${error.message})`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1))); // Exponential backoff
-          continue;
-        }
-        console.error(`Error checking bytecode for ${address}:`, error);
-        // Don't cache errors, allow retry on next call
-        if (attempt === retries) {
-          this.codeCache.set(cacheKey, false);
+        } catch (error) {
+          // If pool check fails, still trust bytecode match (bytecode is the primary indicator)
+          console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (pool check skipped or failed)`);
         }
-        if (attempt === retries) return false;
+      } else {
+        console.log(`✓ Token ${address.slice(0, 10)}... confirmed as BaseApp by bytecode (mobile - pool check skipped)`);
       }
+      
+      this.codeCache.set(cacheKey, hasBaseAppBytecode);
+      return hasBaseAppBytecode;
+    } catch (error: any) {
+      console.error(`Error checking bytecode for ${address}:`, error);
+      this.codeCache.set(cacheKey, false);
+      return false;
     }
-    
-    this.codeCache.set(cacheKey, false);
-    return false;
   }
 
   /**
@@ -149,54 +123,30 @@ export class BaseAppDetector {
     console.log(`\n=== Checking bytecode for ${addresses.length} wallet tokens ===`);
     console.log(`Sample addresses: ${addresses.slice(0, 5).map(a => a.slice(0, 10) + '...').join(', ')}`);
     
-    // Smaller batches and longer delays for mobile/network reliability
-    // Detect mobile or slower connections
-    const isMobile = typeof window !== 'undefined' && typeof navigator !== 'undefined' &&
-                     (window.innerWidth < 768 || /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent));
+    // Cached results first, the rest in JSON-RPC batches of eth_getCode
+    const unchecked: string[] = [];
+    for (const address of addresses) {
+      const key = address.toLowerCase();
+      if (this.codeCache.has(key)) {
+        results.set(key, this.codeCache.get(key)!);
+      } else {
+        unchecked.push(key);
+      }
+    }
     
-    const BATCH_SIZE = isMobile ? 3 : 10; // Increased batch size for server-side
-    const DELAY_MS = isMobile ? 500 : 100; // Shorter delays for server-side
+    const codes = await batchGetCode(this.chainData, unchecked);
+    console.log(`  Fetched bytecode for ${codes.size}/${unchecked.length} tokens (${results.size} cached)`);
     
-    for (let i = 0; i < addresses.length; i += BATCH_SIZE) {
-      const batch = addresses.slice(i, i + BATCH_SIZE);
-      console.log(`  Checking batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(addresses.length / BATCH_SIZE)} (${batch.length} tokens)...`);
-      
-      const promises = batch.map(async (addr) => {
-        try {
-          // Add timeout for mobile connections
-          const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Timeout')), isMobile ? 15000 : 10000)
-          );
-          
-          const checkPromise = this.isBaseAppToken(addr).then(isBaseApp => ({ addr, isBaseApp }));
-          
-          return await Promise.race([checkPromise, timeoutPromise]) as { addr: string; isBaseApp: boolean };
-        } catch (error) {
-          console.warn(`Failed to check ${addr.slice(0, 10)}... (will retry):`, error);
-          // Retry once on error
-          try {
-            const isBaseApp = await this.isBaseAppToken(addr);
-            return { addr, isBaseApp };
-          } catch (retryError) {
-            console.error(`Retry failed for ${addr.slice(0, 10)}...:`, retryError);
-            return { addr, isBaseApp: false };
-          }
-        }
-      });
-      
-      const batchResults = await Promise.allSettled(promises);
-      for (const result of batchResults) {
-        if (result.status === 'fulfilled') {
-          results.set(result.value.addr.toLowerCase(), result.value.isBaseApp);
-        } else {
-          console.error('Batch check error:', result.reason);
-        }
-      }
-      
-      // Delay between batches to avoid rate limits (longer on mobile)
-      if (i + BATCH_SIZE < addresses.length) {
-        await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    for (const address of unchecked) {
+      const code = codes.get(address);
+      if (code === undefined) {
+        // Not cached - a later run may succeed
+        results.set(address, false);
+        continue;
       }
+      const isBaseApp = this.isBaseAppTokenByPrefix(code);
+      this.codeCache.set(address, isBaseApp);
+      results.set(address, isBaseApp);
     }
     
     return results;
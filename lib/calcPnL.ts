@@ -1,7 +1,8 @@
 import { ethers } from 'ethers';
 import { BaseAppPostTransaction } from './detectBaseAppPost';
-import { PriceData } from './getPostPrice';
-import { WalletData, Transaction } from './wallet';
+import { PriceData, PriceProvenance } from './getPostPrice';
+import { EthUsdOracle } from './ethUsdOracle';
+import { computeLots, executionValueUSD, CostBasisMethod, OpenLot, ClosedLot } from './lotAccounting';
 
 export interface PostAnalytics {
   postTokenAddress: string;
@@ -13,6 +14,7 @@ export interface PostAnalytics {
   totalSold: string;
   averageBuyPrice: string;
   currentPrice: string;
+  priceProvenance?: PriceProvenance; // Source, depth and confidence of currentPrice
   initialValue: string;
   currentValue: string;
   pnl: string;
@@ -22,6 +24,32 @@ export interface PostAnalytics {
   firstBuyDate?: number;
   lastActivityDate?: number;
   isAuthorToken?: boolean; // Токен от собственного поста
+  transactions?: BaseAppPostTransaction[]; // Buy/sell/mint records used for history replay
+  decimals?: number; // Token decimals of the raw amounts in transactions
+  ethPriceUSD?: number; // ETH/USD at analysis time (records carry the rate at their own block)
+  // Lot accounting (see lib/lotAccounting.ts)
+  costBasisMethod?: CostBasisMethod;
+  realizedPnL?: string; // USD, sum over closed lots
+  unrealizedPnL?: string; // USD, currentValue - cost basis of open lots
+  openLots?: OpenLot[];
+  closedLots?: ClosedLot[];
+  // Zora hook market rewards paid to the wallet on this coin's swaps (see lib/zoraRewards.ts)
+  rewardsIncome?: string; // USD at the current price, not part of pnl
+  rewardPayouts?: number;
+  // Selling into the coin's V4 pool instead of marking at spot (see lib/swapSimulator.ts)
+  liquidationValue?: string; // USD receivable for the whole balance
+  liquidationSlippagePct?: number; // Shortfall vs currentValue
+  exitEstimates?: ExitEstimate[]; // Partial exits, ascending share of the balance
+}
+
+/**
+ * What selling a share of a position into its pool would return
+ */
+export interface ExitEstimate {
+  sharePct: number; // Of the current balance
+  valueUSD: string;
+  slippagePct: number; // Versus the same share of currentValue
+  filled: boolean; // False when the pool could not absorb the whole share
 }
 
 export interface PortfolioAnalytics {
@@ -49,30 +77,27 @@ export interface PortfolioAnalytics {
     profit: string; // Профит/убыток (totalSold + currentValue - totalInvested)
     loss: string; // Убыток (если profit < 0)
   };
+  // Lot accounting summary
+  costBasisMethod?: CostBasisMethod;
+  totalRealizedPnL?: string; // USD
+  totalUnrealizedPnL?: string; // USD
+  openLotCount?: number;
+  closedLotCount?: number;
+  totalRewardsIncome?: string; // USD, hook rewards across posts
+  totalLiquidationValue?: string; // USD, liquidation value where simulated, currentValue elsewhere
 }
 
 export class PnLCalculator {
-  private coinGeckoApiKey?: string;
+  private ethUsd: EthUsdOracle;
+  private costBasisMethod: CostBasisMethod;
 
-  constructor(coinGeckoApiKey?: string) {
-    this.coinGeckoApiKey = coinGeckoApiKey;
+  constructor(ethUsd: EthUsdOracle, costBasisMethod: CostBasisMethod = 'fifo') {
+    this.ethUsd = ethUsd;
+    this.costBasisMethod = costBasisMethod;
   }
 
-  private async getETHPrice(): Promise<number> {
-    // Use CoinGecko (with API key if provided)
-    try {
-      const apiKeyParam = this.coinGeckoApiKey ? `&x_cg_demo_api_key=${this.coinGeckoApiKey}` : '';
-      const res = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd${apiKeyParam}`);
-      const data = await res.json();
-      const price = data?.ethereum?.usd;
-      if (price && parseFloat(price) > 0) {
-        return parseFloat(price);
-      }
-    } catch (e) {
-      console.warn('CoinGecko ETH price API failed:', e);
-    }
-    
-    return 3000; // Fallback
+  async getETHPrice(): Promise<number> {
+    return this.ethUsd.getPrice();
   }
 
   async calculatePostAnalytics(
@@ -82,69 +107,54 @@ export class PnLCalculator {
     tokenDecimals: number = 18,
     isAuthorToken: boolean = false
   ): Promise<PostAnalytics> {
-    const buys = posts.filter((p) => p.type === 'buy' || p.type === 'mint');
+    // Acquisitions carry the cost basis; transfers out are not sales
+    const buys = posts.filter((p) => p.type === 'buy' || p.type === 'mint' || p.type === 'transfer_in');
     const sells = posts.filter((p) => p.type === 'sell');
 
-    // Calculate total bought (in ETH paid)
+    // Calculate total bought (USD at each purchase's own ETH/USD rate)
     // Для авторских токенов: mint не считается затратой, только покупки других
-    let totalCostETH = 0n;
+    let totalCostUSD = 0;
     let totalTokensBought = 0n;
 
     for (const buy of buys) {
+      // amount is tokens received (in smallest token units)
+      if (buy.amount) {
+        totalTokensBought += BigInt(buy.amount);
+      }
+
       // Для авторских токенов: mint не считается затратой
       if (isAuthorToken && buy.type === 'mint') {
         // Токены от собственного поста получены бесплатно
-        if (buy.amount) {
-          totalTokensBought += BigInt(buy.amount);
-        }
         continue;
       }
-      
-      // price is ETH paid (in wei)
-      const ethPaid = BigInt(buy.price || '0');
-      totalCostETH += ethPaid;
-      
-      // amount is tokens received (in smallest token units)
-      if (buy.amount) {
-        totalTokensBought += BigInt(buy.amount);
-      }
+      totalCostUSD += executionValueUSD(buy);
     }
 
     // Calculate total sold
     let totalSold = 0n;
-    let totalRevenue = 0n;
 
     for (const sell of sells) {
       if (sell.amount) {
         totalSold += BigInt(sell.amount);
       }
-      const ethReceived = BigInt(sell.price || '0');
-      totalRevenue += ethReceived;
     }
 
     // Current balance - convert from formatted string to token units
     const currentBalanceFormatted = parseFloat(balance || '0');
     const currentBalanceWei = ethers.parseUnits(currentBalanceFormatted.toFixed(tokenDecimals), tokenDecimals);
 
-    // Average buy price per token (in ETH, from transaction value)
-    // totalTokensBought is in smallest token units
-    // totalCostETH is in wei (ETH paid)
-    const averageBuyPriceWei = totalTokensBought > 0n 
-      ? (totalCostETH * ethers.parseEther('1')) / totalTokensBought
-      : 0n;
-    const avgPriceETH = parseFloat(ethers.formatEther(averageBuyPriceWei));
+    // Average buy price per token in USD (cost at execution / tokens acquired)
+    const tokensBoughtNum = parseFloat(ethers.formatUnits(totalTokensBought, tokenDecimals));
+    const avgPriceUSD = tokensBoughtNum > 0 ? totalCostUSD / tokensBoughtNum : 0;
 
     // Current price from API
     const currentPriceNum = parseFloat(currentPrice.price);
     
-    // Get ETH/USD price for conversion
+    // Current ETH/USD - only for marking an ETH-denominated current price
     const ETH_USD_PRICE = await this.getETHPrice();
     
-    // Convert average buy price from ETH to USD
-    const avgPriceUSD = avgPriceETH * ETH_USD_PRICE;
-    
     // Current price: if isUSD flag is set, it's already in USD, otherwise convert from ETH
-    const currentPriceUSD = (currentPrice as any).isUSD 
+    const currentPriceUSD = currentPrice.isUSD 
       ? currentPriceNum 
       : currentPriceNum * ETH_USD_PRICE;
 
@@ -182,6 +192,11 @@ export class PnLCalculator {
     const totalBoughtFormatted = ethers.formatUnits(totalTokensBought, tokenDecimals);
     const totalSoldFormatted = ethers.formatUnits(totalSold, tokenDecimals);
 
+    // Per-lot realized PnL and open lots with the selected cost-basis method
+    const lots = computeLots(posts, tokenDecimals, this.costBasisMethod);
+    const unrealizedPnLNum = currentValueNum - lots.remainingCostBasis;
+    console.log(`    Lots (${lots.method}): ${lots.openLots.length} open, ${lots.closedLots.length} closed, realized $${lots.realizedPnL.toFixed(2)}`);
+
     return {
       postTokenAddress: posts[0]?.postTokenAddress || '',
       postId: posts[0]?.postId,
@@ -191,6 +206,17 @@ export class PnLCalculator {
       totalSold: totalSoldFormatted,
       averageBuyPrice: avgPriceUSD.toFixed(6), // In USD
       currentPrice: currentPriceUSD.toFixed(6), // In USD
+      priceProvenance: {
+        source: currentPrice.source,
+        pool: currentPrice.pool,
+        liquidityUSD: currentPrice.liquidityUSD,
+        stalenessSec: currentPrice.stalenessSec,
+        crossCheck: currentPrice.crossCheck,
+        disagreementPct: currentPrice.disagreementPct,
+        confidence: currentPrice.confidence,
+        lowConfidence: currentPrice.lowConfidence,
+        warnings: currentPrice.warnings,
+      },
       initialValue: initialValueNum.toFixed(2), // In USD
       currentValue: currentValueNum.toFixed(2), // In USD
       pnl: pnlNum.toFixed(2), // In USD
@@ -200,48 +226,17 @@ export class PnLCalculator {
       firstBuyDate,
       lastActivityDate,
       isAuthorToken,
+      decimals: tokenDecimals,
+      ethPriceUSD: ETH_USD_PRICE,
+      costBasisMethod: lots.method,
+      realizedPnL: lots.realizedPnL.toFixed(2),
+      unrealizedPnL: unrealizedPnLNum.toFixed(2),
+      openLots: lots.openLots,
+      closedLots: lots.closedLots,
     };
   }
 
-  /**
-   * Определяет, является ли токен авторским (создан пользователем)
-   * Проверяет транзакции создания токена (mint) от адреса пользователя
-   */
-  private isAuthorToken(
-    tokenAddress: string,
-    userAddress: string,
-    transactions: Transaction[]
-  ): boolean {
-    const userAddressLower = userAddress.toLowerCase();
-    const tokenAddressLower = tokenAddress.toLowerCase();
-    
-    // Ищем транзакции создания токена (mint) от пользователя
-    // Обычно это транзакции, где from = userAddress и to = tokenAddress или контракт создания
-    for (const tx of transactions) {
-      const txFrom = tx.from?.toLowerCase();
-      const txTo = tx.to?.toLowerCase();
-      
-      // Проверяем, является ли пользователь создателем токена
-      // Это может быть транзакция создания поста в Base App
-      if (txFrom === userAddressLower) {
-        // Если есть транзакция mint или создания токена от пользователя
-        // и она связана с этим токеном
-        if (txTo === tokenAddressLower || 
-            tx.methodId === '0x40c10f19' || // safeMint
-            tx.methodId === '0x1249c58b') { // mint
-          return true;
-        }
-      }
-    }
-    
-    return false;
-  }
-
-  calculatePortfolioAnalytics(
-    postsAnalytics: PostAnalytics[],
-    userAddress?: string,
-    walletData?: WalletData
-  ): PortfolioAnalytics {
+  calculatePortfolioAnalytics(postsAnalytics: PostAnalytics[]): PortfolioAnalytics {
     let totalInvested = 0;
     let totalCurrentValue = 0;
     let profitablePosts = 0;
@@ -252,13 +247,8 @@ export class PnLCalculator {
     const purchasedTokens: PostAnalytics[] = [];
 
     for (const post of postsAnalytics) {
-      // Определяем, является ли токен авторским
-      let isAuthor = post.isAuthorToken;
-      if (isAuthor === undefined && userAddress && walletData) {
-        isAuthor = this.isAuthorToken(post.postTokenAddress, userAddress, walletData.transactions);
-      }
-
-      if (isAuthor) {
+      // isAuthorToken проверен on-chain (см. CoinAuthorshipDetector)
+      if (post.isAuthorToken) {
         authorTokens.push(post);
       } else {
         purchasedTokens.push(post);
@@ -323,6 +313,22 @@ export class PnLCalculator {
 
     const totalPnL = totalCurrentValue - totalInvested;
     const totalPnLPct = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
+
+    // Lot accounting totals
+    let totalRealizedPnL = 0;
+    let totalUnrealizedPnL = 0;
+    let openLotCount = 0;
+    let closedLotCount = 0;
+    let totalRewardsIncome = 0;
+    let totalLiquidationValue = 0;
+    for (const post of postsAnalytics) {
+      totalRewardsIncome += parseFloat(post.rewardsIncome || '0');
+      totalLiquidationValue += parseFloat(post.liquidationValue ?? post.currentValue);
+      totalRealizedPnL += parseFloat(post.realizedPnL || '0');
+      totalUnrealizedPnL += parseFloat(post.unrealizedPnL || '0');
+      openLotCount += post.openLots?.length || 0;
+      closedLotCount += post.closedLots?.length || 0;
+    }
     
     console.log(`\n=== Portfolio Summary ===`);
     console.log(`Total invested: $${totalInvested.toFixed(2)}`);
@@ -355,6 +361,15 @@ export class PnLCalculator {
         profit: purchasedProfitFinal.toFixed(2),
         loss: purchasedLoss.toFixed(2),
       },
+      costBasisMethod: this.costBasisMethod,
+      totalRealizedPnL: totalRealizedPnL.toFixed(2),
+      totalUnrealizedPnL: totalUnrealizedPnL.toFixed(2),
+      openLotCount,
+      closedLotCount,
+      totalRewardsIncome: totalRewardsIncome.toFixed(2),
+      totalLiquidationValue: postsAnalytics.some(post => post.liquidationValue !== undefined)
+        ? totalLiquidationValue.toFixed(2)
+        : undefined,
     };
   }
 }
@@ -0,0 +1,396 @@
+import { PortfolioAnalytics, PostAnalytics } from './calcPnL';
+
+/**
+ * Card templates: size x theme x layout
+ * Layouts only emit drawing elements (CardScene); the canvas renderer in
+ * generateCard.ts and the SVG renderer in svgCard.ts draw the same scene
+ */
+
+export type CardSize = 'portrait' | 'square' | 'embed' | 'story';
+export type CardThemeName = 'light' | 'dark' | 'brand';
+export type CardLayout = 'portfolio' | 'topWinners' | 'spotlight';
+
+export const CARD_LAYOUTS: CardLayout[] = ['portfolio', 'topWinners', 'spotlight'];
+
+export const CARD_SIZES: Record<CardSize, { width: number; height: number }> = {
+  portrait: { width: 1200, height: 1600 }, // Original card
+  square: { width: 1080, height: 1080 }, // Feeds
+  embed: { width: 1200, height: 800 }, // Mini App embed (3:2)
+  story: { width: 1080, height: 1920 }, // 9:16 stories
+};
+
+export interface CardTheme {
+  background: [string, string]; // Diagonal gradient, top-left -> bottom-right
+  panel: CardPanelStyle;
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  positive: string;
+  negative: string;
+  barTrack: string;
+}
+
+// Neumorphic panel: a highlight pass shadowed up-left, then the panel shadowed down-right
+export interface CardPanelStyle {
+  fill: string;
+  highlight: string;
+  highlightShadow: string;
+  shadow: string;
+}
+
+export const CARD_THEMES: Record<CardThemeName, CardTheme> = {
+  light: {
+    background: ['#F8F9FA', '#E9ECEF'],
+    panel: { fill: '#F5F5F5', highlight: '#FFFFFF', highlightShadow: 'rgba(255, 255, 255, 0.8)', shadow: 'rgba(0, 0, 0, 0.1)' },
+    textPrimary: '#000000',
+    textSecondary: '#666666',
+    textMuted: '#999999',
+    positive: '#00C853',
+    negative: '#FF1744',
+    barTrack: '#E0E0E0',
+  },
+  // App colors (pages/index.tsx)
+  dark: {
+    background: ['#0d0f14', '#1a1d26'],
+    panel: { fill: '#161922', highlight: '#1d212c', highlightShadow: 'rgba(255, 255, 255, 0.04)', shadow: 'rgba(0, 0, 0, 0.5)' },
+    textPrimary: '#FFFFFF',
+    textSecondary: '#B0B6C3',
+    textMuted: '#6B7280',
+    positive: '#4ADE80',
+    negative: '#F87171',
+    barTrack: '#2A2F3A',
+  },
+  // Manifest colors (public/manifest.json)
+  brand: {
+    background: ['#667eea', '#764ba2'],
+    panel: { fill: 'rgba(255, 255, 255, 0.12)', highlight: 'rgba(255, 255, 255, 0.18)', highlightShadow: 'rgba(255, 255, 255, 0.1)', shadow: 'rgba(0, 0, 0, 0.2)' },
+    textPrimary: '#FFFFFF',
+    textSecondary: 'rgba(255, 255, 255, 0.8)',
+    textMuted: 'rgba(255, 255, 255, 0.6)',
+    positive: '#69F0AE',
+    negative: '#FF8A80',
+    barTrack: 'rgba(255, 255, 255, 0.25)',
+  },
+};
+
+export interface CardTemplate {
+  size: CardSize;
+  theme: CardThemeName;
+  layout: CardLayout;
+}
+
+export const CARD_TEMPLATES: Record<string, CardTemplate> = {
+  default: { size: 'portrait', theme: 'light', layout: 'portfolio' },
+  feed: { size: 'square', theme: 'light', layout: 'portfolio' },
+  embed: { size: 'embed', theme: 'light', layout: 'portfolio' },
+  story: { size: 'story', theme: 'dark', layout: 'portfolio' },
+  winners: { size: 'square', theme: 'brand', layout: 'topWinners' },
+  spotlight: { size: 'square', theme: 'dark', layout: 'spotlight' },
+};
+
+export const DEFAULT_CARD_TITLE = "BasePost's portfolio screen";
+
+export interface CardText {
+  type: 'text';
+  x: number;
+  y: number; // Alphabetic baseline
+  text: string;
+  size: number;
+  color: string;
+  bold?: boolean;
+  mono?: boolean;
+  anchor?: 'start' | 'middle' | 'end';
+}
+
+export interface CardRect {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  radius?: number;
+}
+
+export interface CardPanel {
+  type: 'panel';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export type CardElement = CardText | CardRect | CardPanel;
+
+export interface CardScene {
+  width: number;
+  height: number;
+  background: [string, string];
+  panel: CardPanelStyle;
+  elements: CardElement[];
+}
+
+export interface CardContent {
+  portfolio: PortfolioAnalytics;
+  walletAddress: string;
+  username: string;
+  title: string;
+  post?: PostAnalytics; // Spotlight layout; defaults to the best performer
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function postLabel(post: PostAnalytics): string {
+  return post.postName || `${post.postTokenAddress.slice(0, 8)}...`;
+}
+
+function signed(value: number, digits: number, prefix: string = '', suffix: string = ''): string {
+  return `${value >= 0 ? '+' : '-'}${prefix}${Math.abs(value).toFixed(digits)}${suffix}`;
+}
+
+/**
+ * Shared pieces of every layout, bound to one scene and theme
+ */
+class SceneBuilder {
+  readonly elements: CardElement[] = [];
+
+  constructor(readonly width: number, readonly height: number, readonly theme: CardTheme) {}
+
+  text(x: number, y: number, text: string, size: number, color: string, extra: Partial<CardText> = {}) {
+    this.elements.push({ type: 'text', x, y, text, size, color, ...extra });
+  }
+
+  panel(x: number, y: number, width: number, height: number) {
+    this.elements.push({ type: 'panel', x, y, width, height, radius: 20 });
+  }
+
+  bar(x: number, y: number, width: number, height: number, fill: number, color: string) {
+    this.elements.push({ type: 'rect', x, y, width, height, color: this.theme.barTrack });
+    this.elements.push({ type: 'rect', x, y, width: width * Math.min(Math.max(fill, 0), 1), height, color });
+  }
+
+  pnlColor(value: number): string {
+    return value >= 0 ? this.theme.positive : this.theme.negative;
+  }
+
+  header(content: CardContent) {
+    const center = this.width / 2;
+    const shortAddress = `${content.walletAddress.slice(0, 6)}...${content.walletAddress.slice(-4)}`;
+    this.text(center, 60, truncate(content.title, 40), 48, this.theme.textPrimary, { bold: true, anchor: 'middle' });
+    this.text(center, 100, content.username, 32, this.theme.textSecondary, { anchor: 'middle' });
+    this.text(center, 130, shortAddress, 20, this.theme.textMuted, { mono: true, anchor: 'middle' });
+  }
+
+  footer() {
+    const center = this.width / 2;
+    this.text(center, this.height - 30, `Generated by ${DEFAULT_CARD_TITLE}`, 16, this.theme.textMuted, { anchor: 'middle' });
+    this.text(center, this.height - 10, new Date().toLocaleDateString(), 16, this.theme.textMuted, { anchor: 'middle' });
+  }
+
+  summary(portfolio: PortfolioAnalytics, x: number, y: number) {
+    const pnl = parseFloat(portfolio.totalPnL);
+    this.panel(x, y, this.width - 2 * x, 250);
+    this.text(x + 30, y + 50, 'Portfolio Summary', 36, this.theme.textPrimary, { bold: true });
+    this.text(x + 30, y + 100, 'Total Invested:', 24, this.theme.textSecondary);
+    this.text(x + 250, y + 100, `$${parseFloat(portfolio.totalInvested).toFixed(2)}`, 28, this.theme.textPrimary, { bold: true });
+    this.text(x + 30, y + 140, 'Current Value:', 24, this.theme.textSecondary);
+    this.text(x + 250, y + 140, `$${parseFloat(portfolio.totalCurrentValue).toFixed(2)}`, 28, this.theme.textPrimary, { bold: true });
+    this.text(x + 30, y + 180, 'Total PnL:', 24, this.theme.textSecondary);
+    this.text(
+      x + 250,
+      y + 180,
+      `${signed(pnl, 2, '$')} (${signed(portfolio.totalPnLPct, 2, '', '%')})`,
+      28,
+      this.pnlColor(pnl),
+      { bold: true }
+    );
+    this.text(
+      x + 30,
+      y + 220,
+      `${portfolio.countOfPostTokens} posts • ${portfolio.profitablePosts} profitable • ${portfolio.losingPosts} losing`,
+      20,
+      this.theme.textSecondary
+    );
+  }
+
+  postRow(post: PostAnalytics, x: number, y: number, width: number, height: number) {
+    const padding = 20;
+    const color = this.pnlColor(post.pnlPct);
+    this.panel(x, y, width, height);
+    this.text(x + padding, y + 35, truncate(postLabel(post), 32), 24, this.theme.textPrimary, { bold: true });
+    this.text(x + padding, y + 60, `Balance: ${parseFloat(post.balanceFormatted).toFixed(4)}`, 18, this.theme.textSecondary);
+    this.text(x + padding, y + 85, `Avg Buy: $${parseFloat(post.averageBuyPrice).toFixed(6)}`, 18, this.theme.textSecondary);
+    this.text(x + padding + 250, y + 85, `Current: $${parseFloat(post.currentPrice).toFixed(6)}`, 18, this.theme.textSecondary);
+    this.text(
+      x + width - padding - 300,
+      y + 60,
+      `${signed(post.pnlPct, 2, '', '%')} (${signed(parseFloat(post.pnl), 2, '$')})`,
+      22,
+      color,
+      { bold: true }
+    );
+    this.bar(x + width - padding - 200, y + 90, 200, 8, Math.abs(post.pnlPct) / 100, color); // Capped at 100%
+  }
+}
+
+/**
+ * Summary and as many posts as fit (up to 8) - the original card
+ */
+function portfolioLayout(scene: SceneBuilder, content: CardContent) {
+  scene.header(content);
+  scene.summary(content.portfolio, 60, 200);
+
+  const listY = 500;
+  scene.text(60, listY, 'Post Tokens', 36, scene.theme.textPrimary, { bold: true });
+
+  const startY = listY + 50;
+  const rowHeight = 120;
+  const spacing = 20;
+  const fitting = Math.floor((scene.height - 60 - startY + spacing) / (rowHeight + spacing));
+  content.portfolio.posts
+    .slice(0, Math.max(0, Math.min(8, fitting)))
+    .forEach((post, i) => scene.postRow(post, 60, startY + i * (rowHeight + spacing), scene.width - 120, rowHeight));
+
+  scene.footer();
+}
+
+/**
+ * The three best posts by PnL %, one large panel each
+ */
+function topWinnersLayout(scene: SceneBuilder, content: CardContent) {
+  const { portfolio } = content;
+  scene.header(content);
+
+  const totalPnL = parseFloat(portfolio.totalPnL);
+  scene.text(scene.width / 2, 200, 'Top 3 Winners', 40, scene.theme.textPrimary, { bold: true, anchor: 'middle' });
+  scene.text(
+    scene.width / 2,
+    240,
+    `Portfolio ${signed(totalPnL, 2, '$')} (${signed(portfolio.totalPnLPct, 2, '', '%')}) • ${portfolio.countOfPostTokens} posts`,
+    22,
+    scene.theme.textSecondary,
+    { anchor: 'middle' }
+  );
+
+  const winners = portfolio.posts
+    .filter(post => post.pnlPct > 0)
+    .sort((a, b) => b.pnlPct - a.pnlPct)
+    .slice(0, 3);
+
+  if (winners.length === 0) {
+    scene.text(scene.width / 2, scene.height / 2, 'No profitable posts yet', 32, scene.theme.textMuted, { anchor: 'middle' });
+    scene.footer();
+    return;
+  }
+
+  const x = 60;
+  const width = scene.width - 2 * x;
+  const startY = 280;
+  const spacing = 24;
+  const available = scene.height - 70 - startY;
+  const panelHeight = Math.min(240, Math.floor((available - 2 * spacing) / 3));
+
+  winners.forEach((post, i) => {
+    const y = startY + i * (panelHeight + spacing);
+    const color = scene.pnlColor(post.pnlPct);
+    const middle = y + panelHeight / 2;
+    scene.panel(x, y, width, panelHeight);
+    scene.text(x + 30, middle + 20, `#${i + 1}`, 56, scene.theme.textMuted, { bold: true });
+    scene.text(x + 140, middle - 10, truncate(postLabel(post), 24), 30, scene.theme.textPrimary, { bold: true });
+    scene.text(
+      x + 140,
+      middle + 30,
+      `$${parseFloat(post.averageBuyPrice).toFixed(6)} → $${parseFloat(post.currentPrice).toFixed(6)}`,
+      20,
+      scene.theme.textSecondary
+    );
+    scene.text(x + width - 30, middle, signed(post.pnlPct, 1, '', '%'), 44, color, { bold: true, anchor: 'end' });
+    scene.text(x + width - 30, middle + 34, signed(parseFloat(post.pnl), 2, '$'), 22, color, { anchor: 'end' });
+  });
+
+  scene.footer();
+}
+
+/**
+ * One post: name, large PnL % and its numbers
+ */
+function spotlightLayout(scene: SceneBuilder, content: CardContent) {
+  const post = content.post || [...content.portfolio.posts].sort((a, b) => b.pnlPct - a.pnlPct)[0];
+  scene.header(content);
+
+  if (!post) {
+    scene.text(scene.width / 2, scene.height / 2, 'No posts yet', 32, scene.theme.textMuted, { anchor: 'middle' });
+    scene.footer();
+    return;
+  }
+
+  const center = scene.width / 2;
+  const color = scene.pnlColor(post.pnlPct);
+  // Spread the blocks over the space between header and footer
+  const top = 180;
+  const usable = scene.height - 60 - top;
+
+  const nameY = top + usable * 0.12;
+  scene.text(center, nameY, truncate(postLabel(post), 28), 44, scene.theme.textPrimary, { bold: true, anchor: 'middle' });
+  if (post.isAuthorToken) {
+    scene.text(center, nameY + 40, 'Author token', 22, scene.theme.textMuted, { anchor: 'middle' });
+  }
+
+  const pnlY = top + usable * 0.34;
+  scene.text(center, pnlY, signed(post.pnlPct, 2, '', '%'), 120, color, { bold: true, anchor: 'middle' });
+  scene.text(center, pnlY + 56, `${signed(parseFloat(post.pnl), 2, '$')} PnL`, 32, color, { anchor: 'middle' });
+  scene.bar(center - 300, pnlY + 86, 600, 12, Math.abs(post.pnlPct) / 100, color);
+
+  const stats: [string, string][] = [
+    ['Avg Buy', `$${parseFloat(post.averageBuyPrice).toFixed(6)}`],
+    ['Current', `$${parseFloat(post.currentPrice).toFixed(6)}`],
+    ['Initial Value', `$${parseFloat(post.initialValue).toFixed(2)}`],
+    ['Current Value', `$${parseFloat(post.currentValue).toFixed(2)}`],
+    ['Balance', parseFloat(post.balanceFormatted).toFixed(4)],
+    ['Trades', `${post.buyCount} buys • ${post.sellCount} sells`],
+  ];
+
+  const x = 60;
+  const width = scene.width - 2 * x;
+  const panelY = pnlY + 140;
+  const rowHeight = 64;
+  const panelHeight = Math.min(3 * rowHeight + 40, scene.height - 70 - panelY);
+  scene.panel(x, panelY, width, panelHeight);
+  stats.forEach(([label, value], i) => {
+    const column = i % 2;
+    const row = Math.floor(i / 2);
+    const cellX = x + 30 + column * (width / 2);
+    const cellY = panelY + 50 + row * rowHeight;
+    if (cellY + 24 > panelY + panelHeight) return;
+    scene.text(cellX, cellY, label, 18, scene.theme.textMuted);
+    scene.text(cellX, cellY + 28, value, 24, scene.theme.textPrimary, { bold: true });
+  });
+
+  scene.footer();
+}
+
+const LAYOUTS: Record<CardLayout, (scene: SceneBuilder, content: CardContent) => void> = {
+  portfolio: portfolioLayout,
+  topWinners: topWinnersLayout,
+  spotlight: spotlightLayout,
+};
+
+export function buildCardScene(
+  content: CardContent,
+  options: { width: number; height: number; theme: CardThemeName; layout: CardLayout; backgroundColor?: string }
+): CardScene {
+  const theme = CARD_THEMES[options.theme];
+  const scene = new SceneBuilder(options.width, options.height, theme);
+  LAYOUTS[options.layout](scene, content);
+
+  return {
+    width: options.width,
+    height: options.height,
+    background: options.backgroundColor ? [options.backgroundColor, options.backgroundColor] : theme.background,
+    panel: theme.panel,
+    elements: scene.elements,
+  };
+}
@@ -0,0 +1,493 @@
+import { ethers } from 'ethers';
+import { createPublicClient, custom } from 'viem';
+import { base } from 'viem/chains';
+import { FixtureChainDataProvider, FixtureMode } from './fixtureChainData';
+import { RpcBatchResult, RpcCall, RpcEndpointPool, getDefaultRpcPool } from './rpcTransport';
+import { inspectTokens } from './multicall';
+
+const ETHERSCAN_API_V2 = 'https://api.etherscan.io/v2/api';
+const BASE_CHAIN_ID = 8453;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+/**
+ * ERC-20 transfer row in Etherscan `tokentx` shape (all numbers as decimal strings)
+ */
+export interface TokenTransferRow {
+  hash: string;
+  blockNumber: string;
+  timeStamp: string;
+  from: string;
+  to: string;
+  value: string;
+  contractAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenDecimal: string;
+  logIndex?: string; // Position in the block; RPC rows always have it, explorer rows may not
+  input?: string;
+}
+
+/**
+ * Normal transaction row in Etherscan `txlist` shape
+ */
+export interface TransactionRow {
+  hash: string;
+  blockNumber: string;
+  timeStamp: string;
+  from: string;
+  to: string;
+  value: string;
+  input: string;
+  isError?: string;
+}
+
+/**
+ * Current token holding (Etherscan `tokenlist` shape)
+ */
+export interface TokenHoldingRow {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  decimals: string;
+  balance: string;
+}
+
+export interface TransferQuery {
+  address: string;
+  contractAddress?: string;
+  startBlock?: number;
+  endBlock?: number;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string; // hex
+  transactionHash: string;
+  logIndex: string; // hex
+}
+
+export interface LogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock: number | 'latest';
+  toBlock: number | 'latest';
+}
+
+/**
+ * Everything the analysis pipeline reads from the chain
+ * Indexed queries (transfers, tx list) follow Etherscan's row format; the
+ * rest is plain JSON-RPC, so ethers/viem clients can run on top of `request`
+ */
+export interface ChainDataProvider {
+  readonly name: string;
+  request(method: string, params?: unknown[]): Promise<any>;
+  requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]>;
+  getBalance(address: string): Promise<bigint>;
+  getCode(address: string): Promise<string>;
+  call(tx: { to: string; data: string }, blockTag?: number | 'latest'): Promise<string>;
+  getLogs(filter: LogFilter): Promise<RpcLog[]>;
+  getBlockNumber(): Promise<number>;
+  getTokenTransfers(query: TransferQuery): Promise<TokenTransferRow[]>;
+  getTransactionList(query: TransferQuery): Promise<TransactionRow[]>;
+  getTokenHoldings(address: string): Promise<TokenHoldingRow[] | null>; // null = not supported
+  // Off-chain JSON APIs (DexScreener, CoinGecko, BaseApp) - here so fixtures capture them too;
+  // secrets go in headers, which are not part of a recorded call
+  fetchJson(url: string, headers?: Record<string, string>): Promise<any>;
+  flush?(): Promise<void>; // Persist anything buffered (recording backends)
+}
+
+function toBlockTag(block: number | 'latest'): string {
+  return block === 'latest' ? 'latest' : ethers.toQuantity(block);
+}
+
+/**
+ * Shared helpers on top of `request` (balances, code, calls, logs)
+ */
+abstract class JsonRpcBackedProvider implements ChainDataProvider {
+  abstract readonly name: string;
+  abstract request(method: string, params?: unknown[]): Promise<any>;
+  abstract getTokenTransfers(query: TransferQuery): Promise<TokenTransferRow[]>;
+  abstract getTransactionList(query: TransferQuery): Promise<TransactionRow[]>;
+  abstract getTokenHoldings(address: string): Promise<TokenHoldingRow[] | null>;
+
+  async requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]> {
+    // No batching on this backend - same result shape, one request per call
+    return Promise.all(calls.map(call =>
+      this.request(call.method, call.params || []).then(
+        result => ({ result }),
+        error => ({ error })
+      )
+    ));
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return BigInt(await this.request('eth_getBalance', [address, 'latest']));
+  }
+
+  async getCode(address: string): Promise<string> {
+    return await this.request('eth_getCode', [address, 'latest']);
+  }
+
+  async call(tx: { to: string; data: string }, blockTag: number | 'latest' = 'latest'): Promise<string> {
+    return await this.request('eth_call', [tx, toBlockTag(blockTag)]);
+  }
+
+  async getLogs(filter: LogFilter): Promise<RpcLog[]> {
+    return await this.request('eth_getLogs', [{
+      address: filter.address,
+      topics: filter.topics,
+      fromBlock: toBlockTag(filter.fromBlock),
+      toBlock: toBlockTag(filter.toBlock),
+    }]);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return Number(await this.request('eth_blockNumber', []));
+  }
+
+  async fetchJson(url: string, headers?: Record<string, string>): Promise<any> {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`${new URL(url).host} error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+export interface RpcChainDataOptions {
+  logChunkSize?: number; // Max block range per eth_getLogs call
+  defaultStartBlock?: number; // Where transfer scans start when the query has no startBlock
+}
+
+/**
+ * Plain JSON-RPC backend (public node pool, local node or anvil fork)
+ * Token transfers come from Transfer logs; there is no by-address tx index over RPC,
+ * so getTransactionList returns only what can be derived from those transfers
+ */
+export class RpcChainDataProvider extends JsonRpcBackedProvider {
+  readonly name = 'rpc';
+  private transport: RpcEndpointPool;
+  private logChunkSize: number;
+  private defaultStartBlock: number;
+  private blockTimestamps: Map<number, number> = new Map();
+  private tokenMetadata: Map<string, { name: string; symbol: string; decimals: number }> = new Map();
+
+  constructor(transport: RpcEndpointPool | string | string[] = getDefaultRpcPool(), options: RpcChainDataOptions = {}) {
+    super();
+    this.transport = transport instanceof RpcEndpointPool
+      ? transport
+      : new RpcEndpointPool(Array.isArray(transport) ? transport : [transport]);
+    this.logChunkSize = options.logChunkSize || 10_000;
+    this.defaultStartBlock = options.defaultStartBlock || 0;
+  }
+
+  async request(method: string, params: unknown[] = []): Promise<any> {
+    return this.transport.request(method, params);
+  }
+
+  async requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]> {
+    return this.transport.requestBatch(calls);
+  }
+
+  async getTokenTransfers(query: TransferQuery): Promise<TokenTransferRow[]> {
+    const padded = ethers.zeroPadValue(query.address.toLowerCase(), 32);
+    const fromBlock = query.startBlock ?? this.defaultStartBlock;
+    const toBlock = query.endBlock ?? await this.getBlockNumber();
+    const logs: RpcLog[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += this.logChunkSize) {
+      const end = Math.min(start + this.logChunkSize - 1, toBlock);
+      // Two queries: wallet as sender (topic1) and as recipient (topic2)
+      const [sent, received] = await Promise.all([
+        this.getLogs({ address: query.contractAddress, topics: [TRANSFER_TOPIC, padded], fromBlock: start, toBlock: end }),
+        this.getLogs({ address: query.contractAddress, topics: [TRANSFER_TOPIC, null, padded], fromBlock: start, toBlock: end }),
+      ]);
+      logs.push(...sent, ...received);
+    }
+
+    // Self-transfers show up in both queries
+    const unique = new Map<string, RpcLog>();
+    for (const log of logs) {
+      if (log.topics.length < 3) continue; // ERC-721 style or malformed
+      unique.set(`${log.transactionHash}-${log.logIndex}`, log);
+    }
+
+    // Metadata and timestamps for everything at once (Multicall3 + batched blocks)
+    await Promise.all([
+      this.loadTokenMetadata(Array.from(unique.values(), log => log.address)),
+      this.loadBlockTimestamps(Array.from(unique.values(), log => Number(log.blockNumber))),
+    ]);
+
+    const rows: TokenTransferRow[] = [];
+    for (const log of unique.values()) {
+      const blockNumber = Number(log.blockNumber);
+      const metadata = this.tokenMetadata.get(log.address.toLowerCase())!;
+      rows.push({
+        hash: log.transactionHash,
+        blockNumber: blockNumber.toString(),
+        timeStamp: (this.blockTimestamps.get(blockNumber) || 0).toString(),
+        from: ethers.getAddress('0x' + log.topics[1].slice(26)).toLowerCase(),
+        to: ethers.getAddress('0x' + log.topics[2].slice(26)).toLowerCase(),
+        value: BigInt(log.data === '0x' ? 0 : log.data).toString(),
+        contractAddress: log.address.toLowerCase(),
+        tokenName: metadata.name,
+        tokenSymbol: metadata.symbol,
+        tokenDecimal: metadata.decimals.toString(),
+        logIndex: Number(log.logIndex).toString(),
+      });
+    }
+
+    rows.sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
+    if (query.sort !== 'asc') rows.reverse();
+    return query.limit ? rows.slice(0, query.limit) : rows;
+  }
+
+  async getTransactionList(query: TransferQuery): Promise<TransactionRow[]> {
+    // Transactions the wallet sent that moved tokens - the best RPC can do without an index
+    const transfers = await this.getTokenTransfers({ ...query, contractAddress: undefined });
+    const hashes = Array.from(new Set(transfers.map(t => t.hash)));
+    const timestamps = new Map(transfers.map(t => [t.hash, t.timeStamp]));
+    const txs = await this.requestBatch(hashes.map(hash => ({ method: 'eth_getTransactionByHash', params: [hash] })));
+    const rows: TransactionRow[] = [];
+
+    for (const { result: tx } of txs) {
+      if (!tx || tx.from?.toLowerCase() !== query.address.toLowerCase()) continue;
+      rows.push({
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber).toString(),
+        timeStamp: timestamps.get(tx.hash) || '0',
+        from: tx.from,
+        to: tx.to || '',
+        value: BigInt(tx.value).toString(),
+        input: tx.input,
+      });
+    }
+
+    rows.sort((a, b) => Number(b.blockNumber) - Number(a.blockNumber));
+    if (query.sort === 'asc') rows.reverse();
+    return query.limit ? rows.slice(0, query.limit) : rows;
+  }
+
+  async getTokenHoldings(): Promise<TokenHoldingRow[] | null> {
+    return null;
+  }
+
+  private async loadBlockTimestamps(blockNumbers: number[]): Promise<void> {
+    const missing = Array.from(new Set(blockNumbers)).filter(block => !this.blockTimestamps.has(block));
+    for (let i = 0; i < missing.length; i += 50) {
+      const batch = missing.slice(i, i + 50);
+      const blocks = await this.requestBatch(batch.map(block => ({
+        method: 'eth_getBlockByNumber',
+        params: [ethers.toQuantity(block), false],
+      })));
+      blocks.forEach(({ result }, j) => {
+        if (result) this.blockTimestamps.set(batch[j], Number(result.timestamp));
+      });
+    }
+  }
+
+  private async loadTokenMetadata(addresses: string[]): Promise<void> {
+    const missing = Array.from(new Set(addresses.map(a => a.toLowerCase()))).filter(a => !this.tokenMetadata.has(a));
+    if (missing.length === 0) return;
+
+    const inspections = await inspectTokens(this, missing);
+    for (const address of missing) {
+      const inspection = inspections.get(address);
+      this.tokenMetadata.set(address, {
+        name: inspection?.name ?? 'Unknown',
+        symbol: inspection?.symbol ?? 'UNK',
+        decimals: inspection?.decimals ?? 18,
+      });
+    }
+  }
+}
+
+/**
+ * Etherscan V2 for indexed queries (tokentx, txlist, tokenlist), JSON-RPC for the rest
+ */
+export class EtherscanChainDataProvider extends JsonRpcBackedProvider {
+  readonly name = 'etherscan';
+
+  constructor(private apiKey: string = '', private rpc: ChainDataProvider = new RpcChainDataProvider()) {
+    super();
+  }
+
+  request(method: string, params: unknown[] = []): Promise<any> {
+    return this.rpc.request(method, params);
+  }
+
+  requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]> {
+    return this.rpc.requestBatch(calls);
+  }
+
+  async getTokenTransfers(query: TransferQuery): Promise<TokenTransferRow[]> {
+    return this.attachLogIndexes(await this.query<TokenTransferRow>('tokentx', query));
+  }
+
+  async getTransactionList(query: TransferQuery): Promise<TransactionRow[]> {
+    return this.query('txlist', query);
+  }
+
+  async getTokenHoldings(address: string): Promise<TokenHoldingRow[] | null> {
+    try {
+      // tokenlist needs a paid plan on Base - treat errors as "not supported"
+      return await this.query('tokenlist', { address });
+    } catch (error) {
+      console.warn('Etherscan tokenlist unavailable:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * tokentx rows carry no log index, and without one two identical transfers in a tx
+   * can't be told from a row returned twice - it is read from the receipts (batched)
+   * Rows whose receipt can't be read keep logIndex undefined
+   */
+  private async attachLogIndexes(rows: TokenTransferRow[]): Promise<TokenTransferRow[]> {
+    const hashes = Array.from(new Set(rows.filter(row => row.logIndex === undefined).map(row => row.hash.toLowerCase())));
+    const receiptLogs = new Map<string, RpcLog[]>();
+    for (let i = 0; i < hashes.length; i += 50) {
+      const batch = hashes.slice(i, i + 50);
+      const receipts = await this.requestBatch(batch.map(hash => ({ method: 'eth_getTransactionReceipt', params: [hash] })));
+      receipts.forEach(({ result }, j) => {
+        if (result?.logs) receiptLogs.set(batch[j], result.logs);
+      });
+    }
+
+    // Each log is claimed once, so repeated identical transfers get consecutive indexes
+    const claimed = new Set<string>();
+    return rows.map(row => {
+      if (row.logIndex !== undefined) return row;
+      const hash = row.hash.toLowerCase();
+      const log = (receiptLogs.get(hash) || []).find(log =>
+        !claimed.has(`${hash}:${Number(log.logIndex)}`)
+        && log.address.toLowerCase() === row.contractAddress.toLowerCase()
+        && log.topics.length >= 3
+        && log.topics[0] === TRANSFER_TOPIC
+        && ethers.dataSlice(log.topics[1], 12).toLowerCase() === row.from.toLowerCase()
+        && ethers.dataSlice(log.topics[2], 12).toLowerCase() === row.to.toLowerCase()
+        && BigInt(log.data === '0x' ? 0 : log.data).toString() === row.value
+      );
+      if (!log) return row;
+      claimed.add(`${hash}:${Number(log.logIndex)}`);
+      return { ...row, logIndex: Number(log.logIndex).toString() };
+    });
+  }
+
+  private async query<T>(action: string, query: TransferQuery): Promise<T[]> {
+    const params = new URLSearchParams({
+      chainid: BASE_CHAIN_ID.toString(),
+      module: 'account',
+      action,
+      address: query.address,
+    });
+    if (action !== 'tokenlist') {
+      params.set('startblock', (query.startBlock ?? 0).toString());
+      params.set('endblock', (query.endBlock ?? 99999999).toString());
+      params.set('sort', query.sort || 'desc');
+    }
+    if (query.contractAddress) params.set('contractaddress', query.contractAddress);
+    if (query.limit) {
+      params.set('page', '1');
+      params.set('offset', query.limit.toString());
+    }
+    if (this.apiKey) params.set('apikey', this.apiKey);
+
+    console.log(`Etherscan API V2 ${action} for ${query.address.slice(0, 10)}...${query.contractAddress ? ` (token ${query.contractAddress.slice(0, 10)}...)` : ''}`);
+    const response = await fetch(`${ETHERSCAN_API_V2}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Etherscan API V2 error: ${response.status} ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid JSON response from API: ${text.slice(0, 200)}`);
+    }
+
+    if (data.status === '1' && Array.isArray(data.result)) {
+      return data.result;
+    }
+    if (data.message === 'No transactions found' || data.message === 'No token found') {
+      return [];
+    }
+
+    const detail = typeof data.result === 'string' ? data.result : data.message;
+    const errorText = `${data.message} ${detail}`.toLowerCase();
+    if (errorText.includes('rate limit')) {
+      console.error('⚠️ Rate limit exceeded. Please wait a few minutes or upgrade your API plan.');
+    } else if (errorText.includes('api key')) {
+      console.error('⚠️ API key issue. Check if your Etherscan API key is valid.');
+    }
+    throw new Error(`Etherscan API V2 ${action} error: ${data.message} - ${detail}`);
+  }
+}
+
+// One fixture instance per file so everything recorded in a process ends up in the same file
+const fixtureProviders: Map<string, FixtureChainDataProvider> = new Map();
+
+/**
+ * Provider used when none is injected
+ * BASE_RPC_URL(S) point JSON-RPC at other nodes (e.g. an anvil fork on http://127.0.0.1:8545);
+ * CHAIN_DATA=rpc skips Etherscan entirely
+ * CHAIN_FIXTURE=path replays canned responses (CHAIN_FIXTURE_MODE=record captures them)
+ */
+export function createDefaultChainDataProvider(etherscanApiKey?: string): ChainDataProvider {
+  const rpc = new RpcChainDataProvider(getDefaultRpcPool(), {
+    defaultStartBlock: process.env.RPC_LOG_START_BLOCK ? parseInt(process.env.RPC_LOG_START_BLOCK) : undefined,
+  });
+  const upstream = process.env.CHAIN_DATA === 'rpc'
+    ? rpc
+    : new EtherscanChainDataProvider(etherscanApiKey, rpc);
+
+  const fixtureFile = process.env.CHAIN_FIXTURE;
+  if (fixtureFile) {
+    if (!fixtureProviders.has(fixtureFile)) {
+      const mode = (process.env.CHAIN_FIXTURE_MODE || 'replay') as FixtureMode;
+      fixtureProviders.set(fixtureFile, new FixtureChainDataProvider(fixtureFile, mode, upstream));
+    }
+    return fixtureProviders.get(fixtureFile)!;
+  }
+  return upstream;
+}
+
+/**
+ * ethers provider that sends every JSON-RPC call through a ChainDataProvider
+ */
+export class ChainDataJsonRpcProvider extends ethers.JsonRpcProvider {
+  constructor(private chainData: ChainDataProvider) {
+    const network = new ethers.Network('base', BASE_CHAIN_ID);
+    super(undefined, network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(payloads.map(async ({ id, method, params }) => {
+      try {
+        const result = await this.chainData.request(method, Array.isArray(params) ? params : [params]);
+        return { id, result };
+      } catch (error: any) {
+        // ethers expects JSON-RPC error objects here to build CALL_EXCEPTION etc.
+        return { id, error: { code: error.code ?? -32603, message: error.message, data: error.data } } as unknown as ethers.JsonRpcResult;
+      }
+    }));
+  }
+}
+
+/**
+ * viem public client for Base on top of a ChainDataProvider
+ */
+export function createChainDataClient(chainData: ChainDataProvider) {
+  return createPublicClient({
+    chain: base,
+    transport: custom({
+      request: ({ method, params }) => chainData.request(method, (params as unknown[]) || []),
+    }),
+  });
+}
@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { aggregate3 } from './multicall';
+
+// Zora coin factory on Base (deploys every Base App / Zora coin)
+export const ZORA_FACTORY = '0x777777751622c0d3258f214F9DF38E35BF45baF3';
+
+const ZORA_COIN = new ethers.Interface([
+  'function payoutRecipient() view returns (address)',
+  'function owners() view returns (address[])',
+]);
+
+// Factory deployment events; caller and payoutRecipient are indexed in all of them
+const ZORA_FACTORY_EVENTS = new ethers.Interface([
+  'event CoinCreated(address indexed caller, address indexed payoutRecipient, address indexed platformReferrer, address currency, string uri, string name, string symbol, address coin, address pool, string version)',
+  'event CoinCreatedV4(address indexed caller, address indexed payoutRecipient, address indexed platformReferrer, address currency, string uri, string name, string symbol, address coin, (address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bytes32 poolKeyHash, string version)',
+  'event CreatorCoinCreated(address indexed caller, address indexed payoutRecipient, address indexed platformReferrer, address currency, string uri, string name, string symbol, address coin, (address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bytes32 poolKeyHash, string version)',
+]);
+
+const CREATION_TOPICS = ['CoinCreated', 'CoinCreatedV4', 'CreatorCoinCreated']
+  .map(name => ZORA_FACTORY_EVENTS.getEvent(name)!.topicHash);
+
+/**
+ * Who a coin belongs to, and whether that includes the wallet
+ * `source` says which fact proved authorship; 'none' = not the author (or unverifiable)
+ */
+export interface CoinAuthorship {
+  isAuthor: boolean;
+  source: 'owner' | 'payoutRecipient' | 'creationEvent' | 'none';
+  payoutRecipient?: string; // Lowercased, current
+  owners?: string[]; // Lowercased, current
+  creator?: string; // Caller of the factory, lowercased (when the creation event was found)
+}
+
+/**
+ * Verifies coin authorship from on-chain facts instead of "received for free":
+ * the coin's current owners()/payoutRecipient(), then the factory's creation
+ * event in the block the wallet first received the coin (the creation tx mints
+ * the creator's share, so the event sits in that block if the wallet created it)
+ */
+export class CoinAuthorshipDetector {
+  private chainData: ChainDataProvider;
+  private cache: Map<string, CoinAuthorship> = new Map();
+
+  constructor(chainData?: ChainDataProvider) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+  }
+
+  async detect(tokenAddress: string, walletAddress: string, firstReceiptBlock?: number): Promise<CoinAuthorship> {
+    const token = tokenAddress.toLowerCase();
+    const wallet = walletAddress.toLowerCase();
+    const cacheKey = `${token}-${wallet}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey)!;
+    }
+
+    // 1. Current coin state
+    const authorship: CoinAuthorship = { isAuthor: false, source: 'none', ...await this.readCoinState(token) };
+
+    if (authorship.owners?.includes(wallet)) {
+      authorship.isAuthor = true;
+      authorship.source = 'owner';
+    } else if (authorship.payoutRecipient === wallet) {
+      authorship.isAuthor = true;
+      authorship.source = 'payoutRecipient';
+    } else if (firstReceiptBlock !== undefined && firstReceiptBlock > 0) {
+      // 2. Ownership can be handed over - the creation event is the original fact
+      const creation = await this.findCreationEvent(token, firstReceiptBlock);
+      if (creation) {
+        authorship.creator = creation.caller;
+        if (creation.caller === wallet || creation.payoutRecipient === wallet) {
+          authorship.isAuthor = true;
+          authorship.source = 'creationEvent';
+        }
+      }
+    }
+
+    this.cache.set(cacheKey, authorship);
+    return authorship;
+  }
+
+  /**
+   * Wallets that speak for the coin's creator today: its owners and payout recipient
+   * (empty for tokens that are not Zora coins)
+   */
+  async getCreators(tokenAddress: string): Promise<string[]> {
+    const { payoutRecipient, owners = [] } = await this.readCoinState(tokenAddress.toLowerCase());
+    return Array.from(new Set(payoutRecipient ? [...owners, payoutRecipient] : owners));
+  }
+
+  /**
+   * owners() and payoutRecipient() of the coin in one Multicall3 round trip
+   */
+  private async readCoinState(token: string): Promise<Pick<CoinAuthorship, 'payoutRecipient' | 'owners'>> {
+    const state: Pick<CoinAuthorship, 'payoutRecipient' | 'owners'> = {};
+    const [payoutResult, ownersResult] = await aggregate3(this.chainData, [
+      { target: token, callData: ZORA_COIN.encodeFunctionData('payoutRecipient') },
+      { target: token, callData: ZORA_COIN.encodeFunctionData('owners') },
+    ]);
+    try {
+      if (payoutResult.success && payoutResult.returnData !== '0x') {
+        state.payoutRecipient = (ZORA_COIN.decodeFunctionResult('payoutRecipient', payoutResult.returnData)[0] as string).toLowerCase();
+      }
+      if (ownersResult.success && ownersResult.returnData !== '0x') {
+        state.owners = (ZORA_COIN.decodeFunctionResult('owners', ownersResult.returnData)[0] as string[]).map(a => a.toLowerCase());
+      }
+    } catch {
+      // Not a Zora coin - detect() falls through to the creation event
+    }
+    return state;
+  }
+
+  private async findCreationEvent(token: string, block: number): Promise<{ caller: string; payoutRecipient: string } | null> {
+    try {
+      const logs = await this.chainData.getLogs({
+        address: ZORA_FACTORY,
+        topics: [CREATION_TOPICS],
+        fromBlock: block,
+        toBlock: block,
+      });
+
+      for (const log of logs) {
+        const parsed = ZORA_FACTORY_EVENTS.parseLog({ topics: log.topics, data: log.data });
+        if (parsed && (parsed.args.coin as string).toLowerCase() === token) {
+          return {
+            caller: (parsed.args.caller as string).toLowerCase(),
+            payoutRecipient: (parsed.args.payoutRecipient as string).toLowerCase(),
+          };
+        }
+      }
+    } catch (error: any) {
+      console.warn(`  Creation event lookup failed for ${token.slice(0, 10)}... at block ${block}:`, error.message);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,487 @@
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { ChainDataProvider, RpcLog, createDefaultChainDataProvider } from './chainData';
+import { PostPriceService } from './getPostPrice';
+import { aggregate3 } from './multicall';
+import { getPoolIndex, IndexedPool } from './poolIndex';
+import { KeyValueStore, getDefaultStore } from './storage';
+import {
+  BaseClient,
+  createBaseClient,
+  findPoolForToken,
+  getCoinPriceInQuote,
+  getCoinType,
+  PoolMetadata,
+  UNISWAP_V4_POOL_MANAGER,
+} from './uniswapV4Detector';
+import { getMarketRewardsInBlocks, MarketRewardsPayout } from './zoraRewards';
+
+const STATE_VERSION = 1;
+
+// Event signatures
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const V4_SWAP_TOPIC = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+
+const ZERO_ADDRESS = ethers.ZeroAddress.toLowerCase();
+const POOL_MANAGER = UNISWAP_V4_POOL_MANAGER.toLowerCase();
+
+// Block range per eth_getLogs call (public nodes cap it at 10k) and ranges fetched at once
+const LOG_CHUNK_SIZE = 10_000;
+const LOG_CONCURRENCY = 3;
+// Scanning stops here and resumes on the next request - serverless functions have ~60s
+const DEFAULT_SCAN_BUDGET_MS = 40_000;
+const TOP_LIST_SIZE = 10;
+
+const TOKEN = new ethers.Interface([
+  'function totalSupply() view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+]);
+
+/**
+ * A post coin of the creator as the dashboard asks for it
+ * (its creation block and price are looked up on the server)
+ */
+export interface CreatorCoinInput {
+  tokenAddress: string;
+  name?: string;
+}
+
+interface BuyerTotals {
+  tokens: string; // Coins bought, smallest units
+  quote: string; // Backing currency paid, smallest units
+  trades: number;
+}
+
+/**
+ * Running totals of one coin's history, extended range by range so a repeat
+ * request only scans blocks after `lastBlock`
+ */
+interface CoinLedgerState {
+  version: number;
+  tokenAddress: string;
+  fromBlock: number;
+  lastBlock: number; // Scanned through this block
+  balances: Record<string, string>; // Holder -> balance (smallest units), zero balances dropped
+  buyers: Record<string, BuyerTotals>;
+  swapCount: number;
+  volumeToken: string; // Coins swapped in either direction
+  volumeQuote: string; // Backing currency swapped in either direction
+  rewards: {
+    count: number;
+    creatorCurrency: string;
+    creatorCoin: string;
+    payoutRecipients: string[];
+  };
+}
+
+export interface HolderShare {
+  address: string;
+  balance: number;
+  sharePct: number; // Of total supply
+  isCreator: boolean;
+}
+
+export interface TopBuyer {
+  address: string;
+  tokens: number;
+  quoteSpent: number; // In the pool's backing currency
+  usdSpent: number;
+  trades: number;
+}
+
+export interface CreatorCoinAnalytics {
+  tokenAddress: string;
+  name?: string;
+  coinType?: 'ZORA_CREATOR_COIN' | 'ZORA_V4_COIN';
+  quoteSymbol?: string; // Backing currency of the pool (ETH, ZORA, a creator coin...)
+  priceUSD: number;
+  // Supply
+  totalSupply: number;
+  creatorBalance: number; // All creator addresses together
+  creatorSharePct: number;
+  // Holders (the PoolManager is pool liquidity, not a holder)
+  holderCount: number;
+  poolSharePct: number;
+  top10SharePct: number;
+  topHolders: HolderShare[];
+  // Trading
+  swapCount: number;
+  volumeTokens: number;
+  volumeQuote: number;
+  volumeUSD: number;
+  topBuyers: TopBuyer[];
+  // Creator rewards paid by the Zora hook
+  rewardsCount: number;
+  creatorRewardsCurrency: number;
+  creatorRewardsCoin: number;
+  creatorRewardsUSD: number;
+  payoutRecipients: string[];
+  // Scan progress
+  syncedBlock: number;
+  latestBlock: number;
+  complete: boolean;
+}
+
+function topicToAddress(topic: string): string {
+  return ethers.getAddress('0x' + topic.slice(26)).toLowerCase();
+}
+
+function addBalance(balances: Record<string, string>, address: string, delta: bigint): void {
+  const balance = BigInt(balances[address] || '0') + delta;
+  if (balance === 0n) {
+    delete balances[address];
+  } else {
+    balances[address] = balance.toString();
+  }
+}
+
+function toNumber(value: bigint | string, decimals: number): number {
+  return parseFloat(ethers.formatUnits(value, decimals));
+}
+
+/**
+ * Creator dashboard for post coins: holders and their distribution, swap
+ * volume, creator rewards from the Zora hook, top buyers and the creator's
+ * remaining supply - all rebuilt from the coin's Transfer logs, its V4 pool's
+ * Swap events and the hook's CoinMarketRewardsV4 events
+ */
+export class CreatorAnalyticsService {
+  private chainData: ChainDataProvider;
+  private store: KeyValueStore;
+  private poolClient: BaseClient;
+  private priceService: PostPriceService;
+
+  constructor(chainData?: ChainDataProvider, store?: KeyValueStore, coinGeckoApiKey?: string) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+    this.store = store || getDefaultStore();
+    this.poolClient = createBaseClient(this.chainData);
+    this.priceService = new PostPriceService(coinGeckoApiKey, this.chainData);
+  }
+
+  private key(tokenAddress: string): string {
+    return `creator:${tokenAddress.toLowerCase()}`;
+  }
+
+  /**
+   * Analyze the creator's coins within one scan budget
+   * Coins whose history is not fully scanned yet come back with `complete: false`
+   */
+  async analyzeCoins(
+    creatorAddresses: string[],
+    coins: CreatorCoinInput[],
+    budgetMs: number = DEFAULT_SCAN_BUDGET_MS
+  ): Promise<CreatorCoinAnalytics[]> {
+    const deadline = Date.now() + budgetMs;
+    const latestBlock = await this.chainData.getBlockNumber();
+    const creators = new Set(creatorAddresses.map(a => a.toLowerCase()));
+    const results: CreatorCoinAnalytics[] = [];
+
+    for (const coin of coins) {
+      try {
+        results.push(await this.analyzeCoin(creators, coin, latestBlock, deadline));
+      } catch (error: any) {
+        console.warn(`Creator analytics failed for ${coin.tokenAddress.slice(0, 10)}...:`, error.message);
+      }
+    }
+
+    return results;
+  }
+
+  private async analyzeCoin(
+    creators: Set<string>,
+    coin: CreatorCoinInput,
+    latestBlock: number,
+    deadline: number
+  ): Promise<CreatorCoinAnalytics> {
+    const token = coin.tokenAddress.toLowerCase();
+
+    const pool = await findPoolForToken(coin.tokenAddress as Address, this.poolClient);
+    if (!pool?.coinType) {
+      throw new Error('Not a Zora coin with a Uniswap V4 pool');
+    }
+    const fromBlock = await this.findCreationBlock(token, pool);
+    if (fromBlock === null) {
+      throw new Error('Creation block is not known until the pool index syncs');
+    }
+
+    const state = await this.loadState(token, fromBlock);
+    const startBlock = state.lastBlock + 1;
+    await this.sync(state, pool, latestBlock, deadline);
+    await this.store.set(this.key(token), state);
+    console.log(`📊 Creator coin ${token.slice(0, 10)}...: scanned ${startBlock}-${state.lastBlock}, ${Object.keys(state.balances).length} balances, ${state.swapCount} swaps`);
+
+    const price = await this.priceService.getPostPrice(undefined, coin.tokenAddress);
+    return this.summarize(state, coin, parseFloat(price.price) || 0, creators, pool, latestBlock);
+  }
+
+  /**
+   * Block the coin was created in - Zora coins are minted and their pool initialized
+   * in the creation transaction, so the pool's Initialize event dates the coin
+   */
+  private async findCreationBlock(token: string, pool: PoolMetadata): Promise<number | null> {
+    const index = getPoolIndex();
+    const poolId = pool.poolId.toLowerCase();
+    const find = (pools: IndexedPool[]) => pools.find(p => p.poolId.toLowerCase() === poolId);
+    const indexed = find(await index.getPools(token)) || find(await index.getRecentPools(token, this.poolClient));
+    return indexed ? indexed.blockNumber : null;
+  }
+
+  private async loadState(token: string, fromBlock: number): Promise<CoinLedgerState> {
+    const cached = await this.store.get<CoinLedgerState>(this.key(token));
+    // A cached scan that started later than this coin's creation is missing transfers
+    if (cached && cached.version === STATE_VERSION && cached.fromBlock <= fromBlock) {
+      return cached;
+    }
+
+    return {
+      version: STATE_VERSION,
+      tokenAddress: token,
+      fromBlock,
+      lastBlock: fromBlock - 1,
+      balances: {},
+      buyers: {},
+      swapCount: 0,
+      volumeToken: '0',
+      volumeQuote: '0',
+      rewards: { count: 0, creatorCurrency: '0', creatorCoin: '0', payoutRecipients: [] },
+    };
+  }
+
+  private async sync(state: CoinLedgerState, pool: PoolMetadata | null, latestBlock: number, deadline: number): Promise<void> {
+    const tokenIs0 = pool?.currency0.address.toLowerCase() === state.tokenAddress;
+    let start = state.lastBlock + 1;
+
+    while (start <= latestBlock && Date.now() < deadline) {
+      const ranges: [number, number][] = [];
+      while (ranges.length < LOG_CONCURRENCY && start <= latestBlock) {
+        const end = Math.min(start + LOG_CHUNK_SIZE - 1, latestBlock);
+        ranges.push([start, end]);
+        start = end + 1;
+      }
+
+      const results = await Promise.all(ranges.map(([from, to]) => this.fetchRange(state.tokenAddress, pool, from, to)));
+      for (const { transfers, swaps, rewards } of results) {
+        this.apply(state, transfers, swaps, rewards, tokenIs0, pool);
+      }
+      state.lastBlock = ranges[ranges.length - 1][1];
+    }
+  }
+
+  private async fetchRange(
+    token: string,
+    pool: PoolMetadata | null,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<{ transfers: RpcLog[]; swaps: RpcLog[]; rewards: MarketRewardsPayout[] }> {
+    const [transfers, swaps] = await Promise.all([
+      this.chainData.getLogs({ address: token, topics: [TRANSFER_TOPIC], fromBlock, toBlock }),
+      pool
+        ? this.chainData.getLogs({ address: UNISWAP_V4_POOL_MANAGER, topics: [V4_SWAP_TOPIC, pool.poolId], fromBlock, toBlock })
+        : Promise.resolve([] as RpcLog[]),
+    ]);
+
+    // Only Zora hooks pay market rewards
+    const rewards = pool?.coinType && swaps.length > 0
+      ? await getMarketRewardsInBlocks(this.chainData, pool.key.hooks, token, swaps.map(log => Number(log.blockNumber)))
+      : [];
+
+    return { transfers, swaps, rewards };
+  }
+
+  private apply(
+    state: CoinLedgerState,
+    transfers: RpcLog[],
+    swaps: RpcLog[],
+    rewards: MarketRewardsPayout[],
+    tokenIs0: boolean,
+    pool: PoolMetadata | null
+  ): void {
+    // Balances, plus each address's net coin delta per transaction for buyer attribution
+    const deltasByTx = new Map<string, Map<string, bigint>>();
+    for (const log of transfers) {
+      if (log.topics.length < 3) continue;
+      const from = topicToAddress(log.topics[1]);
+      const to = topicToAddress(log.topics[2]);
+      const value = BigInt(log.data === '0x' ? 0 : log.data);
+      if (from !== ZERO_ADDRESS) addBalance(state.balances, from, -value);
+      if (to !== ZERO_ADDRESS) addBalance(state.balances, to, value);
+
+      const hash = log.transactionHash.toLowerCase();
+      const deltas = deltasByTx.get(hash) || new Map<string, bigint>();
+      deltas.set(from, (deltas.get(from) || 0n) - value);
+      deltas.set(to, (deltas.get(to) || 0n) + value);
+      deltasByTx.set(hash, deltas);
+    }
+
+    // Swap deltas are from the swapper's side: positive coin amount = bought
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const swapsByTx = new Map<string, { token: bigint; quote: bigint }>();
+    let volumeToken = BigInt(state.volumeToken);
+    let volumeQuote = BigInt(state.volumeQuote);
+    for (const log of swaps) {
+      try {
+        const [amount0, amount1] = coder.decode(['int128', 'int128', 'uint160', 'uint128', 'int24', 'uint24'], log.data);
+        const tokenAmount = BigInt(tokenIs0 ? amount0 : amount1);
+        const quoteAmount = BigInt(tokenIs0 ? amount1 : amount0);
+        volumeToken += tokenAmount < 0n ? -tokenAmount : tokenAmount;
+        volumeQuote += quoteAmount < 0n ? -quoteAmount : quoteAmount;
+        state.swapCount++;
+
+        const hash = log.transactionHash.toLowerCase();
+        const swap = swapsByTx.get(hash) || { token: 0n, quote: 0n };
+        swap.token += tokenAmount;
+        swap.quote += quoteAmount;
+        swapsByTx.set(hash, swap);
+      } catch (error) {
+        console.warn(`  Failed to decode Swap log ${log.logIndex} in ${log.transactionHash.slice(0, 10)}...`);
+      }
+    }
+    state.volumeToken = volumeToken.toString();
+    state.volumeQuote = volumeQuote.toString();
+
+    // Reward recipients also end a swap with more coins - they are not buyers
+    const rewardRecipientsByTx = new Map<string, Set<string>>();
+    let creatorCurrency = BigInt(state.rewards.creatorCurrency);
+    let creatorCoin = BigInt(state.rewards.creatorCoin);
+    for (const payout of rewards) {
+      creatorCurrency += payout.creatorAmountCurrency;
+      creatorCoin += payout.creatorAmountCoin;
+      state.rewards.count++;
+      if (!state.rewards.payoutRecipients.includes(payout.payoutRecipient)) {
+        state.rewards.payoutRecipients.push(payout.payoutRecipient);
+      }
+
+      const hash = payout.hash.toLowerCase();
+      const recipients = rewardRecipientsByTx.get(hash) || new Set<string>();
+      [payout.payoutRecipient, payout.platformReferrer, payout.tradeReferrer].forEach(a => recipients.add(a));
+      rewardRecipientsByTx.set(hash, recipients);
+    }
+    state.rewards.creatorCurrency = creatorCurrency.toString();
+    state.rewards.creatorCoin = creatorCoin.toString();
+
+    // Buyers: whoever ends a buy transaction with more coins (routers net to zero)
+    const hooks = pool?.key.hooks.toLowerCase();
+    for (const [hash, swap] of swapsByTx) {
+      if (swap.token <= 0n) continue;
+      const excluded = rewardRecipientsByTx.get(hash);
+      const receivers = Array.from(deltasByTx.get(hash) || [])
+        .filter(([address, delta]) => delta > 0n
+          && address !== POOL_MANAGER
+          && address !== ZERO_ADDRESS
+          && address !== hooks
+          && !excluded?.has(address));
+      const received = receivers.reduce((sum, [, delta]) => sum + delta, 0n);
+      if (received === 0n) continue;
+
+      const paid = swap.quote < 0n ? -swap.quote : 0n;
+      for (const [address, delta] of receivers) {
+        const buyer = state.buyers[address] || { tokens: '0', quote: '0', trades: 0 };
+        buyer.tokens = (BigInt(buyer.tokens) + delta).toString();
+        buyer.quote = (BigInt(buyer.quote) + paid * delta / received).toString();
+        buyer.trades++;
+        state.buyers[address] = buyer;
+      }
+    }
+  }
+
+  private async summarize(
+    state: CoinLedgerState,
+    coin: CreatorCoinInput,
+    priceUSD: number,
+    creators: Set<string>,
+    pool: PoolMetadata | null,
+    latestBlock: number
+  ): Promise<CreatorCoinAnalytics> {
+    const token = state.tokenAddress;
+    const creatorList = Array.from(creators);
+
+    // Supply and the creator's holdings are read live - exact even while the scan catches up
+    const results = await aggregate3(this.chainData, [
+      { target: token, callData: TOKEN.encodeFunctionData('totalSupply') },
+      { target: token, callData: TOKEN.encodeFunctionData('decimals') },
+      ...creatorList.map(address => ({ target: token, callData: TOKEN.encodeFunctionData('balanceOf', [address]) })),
+    ]);
+    const decode = (fn: string, index: number): bigint | undefined => {
+      const result = results[index];
+      if (!result?.success || result.returnData === '0x') return undefined;
+      try {
+        return TOKEN.decodeFunctionResult(fn, result.returnData)[0] as bigint;
+      } catch {
+        return undefined;
+      }
+    };
+    const decimals = Number(decode('decimals', 1) ?? 18n);
+    const totalSupplyRaw = decode('totalSupply', 0) ?? 0n;
+    const creatorBalanceRaw = creatorList.reduce((sum, _, i) => sum + (decode('balanceOf', i + 2) ?? 0n), 0n);
+
+    const totalSupply = toNumber(totalSupplyRaw, decimals);
+    const share = (balance: number) => totalSupply > 0 ? (balance / totalSupply) * 100 : 0;
+
+    // Holders by balance, largest first
+    const holders = Object.entries(state.balances)
+      .filter(([address, balance]) => address !== POOL_MANAGER && BigInt(balance) > 0n)
+      .map(([address, balance]) => ({ address, balance: toNumber(balance, decimals) }))
+      .sort((a, b) => b.balance - a.balance);
+    const topHolders = holders.slice(0, TOP_LIST_SIZE).map(holder => ({
+      ...holder,
+      sharePct: share(holder.balance),
+      isCreator: creators.has(holder.address),
+    }));
+
+    // Backing currency valued through the coin's own price
+    const tokenIs0 = pool?.currency0.address.toLowerCase() === token;
+    const quote = pool ? (tokenIs0 ? pool.currency1 : pool.currency0) : undefined;
+    const priceInQuote = pool ? getCoinPriceInQuote(pool, token) : 0;
+    const quoteUSD = priceInQuote > 0 ? priceUSD / priceInQuote : 0;
+    const quoteDecimals = quote?.decimals ?? 18;
+
+    const volumeQuote = toNumber(state.volumeQuote, quoteDecimals);
+    const creatorRewardsCurrency = toNumber(state.rewards.creatorCurrency, quoteDecimals);
+    const creatorRewardsCoin = toNumber(state.rewards.creatorCoin, decimals);
+
+    const topBuyers = Object.entries(state.buyers)
+      .map(([address, buyer]) => {
+        const quoteSpent = toNumber(buyer.quote, quoteDecimals);
+        return {
+          address,
+          tokens: toNumber(buyer.tokens, decimals),
+          quoteSpent,
+          usdSpent: quoteSpent * quoteUSD,
+          trades: buyer.trades,
+        };
+      })
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, TOP_LIST_SIZE);
+
+    const creatorBalance = toNumber(creatorBalanceRaw, decimals);
+
+    return {
+      tokenAddress: token,
+      name: coin.name,
+      coinType: pool ? getCoinType(pool.key.hooks) : undefined,
+      quoteSymbol: quote?.symbol,
+      priceUSD,
+      totalSupply,
+      creatorBalance,
+      creatorSharePct: share(creatorBalance),
+      holderCount: holders.length,
+      poolSharePct: share(toNumber(state.balances[POOL_MANAGER] || '0', decimals)),
+      top10SharePct: share(topHolders.reduce((sum, holder) => sum + holder.balance, 0)),
+      topHolders,
+      swapCount: state.swapCount,
+      volumeTokens: toNumber(state.volumeToken, decimals),
+      volumeQuote,
+      volumeUSD: volumeQuote * quoteUSD,
+      topBuyers,
+      rewardsCount: state.rewards.count,
+      creatorRewardsCurrency,
+      creatorRewardsCoin,
+      creatorRewardsUSD: creatorRewardsCurrency * quoteUSD + creatorRewardsCoin * priceUSD,
+      payoutRecipients: state.rewards.payoutRecipients,
+      syncedBlock: state.lastBlock,
+      latestBlock,
+      complete: state.lastBlock >= latestBlock,
+    };
+  }
+}
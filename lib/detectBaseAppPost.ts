@@ -24,9 +24,18 @@ export interface BaseAppPostTransaction extends Transaction {
   isBaseAppPost: true;
   postTokenAddress: string;
   postId?: string;
-  type: 'buy' | 'sell' | 'mint';
+  type: 'buy' | 'sell' | 'mint' | 'transfer_in' | 'transfer_out'; // Transfers move tokens without a trade
   amount?: string;
-  price?: string;
+  price?: string; // ETH paid/received in wei (USDC legs: ETH equivalent at ethPriceUSD)
+  quoteCurrency?: 'ETH' | 'USDC' | 'OTHER';
+  quoteTokenAddress?: string;
+  quoteAmount?: string; // Quote leg in the quote currency's smallest units
+  quoteDecimals?: number;
+  valueUSD?: number; // Quote leg in USD at execution (USDC legs as paid, ETH legs at ethPriceUSD, other quotes at their pool price)
+  ethPriceUSD?: number; // ETH/USD at the record's block
+  ethPriceSource?: 'block' | 'current'; // 'current' = no historical rate was available, today's was used
+  priceSource?: 'receipt' | 'heuristic'; // receipt = decoded from Transfer/Swap logs
+  logIndexes?: number[];
 }
 
 export function isBaseAppPost(tx: Transaction): boolean {
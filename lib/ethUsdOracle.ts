@@ -0,0 +1,352 @@
+import { ethers } from 'ethers';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { KeyValueStore, getDefaultStore } from './storage';
+
+// Chainlink ETH/USD price feed (proxy) on Base
+export const ETH_USD_FEED = '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70';
+
+// Fallback: the deepest WETH/USDC pool on Base (Uniswap V3, 0.05%), resolved through the factory
+const UNISWAP_V3_FACTORY = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+const WETH_BASE = '0x4200000000000000000000000000000000000006';
+const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH_USDC_FEE = 500;
+
+const PRICE_FEED = new ethers.Interface([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function getRoundData(uint80 roundId) view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)',
+]);
+const V3_FACTORY = new ethers.Interface([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+]);
+const V3_POOL = new ethers.Interface([
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+]);
+
+// The Base feed updates every 20 minutes at the latest; older answers mean the feed is stuck
+const MAX_FEED_AGE_SECONDS = 60 * 60;
+// Current rate reuse - one shared oracle keeps a quote this long, per-analysis oracles keep theirs
+const DEFAULT_MAX_AGE_MS = 60_000;
+// Round ids are (phaseId << 64) | aggregator round
+const PHASE_OFFSET = 64n;
+const MAX_ROUND_SEARCH_STEPS = 64;
+
+/**
+ * An ETH/USD rate and where it came from
+ */
+export interface EthUsdQuote {
+  price: number;
+  source: 'chainlink' | 'weth-usdc-pool' | 'coingecko' | 'last-known';
+  updatedAt: number; // Unix seconds, as reported by the source
+  roundId?: string; // Chainlink round the answer belongs to
+}
+
+export interface EthUsdOracleOptions {
+  coinGeckoApiKey?: string;
+  store?: KeyValueStore;
+  maxAgeMs?: number; // How long getQuote reuses a rate (Infinity = one rate for the oracle's lifetime)
+}
+
+interface FeedRound {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: number;
+}
+
+/**
+ * CoinGecko demo API key header (kept out of the URL, so recorded fixtures don't contain it)
+ */
+export function coinGeckoHeaders(coinGeckoApiKey?: string): Record<string, string> | undefined {
+  return coinGeckoApiKey ? { 'x-cg-demo-api-key': coinGeckoApiKey } : undefined;
+}
+
+/**
+ * The one place ETH/USD comes from: Chainlink's aggregator on Base (current answer,
+ * the answer at a past block, or the round in effect at a past time), the WETH/USDC
+ * pool when the feed is unavailable, CoinGecko when both are
+ * Share one instance across an analysis so every conversion uses the same rate
+ */
+export class EthUsdOracle {
+  private chainData: ChainDataProvider;
+  private store: KeyValueStore;
+  private coinGeckoApiKey?: string;
+  private maxAgeMs: number;
+  private current: { quote: Promise<EthUsdQuote>; fetchedAt: number } | null = null;
+  private blockPrices: Map<number, Promise<number | null>> = new Map();
+  private rounds: Map<bigint, Promise<FeedRound | null>> = new Map();
+  private feedDecimals: Promise<number> | null = null;
+  private wethUsdcPool: Promise<string | null> | null = null;
+
+  constructor(chainData?: ChainDataProvider, options: EthUsdOracleOptions = {}) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+    this.store = options.store || getDefaultStore();
+    this.coinGeckoApiKey = options.coinGeckoApiKey;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Current ETH/USD in dollars
+   */
+  async getPrice(): Promise<number> {
+    return (await this.getQuote()).price;
+  }
+
+  /**
+   * Current ETH/USD with its source; throws only when no source ever answered
+   */
+  getQuote(): Promise<EthUsdQuote> {
+    if (!this.current || Date.now() - this.current.fetchedAt > this.maxAgeMs) {
+      const quote = this.loadQuote();
+      this.current = { quote, fetchedAt: Date.now() };
+      // A failed load is not reused
+      quote.catch(() => {
+        if (this.current?.quote === quote) this.current = null;
+      });
+    }
+    return this.current.quote;
+  }
+
+  /**
+   * ETH/USD as of a past block: the feed's answer at that block, or the pool's price
+   * Needs archive state - getPriceAtTime works on any node
+   */
+  getPriceAtBlock(block: number): Promise<number | null> {
+    if (!this.blockPrices.has(block)) {
+      this.blockPrices.set(block, this.loadPriceAtBlock(block));
+    }
+    return this.blockPrices.get(block)!;
+  }
+
+  /**
+   * ETH/USD in effect at a unix timestamp - the last Chainlink round updated at or before it
+   */
+  async getPriceAtTime(timestamp: number): Promise<number | null> {
+    try {
+      const round = await this.findRoundAt(timestamp);
+      return round ? await this.toPrice(round.answer) : null;
+    } catch (error: any) {
+      console.warn(`  Chainlink ETH/USD round lookup for ${timestamp} failed:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * A specific Chainlink round (phase-encoded round id, as latestRoundData returns it)
+   */
+  async getRound(roundId: bigint): Promise<EthUsdQuote | null> {
+    const round = await this.readRound(roundId);
+    if (!round) return null;
+    return {
+      price: await this.toPrice(round.answer),
+      source: 'chainlink',
+      updatedAt: round.updatedAt,
+      roundId: round.roundId.toString(),
+    };
+  }
+
+  private async loadQuote(): Promise<EthUsdQuote> {
+    const now = Math.floor(Date.now() / 1000);
+
+    try {
+      const latest = this.decodeRound(await this.chainData.call(this.feedCall('latestRoundData')));
+      if (latest && now - latest.updatedAt <= MAX_FEED_AGE_SECONDS) {
+        return this.remember({
+          price: await this.toPrice(latest.answer),
+          source: 'chainlink',
+          updatedAt: latest.updatedAt,
+          roundId: latest.roundId.toString(),
+        });
+      }
+      console.warn(`  Chainlink ETH/USD answer is stale (${latest ? now - latest.updatedAt : '?'}s), using the WETH/USDC pool`);
+    } catch (error: any) {
+      console.warn('  Chainlink ETH/USD failed, using the WETH/USDC pool:', error.message);
+    }
+
+    const poolPrice = await this.readPoolPrice('latest');
+    if (poolPrice) {
+      return this.remember({ price: poolPrice, source: 'weth-usdc-pool', updatedAt: now });
+    }
+
+    const coinGeckoPrice = await this.getCoinGeckoPrice();
+    if (coinGeckoPrice) {
+      return this.remember({ price: coinGeckoPrice, source: 'coingecko', updatedAt: now });
+    }
+
+    // Better a known-old rate than a made-up one
+    const lastKnown = await this.store.get<EthUsdQuote>('price:eth:latest');
+    if (lastKnown) {
+      console.warn(`  ⚠️ No ETH/USD source answered, using the last known rate $${lastKnown.price} from ${new Date(lastKnown.updatedAt * 1000).toISOString()}`);
+      return { ...lastKnown, source: 'last-known' };
+    }
+    throw new Error('ETH/USD price unavailable: Chainlink, WETH/USDC pool and CoinGecko all failed');
+  }
+
+  private async remember(quote: EthUsdQuote): Promise<EthUsdQuote> {
+    // Only the last-resort fallback reads it back - a failed write must not fail the price
+    try {
+      await this.store.set('price:eth:latest', quote);
+    } catch (error: any) {
+      console.warn('  Failed to store the latest ETH/USD rate:', error.message);
+    }
+    return quote;
+  }
+
+  private async loadPriceAtBlock(block: number): Promise<number | null> {
+    const key = `price:eth:${block}`;
+    const stored = await this.store.get<number>(key);
+    if (stored) return stored;
+
+    let price: number | null = null;
+    try {
+      const round = this.decodeRound(await this.chainData.call(this.feedCall('latestRoundData'), block));
+      if (round) price = await this.toPrice(round.answer);
+    } catch (error: any) {
+      console.warn(`  Chainlink ETH/USD at block ${block} failed (${error.message}), trying the WETH/USDC pool`);
+      price = await this.readPoolPrice(block);
+    }
+
+    if (price) {
+      await this.store.set(key, price).catch((error: Error) => console.warn(`  Failed to store ETH/USD at block ${block}:`, error.message));
+    }
+    return price;
+  }
+
+  /**
+   * Binary search over the feed's rounds, phase by phase (newest first)
+   */
+  private async findRoundAt(timestamp: number): Promise<FeedRound | null> {
+    const latest = this.decodeRound(await this.chainData.call(this.feedCall('latestRoundData')));
+    if (!latest) return null;
+    if (latest.updatedAt <= timestamp) return latest;
+
+    for (let phase = latest.roundId >> PHASE_OFFSET; phase > 0n; phase--) {
+      const base = phase << PHASE_OFFSET;
+      let hi = phase === latest.roundId >> PHASE_OFFSET
+        ? latest.roundId - base
+        : await this.findLastRoundInPhase(base);
+      if (hi === 0n) continue;
+
+      const first = await this.readRound(base + 1n);
+      if (!first || first.updatedAt > timestamp) continue;
+
+      let lo = 1n;
+      let found = first;
+      for (let step = 0; lo < hi && step < MAX_ROUND_SEARCH_STEPS; step++) {
+        const mid = (lo + hi + 1n) / 2n;
+        const round = await this.readRound(base + mid);
+        if (round && round.updatedAt <= timestamp) {
+          lo = mid;
+          found = round;
+        } else {
+          hi = mid - 1n;
+        }
+      }
+      return found;
+    }
+
+    return null;
+  }
+
+  /**
+   * Last round of a finished phase: double until a round is missing, then bisect
+   */
+  private async findLastRoundInPhase(base: bigint): Promise<bigint> {
+    if (!await this.readRound(base + 1n)) return 0n;
+
+    let lo = 1n;
+    let hi = 2n;
+    while (await this.readRound(base + hi)) {
+      lo = hi;
+      hi *= 2n;
+      if (hi > 1n << 40n) return lo;
+    }
+    while (hi - lo > 1n) {
+      const mid = (lo + hi) / 2n;
+      if (await this.readRound(base + mid)) lo = mid;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  private readRound(roundId: bigint): Promise<FeedRound | null> {
+    if (!this.rounds.has(roundId)) {
+      this.rounds.set(roundId, this.chainData
+        .call({ to: ETH_USD_FEED.toLowerCase(), data: PRICE_FEED.encodeFunctionData('getRoundData', [roundId]) })
+        .then(raw => this.decodeRound(raw, 'getRoundData'))
+        // Rounds that do not exist revert
+        .catch(() => null));
+    }
+    return this.rounds.get(roundId)!;
+  }
+
+  private decodeRound(raw: string, method: 'latestRoundData' | 'getRoundData' = 'latestRoundData'): FeedRound | null {
+    const result = PRICE_FEED.decodeFunctionResult(method, raw);
+    const answer = result.answer as bigint;
+    const updatedAt = Number(result.updatedAt);
+    if (answer <= 0n || updatedAt === 0) return null;
+    return { roundId: result.roundId as bigint, answer, updatedAt };
+  }
+
+  private feedCall(method: 'latestRoundData' | 'decimals'): { to: string; data: string } {
+    return { to: ETH_USD_FEED.toLowerCase(), data: PRICE_FEED.encodeFunctionData(method) };
+  }
+
+  private async toPrice(answer: bigint): Promise<number> {
+    if (!this.feedDecimals) {
+      this.feedDecimals = this.chainData.call(this.feedCall('decimals'))
+        .then(raw => Number(PRICE_FEED.decodeFunctionResult('decimals', raw)[0]));
+      this.feedDecimals.catch(() => {
+        this.feedDecimals = null;
+      });
+    }
+    return parseFloat(ethers.formatUnits(answer, await this.feedDecimals));
+  }
+
+  /**
+   * WETH price in USDC from the pool's slot0 (WETH is token0, USDC token1)
+   */
+  private async readPoolPrice(block: number | 'latest'): Promise<number | null> {
+    try {
+      const pool = await this.getWethUsdcPool();
+      if (!pool) return null;
+
+      const raw = await this.chainData.call({ to: pool, data: V3_POOL.encodeFunctionData('slot0') }, block);
+      const sqrtPriceX96 = V3_POOL.decodeFunctionResult('slot0', raw).sqrtPriceX96 as bigint;
+      const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96;
+      const price = sqrtPrice * sqrtPrice * 10 ** (18 - 6);
+      return price > 0 && isFinite(price) ? price : null;
+    } catch (error: any) {
+      console.warn(`  WETH/USDC pool price at ${block} failed:`, error.message);
+      return null;
+    }
+  }
+
+  private getWethUsdcPool(): Promise<string | null> {
+    if (!this.wethUsdcPool) {
+      this.wethUsdcPool = this.chainData
+        .call({ to: UNISWAP_V3_FACTORY.toLowerCase(), data: V3_FACTORY.encodeFunctionData('getPool', [WETH_BASE, USDC_BASE, WETH_USDC_FEE]) })
+        .then(raw => {
+          const pool = V3_FACTORY.decodeFunctionResult('getPool', raw)[0] as string;
+          return pool === ethers.ZeroAddress ? null : pool.toLowerCase();
+        });
+      this.wethUsdcPool.catch(() => {
+        this.wethUsdcPool = null;
+      });
+    }
+    return this.wethUsdcPool;
+  }
+
+  private async getCoinGeckoPrice(): Promise<number | null> {
+    try {
+      const data = await this.chainData.fetchJson(
+        'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd',
+        coinGeckoHeaders(this.coinGeckoApiKey)
+      );
+      const price = parseFloat(data?.ethereum?.usd);
+      return price > 0 ? price : null;
+    } catch (error) {
+      console.warn('  CoinGecko ETH price failed:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+
+/**
+ * Farcaster account and the Ethereum addresses linked to it
+ */
+export interface FarcasterIdentity {
+  fid: number;
+  username?: string;
+  custodyAddress?: string; // Owner of the FID in the IdRegistry (usually an EOA on Optimism, same key on Base)
+  verifiedAddresses: string[]; // Verified Ethereum addresses, e.g. the Base App smart wallet
+}
+
+/**
+ * Ed25519 app key registered for an FID in the KeyRegistry
+ */
+export interface FarcasterSigner {
+  key: string; // 0x-prefixed 32-byte public key
+  appFid?: number; // FID of the client app that requested the key (from the SignedKeyRequest metadata)
+}
+
+/**
+ * Where FID data comes from: a Farcaster hub over HTTP or a local stub
+ */
+export interface FarcasterHub {
+  readonly name: string;
+  getFidByUsername(username: string): Promise<number | null>;
+  getIdentity(fid: number): Promise<FarcasterIdentity | null>;
+  getSigner(fid: number, key: string): Promise<FarcasterSigner | null>; // null when not an active key of the FID
+}
+
+/**
+ * Stub records can also list the FID's app keys
+ */
+export interface StubFarcasterIdentity extends FarcasterIdentity {
+  signers?: FarcasterSigner[];
+}
+
+const SIGNED_KEY_REQUEST_METADATA = 'tuple(uint256 requestFid, address requestSigner, bytes signature, uint256 deadline)';
+
+const DEFAULT_HUB_URL = 'https://hub-api.neynar.com';
+const HUB_TIMEOUT_MS = 8000;
+
+/**
+ * Farcaster hub HTTP API (/v1/...)
+ * Neynar's hub needs an API key; self-hosted hubs usually don't
+ */
+export class HttpFarcasterHub implements FarcasterHub {
+  readonly name = 'hub';
+
+  constructor(private baseUrl: string = DEFAULT_HUB_URL, private apiKey?: string) {}
+
+  private async get(path: string): Promise<any | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HUB_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/${path}`, {
+        headers: this.apiKey ? { 'x-api-key': this.apiKey } : undefined,
+        signal: controller.signal,
+      });
+      // Unknown FID / name
+      if (res.status === 400 || res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error(`Hub request ${path} failed: ${res.status} ${res.statusText}`);
+      }
+      return await res.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async getFidByUsername(username: string): Promise<number | null> {
+    const proof = await this.get(`userNameProofByName?name=${encodeURIComponent(username)}`);
+    return proof?.fid ? Number(proof.fid) : null;
+  }
+
+  async getIdentity(fid: number): Promise<FarcasterIdentity | null> {
+    const [registration, verifications, usernameData] = await Promise.all([
+      this.get(`onChainIdRegistryEventByFid?fid=${fid}`),
+      this.getVerifiedAddresses(fid),
+      this.get(`userDataByFid?fid=${fid}&user_data_type=USER_DATA_TYPE_USERNAME`).catch(() => null),
+    ]);
+
+    const custodyAddress: string | undefined = registration?.idRegisterEventBody?.to;
+    if (!custodyAddress && verifications.length === 0) {
+      return null;
+    }
+
+    return {
+      fid,
+      username: usernameData?.data?.userDataBody?.value || undefined,
+      custodyAddress,
+      verifiedAddresses: verifications,
+    };
+  }
+
+  private async getVerifiedAddresses(fid: number): Promise<string[]> {
+    const addresses: string[] = [];
+    let pageToken = '';
+    do {
+      const page = await this.get(
+        `verificationsByFid?fid=${fid}&pageSize=100${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+      );
+      for (const message of page?.messages || []) {
+        // Field was renamed from verificationAddEthAddressBody when Solana verifications were added
+        const body = message?.data?.verificationAddAddressBody || message?.data?.verificationAddEthAddressBody;
+        if (body?.address && (!body.protocol || body.protocol === 'PROTOCOL_ETHEREUM')) {
+          addresses.push(body.address);
+        }
+      }
+      pageToken = page?.nextPageToken || '';
+    } while (pageToken);
+    return addresses;
+  }
+
+  async getSigner(fid: number, key: string): Promise<FarcasterSigner | null> {
+    const event = await this.get(`onChainSignersByFid?fid=${fid}&signer=${key.toLowerCase()}`);
+    const body = event?.signerEventBody;
+    if (!body || body.eventType !== 'SIGNER_EVENT_TYPE_ADD') {
+      return null;
+    }
+
+    let appFid: number | undefined;
+    try {
+      // metadata is the ABI-encoded SignedKeyRequestMetadata (base64 in hub JSON)
+      const metadata = ethers.hexlify(Buffer.from(body.metadata, 'base64'));
+      const [decoded] = ethers.AbiCoder.defaultAbiCoder().decode([SIGNED_KEY_REQUEST_METADATA], metadata);
+      appFid = Number(decoded.requestFid);
+    } catch {
+      // Keys added without a SignedKeyRequest have no requesting app
+    }
+
+    return { key, appFid };
+  }
+}
+
+/**
+ * Fixed identities for local development and tests (no network)
+ * The file is a JSON array of FarcasterIdentity records (plus optional signers)
+ */
+export class StubFarcasterHub implements FarcasterHub {
+  readonly name = 'stub';
+  private identities: StubFarcasterIdentity[] | null;
+
+  constructor(private source: StubFarcasterIdentity[] | string) {
+    this.identities = typeof source === 'string' ? null : source;
+  }
+
+  private async load(): Promise<StubFarcasterIdentity[]> {
+    if (!this.identities) {
+      this.identities = JSON.parse(await fs.readFile(this.source as string, 'utf8')) as StubFarcasterIdentity[];
+    }
+    return this.identities;
+  }
+
+  async getFidByUsername(username: string): Promise<number | null> {
+    const name = username.toLowerCase();
+    const identity = (await this.load()).find(i => i.username?.toLowerCase() === name);
+    return identity?.fid ?? null;
+  }
+
+  async getIdentity(fid: number): Promise<FarcasterIdentity | null> {
+    return (await this.load()).find(i => i.fid === fid) || null;
+  }
+
+  async getSigner(fid: number, key: string): Promise<FarcasterSigner | null> {
+    const identity = (await this.load()).find(i => i.fid === fid);
+    return identity?.signers?.find(signer => signer.key.toLowerCase() === key.toLowerCase()) || null;
+  }
+}
+
+/**
+ * Maps an FID or username to the wallets worth analyzing
+ */
+export class FarcasterResolver {
+  constructor(private hub: FarcasterHub = createDefaultFarcasterHub()) {}
+
+  async resolve(fidOrUsername: number | string): Promise<FarcasterIdentity | null> {
+    try {
+      let fid: number | null;
+      if (typeof fidOrUsername === 'number' || /^\d+$/.test(fidOrUsername)) {
+        fid = Number(fidOrUsername);
+      } else {
+        // "@alice" and "alice.eth" style input
+        fid = await this.hub.getFidByUsername(fidOrUsername.replace(/^@/, ''));
+      }
+      if (!fid) {
+        return null;
+      }
+      return await this.hub.getIdentity(fid);
+    } catch (error) {
+      console.warn(`Farcaster resolution (${this.hub.name}) failed for ${fidOrUsername}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Verified addresses first (Base App wallets live there), custody last; deduplicated
+   */
+  static addressesOf(identity: FarcasterIdentity): string[] {
+    const all = [...identity.verifiedAddresses, ...(identity.custodyAddress ? [identity.custodyAddress] : [])];
+    return Array.from(new Map(
+      all.filter(a => /^0x[a-fA-F0-9]{40}$/.test(a)).map(a => [a.toLowerCase(), a])
+    ).values());
+  }
+}
+
+/**
+ * Hub from env:
+ * FARCASTER_HUB=stub + FARCASTER_STUB_FILE for local identities,
+ * otherwise FARCASTER_HUB_URL (default Neynar) with FARCASTER_HUB_API_KEY / NEYNAR_API_KEY
+ */
+export function createDefaultFarcasterHub(): FarcasterHub {
+  if (process.env.FARCASTER_HUB === 'stub') {
+    return new StubFarcasterHub(process.env.FARCASTER_STUB_FILE || 'fixtures/farcaster.json');
+  }
+  return new HttpFarcasterHub(
+    process.env.FARCASTER_HUB_URL || DEFAULT_HUB_URL,
+    process.env.FARCASTER_HUB_API_KEY || process.env.NEYNAR_API_KEY
+  );
+}
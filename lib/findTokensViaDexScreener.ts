@@ -1,4 +1,5 @@
 import { TokenBalance } from './wallet';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
 import { getDexScreenerPrice, getDexScreenerTokenPairs, getDexScreenerTokensBatch } from './getPostPrice';
 
 /**
@@ -32,7 +33,8 @@ export async function findMissingTokensViaDexScreener(
  * Uses batch API for efficiency (up to multiple tokens at once)
  */
 export async function enrichTokensWithDexScreener(
-  tokens: TokenBalance[]
+  tokens: TokenBalance[],
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
 ): Promise<Map<string, { hasPrice: boolean; priceUsd?: string; liquidityUsd?: number }>> {
   const results = new Map<string, { hasPrice: boolean; priceUsd?: string; liquidityUsd?: number }>();
   
@@ -53,7 +55,7 @@ export async function enrichTokensWithDexScreener(
     
     try {
       // Try batch API first (more efficient)
-      const batchData = await getDexScreenerTokensBatch(chainId, batch);
+      const batchData = await getDexScreenerTokensBatch(chainId, batch, chainData);
       
       for (const token of tokens.slice(i, i + BATCH_SIZE)) {
         const tokenData = batchData.get(token.tokenAddress.toLowerCase());
@@ -66,7 +68,7 @@ export async function enrichTokensWithDexScreener(
           });
         } else {
           // Not in batch, try individual price check
-          const dexData = await getDexScreenerPrice(token.tokenAddress);
+          const dexData = await getDexScreenerPrice(token.tokenAddress, chainData);
           if (dexData && dexData.priceUsd) {
             results.set(token.tokenAddress.toLowerCase(), {
               hasPrice: true,
@@ -87,7 +89,7 @@ export async function enrichTokensWithDexScreener(
       // Fallback to individual checks
       for (const token of tokens.slice(i, i + BATCH_SIZE)) {
         try {
-          const dexData = await getDexScreenerPrice(token.tokenAddress);
+          const dexData = await getDexScreenerPrice(token.tokenAddress, chainData);
           if (dexData && dexData.priceUsd) {
             results.set(token.tokenAddress.toLowerCase(), {
               hasPrice: true,
@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ChainDataProvider,
+  LogFilter,
+  RpcLog,
+  TokenHoldingRow,
+  TokenTransferRow,
+  TransactionRow,
+  TransferQuery,
+} from './chainData';
+import { RpcBatchResult, RpcCall } from './rpcTransport';
+
+/**
+ * Recorded responses, keyed by call (method + JSON params)
+ */
+export interface ChainFixture {
+  version: 1;
+  recordedAt: number; // ms
+  responses: Record<string, unknown>;
+  errors?: Record<string, string>; // Calls that failed upstream (e.g. reverted eth_call) - replayed as the same error
+}
+
+export type FixtureMode = 'replay' | 'record';
+
+/**
+ * Replays chain data from a fixture file so the whole analysis runs offline
+ * In record mode every call goes to the upstream provider and the response is
+ * written to the fixture; in replay mode a missing entry is an error
+ */
+export class FixtureChainDataProvider implements ChainDataProvider {
+  readonly name = 'fixture';
+  private fixture: ChainFixture | null = null;
+  private loading: Promise<ChainFixture> | null = null;
+  private dirty = false;
+
+  constructor(
+    private file: string,
+    private mode: FixtureMode = 'replay',
+    private upstream?: ChainDataProvider
+  ) {
+    if (mode === 'record' && !upstream) {
+      throw new Error('FixtureChainDataProvider: record mode needs an upstream provider');
+    }
+  }
+
+  /**
+   * Load fixture data directly (tests with inline canned responses)
+   */
+  static fromResponses(responses: Record<string, unknown>): FixtureChainDataProvider {
+    const provider = new FixtureChainDataProvider('');
+    provider.fixture = { version: 1, recordedAt: Date.now(), responses };
+    return provider;
+  }
+
+  static key(method: string, params: unknown): string {
+    return `${method}:${JSON.stringify(params, (_, value) =>
+      typeof value === 'string' && value.startsWith('0x') ? value.toLowerCase() : value
+    )}`;
+  }
+
+  private load(): Promise<ChainFixture> {
+    if (this.fixture) return Promise.resolve(this.fixture);
+    // Calls made at once share one read - otherwise each would start its own fixture
+    if (!this.loading) {
+      this.loading = this.read();
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<ChainFixture> {
+    try {
+      const raw = await fs.readFile(this.file, 'utf8');
+      this.fixture = JSON.parse(raw) as ChainFixture;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT' || this.mode === 'replay') {
+        throw new Error(`Cannot read chain fixture ${this.file}: ${error.message}`);
+      }
+      this.fixture = { version: 1, recordedAt: Date.now(), responses: {} };
+    }
+    return this.fixture;
+  }
+
+  private async resolve<T>(method: string, params: unknown, fetchUpstream: (upstream: ChainDataProvider) => Promise<T>): Promise<T> {
+    const fixture = await this.load();
+    const key = FixtureChainDataProvider.key(method, params);
+
+    if (this.mode === 'replay') {
+      if (fixture.errors && key in fixture.errors) {
+        throw new Error(fixture.errors[key]);
+      }
+      if (!(key in fixture.responses)) {
+        throw new Error(`No fixture response for ${key.slice(0, 200)}`);
+      }
+      return fixture.responses[key] as T;
+    }
+
+    let result: T;
+    try {
+      result = await fetchUpstream(this.upstream!);
+    } catch (error: any) {
+      fixture.errors = { ...fixture.errors, [key]: error?.message || String(error) };
+      this.dirty = true;
+      throw error;
+    }
+    // bigint is not JSON - store as decimal string and convert back on replay
+    fixture.responses[key] = typeof result === 'bigint' ? result.toString() : result;
+    this.dirty = true;
+    return result;
+  }
+
+  /**
+   * Write recorded responses to disk (record mode)
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty || !this.fixture || !this.file) return;
+    this.fixture.recordedAt = Date.now();
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(this.fixture, null, 2), 'utf8');
+    this.dirty = false;
+    console.log(`Chain fixture saved: ${Object.keys(this.fixture.responses).length} responses -> ${this.file}`);
+  }
+
+  request(method: string, params: unknown[] = []): Promise<any> {
+    return this.resolve(method, params, upstream => upstream.request(method, params));
+  }
+
+  requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]> {
+    // Recorded per call, so fixtures don't depend on how calls were grouped
+    return Promise.all(calls.map(call =>
+      this.request(call.method, call.params || []).then(
+        result => ({ result }),
+        error => ({ error })
+      )
+    ));
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    const balance = await this.resolve<bigint | string>('getBalance', [address], upstream => upstream.getBalance(address));
+    return BigInt(balance);
+  }
+
+  getCode(address: string): Promise<string> {
+    return this.resolve('getCode', [address], upstream => upstream.getCode(address));
+  }
+
+  call(tx: { to: string; data: string }, blockTag: number | 'latest' = 'latest'): Promise<string> {
+    return this.resolve('call', [tx, blockTag], upstream => upstream.call(tx, blockTag));
+  }
+
+  getLogs(filter: LogFilter): Promise<RpcLog[]> {
+    return this.resolve('getLogs', [filter], upstream => upstream.getLogs(filter));
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.resolve('getBlockNumber', [], upstream => upstream.getBlockNumber());
+  }
+
+  getTokenTransfers(query: TransferQuery): Promise<TokenTransferRow[]> {
+    return this.resolve('getTokenTransfers', [query], upstream => upstream.getTokenTransfers(query));
+  }
+
+  getTransactionList(query: TransferQuery): Promise<TransactionRow[]> {
+    return this.resolve('getTransactionList', [query], upstream => upstream.getTransactionList(query));
+  }
+
+  getTokenHoldings(address: string): Promise<TokenHoldingRow[] | null> {
+    return this.resolve('getTokenHoldings', [address], upstream => upstream.getTokenHoldings(address));
+  }
+
+  fetchJson(url: string, headers?: Record<string, string>): Promise<any> {
+    return this.resolve('fetchJson', [url], upstream => upstream.fetchJson(url, headers));
+  }
+}
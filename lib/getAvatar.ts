@@ -3,17 +3,25 @@ import { base } from 'viem/chains';
 
 const BASE_RPC_URL = 'https://mainnet.base.org';
 
+/**
+ * Client for name lookups when none is passed in
+ * (server code and tests pass createChainDataClient(chainData) instead)
+ */
+function createNameClient() {
+  return createPublicClient({
+    chain: base,
+    transport: http(BASE_RPC_URL),
+  });
+}
+
+export type NameClient = Pick<ReturnType<typeof createNameClient>, 'getEnsAddress' | 'getEnsName' | 'getEnsAvatar'>;
+
 /**
  * Get avatar URL for an address or Base name
  * Uses ENS resolver on Base to get avatar
  */
-export async function getAvatarUrl(addressOrName: string): Promise<string | null> {
+export async function getAvatarUrl(addressOrName: string, client: NameClient = createNameClient()): Promise<string | null> {
   try {
-    const client = createPublicClient({
-      chain: base,
-      transport: http(BASE_RPC_URL),
-    });
-
     // If it's a name (contains .base or .eth), resolve it first
     let address = addressOrName;
     if (addressOrName.includes('.') && !addressOrName.startsWith('0x')) {
@@ -67,13 +75,8 @@ export async function getAvatarUrl(addressOrName: string): Promise<string | null
 /**
  * Get Base name for an address
  */
-export async function getBaseName(address: string): Promise<string | null> {
+export async function getBaseName(address: string, client: NameClient = createNameClient()): Promise<string | null> {
   try {
-    const client = createPublicClient({
-      chain: base,
-      transport: http(BASE_RPC_URL),
-    });
-
     const name = await client.getEnsName({
       address: address as `0x${string}`,
     });
@@ -1,8 +1,10 @@
 import { ethers } from 'ethers';
 import { getUniswapPriceFromPool } from './getUniswapPrice';
+import { classifyQuote } from './tradeReconstruction';
+import { coinGeckoHeaders, EthUsdOracle } from './ethUsdOracle';
+import { ChainDataJsonRpcProvider, ChainDataProvider, createDefaultChainDataProvider } from './chainData';
 
 const BASEAPP_API = 'https://api.baseapp.xyz/v1';
-const BASE_RPC_URL = 'https://mainnet.base.org';
 
 export interface DexScreenerPrice {
   priceUsd: string;
@@ -14,16 +16,12 @@ export interface DexScreenerPrice {
 /**
  * Get token price from DexScreener using latest/dex/tokens endpoint
  */
-export async function getDexScreenerPrice(tokenAddress: string): Promise<DexScreenerPrice | null> {
+export async function getDexScreenerPrice(
+  tokenAddress: string,
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
+): Promise<DexScreenerPrice | null> {
   try {
-    const res = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`);
-    
-    if (!res.ok) {
-      console.warn(`DexScreener API error: ${res.status} ${res.statusText}`);
-      return null;
-    }
-    
-    const data = await res.json();
+    const data = await chainData.fetchJson(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`);
     
     if (!data?.pairs?.length) {
       console.warn(`No pairs found for token ${tokenAddress.slice(0, 10)}...`);
@@ -76,16 +74,13 @@ export async function getDexScreenerPrice(tokenAddress: string): Promise<DexScre
 /**
  * Get token pairs from DexScreener using token-pairs endpoint (more efficient for multiple tokens)
  */
-export async function getDexScreenerTokenPairs(chainId: string, tokenAddress: string): Promise<any[] | null> {
+export async function getDexScreenerTokenPairs(
+  chainId: string,
+  tokenAddress: string,
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
+): Promise<any[] | null> {
   try {
-    const res = await fetch(`https://api.dexscreener.com/token-pairs/v1/${chainId}/${tokenAddress}`);
-    
-    if (!res.ok) {
-      console.warn(`DexScreener token-pairs API error: ${res.status} ${res.statusText}`);
-      return null;
-    }
-    
-    const data = await res.json();
+    const data = await chainData.fetchJson(`https://api.dexscreener.com/token-pairs/v1/${chainId}/${tokenAddress}`);
     return data?.pairs || null;
   } catch (e) {
     console.error(`Error fetching DexScreener token pairs for ${tokenAddress}:`, e);
@@ -96,7 +91,11 @@ export async function getDexScreenerTokenPairs(chainId: string, tokenAddress: st
 /**
  * Get multiple tokens info at once using tokens endpoint (batch request)
  */
-export async function getDexScreenerTokensBatch(chainId: string, tokenAddresses: string[]): Promise<Map<string, any>> {
+export async function getDexScreenerTokensBatch(
+  chainId: string,
+  tokenAddresses: string[],
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
+): Promise<Map<string, any>> {
   const results = new Map<string, any>();
   
   if (tokenAddresses.length === 0) {
@@ -106,14 +105,7 @@ export async function getDexScreenerTokensBatch(chainId: string, tokenAddresses:
   try {
     // DexScreener tokens endpoint accepts comma-separated addresses
     const addressesParam = tokenAddresses.join(',');
-    const res = await fetch(`https://api.dexscreener.com/tokens/v1/${chainId}/${addressesParam}`);
-    
-    if (!res.ok) {
-      console.warn(`DexScreener tokens batch API error: ${res.status} ${res.statusText}`);
-      return results;
-    }
-    
-    const data = await res.json();
+    const data = await chainData.fetchJson(`https://api.dexscreener.com/tokens/v1/${chainId}/${addressesParam}`);
     
     if (data?.tokens && Array.isArray(data.tokens)) {
       for (const token of data.tokens) {
@@ -131,45 +123,173 @@ export async function getDexScreenerTokensBatch(chainId: string, tokenAddresses:
   return results;
 }
 
+export type PriceSource =
+  | 'uniswap-v4'
+  | 'uniswap-v3'
+  | 'dexscreener'
+  | 'coingecko'
+  | 'baseapp'
+  | 'bonding-curve'
+  | 'none';
+
 export interface PriceData {
   price: string;
-  source: 'baseapp' | 'dexscreener' | 'onchain' | 'none';
+  source: PriceSource;
   timestamp: number;
   isUSD?: boolean; // true if price is in USD (from DexScreener), false if in ETH
+  // Provenance - what the price was read from and how far to trust it
+  pool?: string; // V4 pool id, V3 pool address or DexScreener pair address
+  quoteAddress?: string; // Currency a pool priced the token in before the USD conversion
+  liquidityUSD?: number; // Depth behind the price (in-range liquidity for Uniswap pools)
+  quotedAt?: number; // When the source last updated the price, if it says so
+  stalenessSec?: number; // timestamp - quotedAt
+  crossCheck?: { source: PriceSource; price: string }; // Independent source the price was compared with
+  disagreementPct?: number; // Spread between the price and crossCheck, relative to the lower one
+  confidence?: number; // 0..1, see scorePriceConfidence
+  lowConfidence?: boolean; // confidence < LOW_PRICE_CONFIDENCE
+  warnings?: string[]; // Why confidence was lowered
 }
 
-// Get ETH/USD price from CoinGecko
-async function getETHPrice(coinGeckoApiKey?: string): Promise<number> {
-  // Try CoinGecko first (with API key if provided)
-  try {
-    const apiKeyParam = coinGeckoApiKey ? `&x_cg_demo_api_key=${coinGeckoApiKey}` : '';
-    const res = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd${apiKeyParam}`);
-    const data = await res.json();
-    const price = data?.ethereum?.usd;
-    if (price && parseFloat(price) > 0) {
-      return parseFloat(price);
+/**
+ * Where a post's current price came from, kept on PostAnalytics for display
+ */
+export type PriceProvenance = Pick<
+  PriceData,
+  'source' | 'pool' | 'liquidityUSD' | 'stalenessSec' | 'crossCheck' | 'disagreementPct' | 'confidence' | 'lowConfidence' | 'warnings'
+>;
+
+// Below this the UI flags the price instead of presenting it as fact
+export const LOW_PRICE_CONFIDENCE = 0.5;
+
+// Starting trust per source: pool state beats aggregators, guesses come last
+const SOURCE_CONFIDENCE: Record<PriceSource, number> = {
+  'uniswap-v4': 0.9,
+  'uniswap-v3': 0.85,
+  dexscreener: 0.75,
+  coingecko: 0.65,
+  baseapp: 0.4,
+  'bonding-curve': 0.3,
+  none: 0,
+};
+
+/**
+ * Confidence in a price from its source, quote currency, depth, age
+ * and agreement with a second source, with the reasons it was lowered
+ */
+export function scorePriceConfidence(price: PriceData): Pick<PriceData, 'confidence' | 'lowConfidence' | 'warnings'> {
+  const warnings: string[] = [];
+  let confidence = SOURCE_CONFIDENCE[price.source];
+
+  if (price.source === 'baseapp') {
+    warnings.push('BaseApp API price, currency assumed to be USD');
+  } else if (price.source === 'bonding-curve') {
+    warnings.push('Bonding curve quote, not a market price');
+  }
+
+  if (price.quoteAddress && classifyQuote(price.quoteAddress) !== 'ETH') {
+    // Content coins trade against creator coins / ZORA; the USD conversion treats the quote as ETH
+    confidence *= 0.5;
+    warnings.push(`Pool is quoted in ${price.quoteAddress.slice(0, 10)}..., converted as ETH`);
+  }
+
+  if (price.liquidityUSD !== undefined) {
+    if (price.liquidityUSD < 1_000) {
+      confidence *= 0.5;
+      warnings.push(`Thin liquidity ($${price.liquidityUSD.toFixed(0)})`);
+    } else if (price.liquidityUSD < 10_000) {
+      confidence *= 0.8;
+      warnings.push(`Low liquidity ($${price.liquidityUSD.toFixed(0)})`);
     }
-  } catch (e) {
-    console.warn('CoinGecko API failed:', e);
   }
-  
-  // Fallback: try CoinMarketCap if API key provided
-  // (CoinMarketCap code removed for simplicity, using CoinGecko as primary)
-  
-  return 3000; // Final fallback
+
+  if (price.stalenessSec !== undefined) {
+    if (price.stalenessSec > 86_400) {
+      confidence *= 0.4;
+      warnings.push(`Price is ${Math.round(price.stalenessSec / 86_400)}d old`);
+    } else if (price.stalenessSec > 3_600) {
+      confidence *= 0.7;
+      warnings.push(`Price is ${Math.round(price.stalenessSec / 3_600)}h old`);
+    }
+  }
+
+  if (price.crossCheck && price.disagreementPct !== undefined) {
+    if (price.disagreementPct > 30) {
+      confidence *= 0.4;
+      warnings.push(`${price.crossCheck.source} says $${price.crossCheck.price} (${price.disagreementPct.toFixed(0)}% apart)`);
+    } else if (price.disagreementPct > 10) {
+      confidence *= 0.7;
+      warnings.push(`${price.crossCheck.source} says $${price.crossCheck.price} (${price.disagreementPct.toFixed(0)}% apart)`);
+    } else if (price.disagreementPct <= 5) {
+      // Two independent reads agreeing is worth a little
+      confidence = Math.min(1, confidence + 0.05);
+    }
+  }
+
+  confidence = Math.round(confidence * 100) / 100;
+  return { confidence, lowConfidence: confidence < LOW_PRICE_CONFIDENCE, warnings };
+}
+
+/**
+ * Build a scored PriceData (every price handed out goes through here)
+ */
+export function createPriceData(
+  source: PriceSource,
+  price: string,
+  details: Pick<PriceData, 'pool' | 'quoteAddress' | 'liquidityUSD' | 'quotedAt'> = {}
+): PriceData {
+  const timestamp = Date.now();
+  const data: PriceData = { price, source, timestamp, ...details };
+  if (source !== 'none') {
+    data.isUSD = true;
+  }
+  if (details.quotedAt) {
+    data.stalenessSec = Math.max(0, Math.round((timestamp - details.quotedAt) / 1000));
+  }
+  return { ...data, ...scorePriceConfidence(data) };
+}
+
+/**
+ * Compare a price with one from an independent source and rescore it
+ */
+function crossCheckPrice(price: PriceData, other: PriceData): PriceData {
+  const a = parseFloat(price.price);
+  const b = parseFloat(other.price);
+  const checked: PriceData = {
+    ...price,
+    crossCheck: { source: other.source, price: other.price },
+    disagreementPct: (Math.abs(a - b) / Math.min(a, b)) * 100,
+  };
+  return { ...checked, ...scorePriceConfidence(checked) };
+}
+
+function isValidPrice(price: number): boolean {
+  return !isNaN(price) && price > 0 && isFinite(price);
+}
+
+export interface CoinGeckoPrice {
+  priceUsd: string;
+  updatedAt?: number; // ms
 }
 
 // Get token price from CoinGecko by contract address on Base
-export async function getCoinGeckoTokenPrice(tokenAddress: string, coinGeckoApiKey?: string): Promise<string | null> {
+export async function getCoinGeckoTokenPrice(
+  tokenAddress: string,
+  coinGeckoApiKey?: string,
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
+): Promise<CoinGeckoPrice | null> {
   try {
-    const apiKeyParam = coinGeckoApiKey ? `&x_cg_demo_api_key=${coinGeckoApiKey}` : '';
     // CoinGecko uses platform ID 'base' for Base network
-    const res = await fetch(`https://api.coingecko.com/api/v3/simple/token_price/base?contract_addresses=${tokenAddress}&vs_currencies=usd${apiKeyParam}`);
-    const data = await res.json();
+    const data = await chainData.fetchJson(
+      `https://api.coingecko.com/api/v3/simple/token_price/base?contract_addresses=${tokenAddress}&vs_currencies=usd&include_last_updated_at=true`,
+      coinGeckoHeaders(coinGeckoApiKey)
+    );
     
     const tokenData = data[tokenAddress.toLowerCase()];
     if (tokenData?.usd && parseFloat(tokenData.usd) > 0) {
-      return tokenData.usd.toString();
+      return {
+        priceUsd: tokenData.usd.toString(),
+        updatedAt: tokenData.last_updated_at ? tokenData.last_updated_at * 1000 : undefined,
+      };
     }
     return null;
   } catch (e) {
@@ -178,74 +298,58 @@ export async function getCoinGeckoTokenPrice(tokenAddress: string, coinGeckoApiK
   }
 }
 
+export interface PostPriceOptions {
+  crossCheck?: boolean; // Check the pool price against DexScreener (held tokens; limited per service)
+  reference?: PriceData | null; // Independent price already at hand (e.g. batched DexScreener data) - used instead of a request
+}
+
+// DexScreener requests spent on cross-checks per PostPriceService (one analysis)
+const MAX_DEX_CROSS_CHECKS = 20;
+
 export class PostPriceService {
+  private crossChecksLeft = MAX_DEX_CROSS_CHECKS;
+  private chainData: ChainDataProvider;
   private provider: ethers.JsonRpcProvider;
   private coinGeckoApiKey?: string;
+  private ethUsd: EthUsdOracle;
 
-  constructor(coinGeckoApiKey?: string) {
-    this.provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+  constructor(coinGeckoApiKey?: string, chainData?: ChainDataProvider, ethUsd?: EthUsdOracle) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+    this.provider = new ChainDataJsonRpcProvider(this.chainData);
     this.coinGeckoApiKey = coinGeckoApiKey;
+    this.ethUsd = ethUsd || new EthUsdOracle(this.chainData, { coinGeckoApiKey });
   }
 
-  async getPostPrice(postId?: string, tokenAddress?: string): Promise<PriceData> {
-    // Try Uniswap pool first (most accurate - reads directly from blockchain)
+  async getPostPrice(postId?: string, tokenAddress?: string, options: PostPriceOptions = {}): Promise<PriceData> {
     if (tokenAddress) {
-      try {
-        console.log(`  Attempting to get Uniswap pool price for ${tokenAddress.slice(0, 10)}...`);
-        const uniswapPrice = await getUniswapPriceFromPool(tokenAddress);
-        if (uniswapPrice && uniswapPrice.priceInUSD > 0) {
-          console.log(`  ✓ Uniswap pool price for ${tokenAddress.slice(0, 10)}...: $${uniswapPrice.priceInUSD.toFixed(6)} USD`);
-          return {
-            price: uniswapPrice.priceInUSD.toString(),
-            source: 'onchain',
-            timestamp: Date.now(),
-            isUSD: true,
-          };
-        } else {
-          console.warn(`  ✗ Uniswap pool price not available for ${tokenAddress.slice(0, 10)}...`);
+      // The on-chain pool is the headline price; DexScreener only checks it (or stands in when there is no pool)
+      const poolPrice = await this.getPoolPrice(tokenAddress);
+      if (poolPrice) {
+        const other = options.reference || (options.crossCheck && this.takeCrossCheck()
+          ? await this.getDexScreenerPriceData(tokenAddress)
+          : null);
+        if (!other) {
+          return poolPrice;
         }
-      } catch (error) {
-        console.warn(`  ✗ Uniswap pool price failed for ${tokenAddress}:`, error);
-      }
-      
-      // Try DexScreener as second option
-      try {
-        console.log(`  Attempting to get DexScreener price for ${tokenAddress.slice(0, 10)}...`);
-        const dexData = await getDexScreenerPrice(tokenAddress);
-        if (dexData && dexData.priceUsd) {
-          const priceValue = parseFloat(dexData.priceUsd);
-          if (!isNaN(priceValue) && priceValue > 0 && isFinite(priceValue)) {
-            console.log(`  ✓ DexScreener price for ${tokenAddress.slice(0, 10)}...: $${dexData.priceUsd} USD`);
-            return {
-              price: dexData.priceUsd,
-              source: 'dexscreener',
-              timestamp: Date.now(),
-              isUSD: true, // Price is in USD
-            };
-          } else {
-            console.warn(`  ✗ DexScreener price invalid for ${tokenAddress.slice(0, 10)}...: ${dexData.priceUsd}`);
-          }
-        } else {
-          console.warn(`  ✗ DexScreener price not available for ${tokenAddress.slice(0, 10)}...`);
+        const checked = crossCheckPrice(poolPrice, other);
+        const disagreement = checked.disagreementPct || 0;
+        if (disagreement > 10) {
+          console.warn(`  ⚠️ Price sources disagree for ${tokenAddress.slice(0, 10)}...: ${poolPrice.source} $${poolPrice.price} vs ${other.source} $${other.price} (${disagreement.toFixed(1)}%)`);
         }
-      } catch (error) {
-        console.warn(`  ✗ DexScreener API failed for ${tokenAddress}:`, error);
+        return checked;
+      }
+
+      const dexPrice = options.reference || await this.getDexScreenerPriceData(tokenAddress);
+      if (dexPrice) {
+        return dexPrice;
       }
       
-      // Try CoinGecko as third option
+      // CoinGecko only when neither the pool nor DexScreener priced the token
       try {
-        const cgPrice = await getCoinGeckoTokenPrice(tokenAddress, this.coinGeckoApiKey);
-        if (cgPrice) {
-          const priceValue = parseFloat(cgPrice);
-          if (!isNaN(priceValue) && priceValue > 0 && isFinite(priceValue)) {
-            console.log(`  CoinGecko price for ${tokenAddress.slice(0, 10)}...: $${cgPrice} USD`);
-            return {
-              price: cgPrice,
-              source: 'dexscreener', // Using same source type
-              timestamp: Date.now(),
-              isUSD: true,
-            };
-          }
+        const cgPrice = await getCoinGeckoTokenPrice(tokenAddress, this.coinGeckoApiKey, this.chainData);
+        if (cgPrice && isValidPrice(parseFloat(cgPrice.priceUsd))) {
+          console.log(`  CoinGecko price for ${tokenAddress.slice(0, 10)}...: $${cgPrice.priceUsd} USD`);
+          return createPriceData('coingecko', cgPrice.priceUsd, { quotedAt: cgPrice.updatedAt });
         }
       } catch (error) {
         console.warn(`  CoinGecko API failed for ${tokenAddress}:`, error);
@@ -256,17 +360,9 @@ export class PostPriceService {
     if (postId) {
       try {
         const price = await this.getPriceFromBaseAppAPI(postId);
-        if (price) {
-          const priceValue = parseFloat(price);
-          if (!isNaN(priceValue) && priceValue > 0 && isFinite(priceValue)) {
-            console.log(`  BaseApp API price: ${price} (assuming USD)`);
-            return {
-              price,
-              source: 'baseapp',
-              timestamp: Date.now(),
-              isUSD: true, // BaseApp API likely returns USD
-            };
-          }
+        if (price && isValidPrice(parseFloat(price))) {
+          console.log(`  BaseApp API price: ${price} (assuming USD)`);
+          return createPriceData('baseapp', price);
         }
       } catch (error) {
         console.warn('  BaseApp API failed:', error);
@@ -277,20 +373,12 @@ export class PostPriceService {
     if (tokenAddress) {
       try {
         const price = await this.getPriceOnChain(tokenAddress);
-        if (price) {
-          const priceValue = parseFloat(price);
-          if (!isNaN(priceValue) && priceValue > 0 && isFinite(priceValue)) {
-            // Convert ETH to USD
-            const ethPrice = await getETHPrice(this.coinGeckoApiKey);
-            const priceUSD = priceValue * ethPrice;
-            console.log(`  On-chain price: ${price} ETH = $${priceUSD.toFixed(6)} USD`);
-            return {
-              price: priceUSD.toString(),
-              source: 'onchain',
-              timestamp: Date.now(),
-              isUSD: true, // Converted to USD
-            };
-          }
+        if (price && isValidPrice(parseFloat(price))) {
+          // Convert ETH to USD
+          const ethPrice = await this.ethUsd.getPrice();
+          const priceUSD = parseFloat(price) * ethPrice;
+          console.log(`  On-chain price: ${price} ETH = $${priceUSD.toFixed(6)} USD`);
+          return createPriceData('bonding-curve', priceUSD.toString(), { pool: tokenAddress });
         }
       } catch (error) {
         console.warn('  On-chain price fetch failed:', error);
@@ -299,22 +387,68 @@ export class PostPriceService {
 
     // Return zero price if nothing found (will be filtered out later)
     console.warn(`  No price found for ${tokenAddress || postId || 'unknown'}`);
-    return {
-      price: '0',
-      source: 'none',
-      timestamp: Date.now(),
-    };
+    return createPriceData('none', '0');
   }
 
-  private async getPriceFromBaseAppAPI(postId: string): Promise<string | null> {
+  private takeCrossCheck(): boolean {
+    if (this.crossChecksLeft <= 0) return false;
+    this.crossChecksLeft--;
+    return true;
+  }
+
+  /**
+   * Spot price from the token's Uniswap pool (V4, then V3)
+   */
+  private async getPoolPrice(tokenAddress: string): Promise<PriceData | null> {
+    try {
+      console.log(`  Attempting to get Uniswap pool price for ${tokenAddress.slice(0, 10)}...`);
+      const uniswapPrice = await getUniswapPriceFromPool(tokenAddress, this.ethUsd, undefined, this.chainData);
+      if (!uniswapPrice || !isValidPrice(uniswapPrice.priceInUSD)) {
+        console.warn(`  ✗ Uniswap pool price not available for ${tokenAddress.slice(0, 10)}...`);
+        return null;
+      }
+
+      console.log(`  ✓ Uniswap ${uniswapPrice.version} pool price for ${tokenAddress.slice(0, 10)}...: $${uniswapPrice.priceInUSD.toFixed(6)} USD`);
+      const usdPerWETH = uniswapPrice.priceInUSD / uniswapPrice.priceInWETH;
+      return createPriceData(`uniswap-${uniswapPrice.version}`, uniswapPrice.priceInUSD.toString(), {
+        pool: uniswapPrice.pool,
+        quoteAddress: uniswapPrice.quoteAddress,
+        liquidityUSD: isValidPrice(usdPerWETH) ? uniswapPrice.liquidityInWETH * usdPerWETH : undefined,
+      });
+    } catch (error) {
+      console.warn(`  ✗ Uniswap pool price failed for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  private async getDexScreenerPriceData(tokenAddress: string): Promise<PriceData | null> {
     try {
-      const response = await fetch(`${BASEAPP_API}/post/${postId}`);
-      if (!response.ok) {
+      console.log(`  Attempting to get DexScreener price for ${tokenAddress.slice(0, 10)}...`);
+      const dexData = await getDexScreenerPrice(tokenAddress, this.chainData);
+      if (!dexData?.priceUsd) {
+        console.warn(`  ✗ DexScreener price not available for ${tokenAddress.slice(0, 10)}...`);
+        return null;
+      }
+      if (!isValidPrice(parseFloat(dexData.priceUsd))) {
+        console.warn(`  ✗ DexScreener price invalid for ${tokenAddress.slice(0, 10)}...: ${dexData.priceUsd}`);
         return null;
       }
 
-      const data = await response.json();
-      return data.price?.toString() || null;
+      console.log(`  ✓ DexScreener price for ${tokenAddress.slice(0, 10)}...: $${dexData.priceUsd} USD`);
+      return createPriceData('dexscreener', dexData.priceUsd, {
+        pool: dexData.pairAddress,
+        liquidityUSD: Number(dexData.liquidityUsd) || undefined,
+      });
+    } catch (error) {
+      console.warn(`  ✗ DexScreener API failed for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  private async getPriceFromBaseAppAPI(postId: string): Promise<string | null> {
+    try {
+      const data = await this.chainData.fetchJson(`${BASEAPP_API}/post/${postId}`);
+      return data?.price?.toString() || null;
     } catch (error) {
       return null;
     }
@@ -2,19 +2,33 @@ import { ethers } from 'ethers';
 import { 
   findPoolForToken, 
   getTokenPriceFromPool, 
+  createBaseClient,
   isBaseAppTokenByPool,
   BASE_PLATFORM_REFERRER,
   UNISWAP_V4_POOL_MANAGER,
   UNISWAP_V4_STATE_VIEW,
   ZORA_HOOKS,
+  quoteDepthFromLiquidity,
 } from './uniswapV4Detector';
 import type { Address } from 'viem';
-
-const BASE_RPC_URL = 'https://mainnet.base.org';
+import { ChainDataJsonRpcProvider, ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { EthUsdOracle } from './ethUsdOracle';
 
 // WETH address on Base
 const WETH_BASE = '0x4200000000000000000000000000000000000006';
 
+/**
+ * Spot price read from a Uniswap pool, with the pool it came from
+ */
+export interface UniswapPoolPrice {
+  priceInWETH: number;
+  priceInUSD: number;
+  version: 'v4' | 'v3';
+  pool: string; // V4 pool id or V3 pool address
+  quoteAddress: string; // Currency the pool prices the token in (USD conversion assumes ETH/WETH)
+  liquidityInWETH: number; // In-range depth, see quoteDepthFromLiquidity
+}
+
 /**
  * Calculate price from sqrtPriceX96
  * Formula: price = (sqrtPriceX96 / 2^96)^2
@@ -83,23 +97,29 @@ export async function isBaseAppTokenByReferrer(
  */
 export async function getUniswapPriceFromPool(
   tokenAddress: string,
-  wethAddress: string = WETH_BASE
-): Promise<{ priceInWETH: number; priceInUSD: number } | null> {
+  ethUsd: EthUsdOracle,
+  wethAddress: string = WETH_BASE,
+  chainData: ChainDataProvider = createDefaultChainDataProvider()
+): Promise<UniswapPoolPrice | null> {
   try {
     // Use the new method that finds pools through Initialize events
-    const priceData = await getTokenPriceFromPool(tokenAddress as Address);
+    const priceData = await getTokenPriceFromPool(tokenAddress as Address, ethUsd, undefined, createBaseClient(chainData));
     
     if (priceData) {
       console.log(`Uniswap V4 price for ${tokenAddress.slice(0, 10)}...: ${priceData.priceInWETH} WETH = $${priceData.priceInUSD}`);
       return {
         priceInWETH: priceData.priceInWETH,
         priceInUSD: priceData.priceInUSD,
+        version: 'v4',
+        pool: priceData.poolId,
+        quoteAddress: priceData.quoteAddress,
+        liquidityInWETH: priceData.liquidityInWETH,
       };
     }
     
     // Fallback: Try Uniswap V3 pools (many tokens still use V3)
-    const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
-    return await getUniswapV3Price(tokenAddress, wethAddress, provider);
+    const provider = new ChainDataJsonRpcProvider(chainData);
+    return await getUniswapV3Price(tokenAddress, wethAddress, provider, ethUsd);
     
   } catch (error) {
     console.error(`Error getting Uniswap price for ${tokenAddress}:`, error);
@@ -113,8 +133,9 @@ export async function getUniswapPriceFromPool(
 async function getUniswapV3Price(
   tokenAddress: string,
   wethAddress: string,
-  provider: ethers.JsonRpcProvider
-): Promise<{ priceInWETH: number; priceInUSD: number } | null> {
+  provider: ethers.JsonRpcProvider,
+  ethUsd: EthUsdOracle
+): Promise<UniswapPoolPrice | null> {
   try {
     // Uniswap V3 Factory on Base
     const UNISWAP_V3_FACTORY = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
@@ -125,6 +146,7 @@ async function getUniswapV3Price(
       'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
       'function token0() external view returns (address)',
       'function token1() external view returns (address)',
+      'function liquidity() external view returns (uint128)',
     ];
     
     const factory = new ethers.Contract(UNISWAP_V3_FACTORY, FACTORY_ABI, provider);
@@ -153,12 +175,22 @@ async function getUniswapV3Price(
             token0IsBase
           );
           
-          const wethPriceUSD = await getWETHPriceUSD();
+          const liquidity: bigint = await pool.liquidity();
+          const liquidityInWETH = quoteDepthFromLiquidity(liquidity, sqrtPriceX96, token0IsBase, wethDecimals);
+          
+          const wethPriceUSD = await ethUsd.getPrice();
           const priceInUSD = priceInWETH * wethPriceUSD;
           
           console.log(`Uniswap V3 price for ${tokenAddress.slice(0, 10)}...: ${priceInWETH} WETH = $${priceInUSD}`);
           
-          return { priceInWETH, priceInUSD };
+          return {
+            priceInWETH,
+            priceInUSD,
+            version: 'v3',
+            pool: poolAddress,
+            quoteAddress: wethAddress,
+            liquidityInWETH,
+          };
         }
       } catch (e) {
         // Continue to next fee tier
@@ -171,17 +203,3 @@ async function getUniswapV3Price(
     return null;
   }
 }
-
-/**
- * Get WETH/USD price (simplified - using ETH price as WETH ≈ ETH)
- */
-async function getWETHPriceUSD(): Promise<number> {
-  try {
-    const res = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-    const data = await res.json();
-    return data?.ethereum?.usd || 3000;
-  } catch (e) {
-    return 3000; // Fallback
-  }
-}
-
@@ -0,0 +1,316 @@
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { EthUsdOracle } from './ethUsdOracle';
+import { KeyValueStore, getDefaultStore } from './storage';
+import { EthPriceAt, HistoricalPriceSource, TokenPriceSample, TokenTradeHistory, TradePriceSource } from './portfolioHistory';
+import { classifyQuote } from './tradeReconstruction';
+import {
+  BaseClient,
+  createBaseClient,
+  findPoolForToken,
+  getCoinPriceInQuote,
+  getPoolId,
+  PoolMetadata,
+  UNISWAP_V4_POOL_MANAGER,
+  UNISWAP_V4_STATE_VIEW,
+} from './uniswapV4Detector';
+
+const V4_SWAP_TOPIC = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+
+const STATE_VIEW = new ethers.Interface([
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+]);
+
+// Base produces a block every 2 seconds, so block <-> time is arithmetic from any anchor
+const BLOCK_TIME_SECONDS = 2;
+const ANCHOR_TTL_MS = 60_000;
+// Arguments at or above this are unix timestamps, below - block numbers
+const MIN_TIMESTAMP = 1_000_000_000;
+
+// Swap event fallback (node without archive state): ranges scanned back from the block
+const SWAP_LOOKBACK_CHUNK = 10_000;
+const SWAP_LOOKBACK_CHUNKS = 10;
+// eth_getLogs calls one service (one analysis) may spend on that fallback
+const SWAP_LOOKBACK_BUDGET = 150;
+// A pool without Swap events in the lookback is not scanned again for this long
+// (short - a failed scan on a flaky node looks the same)
+const SWAP_MISS_TTL = 60 * 60 * 1000;
+// Quote currencies priced through their own pools (coin -> creator coin -> ZORA -> ETH)
+const MAX_QUOTE_DEPTH = 3;
+
+/**
+ * A token's pool price at a past block
+ */
+export interface HistoricalPrice {
+  tokenAddress: string; // Lowercased
+  blockNumber: number;
+  timestamp: number; // Unix seconds
+  priceInQuote: number; // In the pool's backing currency
+  quoteAddress: string; // Lowercased
+  quoteSymbol: string;
+  quoteUSD: number;
+  priceUSD: number;
+  ethPriceUSD: number; // ETH/USD at the same block
+  source: 'slot0' | 'swap'; // Archive getSlot0 read, or the last Swap event at or before the block
+}
+
+interface SwapScanMiss {
+  checkedAt: number; // ms
+}
+
+/**
+ * Prices at past blocks: the pool's getSlot0 read at an archive block (last V4 Swap
+ * event when the node has no archive state) and Chainlink ETH/USD at the same block
+ * Past prices never change, so results are kept in the store under `price:`; Swap event
+ * scans that found nothing are remembered for a while, and each service has a budget for them
+ */
+export class HistoricalPriceService {
+  private chainData: ChainDataProvider;
+  private poolClient: BaseClient;
+  private store: KeyValueStore;
+  private ethUsd: EthUsdOracle;
+  private pools: Map<string, Promise<PoolMetadata | null>> = new Map();
+  private prices: Map<string, Promise<HistoricalPrice | null>> = new Map();
+  private ethPrices: Map<number, Promise<number | null>> = new Map();
+  private anchor: { block: number; timestamp: number; fetchedAt: number } | null = null;
+  private swapLogBudget = SWAP_LOOKBACK_BUDGET;
+  private swapBudgetSpent = false;
+
+  constructor(chainData?: ChainDataProvider, ethUsd?: EthUsdOracle, store: KeyValueStore = getDefaultStore()) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+    this.poolClient = createBaseClient(this.chainData);
+    this.ethUsd = ethUsd || new EthUsdOracle(this.chainData, { store });
+    this.store = store;
+  }
+
+  /**
+   * Token price at a block number or a unix timestamp (resolved to the block at that time)
+   */
+  async getPriceAt(tokenAddress: string, blockOrTimestamp: number): Promise<HistoricalPrice | null> {
+    const block = await this.resolveBlock(blockOrTimestamp);
+    return this.getPriceAtBlock(tokenAddress.toLowerCase(), block, 0);
+  }
+
+  /**
+   * ETH/USD at a block number or a unix timestamp
+   */
+  async getEthPriceAt(blockOrTimestamp: number): Promise<number | null> {
+    return this.getEthPriceAtBlock(await this.resolveBlock(blockOrTimestamp));
+  }
+
+  async resolveBlock(blockOrTimestamp: number): Promise<number> {
+    if (blockOrTimestamp < MIN_TIMESTAMP) {
+      return blockOrTimestamp;
+    }
+    const anchor = await this.getAnchor();
+    const block = anchor.block - Math.ceil((anchor.timestamp - blockOrTimestamp) / BLOCK_TIME_SECONDS);
+    return Math.max(0, Math.min(block, anchor.block));
+  }
+
+  async blockTimestamp(block: number): Promise<number> {
+    const anchor = await this.getAnchor();
+    return anchor.timestamp - (anchor.block - block) * BLOCK_TIME_SECONDS;
+  }
+
+  private async getAnchor(): Promise<{ block: number; timestamp: number }> {
+    if (!this.anchor || Date.now() - this.anchor.fetchedAt > ANCHOR_TTL_MS) {
+      const latest = await this.chainData.request('eth_getBlockByNumber', ['latest', false]);
+      this.anchor = { block: Number(latest.number), timestamp: Number(latest.timestamp), fetchedAt: Date.now() };
+    }
+    return this.anchor;
+  }
+
+  private getPriceAtBlock(token: string, block: number, depth: number): Promise<HistoricalPrice | null> {
+    const key = `price:${token}:${block}`;
+    if (!this.prices.has(key)) {
+      this.prices.set(key, this.loadPrice(key, token, block, depth));
+    }
+    return this.prices.get(key)!;
+  }
+
+  private async loadPrice(key: string, token: string, block: number, depth: number): Promise<HistoricalPrice | null> {
+    const stored = await this.store.get<HistoricalPrice>(key);
+    if (stored) return stored;
+
+    const pool = await this.getPool(token);
+    if (!pool) return null;
+
+    const reading = await this.readSqrtPrice(pool, block);
+    if (!reading) return null;
+
+    const priceInQuote = getCoinPriceInQuote({ ...pool, sqrtPriceX96: reading.sqrtPriceX96 }, token);
+    if (priceInQuote <= 0) return null;
+
+    const quote = pool.currency0.address.toLowerCase() === token ? pool.currency1 : pool.currency0;
+    const quoteAddress = quote.address.toLowerCase();
+    const ethPriceUSD = await this.getEthPriceAtBlock(block);
+    if (ethPriceUSD === null) return null;
+
+    let quoteUSD: number;
+    switch (classifyQuote(quoteAddress)) {
+      case 'ETH':
+        quoteUSD = ethPriceUSD;
+        break;
+      case 'USDC':
+        quoteUSD = 1;
+        break;
+      default: {
+        if (depth >= MAX_QUOTE_DEPTH) return null;
+        const quotePrice = await this.getPriceAtBlock(quoteAddress, block, depth + 1);
+        if (!quotePrice) return null;
+        quoteUSD = quotePrice.priceUSD;
+      }
+    }
+
+    const price: HistoricalPrice = {
+      tokenAddress: token,
+      blockNumber: block,
+      timestamp: await this.blockTimestamp(block),
+      priceInQuote,
+      quoteAddress,
+      quoteSymbol: quote.symbol,
+      quoteUSD,
+      priceUSD: priceInQuote * quoteUSD,
+      ethPriceUSD,
+      source: reading.source,
+    };
+    await this.store.set(key, price).catch((error: Error) => console.warn(`  Failed to store the ${token.slice(0, 10)}... price at block ${block}:`, error.message));
+    return price;
+  }
+
+  private getPool(token: string): Promise<PoolMetadata | null> {
+    if (!this.pools.has(token)) {
+      this.pools.set(token, findPoolForToken(token as Address, this.poolClient).catch(error => {
+        console.warn(`  Pool lookup failed for ${token.slice(0, 10)}...:`, error.message);
+        return null;
+      }));
+    }
+    return this.pools.get(token)!;
+  }
+
+  /**
+   * Pool sqrtPriceX96 as of the end of a block
+   */
+  private async readSqrtPrice(pool: PoolMetadata, block: number): Promise<{ sqrtPriceX96: bigint; source: 'slot0' | 'swap' } | null> {
+    const poolId = getPoolId(pool.key);
+
+    try {
+      const raw = await this.chainData.call({
+        to: UNISWAP_V4_STATE_VIEW.toLowerCase(),
+        data: STATE_VIEW.encodeFunctionData('getSlot0', [poolId]),
+      }, block);
+      const sqrtPriceX96 = BigInt(STATE_VIEW.decodeFunctionResult('getSlot0', raw).sqrtPriceX96);
+      // Zero before the pool was initialized
+      return sqrtPriceX96 > 0n ? { sqrtPriceX96, source: 'slot0' } : null;
+    } catch (error: any) {
+      // Pruned nodes reject old state ("missing trie node") - fall back to the pool's Swap events
+      console.warn(`  getSlot0 at block ${block} failed (${error.message}), reading Swap events`);
+    }
+
+    const missKey = `price-miss:${poolId}:${block}`;
+    const miss = await this.store.get<SwapScanMiss>(missKey).catch(() => null);
+    if (miss && Date.now() - miss.checkedAt < SWAP_MISS_TTL) return null;
+
+    for (let i = 0; i < SWAP_LOOKBACK_CHUNKS; i++) {
+      const toBlock = block - i * SWAP_LOOKBACK_CHUNK;
+      const fromBlock = Math.max(0, toBlock - SWAP_LOOKBACK_CHUNK + 1);
+      if (toBlock < 0) break;
+
+      if (this.swapLogBudget === 0) {
+        // Unfinished scan - not a miss
+        if (!this.swapBudgetSpent) {
+          this.swapBudgetSpent = true;
+          console.warn(`  Swap event budget of ${SWAP_LOOKBACK_BUDGET} log queries used up - remaining past prices are skipped`);
+        }
+        return null;
+      }
+      this.swapLogBudget--;
+
+      const logs = await this.chainData.getLogs({
+        address: UNISWAP_V4_POOL_MANAGER,
+        topics: [V4_SWAP_TOPIC, poolId],
+        fromBlock,
+        toBlock,
+      });
+      if (logs.length > 0) {
+        const last = logs.reduce((latest, log) =>
+          Number(log.blockNumber) > Number(latest.blockNumber)
+            || (Number(log.blockNumber) === Number(latest.blockNumber) && Number(log.logIndex) > Number(latest.logIndex))
+            ? log
+            : latest
+        );
+        // Data: amount0, amount1, sqrtPriceX96, liquidity, tick, fee
+        const [, , sqrtPriceX96] = ethers.AbiCoder.defaultAbiCoder().decode(
+          ['int128', 'int128', 'uint160', 'uint128', 'int24', 'uint24'],
+          last.data
+        );
+        return { sqrtPriceX96: BigInt(sqrtPriceX96), source: 'swap' };
+      }
+      if (fromBlock === 0) break;
+    }
+
+    await this.store.set(missKey, { checkedAt: Date.now() } as SwapScanMiss)
+      .catch((error: Error) => console.warn(`  Failed to store the Swap event miss at block ${block}:`, error.message));
+    return null;
+  }
+
+  private getEthPriceAtBlock(block: number): Promise<number | null> {
+    if (!this.ethPrices.has(block)) {
+      this.ethPrices.set(block, this.loadEthPrice(block));
+    }
+    return this.ethPrices.get(block)!;
+  }
+
+  /**
+   * Chainlink ETH/USD as of the block; the round in effect at the block's time when the node has no archive state
+   */
+  private async loadEthPrice(block: number): Promise<number | null> {
+    return await this.ethUsd.getPriceAtBlock(block) ?? await this.ethUsd.getPriceAtTime(await this.blockTimestamp(block));
+  }
+}
+
+// Pool price points per token for the portfolio chart (on top of the trade prices):
+// daily for the last two months of history, evenly spaced beyond that
+const MAX_POOL_SAMPLES = 60;
+const POOL_SAMPLE_BATCH = 6;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Portfolio history price source: the wallet's trade prices plus pool prices read
+ * at evenly spaced past days, so holdings are valued between trades (and for
+ * tokens that were only minted or transferred in)
+ */
+export class PoolPriceSource implements HistoricalPriceSource {
+  private tradePrices: TradePriceSource;
+
+  constructor(private prices: HistoricalPriceService, ethPriceAt: EthPriceAt) {
+    this.tradePrices = new TradePriceSource(ethPriceAt);
+  }
+
+  async getPriceSamples(token: TokenTradeHistory, fromTimestamp: number, toTimestamp: number): Promise<TokenPriceSample[]> {
+    const samples = await this.tradePrices.getPriceSamples(token);
+
+    // Day boundaries, so every token of the chart shares the ETH/USD reads
+    const firstDay = Math.ceil(fromTimestamp / DAY_SECONDS) * DAY_SECONDS;
+    const days = Math.max(0, Math.floor((toTimestamp - firstDay) / DAY_SECONDS));
+    const step = Math.max(1, Math.ceil(days / MAX_POOL_SAMPLES));
+    const timestamps: number[] = [];
+    for (let day = 0; day < days; day += step) {
+      timestamps.push(firstDay + day * DAY_SECONDS);
+    }
+
+    for (let i = 0; i < timestamps.length; i += POOL_SAMPLE_BATCH) {
+      const prices = await Promise.all(timestamps.slice(i, i + POOL_SAMPLE_BATCH).map(timestamp =>
+        this.prices.getPriceAt(token.tokenAddress, timestamp).catch(() => null)
+      ));
+      for (const price of prices) {
+        if (price && price.priceUSD > 0) {
+          samples.push({ timestamp: price.timestamp, priceUSD: price.priceUSD });
+        }
+      }
+    }
+
+    return samples.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
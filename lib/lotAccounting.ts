@@ -0,0 +1,268 @@
+import { ethers } from 'ethers';
+import { BaseAppPostTransaction } from './detectBaseAppPost';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average' | 'hifo';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average', 'hifo'];
+
+export type LotSource = 'buy' | 'mint' | 'transfer_in';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface OpenLot {
+  lotId: string; // Acquisition tx hash + log position
+  acquiredAt: number; // Unix seconds
+  acquisitionHash: string;
+  source: LotSource;
+  amount: string; // Remaining tokens (formatted)
+  costBasis: string; // Remaining cost basis (USD)
+  unitCost: string; // Cost per token (USD)
+  holdingPeriodDays: number; // Days held so far
+}
+
+export interface ClosedLot {
+  lotId: string;
+  acquiredAt: number;
+  acquisitionHash: string;
+  disposedAt: number;
+  disposalHash: string;
+  amount: string; // Tokens disposed from this lot (formatted)
+  proceeds: string; // USD
+  costBasis: string; // USD
+  realizedPnL: string; // USD
+  holdingPeriodDays: number;
+  isLongTerm: boolean; // Held more than one year (disposed after the acquisition date's anniversary)
+  estimated?: boolean; // Acquisition or disposal valued at the current ETH/USD (no rate at its block)
+}
+
+export interface LotAccountingResult {
+  method: CostBasisMethod;
+  openLots: OpenLot[];
+  closedLots: ClosedLot[];
+  realizedPnL: number; // USD
+  remainingCostBasis: number; // USD
+  unmatchedSellAmount: string; // Tokens sold without a known acquisition (formatted)
+  transferredOutAmount: string; // Tokens moved out of the wallet without a sale (formatted)
+}
+
+interface WorkingLot {
+  lotId: string;
+  sequence: number; // Position in the trade history - breaks ties between lots acquired at the same time
+  acquiredAt: number;
+  acquisitionHash: string;
+  source: LotSource;
+  remaining: bigint;
+  unitCostUSD: number;
+  estimated: boolean;
+}
+
+/**
+ * Pick the order in which open lots are consumed by a sell
+ * Average cost consumes lots oldest-first (for holding periods) but prices them at the pooled average
+ */
+function orderLots(lots: WorkingLot[], method: CostBasisMethod): WorkingLot[] {
+  const open = lots.filter(lot => lot.remaining > 0n);
+  switch (method) {
+    case 'lifo':
+      return open.sort((a, b) => b.acquiredAt - a.acquiredAt || b.sequence - a.sequence);
+    case 'hifo':
+      return open.sort((a, b) => b.unitCostUSD - a.unitCostUSD || a.acquiredAt - b.acquiredAt || a.sequence - b.sequence);
+    case 'fifo':
+    case 'average':
+    default:
+      return open.sort((a, b) => a.acquiredAt - b.acquiredAt || a.sequence - b.sequence);
+  }
+}
+
+function toTokens(amount: bigint, decimals: number): number {
+  return parseFloat(ethers.formatUnits(amount, decimals));
+}
+
+// Unit cost of everything still open, weighted by remaining tokens
+function pooledUnitCost(lots: WorkingLot[], decimals: number): number {
+  let pooledTokens = 0;
+  let pooledCost = 0;
+  for (const lot of lots) {
+    const tokens = toTokens(lot.remaining, decimals);
+    pooledTokens += tokens;
+    pooledCost += tokens * lot.unitCostUSD;
+  }
+  return pooledTokens > 0 ? pooledCost / pooledTokens : 0;
+}
+
+/**
+ * USD value of a record at execution: valueUSD when the analysis priced it,
+ * otherwise the ETH leg at the record's own ETH/USD rate
+ */
+export function executionValueUSD(tx: BaseAppPostTransaction): number {
+  if (tx.valueUSD !== undefined) return tx.valueUSD;
+  return parseFloat(ethers.formatEther(tx.price || '0')) * (tx.ethPriceUSD || 0);
+}
+
+// Position of a record within its block (records of one block share a timestamp)
+function positionInBlock(tx: BaseAppPostTransaction): number {
+  if (tx.logIndexes && tx.logIndexes.length > 0) return Math.min(...tx.logIndexes);
+  return tx.logIndex ?? 0;
+}
+
+/**
+ * Long-term: disposed after the anniversary of the acquisition date (UTC calendar
+ * dates, not a count of days - leap years make 365 days too short); a Feb 29
+ * acquisition's anniversary is Feb 28
+ */
+function isLongTermHolding(acquiredAt: number, disposedAt: number): boolean {
+  const acquired = new Date(acquiredAt * 1000);
+  const year = acquired.getUTCFullYear() + 1;
+  const month = acquired.getUTCMonth();
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const anniversary = Date.UTC(year, month, Math.min(acquired.getUTCDate(), lastDayOfMonth));
+  const disposed = new Date(disposedAt * 1000);
+  return Date.UTC(disposed.getUTCFullYear(), disposed.getUTCMonth(), disposed.getUTCDate()) > anniversary;
+}
+
+// ETH legs valued at today's rate because no rate at the record's block was found
+function isEstimated(tx: BaseAppPostTransaction): boolean {
+  return (tx.type === 'buy' || tx.type === 'sell') && tx.ethPriceSource === 'current' && (tx.quoteCurrency || 'ETH') === 'ETH';
+}
+
+/**
+ * Match sells against acquisition lots with the chosen cost-basis method
+ * Costs and proceeds are the records' USD values at execution (see executionValueUSD);
+ * mints and transfers in enter at their value at receipt (zero for author tokens).
+ * Transfers out take their lots along without a disposal - only sells realize PnL
+ */
+export function computeLots(
+  transactions: BaseAppPostTransaction[],
+  decimals: number,
+  method: CostBasisMethod = 'fifo',
+  now: number = Date.now()
+): LotAccountingResult {
+  const ordered = [...transactions]
+    .filter(tx => tx.amount && BigInt(tx.amount) > 0n)
+    .sort((a, b) => a.timestamp - b.timestamp || a.blockNumber - b.blockNumber || positionInBlock(a) - positionInBlock(b));
+
+  const lots: WorkingLot[] = [];
+  const closedLots: ClosedLot[] = [];
+  let realizedPnL = 0;
+  let unmatched = 0n;
+  let transferredOut = 0n;
+  const nowSec = Math.floor(now / 1000);
+
+  for (let i = 0; i < ordered.length; i++) {
+    const tx = ordered[i];
+    const amount = BigInt(tx.amount!);
+    const valueUSD = executionValueUSD(tx);
+
+    if (tx.type === 'buy' || tx.type === 'mint' || tx.type === 'transfer_in') {
+      const tokens = toTokens(amount, decimals);
+      const cost = valueUSD;
+      lots.push({
+        lotId: `${tx.hash}-${i}`,
+        sequence: i,
+        acquiredAt: tx.timestamp,
+        acquisitionHash: tx.hash,
+        source: tx.type,
+        remaining: amount,
+        unitCostUSD: tokens > 0 ? cost / tokens : 0,
+        estimated: isEstimated(tx),
+      });
+      continue;
+    }
+
+    if (tx.type === 'transfer_out') {
+      // Same lots a sell would take, so the remaining basis stays consistent with the method
+      if (method === 'average') {
+        const averageUnitCost = pooledUnitCost(lots, decimals);
+        for (const lot of lots) {
+          lot.unitCostUSD = averageUnitCost;
+        }
+      }
+      let toMove = amount;
+      for (const lot of orderLots(lots, method)) {
+        if (toMove === 0n) break;
+        const taken = lot.remaining < toMove ? lot.remaining : toMove;
+        lot.remaining -= taken;
+        toMove -= taken;
+      }
+      transferredOut += amount - toMove;
+      continue;
+    }
+
+    // Pooled unit cost for the average method, taken before this sell
+    const averageUnitCost = method === 'average' ? pooledUnitCost(lots, decimals) : 0;
+
+    const sellTokens = toTokens(amount, decimals);
+    const unitProceeds = sellTokens > 0 ? valueUSD / sellTokens : 0;
+    let toDispose = amount;
+
+    for (const lot of orderLots(lots, method)) {
+      if (toDispose === 0n) break;
+
+      const taken = lot.remaining < toDispose ? lot.remaining : toDispose;
+      const takenTokens = toTokens(taken, decimals);
+      const unitCost = method === 'average' ? averageUnitCost : lot.unitCostUSD;
+      const costBasis = takenTokens * unitCost;
+      const proceeds = takenTokens * unitProceeds;
+      const holdingPeriodDays = Math.max(0, Math.floor((tx.timestamp - lot.acquiredAt) / DAY_SECONDS));
+
+      closedLots.push({
+        lotId: lot.lotId,
+        acquiredAt: lot.acquiredAt,
+        acquisitionHash: lot.acquisitionHash,
+        disposedAt: tx.timestamp,
+        disposalHash: tx.hash,
+        amount: ethers.formatUnits(taken, decimals),
+        proceeds: proceeds.toFixed(2),
+        costBasis: costBasis.toFixed(2),
+        realizedPnL: (proceeds - costBasis).toFixed(2),
+        holdingPeriodDays,
+        isLongTerm: isLongTermHolding(lot.acquiredAt, tx.timestamp),
+        ...((lot.estimated || isEstimated(tx)) && { estimated: true }),
+      });
+
+      realizedPnL += proceeds - costBasis;
+      lot.remaining -= taken;
+      toDispose -= taken;
+    }
+
+    // Average cost: everything that stays open carries the pooled unit cost
+    if (method === 'average') {
+      for (const lot of lots) {
+        lot.unitCostUSD = averageUnitCost;
+      }
+    }
+
+    if (toDispose > 0n) {
+      // Sold more than we know was acquired (history truncated or transfers-in missed)
+      unmatched += toDispose;
+    }
+  }
+
+  const openLots: OpenLot[] = lots
+    .filter(lot => lot.remaining > 0n)
+    .map(lot => {
+      const tokens = toTokens(lot.remaining, decimals);
+      return {
+        lotId: lot.lotId,
+        acquiredAt: lot.acquiredAt,
+        acquisitionHash: lot.acquisitionHash,
+        source: lot.source,
+        amount: ethers.formatUnits(lot.remaining, decimals),
+        costBasis: (tokens * lot.unitCostUSD).toFixed(2),
+        unitCost: lot.unitCostUSD.toFixed(6),
+        holdingPeriodDays: Math.max(0, Math.floor((nowSec - lot.acquiredAt) / DAY_SECONDS)),
+      };
+    });
+
+  const remainingCostBasis = openLots.reduce((sum, lot) => sum + parseFloat(lot.costBasis), 0);
+
+  return {
+    method,
+    openLots,
+    closedLots,
+    realizedPnL,
+    remainingCostBasis,
+    unmatchedSellAmount: ethers.formatUnits(unmatched, decimals),
+    transferredOutAmount: ethers.formatUnits(transferredOut, decimals),
+  };
+}
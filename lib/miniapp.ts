@@ -152,3 +152,28 @@ export async function getMiniAppContext(): Promise<MiniAppContext | null> {
   }
 }
 
+
+/**
+ * fetch with the user's Quick Auth session token (prompts sign-in on first use)
+ * Server routes read the FID from it via lib/quickAuth.ts
+ */
+export async function authenticatedFetch(input: string, init?: RequestInit): Promise<Response> {
+  return sdk.quickAuth.fetch(input, init);
+}
+
+/**
+ * Open the client's cast composer with a link embed
+ * Returns false outside a Mini App (or if the client refused) so callers can fall back
+ */
+export async function composeCastWithEmbed(text: string, url: string): Promise<boolean> {
+  try {
+    if (!(await isInMiniApp())) {
+      return false;
+    }
+    await sdk.actions.composeCast({ text, embeds: [url] });
+    return true;
+  } catch (error) {
+    console.warn('Failed to open cast composer:', error);
+    return false;
+  }
+}
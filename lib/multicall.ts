@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+import type { ChainDataProvider } from './chainData';
+
+// Multicall3 is deployed at the same address on every major chain, Base included
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3 = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const TOKEN = new ethers.Interface([
+  'function platformReferrer() view returns (address)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+]);
+
+// Calls per aggregate3 - keeps each eth_call well under public node gas/response limits
+const MULTICALL_CHUNK_SIZE = 300;
+// Calls per JSON-RPC batch for eth_getCode
+const GET_CODE_BATCH_SIZE = 50;
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+  allowFailure?: boolean; // Default true
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Token state read in one pass; a field is undefined when its call reverted
+ * (e.g. platformReferrer on a non-Zora token) or returned garbage
+ */
+export interface TokenInspection {
+  platformReferrer?: string;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  balance?: bigint; // balanceOf(owner), only when an owner was given
+}
+
+/**
+ * Run calls through Multicall3.aggregate3, chunked; one eth_call per chunk
+ * A chunk whose eth_call fails outright reports all its calls as failed
+ */
+export async function aggregate3(
+  chainData: ChainDataProvider,
+  calls: MulticallCall[],
+  chunkSize: number = MULTICALL_CHUNK_SIZE
+): Promise<MulticallResult[]> {
+  const chunks: MulticallCall[][] = [];
+  for (let i = 0; i < calls.length; i += chunkSize) {
+    chunks.push(calls.slice(i, i + chunkSize));
+  }
+
+  const chunkResults = await Promise.all(chunks.map(async chunk => {
+    try {
+      const data = MULTICALL3.encodeFunctionData('aggregate3', [
+        chunk.map(call => [call.target, call.allowFailure !== false, call.callData]),
+      ]);
+      const raw = await chainData.call({ to: MULTICALL3_ADDRESS, data });
+      const [results] = MULTICALL3.decodeFunctionResult('aggregate3', raw);
+      return (results as [boolean, string][]).map(([success, returnData]) => ({ success, returnData }));
+    } catch (error: any) {
+      console.warn(`Multicall3 chunk of ${chunk.length} calls failed:`, error.message);
+      return chunk.map(() => ({ success: false, returnData: '0x' }));
+    }
+  }));
+
+  return chunkResults.flat();
+}
+
+/**
+ * eth_getCode for many addresses over JSON-RPC batches
+ * Addresses whose call failed are missing from the map (unknown, not "no code")
+ */
+export async function batchGetCode(
+  chainData: ChainDataProvider,
+  addresses: string[],
+  batchSize: number = GET_CODE_BATCH_SIZE
+): Promise<Map<string, string>> {
+  const codes = new Map<string, string>();
+  const unique = Array.from(new Set(addresses.map(a => a.toLowerCase())));
+
+  const batches: string[][] = [];
+  for (let i = 0; i < unique.length; i += batchSize) {
+    batches.push(unique.slice(i, i + batchSize));
+  }
+
+  await Promise.all(batches.map(async batch => {
+    try {
+      const results = await chainData.requestBatch(batch.map(address => ({
+        method: 'eth_getCode',
+        params: [address, 'latest'],
+      })));
+      results.forEach((entry, i) => {
+        if (typeof entry.result === 'string') {
+          codes.set(batch[i], entry.result);
+        }
+      });
+    } catch (error: any) {
+      console.warn(`eth_getCode batch of ${batch.length} failed:`, error.message);
+    }
+  }));
+
+  return codes;
+}
+
+function decodeResult<T>(fn: string, result: MulticallResult | undefined): T | undefined {
+  if (!result?.success || result.returnData === '0x') return undefined;
+  try {
+    return TOKEN.decodeFunctionResult(fn, result.returnData)[0] as T;
+  } catch {
+    return undefined; // Non-standard return (e.g. bytes32 name)
+  }
+}
+
+/**
+ * platformReferrer(), name/symbol/decimals and optionally balanceOf(owner) for many tokens
+ * through Multicall3 - 1,000 tokens take a handful of eth_calls
+ */
+export async function inspectTokens(
+  chainData: ChainDataProvider,
+  tokenAddresses: string[],
+  owner?: string
+): Promise<Map<string, TokenInspection>> {
+  const tokens = Array.from(new Set(tokenAddresses.map(a => a.toLowerCase())));
+  const fns: string[] = ['platformReferrer', 'name', 'symbol', 'decimals'];
+  if (owner) fns.push('balanceOf');
+
+  const calls: MulticallCall[] = [];
+  for (const token of tokens) {
+    for (const fn of fns) {
+      calls.push({
+        target: token,
+        callData: fn === 'balanceOf' ? TOKEN.encodeFunctionData(fn, [owner]) : TOKEN.encodeFunctionData(fn),
+      });
+    }
+  }
+
+  const results = await aggregate3(chainData, calls);
+  const inspections = new Map<string, TokenInspection>();
+
+  tokens.forEach((token, i) => {
+    const base = i * fns.length;
+    const decimals = decodeResult<bigint>('decimals', results[base + 3]);
+    inspections.set(token, {
+      platformReferrer: decodeResult<string>('platformReferrer', results[base])?.toLowerCase(),
+      name: decodeResult<string>('name', results[base + 1]),
+      symbol: decodeResult<string>('symbol', results[base + 2]),
+      decimals: decimals !== undefined ? Number(decimals) : undefined,
+      balance: owner ? decodeResult<bigint>('balanceOf', results[base + 4]) : undefined,
+    });
+  });
+
+  return inspections;
+}
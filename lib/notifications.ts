@@ -0,0 +1,268 @@
+import { KeyValueStore, getSharedStore } from './storage';
+import type { NotificationDetails } from './webhookSignature';
+
+// Limits the Farcaster/Base clients enforce per notification token
+const MIN_INTERVAL_MS = 30 * 1000;
+const DAILY_LIMIT = 100;
+const MAX_TOKENS_PER_REQUEST = 100;
+const MAX_TITLE_LENGTH = 32;
+const MAX_BODY_LENGTH = 128;
+const MAX_TOKEN_LENGTH = 256;
+
+// Client endpoints tokens may point at (we POST to them server-side);
+// NOTIFICATION_HOSTS (comma-separated) adds hosts of other clients
+const DEFAULT_NOTIFICATION_HOSTS = ['api.farcaster.xyz', 'api.warpcast.com'];
+
+/**
+ * Notification token a client app handed us for one user (FID) via the webhook
+ */
+export interface NotificationSubscription {
+  fid: number;
+  appFid: number; // Client app the token belongs to; 0 when unknown
+  url: string; // Client endpoint notifications are POSTed to
+  token: string;
+  enabledAt: number; // ms
+  // Delivery bookkeeping for the per-token rate limits
+  lastSentAt?: number; // ms
+  day?: string; // UTC date sentToday refers to (YYYY-MM-DD)
+  sentToday?: number;
+}
+
+export interface MiniAppNotification {
+  notificationId: string; // Clients drop repeats of the same id for the same token within 24h
+  title: string;
+  body: string;
+  targetUrl: string; // Must be on the Mini App's domain
+}
+
+export interface NotificationSendResult {
+  delivered: number;
+  invalid: number; // Tokens the client rejected - removed from the store
+  rateLimited: number; // Rejected by the client's own rate limit
+  skipped: number; // Held back by our copy of the rate limits
+  failed: number; // Requests that still failed after retries
+}
+
+export interface NotificationSenderOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number; // Backoff before the 2nd attempt, doubled afterwards
+  timeoutMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function isAllowedNotificationUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  const extraHosts = (process.env.NOTIFICATION_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+  return url.protocol === 'https:'
+    && !url.username && !url.password && !url.port
+    && [...DEFAULT_NOTIFICATION_HOSTS, ...extraHosts].includes(url.hostname.toLowerCase());
+}
+
+/**
+ * notificationDetails from a webhook event, or null unless it has a non-empty
+ * token and an https URL on a known client host
+ */
+export function parseNotificationDetails(value: unknown): NotificationDetails | null {
+  if (!value || typeof value !== 'object') return null;
+  const { url, token } = value as Record<string, unknown>;
+  if (typeof token !== 'string' || token.trim() === '' || token.length > MAX_TOKEN_LENGTH) return null;
+  if (typeof url !== 'string' || !isAllowedNotificationUrl(url)) return null;
+  return { url, token };
+}
+
+/**
+ * Notification tokens per FID and client app, in the shared key-value store
+ */
+export class NotificationStore {
+  private store: KeyValueStore;
+
+  constructor(store?: KeyValueStore) {
+    this.store = store || getSharedStore('Notification tokens');
+  }
+
+  private key(fid: number, appFid: number): string {
+    return `notifications:${fid}:${appFid}`;
+  }
+
+  async save(fid: number, appFid: number | undefined, value: NotificationDetails): Promise<NotificationSubscription> {
+    const details = parseNotificationDetails(value);
+    if (!details) {
+      throw new Error('Invalid notification details');
+    }
+    const existing = await this.store.get<NotificationSubscription>(this.key(fid, appFid || 0));
+    // Re-enabling with the same token keeps the rate-limit counters
+    const subscription: NotificationSubscription = existing && existing.token === details.token
+      ? { ...existing, url: details.url }
+      : { fid, appFid: appFid || 0, url: details.url, token: details.token, enabledAt: Date.now() };
+    await this.store.set(this.key(fid, appFid || 0), subscription);
+    return subscription;
+  }
+
+  async update(subscription: NotificationSubscription): Promise<void> {
+    await this.store.set(this.key(subscription.fid, subscription.appFid), subscription);
+  }
+
+  async delete(fid: number, appFid: number | undefined): Promise<void> {
+    await this.store.delete(this.key(fid, appFid || 0));
+  }
+
+  async get(fid: number): Promise<NotificationSubscription[]> {
+    return this.load(await this.store.keys(`notifications:${fid}:`));
+  }
+
+  async list(): Promise<NotificationSubscription[]> {
+    return this.load(await this.store.keys('notifications:'));
+  }
+
+  private async load(keys: string[]): Promise<NotificationSubscription[]> {
+    const subscriptions = await Promise.all(keys.map(key => this.store.get<NotificationSubscription>(key)));
+    return subscriptions.filter((s): s is NotificationSubscription => !!s);
+  }
+}
+
+/**
+ * Pushes notifications to the client endpoints stored for users
+ * Tokens sharing an endpoint go out in batches of up to 100; transport errors,
+ * 429 and 5xx are retried with backoff; invalid tokens are dropped
+ */
+export class NotificationSender {
+  private options: Required<NotificationSenderOptions>;
+
+  constructor(private store: NotificationStore = new NotificationStore(), options: NotificationSenderOptions = {}) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 3,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      timeoutMs: options.timeoutMs ?? 10000,
+    };
+  }
+
+  async sendToFid(fid: number, notification: MiniAppNotification): Promise<NotificationSendResult> {
+    return this.deliver(await this.store.get(fid), notification);
+  }
+
+  async broadcast(notification: MiniAppNotification): Promise<NotificationSendResult> {
+    return this.deliver(await this.store.list(), notification);
+  }
+
+  private async deliver(
+    subscriptions: NotificationSubscription[],
+    notification: MiniAppNotification,
+    now: number = Date.now()
+  ): Promise<NotificationSendResult> {
+    const result: NotificationSendResult = { delivered: 0, invalid: 0, rateLimited: 0, skipped: 0, failed: 0 };
+    const today = utcDay(now);
+
+    const allowed = subscriptions.filter(sub => {
+      // Stored before the URL was validated - never POST there
+      if (!isAllowedNotificationUrl(sub.url)) {
+        console.warn(`Notification URL for FID ${sub.fid} is not a known client endpoint - skipped`);
+        result.skipped++;
+        return false;
+      }
+      const sentToday = sub.day === today ? sub.sentToday || 0 : 0;
+      const ok = now - (sub.lastSentAt || 0) >= MIN_INTERVAL_MS && sentToday < DAILY_LIMIT;
+      if (!ok) result.skipped++;
+      return ok;
+    });
+
+    const byUrl = new Map<string, NotificationSubscription[]>();
+    for (const sub of allowed) {
+      byUrl.set(sub.url, [...(byUrl.get(sub.url) || []), sub]);
+    }
+
+    const payload = {
+      notificationId: notification.notificationId.slice(0, 128),
+      title: notification.title.slice(0, MAX_TITLE_LENGTH),
+      body: notification.body.slice(0, MAX_BODY_LENGTH),
+      targetUrl: notification.targetUrl,
+    };
+
+    for (const [url, subs] of byUrl.entries()) {
+      for (let i = 0; i < subs.length; i += MAX_TOKENS_PER_REQUEST) {
+        const batch = subs.slice(i, i + MAX_TOKENS_PER_REQUEST);
+        const byToken = new Map(batch.map(sub => [sub.token, sub]));
+
+        let response: { successfulTokens?: string[]; invalidTokens?: string[]; rateLimitedTokens?: string[] };
+        try {
+          response = await this.post(url, { ...payload, tokens: batch.map(sub => sub.token) });
+        } catch (error: any) {
+          console.warn(`Notification delivery to ${url} failed (${batch.length} tokens):`, error.message);
+          result.failed += batch.length;
+          continue;
+        }
+
+        for (const token of response.successfulTokens || []) {
+          const sub = byToken.get(token);
+          if (!sub) continue;
+          result.delivered++;
+          await this.store.update({
+            ...sub,
+            lastSentAt: now,
+            day: today,
+            sentToday: (sub.day === today ? sub.sentToday || 0 : 0) + 1,
+          });
+        }
+        for (const token of response.invalidTokens || []) {
+          const sub = byToken.get(token);
+          if (!sub) continue;
+          result.invalid++;
+          await this.store.delete(sub.fid, sub.appFid);
+        }
+        result.rateLimited += (response.rateLimitedTokens || []).length;
+      }
+    }
+
+    console.log(`🔔 Notification ${payload.notificationId}: ${result.delivered} delivered, ${result.invalid} invalid, ${result.rateLimited} rate limited, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+
+  private async post(url: string, body: unknown): Promise<any> {
+    let lastError: Error = new Error('No attempts made');
+
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delay = this.options.baseDelayMs * 2 ** (attempt - 2);
+        await sleep(delay / 2 + Math.random() * delay / 2);
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+      try {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          return data?.result || {};
+        }
+        lastError = new Error(`HTTP ${res.status} ${res.statusText}`);
+        // Other 4xx mean the request itself is wrong - retrying won't help
+        if (res.status !== 429 && res.status < 500) {
+          throw Object.assign(lastError, { retryable: false });
+        }
+      } catch (error: any) {
+        if (error.retryable === false) throw error;
+        lastError = error;
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw lastError;
+  }
+}
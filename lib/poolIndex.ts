@@ -0,0 +1,330 @@
+import type { Address } from 'viem';
+import { KeyValueStore, getDefaultStore } from './storage';
+import { BaseClient, PoolKey, UNISWAP_V4_POOL_MANAGER } from './uniswapV4Detector';
+
+const INDEX_VERSION = 1;
+
+// A week before the Base PoolManager deployment (January 2025) - nothing to index earlier
+const POOL_MANAGER_START_BLOCK = 25_000_000;
+
+// Block range per eth_getLogs call (public nodes cap it at 10k) and ranges fetched at once
+const LOG_CHUNK_SIZE = 10_000;
+const LOG_CONCURRENCY = 3;
+// One sync pass stops here and the next one resumes from the saved block
+const DEFAULT_SYNC_BUDGET_MS = 40_000;
+// Lookups top the index up only when it is this close to the head (the cron job does long syncs)
+const MAX_CATCH_UP_BLOCKS = 100_000;
+const CATCH_UP_BUDGET_MS = 5_000;
+const CATCH_UP_INTERVAL_MS = 10_000;
+// While the index is further behind, lookups fall back to the Initialize events of
+// the last RECENT_SCAN_BLOCKS (~2 days), scanned once per process and extended as it goes
+const RECENT_SCAN_BLOCKS = 100_000;
+const RECENT_SCAN_TTL_MS = 60_000;
+// Keys per batched store read/write
+const STORE_BATCH_SIZE = 500;
+// Quote currencies (ETH, ZORA, creator coins) are paired with thousands of coins;
+// their own pools come first in block order, later ones are not needed for lookups
+const MAX_POOLS_PER_CURRENCY = 100;
+
+const INITIALIZE_EVENT_ABI = [
+  {
+    type: 'event',
+    name: 'Initialize',
+    inputs: [
+      { name: 'id', type: 'bytes32', indexed: true },
+      { name: 'currency0', type: 'address', indexed: true },
+      { name: 'currency1', type: 'address', indexed: true },
+      { name: 'fee', type: 'uint24', indexed: false },
+      { name: 'tickSpacing', type: 'int24', indexed: false },
+      { name: 'hooks', type: 'address', indexed: false },
+      { name: 'sqrtPriceX96', type: 'uint160', indexed: false },
+      { name: 'tick', type: 'int24', indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * A pool as the PoolManager initialized it
+ */
+export interface IndexedPool extends PoolKey {
+  poolId: `0x${string}`;
+  blockNumber: number;
+}
+
+interface CurrencyPools {
+  pools: IndexedPool[];
+  truncated?: boolean; // More pools exist than MAX_POOLS_PER_CURRENCY
+}
+
+interface IndexSyncState {
+  version: number;
+  lastBlock: number; // Initialize events are indexed through this block
+}
+
+interface RecentPools {
+  fromBlock: number;
+  toBlock: number;
+  fetchedAt: number; // ms
+  byCurrency: Map<string, IndexedPool[]>;
+}
+
+export interface PoolIndexSyncResult {
+  syncedBlock: number;
+  latestBlock: number;
+  pools: number; // Pools added by this pass
+  complete: boolean;
+}
+
+/**
+ * Every Uniswap V4 pool on Base, keyed by currency
+ * Built from PoolManager Initialize events and extended block range by block range,
+ * so finding a token's pools is one store read instead of a log scan
+ */
+export class PoolIndex {
+  private store: KeyValueStore;
+  private cache: Map<string, IndexedPool[]> = new Map();
+  private syncing: Promise<PoolIndexSyncResult> | null = null;
+  private lastCatchUp = 0;
+  private atHead = false;
+  private recent: RecentPools | null = null;
+  private recentScan: Promise<RecentPools> | null = null;
+
+  constructor(store: KeyValueStore = getDefaultStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Pools that trade the token, in initialization order
+   */
+  async getPools(tokenAddress: string): Promise<IndexedPool[]> {
+    const currency = tokenAddress.toLowerCase();
+    const cached = this.cache.get(currency);
+    if (cached) {
+      return cached;
+    }
+
+    const entry = await this.store.get<CurrencyPools>(`pools:${currency}`);
+    const pools = entry?.pools || [];
+    // Empty answers are not cached - the coin may be indexed by the next sync
+    if (pools.length > 0) this.cache.set(currency, pools);
+    return pools;
+  }
+
+  /**
+   * Pools of the token among the recent Initialize events, read from the logs
+   * Stands in for the index while it is too far behind to be topped up on lookup
+   */
+  async getRecentPools(tokenAddress: string, client: BaseClient): Promise<IndexedPool[]> {
+    if (!this.recent || Date.now() - this.recent.fetchedAt > RECENT_SCAN_TTL_MS) {
+      if (!this.recentScan) {
+        this.recentScan = this.scanRecent(client).finally(() => {
+          this.recentScan = null;
+        });
+      }
+      this.recent = await this.recentScan;
+    }
+    return this.recent.byCurrency.get(tokenAddress.toLowerCase()) || [];
+  }
+
+  async getSyncedBlock(): Promise<number> {
+    const state = await this.store.get<IndexSyncState>('pools:sync');
+    return state && state.version === INDEX_VERSION ? state.lastBlock : POOL_MANAGER_START_BLOCK - 1;
+  }
+
+  /**
+   * Ingest Initialize events up to the chain head or until the budget runs out
+   * Concurrent callers share one pass
+   */
+  sync(client: BaseClient, budgetMs: number = DEFAULT_SYNC_BUDGET_MS): Promise<PoolIndexSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(client, budgetMs).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Short sync before a lookup so freshly created coins are found;
+   * skipped when the index is far behind or was topped up moments ago
+   * Returns whether the index reaches the chain head (a miss is then final)
+   */
+  async catchUp(client: BaseClient): Promise<boolean> {
+    if (Date.now() - this.lastCatchUp < CATCH_UP_INTERVAL_MS) {
+      return this.atHead;
+    }
+    this.lastCatchUp = Date.now();
+
+    const [syncedBlock, latestBlock] = await Promise.all([this.getSyncedBlock(), client.getBlockNumber()]);
+    const behind = Number(latestBlock) - syncedBlock;
+    if (behind > MAX_CATCH_UP_BLOCKS) {
+      console.warn(`Pool index is ${behind} blocks behind - lookups scan the last ${RECENT_SCAN_BLOCKS} blocks until the sync job catches up`);
+      this.atHead = false;
+      return false;
+    }
+    this.atHead = (await this.sync(client, CATCH_UP_BUDGET_MS)).complete;
+    return this.atHead;
+  }
+
+  private async runSync(client: BaseClient, budgetMs: number): Promise<PoolIndexSyncResult> {
+    const deadline = Date.now() + budgetMs;
+    const latestBlock = Number(await client.getBlockNumber());
+    let syncedBlock = await this.getSyncedBlock();
+    let added = 0;
+
+    while (syncedBlock < latestBlock && Date.now() < deadline) {
+      const ranges: Array<[number, number]> = [];
+      for (let i = 0, start = syncedBlock + 1; i < LOG_CONCURRENCY && start <= latestBlock; i++, start += LOG_CHUNK_SIZE) {
+        ranges.push([start, Math.min(start + LOG_CHUNK_SIZE - 1, latestBlock)]);
+      }
+
+      let results: IndexedPool[][];
+      try {
+        results = await Promise.all(ranges.map(([fromBlock, toBlock]) => this.fetchPools(client, fromBlock, toBlock)));
+      } catch (error: any) {
+        console.warn(`Pool index sync stopped at block ${syncedBlock}:`, error.message);
+        break;
+      }
+
+      const pools = results.flat();
+      await this.addPools(pools);
+      added += pools.length;
+      syncedBlock = ranges[ranges.length - 1][1];
+      await this.store.set<IndexSyncState>('pools:sync', { version: INDEX_VERSION, lastBlock: syncedBlock });
+    }
+
+    if (added > 0) {
+      console.log(`🗂️ Pool index: +${added} pools, synced to block ${syncedBlock} of ${latestBlock}`);
+    }
+    return { syncedBlock, latestBlock, pools: added, complete: syncedBlock >= latestBlock };
+  }
+
+  private async scanRecent(client: BaseClient): Promise<RecentPools> {
+    const latestBlock = Number(await client.getBlockNumber());
+    const previous = this.recent;
+    // Extend the previous scan instead of starting over; drop pools that left the window
+    const windowStart = Math.max(POOL_MANAGER_START_BLOCK, latestBlock - RECENT_SCAN_BLOCKS + 1);
+    const fromBlock = previous && previous.toBlock >= windowStart ? previous.toBlock + 1 : windowStart;
+
+    const ranges: Array<[number, number]> = [];
+    for (let start = fromBlock; start <= latestBlock; start += LOG_CHUNK_SIZE) {
+      ranges.push([start, Math.min(start + LOG_CHUNK_SIZE - 1, latestBlock)]);
+    }
+    const pools: IndexedPool[] = [];
+    for (let i = 0; i < ranges.length; i += LOG_CONCURRENCY) {
+      const results = await Promise.all(ranges.slice(i, i + LOG_CONCURRENCY)
+        .map(([start, end]) => this.fetchPools(client, start, end)));
+      pools.push(...results.flat());
+    }
+
+    const byCurrency = new Map<string, IndexedPool[]>();
+    const add = (pool: IndexedPool) => {
+      for (const currency of [pool.currency0.toLowerCase(), pool.currency1.toLowerCase()]) {
+        const list = byCurrency.get(currency) || [];
+        if (list.length < MAX_POOLS_PER_CURRENCY) list.push(pool);
+        byCurrency.set(currency, list);
+      }
+    };
+    if (previous && fromBlock > windowStart) {
+      new Set(Array.from(previous.byCurrency.values()).flat())
+        .forEach(pool => { if (pool.blockNumber >= windowStart) add(pool); });
+    }
+    pools.sort((a, b) => a.blockNumber - b.blockNumber).forEach(add);
+
+    return { fromBlock: windowStart, toBlock: latestBlock, fetchedAt: Date.now(), byCurrency };
+  }
+
+  private async fetchPools(client: BaseClient, fromBlock: number, toBlock: number): Promise<IndexedPool[]> {
+    const logs = await client.getContractEvents({
+      address: UNISWAP_V4_POOL_MANAGER,
+      abi: INITIALIZE_EVENT_ABI,
+      eventName: 'Initialize',
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    });
+
+    return logs.map(log => ({
+      poolId: log.args.id as `0x${string}`,
+      currency0: log.args.currency0 as Address,
+      currency1: log.args.currency1 as Address,
+      fee: Number(log.args.fee),
+      tickSpacing: Number(log.args.tickSpacing),
+      hooks: log.args.hooks as Address,
+      blockNumber: Number(log.blockNumber),
+    }));
+  }
+
+  private async addPools(pools: IndexedPool[]): Promise<void> {
+    const byCurrency = new Map<string, IndexedPool[]>();
+    for (const pool of pools.sort((a, b) => a.blockNumber - b.blockNumber)) {
+      for (const currency of [pool.currency0.toLowerCase(), pool.currency1.toLowerCase()]) {
+        if (!byCurrency.has(currency)) byCurrency.set(currency, []);
+        byCurrency.get(currency)!.push(pool);
+      }
+    }
+
+    const currencies = Array.from(byCurrency.keys());
+    const entries = await this.readEntries(currencies.map(currency => `pools:${currency}`));
+    const updates: [string, CurrencyPools][] = [];
+
+    currencies.forEach((currency, i) => {
+      const newPools = byCurrency.get(currency)!;
+      const key = `pools:${currency}`;
+      const entry = entries[i] || { pools: [] };
+      if (entry.truncated) return;
+
+      const known = new Set(entry.pools.map(pool => pool.poolId));
+      for (const pool of newPools) {
+        if (known.has(pool.poolId)) continue;
+        if (entry.pools.length >= MAX_POOLS_PER_CURRENCY) {
+          entry.truncated = true;
+          break;
+        }
+        entry.pools.push(pool);
+        known.add(pool.poolId);
+      }
+
+      updates.push([key, entry]);
+      this.cache.set(currency, entry.pools);
+    });
+
+    await this.writeEntries(updates);
+  }
+
+  // One round trip per STORE_BATCH_SIZE keys when the store can batch (a sync touches thousands of currencies)
+  private async readEntries(keys: string[]): Promise<(CurrencyPools | null)[]> {
+    const results: (CurrencyPools | null)[] = [];
+    for (let i = 0; i < keys.length; i += STORE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + STORE_BATCH_SIZE);
+      results.push(...(this.store.getMany
+        ? await this.store.getMany<CurrencyPools>(batch)
+        : await Promise.all(batch.map(key => this.store.get<CurrencyPools>(key)))));
+    }
+    return results;
+  }
+
+  private async writeEntries(entries: [string, CurrencyPools][]): Promise<void> {
+    for (let i = 0; i < entries.length; i += STORE_BATCH_SIZE) {
+      const batch = entries.slice(i, i + STORE_BATCH_SIZE);
+      if (this.store.setMany) {
+        await this.store.setMany(batch);
+      } else {
+        await Promise.all(batch.map(([key, entry]) => this.store.set(key, entry)));
+      }
+    }
+  }
+}
+
+let defaultIndex: PoolIndex | null = null;
+
+/**
+ * Shared index for the server (one sync pass at a time per process)
+ * Lives in the default store - the REST KV when configured, so every instance reads
+ * what the cron job synced (see pages/api/cron/poolIndex.ts)
+ */
+export function getPoolIndex(): PoolIndex {
+  if (!defaultIndex) {
+    defaultIndex = new PoolIndex();
+  }
+  return defaultIndex;
+}
@@ -0,0 +1,258 @@
+import { ethers } from 'ethers';
+import { BaseAppPostTransaction } from './detectBaseAppPost';
+import { Transaction } from './wallet';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface PortfolioHistoryPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  timestamp: number; // End of day, ms
+  value: number; // Market value of holdings (USD)
+  costBasis: number; // Cost basis of holdings (USD)
+  invested: number; // Cumulative amount spent on buys (USD)
+  realizedPnL: number; // Cumulative realized PnL (USD)
+  unrealizedPnL: number; // value - costBasis (USD)
+  pnl: number; // realizedPnL + unrealizedPnL (USD)
+  pnlPct: number; // pnl / invested * 100
+}
+
+export interface TokenPriceSample {
+  timestamp: number; // Unix seconds
+  priceUSD: number;
+}
+
+export interface TokenTradeHistory {
+  tokenAddress: string;
+  decimals: number;
+  transactions: BaseAppPostTransaction[];
+  currentPriceUSD: number;
+}
+
+/**
+ * ETH/USD at a unix timestamp (seconds), for records that carry no rate of their own
+ */
+export type EthPriceAt = (timestamp: number) => Promise<number>;
+
+/**
+ * USD value of a record's quote leg at execution: the value attached by the
+ * analysis when there is one, otherwise the ETH leg at the rate of its own time
+ */
+async function recordValueUSD(
+  tx: BaseAppPostTransaction,
+  ethValue: string,
+  ethPriceAt: EthPriceAt
+): Promise<number> {
+  if (tx.valueUSD !== undefined && tx.valueUSD > 0) return tx.valueUSD;
+
+  const eth = parseFloat(ethers.formatEther(ethValue));
+  if (eth <= 0) return 0;
+  return eth * (tx.ethPriceUSD || await ethPriceAt(tx.timestamp));
+}
+
+/**
+ * Source of historical prices for a post token
+ * Samples do not need to be evenly spaced - the engine interpolates between them
+ */
+export interface HistoricalPriceSource {
+  getPriceSamples(
+    token: TokenTradeHistory,
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<TokenPriceSample[]>;
+}
+
+/**
+ * Default price source: execution prices of the wallet's own trades
+ * (USD paid at the trade's time / tokens received) plus the current spot price
+ */
+export class TradePriceSource implements HistoricalPriceSource {
+  constructor(private ethPriceAt: EthPriceAt) {}
+
+  async getPriceSamples(token: TokenTradeHistory): Promise<TokenPriceSample[]> {
+    const samples: TokenPriceSample[] = [];
+
+    for (const tx of token.transactions) {
+      // Transfers in count when the analysis priced them (pool price at receipt); transfers out carry no price
+      if (!tx.amount || tx.type === 'transfer_out' || ((tx.type === 'mint' || tx.type === 'transfer_in') && !tx.valueUSD)) continue;
+
+      const amount = parseFloat(ethers.formatUnits(tx.amount, token.decimals));
+      if (amount <= 0) continue;
+      const valueUSD = await recordValueUSD(tx, tx.price || '0', this.ethPriceAt);
+      if (valueUSD <= 0) continue;
+
+      samples.push({
+        timestamp: tx.timestamp,
+        priceUSD: valueUSD / amount,
+      });
+    }
+
+    if (token.currentPriceUSD > 0) {
+      samples.push({ timestamp: Math.floor(Date.now() / 1000), priceUSD: token.currentPriceUSD });
+    }
+
+    return samples.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+/**
+ * Price at a timestamp, linearly interpolated between the surrounding samples
+ * Before the first sample the first price is used, after the last - the last one
+ */
+export function interpolatePrice(samples: TokenPriceSample[], timestamp: number): number {
+  if (samples.length === 0) return 0;
+  if (timestamp <= samples[0].timestamp) return samples[0].priceUSD;
+
+  const last = samples[samples.length - 1];
+  if (timestamp >= last.timestamp) return last.priceUSD;
+
+  for (let i = 1; i < samples.length; i++) {
+    const next = samples[i];
+    if (next.timestamp < timestamp) continue;
+
+    const prev = samples[i - 1];
+    const span = next.timestamp - prev.timestamp;
+    if (span <= 0) return next.priceUSD;
+    const progress = (timestamp - prev.timestamp) / span;
+    return prev.priceUSD + (next.priceUSD - prev.priceUSD) * progress;
+  }
+
+  return last.priceUSD;
+}
+
+function startOfDayUTC(timestampSec: number): number {
+  return Math.floor(timestampSec / DAY_SECONDS) * DAY_SECONDS;
+}
+
+interface TokenPosition {
+  holdings: bigint;
+  costBasis: number;
+}
+
+/**
+ * Replays per-token buy/sell/mint/transfer records day by day and values the
+ * holdings at historical prices, producing a daily portfolio time series
+ */
+export class PortfolioHistoryService {
+  private priceSource: HistoricalPriceSource;
+  private ethPriceAt: EthPriceAt;
+
+  constructor(ethPriceAt: EthPriceAt, priceSource?: HistoricalPriceSource) {
+    this.ethPriceAt = ethPriceAt;
+    this.priceSource = priceSource || new TradePriceSource(ethPriceAt);
+  }
+
+  async buildDailySeries(
+    tokens: TokenTradeHistory[],
+    walletTransactions: Transaction[] = [],
+    now: number = Date.now()
+  ): Promise<PortfolioHistoryPoint[]> {
+    // Replay order: every record of every token, oldest first
+    const events = tokens
+      .flatMap(token => token.transactions
+        .filter(tx => tx.timestamp > 0 && tx.amount)
+        .map(tx => ({ token, tx })))
+      .sort((a, b) => a.tx.timestamp - b.tx.timestamp);
+
+    if (events.length === 0) {
+      return [];
+    }
+
+    const walletTxByHash = new Map(walletTransactions.map(tx => [tx.hash.toLowerCase(), tx]));
+
+    const startDay = startOfDayUTC(events[0].tx.timestamp);
+    const endTs = Math.floor(now / 1000);
+    const endDay = startOfDayUTC(endTs);
+
+    const samplesByToken = new Map<string, TokenPriceSample[]>();
+    await Promise.all(tokens.map(async (token) => {
+      try {
+        const samples = await this.priceSource.getPriceSamples(token, startDay, endTs);
+        samplesByToken.set(token.tokenAddress.toLowerCase(), samples);
+      } catch (error) {
+        console.warn(`Historical prices unavailable for ${token.tokenAddress.slice(0, 10)}...:`, error);
+        samplesByToken.set(token.tokenAddress.toLowerCase(), []);
+      }
+    }));
+
+    const positions = new Map<string, TokenPosition>();
+    let invested = 0;
+    let realizedPnL = 0;
+    let eventIndex = 0;
+    const series: PortfolioHistoryPoint[] = [];
+
+    for (let day = startDay; day <= endDay; day += DAY_SECONDS) {
+      const dayEnd = Math.min(day + DAY_SECONDS - 1, endTs);
+
+      while (eventIndex < events.length && events[eventIndex].tx.timestamp <= dayEnd) {
+        const { token, tx } = events[eventIndex++];
+        const key = token.tokenAddress.toLowerCase();
+        const position = positions.get(key) || { holdings: 0n, costBasis: 0 };
+        const amount = BigInt(tx.amount || '0');
+        const valueUSD = tx.type === 'buy' || tx.type === 'sell'
+          ? await recordValueUSD(tx, this.resolveEthValue(tx, walletTxByHash), this.ethPriceAt)
+          : tx.valueUSD || 0;
+
+        if (tx.type === 'sell' || tx.type === 'transfer_out') {
+          // Average cost: the share of the position that left takes its share of the basis
+          const sold = amount > position.holdings ? position.holdings : amount;
+          const share = position.holdings > 0n
+            ? Number((sold * 1_000_000n) / position.holdings) / 1_000_000
+            : 0;
+          const basisSold = position.costBasis * share;
+          // Only a sale realizes PnL - a transfer out just takes its basis along
+          if (tx.type === 'sell') realizedPnL += valueUSD - basisSold;
+          position.costBasis -= basisSold;
+          position.holdings -= sold;
+        } else {
+          // Author mints carry no cost basis, transfers in their value at receipt
+          const cost = valueUSD;
+          position.holdings += amount;
+          position.costBasis += cost;
+          invested += cost;
+        }
+
+        positions.set(key, position);
+      }
+
+      let value = 0;
+      let costBasis = 0;
+      for (const token of tokens) {
+        const position = positions.get(token.tokenAddress.toLowerCase());
+        if (!position || position.holdings === 0n) continue;
+
+        const holdings = parseFloat(ethers.formatUnits(position.holdings, token.decimals));
+        const price = interpolatePrice(samplesByToken.get(token.tokenAddress.toLowerCase()) || [], dayEnd);
+        value += holdings * price;
+        costBasis += position.costBasis;
+      }
+
+      const unrealizedPnL = value - costBasis;
+      const pnl = realizedPnL + unrealizedPnL;
+
+      series.push({
+        date: new Date(day * 1000).toISOString().split('T')[0],
+        timestamp: dayEnd * 1000,
+        value,
+        costBasis,
+        invested,
+        realizedPnL,
+        unrealizedPnL,
+        pnl,
+        pnlPct: invested > 0 ? (pnl / invested) * 100 : 0,
+      });
+    }
+
+    console.log(`Portfolio history: ${series.length} daily points from ${series[0]?.date} to ${series[series.length - 1]?.date}`);
+    return series;
+  }
+
+  /**
+   * ETH leg of a record; buys/sells without a matched ETH transaction fall back
+   * to the value of the wallet transaction with the same hash (direct swap calls)
+   */
+  private resolveEthValue(tx: BaseAppPostTransaction, walletTxByHash: Map<string, Transaction>): string {
+    if (tx.type !== 'buy' && tx.type !== 'sell') return '0';
+    if (tx.price && BigInt(tx.price) > 0n) return tx.price;
+    return walletTxByHash.get(tx.hash.toLowerCase())?.value || '0';
+  }
+}
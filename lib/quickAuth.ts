@@ -0,0 +1,43 @@
+import { createClient, Errors } from '@farcaster/quick-auth';
+
+const client = createClient();
+
+/**
+ * FID of the Mini App user behind a Quick Auth session token
+ * (sdk.quickAuth.getToken() on the client, sent as "Authorization: Bearer <token>")
+ * Returns null for missing, expired or foreign-domain tokens
+ *
+ * The audience is MINIAPP_DOMAIN - the Host header is chosen by the client, so
+ * it only stands in outside production, and production fails closed without it
+ */
+export async function getAuthenticatedFid(authorization: string | undefined, host: string | undefined): Promise<number | null> {
+  const domain = getAudienceDomain(host);
+  if (!authorization?.startsWith('Bearer ') || !domain) {
+    return null;
+  }
+
+  try {
+    const payload = await client.verifyJwt({
+      token: authorization.slice('Bearer '.length),
+      domain,
+    });
+    const fid = Number(payload.sub);
+    return Number.isInteger(fid) && fid > 0 ? fid : null;
+  } catch (error) {
+    if (!(error instanceof Errors.InvalidTokenError)) {
+      console.warn('Quick Auth verification failed:', error);
+    }
+    return null;
+  }
+}
+
+function getAudienceDomain(host: string | undefined): string | undefined {
+  if (process.env.MINIAPP_DOMAIN) {
+    return process.env.MINIAPP_DOMAIN;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('MINIAPP_DOMAIN is not set - Quick Auth tokens are rejected');
+    return undefined;
+  }
+  return host;
+}
@@ -0,0 +1,354 @@
+// Public Base RPC endpoints, tried in order of preference
+export const DEFAULT_BASE_RPC_URLS = [
+  'https://mainnet.base.org',
+  'https://base-mainnet.g.alchemy.com/v2/demo', // Alchemy public endpoint
+  'https://base.publicnode.com', // Public node
+];
+
+export interface RpcEndpointConfig {
+  url: string;
+  requestsPerSecond?: number; // Request budget for this endpoint
+}
+
+export interface RpcTransportOptions {
+  maxAttempts?: number; // Per request, across all endpoints
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  maxDelayMs?: number;
+  timeoutMs?: number; // Per HTTP request
+  failureThreshold?: number; // Consecutive failures before an endpoint is benched
+  cooldownMs?: number; // How long a benched endpoint is skipped
+  requestsPerSecond?: number; // Default budget for endpoints without their own
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  avgLatencyMs: number;
+  unhealthyUntil?: number; // ms
+  lastError?: string;
+}
+
+export interface RpcCall {
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * One entry of a batch response - calls in a batch fail independently
+ */
+export interface RpcBatchResult {
+  result?: any;
+  error?: Error & { retryable?: boolean };
+}
+
+interface EndpointState extends RpcEndpointHealth {
+  requestsPerSecond: number;
+  tokens: number;
+  lastRefill: number;
+}
+
+const DEFAULT_OPTIONS: Required<RpcTransportOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  timeoutMs: 10000,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  requestsPerSecond: 10,
+};
+
+// JSON-RPC errors worth retrying elsewhere (rate limits, overloaded or lagging nodes)
+const RETRYABLE_RPC_CODES = new Set([-32005, -32603, -32000, 429]);
+
+// Answers about the request itself, sent under the same generic codes: pruned state
+// at an old block or a log query over the node's range/result limits. Another try
+// returns the same - the caller has to fall back or narrow the query
+const NON_RETRYABLE_RPC_MESSAGES = [
+  'missing trie node',
+  'state not available',
+  'state is not available',
+  'historical state',
+  'block range',
+  'range too large',
+  'range is too large',
+  'query returned more than',
+  'too many results',
+  'log response size exceeded',
+];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function rpcError(method: string, error: { code?: number; message?: string; data?: unknown }, retryable: boolean): Error {
+  // code/data are kept so ethers and viem can decode reverts
+  return Object.assign(new Error(`RPC ${method} failed: ${error.message || 'unknown error'}`), {
+    code: error.code,
+    data: error.data,
+    retryable,
+  });
+}
+
+function isRetryableRpcError(error: { code?: number; message?: string; data?: unknown }): boolean {
+  const message = (error.message || '').toLowerCase();
+  // Reverts are answers, not failures - another endpoint would return the same
+  if (error.data !== undefined || message.includes('revert')) return false;
+  if (NON_RETRYABLE_RPC_MESSAGES.some(pattern => message.includes(pattern))) return false;
+  return RETRYABLE_RPC_CODES.has(error.code ?? 0)
+    || message.includes('rate limit')
+    || message.includes('too many requests')
+    || message.includes('timeout')
+    || message.includes('header not found');
+}
+
+/**
+ * JSON-RPC transport over a pool of endpoints
+ * Requests rotate across healthy endpoints, each with its own token-bucket budget;
+ * failing endpoints are benched for a cooldown and retries back off exponentially
+ */
+export class RpcEndpointPool {
+  private endpoints: EndpointState[];
+  private options: Required<RpcTransportOptions>;
+  private cursor = 0;
+  private nextId = 1;
+
+  constructor(endpoints: (string | RpcEndpointConfig)[] = DEFAULT_BASE_RPC_URLS, options: RpcTransportOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('RpcEndpointPool needs at least one endpoint');
+    }
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = endpoints.map(endpoint => {
+      const config = typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+      const requestsPerSecond = config.requestsPerSecond || this.options.requestsPerSecond;
+      return {
+        url: config.url,
+        healthy: true,
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        avgLatencyMs: 0,
+        requestsPerSecond,
+        tokens: requestsPerSecond,
+        lastRefill: Date.now(),
+      };
+    });
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(({ requestsPerSecond, tokens, lastRefill, ...health }) => ({
+      ...health,
+      healthy: !health.unhealthyUntil || health.unhealthyUntil <= now,
+    }));
+  }
+
+  async request(method: string, params: unknown[] = []): Promise<any> {
+    return this.withRetries(method, endpoint => this.post(endpoint, method, { jsonrpc: '2.0', id: this.nextId++, method, params }));
+  }
+
+  /**
+   * Send several calls as one JSON-RPC batch (one HTTP request, one unit of budget)
+   * The whole batch is retried on transport failures; per-call errors are returned, not thrown
+   */
+  async requestBatch(calls: RpcCall[]): Promise<RpcBatchResult[]> {
+    if (calls.length === 0) return [];
+
+    return this.withRetries('batch', async endpoint => {
+      const firstId = this.nextId;
+      const body = calls.map(call => ({ jsonrpc: '2.0', id: this.nextId++, method: call.method, params: call.params || [] }));
+      return this.unpackBatch(calls, await this.post(endpoint, 'batch', body), firstId);
+    });
+  }
+
+  private async withRetries<T>(label: string, send: (endpoint: EndpointState) => Promise<T>): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < this.options.maxAttempts; attempt++) {
+      if (attempt > 0) {
+        const delay = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+        await sleep(delay / 2 + Math.random() * delay / 2); // Jitter so parallel requests don't retry in lockstep
+      }
+
+      const endpoint = await this.acquire();
+      const startedAt = Date.now();
+      try {
+        const result = await send(endpoint);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error: any) {
+        if (error.retryable === false) {
+          // The node answered - count it as healthy and hand the error to the caller
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        lastError = error;
+        console.warn(`RPC ${label} via ${endpoint.url} failed (attempt ${attempt + 1}/${this.options.maxAttempts}): ${error.message}`);
+      }
+    }
+
+    throw lastError || new Error(`RPC ${label} failed`);
+  }
+
+  /**
+   * POST a JSON-RPC body; returns the `result` for single calls and the raw array for batches
+   */
+  private async post(endpoint: EndpointState, label: string, body: unknown): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        throw rpcError(label, { code: response.status, message: `${response.status} ${response.statusText}` }, retryable);
+      }
+
+      const payload = await response.json();
+      if (Array.isArray(body)) {
+        return payload;
+      }
+      if (payload.error) {
+        throw rpcError(label, payload.error, isRetryableRpcError(payload.error));
+      }
+      return payload.result;
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw rpcError(label, { message: `timeout after ${this.options.timeoutMs}ms` }, true);
+      }
+      if (error.retryable === undefined) {
+        // Network-level failure (DNS, connection reset, bad JSON)
+        error.retryable = true;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private unpackBatch(calls: RpcCall[], payload: any, firstId: number): RpcBatchResult[] {
+    if (!Array.isArray(payload)) {
+      // Some nodes answer a rejected batch with a single error object
+      const error = payload?.error || { message: 'invalid batch response' };
+      throw rpcError('batch', error, isRetryableRpcError(error));
+    }
+
+    // Responses may come back in any order - match them by id
+    const byId = new Map<number, any>(payload.map((entry: any) => [Number(entry.id), entry]));
+    const results: RpcBatchResult[] = calls.map((call, i) => {
+      const entry = byId.get(firstId + i);
+      if (!entry) return { error: rpcError(call.method, { message: 'missing from batch response' }, true) };
+      if (entry.error) return { error: rpcError(call.method, entry.error, isRetryableRpcError(entry.error)) };
+      return { result: entry.result };
+    });
+
+    // Node-level throttling shows up per entry - retry the batch rather than hand back a wall of errors
+    const throttled = results.find(r => r.error?.retryable);
+    if (throttled && results.every(r => r.error)) {
+      throw throttled.error;
+    }
+    return results;
+  }
+
+  /**
+   * Next endpoint in rotation that is healthy and has budget left
+   * Waits for budget when every healthy endpoint is exhausted; if all are benched,
+   * uses the one whose cooldown ends first rather than failing outright
+   */
+  private async acquire(): Promise<EndpointState> {
+    while (true) {
+      const now = Date.now();
+      const count = this.endpoints.length;
+      let healthyCount = 0;
+      let soonestRefill = Infinity;
+
+      for (let i = 0; i < count; i++) {
+        const endpoint = this.endpoints[(this.cursor + i) % count];
+        if (endpoint.unhealthyUntil && endpoint.unhealthyUntil > now) continue;
+        healthyCount++;
+
+        this.refill(endpoint, now);
+        if (endpoint.tokens >= 1) {
+          endpoint.tokens -= 1;
+          this.cursor = (this.cursor + i + 1) % count;
+          return endpoint;
+        }
+        soonestRefill = Math.min(soonestRefill, (1 - endpoint.tokens) / endpoint.requestsPerSecond * 1000);
+      }
+
+      if (healthyCount === 0) {
+        const next = this.endpoints.reduce((a, b) => (a.unhealthyUntil || 0) <= (b.unhealthyUntil || 0) ? a : b);
+        next.unhealthyUntil = undefined;
+        next.consecutiveFailures = 0;
+        continue;
+      }
+
+      await sleep(Math.max(10, Math.ceil(soonestRefill)));
+    }
+  }
+
+  private refill(endpoint: EndpointState, now: number): void {
+    const elapsed = (now - endpoint.lastRefill) / 1000;
+    endpoint.tokens = Math.min(endpoint.requestsPerSecond, endpoint.tokens + elapsed * endpoint.requestsPerSecond);
+    endpoint.lastRefill = now;
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.totalRequests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.unhealthyUntil = undefined;
+    // Exponential moving average, so one slow call doesn't dominate
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === 0 ? latencyMs : endpoint.avgLatencyMs * 0.8 + latencyMs * 0.2;
+  }
+
+  private recordFailure(endpoint: EndpointState, error: Error): void {
+    endpoint.totalRequests++;
+    endpoint.totalFailures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error.message;
+
+    // Requests already in flight may keep failing after the endpoint is benched - log only once
+    const benched = !!endpoint.unhealthyUntil && endpoint.unhealthyUntil > Date.now();
+    if (!benched && endpoint.consecutiveFailures >= this.options.failureThreshold) {
+      endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+      console.warn(`⚠️ RPC endpoint ${endpoint.url} benched for ${this.options.cooldownMs / 1000}s after ${endpoint.consecutiveFailures} failures`);
+    }
+  }
+}
+
+let defaultPool: RpcEndpointPool | null = null;
+
+/**
+ * Shared pool for the process, so budgets and health apply across all services
+ * BASE_RPC_URLS (comma-separated) or BASE_RPC_URL override the public endpoints;
+ * BASE_RPC_RPS sets the per-endpoint request budget
+ */
+export function getDefaultRpcPool(): RpcEndpointPool {
+  if (defaultPool) {
+    return defaultPool;
+  }
+
+  const urls = (process.env.BASE_RPC_URLS || process.env.BASE_RPC_URL || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  defaultPool = new RpcEndpointPool(urls.length > 0 ? urls : DEFAULT_BASE_RPC_URLS, {
+    requestsPerSecond: process.env.BASE_RPC_RPS ? parseFloat(process.env.BASE_RPC_RPS) : undefined,
+  });
+  return defaultPool;
+}
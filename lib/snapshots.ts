@@ -0,0 +1,143 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { KeyValueStore, getSharedStore } from './storage';
+import { PortfolioAnalytics } from './calcPnL';
+import type { AnalysisResult, WalletBreakdown } from './analyze';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://post-screen.vercel.app';
+
+// 6 random bytes -> 8 base64url chars; short enough for a cast, not guessable
+export const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9_-]{8}$/;
+
+/**
+ * Frozen copy of one analysis result behind a public share link
+ */
+export interface PortfolioSnapshot {
+  id: string;
+  createdAt: number; // ms
+  walletAddress: string; // Primary wallet (first analyzed)
+  addresses?: string[]; // Multi-wallet analysis only
+  username?: string;
+  portfolio: PortfolioAnalytics;
+  wallets?: WalletBreakdown[];
+}
+
+/**
+ * Analysis fields a snapshot is made of - what the client sends back to share a result
+ */
+export type ShareableAnalysis = Pick<AnalysisResult, 'portfolio' | 'addresses' | 'wallets'> & {
+  wallet: { address: string };
+};
+
+/**
+ * Handed out with every analysis: lets the client turn that exact result into a
+ * snapshot later (POST /api/share) without the server storing anything until then
+ */
+export interface ShareTicket {
+  token: string; // HMAC of the snapshot contents
+  username?: string; // Farcaster username the analysis resolved
+}
+
+let processShareSecret: string | null = null;
+
+function shareSecret(): string {
+  if (process.env.SHARE_SECRET) return process.env.SHARE_SECRET;
+  // A per-process secret only works when one process serves every request
+  if (process.env.VERCEL) {
+    throw new Error('Share links need SHARE_SECRET to be set');
+  }
+  processShareSecret = processShareSecret || randomBytes(32).toString('hex');
+  return processShareSecret;
+}
+
+function snapshotContents(result: ShareableAnalysis, username?: string): Omit<PortfolioSnapshot, 'id' | 'createdAt'> {
+  const contents: Omit<PortfolioSnapshot, 'id' | 'createdAt'> = {
+    walletAddress: result.wallet.address,
+    portfolio: result.portfolio,
+  };
+  if (result.addresses && result.addresses.length > 1) contents.addresses = result.addresses;
+  if (result.wallets) contents.wallets = result.wallets;
+  if (username) contents.username = username;
+  return contents;
+}
+
+function signContents(result: ShareableAnalysis, username?: string): Buffer {
+  // The client gets the result as JSON and sends it back parsed - sign that same JSON
+  return createHmac('sha256', shareSecret()).update(JSON.stringify(snapshotContents(result, username))).digest();
+}
+
+export function createShareTicket(result: ShareableAnalysis, username?: string): ShareTicket {
+  const ticket: ShareTicket = { token: signContents(result, username).toString('base64url') };
+  if (username) ticket.username = username;
+  return ticket;
+}
+
+/**
+ * True when the result is exactly what the server analyzed (not edited by the client)
+ */
+export function verifyShareTicket(result: ShareableAnalysis, ticket: ShareTicket): boolean {
+  const expected = signContents(result, ticket.username);
+  const actual = Buffer.from(ticket.token, 'base64url');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function snapshotUrl(id: string): string {
+  return `${APP_URL}/p/${id}`;
+}
+
+export function snapshotImageUrl(id: string): string {
+  return `${APP_URL}/api/card/${id}`;
+}
+
+/**
+ * Snapshots by ID in the shared key-value store
+ * Created only when the user shares a result; snapshots are immutable - sharing again gets a new ID
+ */
+export class SnapshotStore {
+  private store: KeyValueStore;
+
+  constructor(store?: KeyValueStore) {
+    this.store = store || getSharedStore('Share links');
+  }
+
+  private key(id: string): string {
+    return `snapshot:${id}`;
+  }
+
+  async create(result: ShareableAnalysis, username?: string): Promise<PortfolioSnapshot> {
+    const snapshot: PortfolioSnapshot = {
+      id: randomBytes(6).toString('base64url'),
+      createdAt: Date.now(),
+      ...snapshotContents(result, username),
+    };
+
+    await this.store.set(this.key(snapshot.id), snapshot);
+    return snapshot;
+  }
+
+  async get(id: string): Promise<PortfolioSnapshot | null> {
+    if (!SNAPSHOT_ID_PATTERN.test(id)) {
+      return null;
+    }
+    return this.store.get<PortfolioSnapshot>(this.key(id));
+  }
+}
+
+/**
+ * Mini App embed (fc:miniapp / legacy fc:frame meta content) that opens the snapshot page
+ */
+export function snapshotEmbed(id: string, actionType: 'launch_miniapp' | 'launch_frame' = 'launch_miniapp') {
+  return {
+    version: '1',
+    imageUrl: snapshotImageUrl(id),
+    button: {
+      title: 'View portfolio',
+      action: {
+        type: actionType,
+        name: 'BasePost Portfolio',
+        url: snapshotUrl(id),
+        splashImageUrl: `${APP_URL}/splash.png`,
+        splashBackgroundColor: '#0d0f14',
+      },
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Minimal async key-value store used for server-side caches and records
+ * Values must be JSON-serializable
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix?: string): Promise<string[]>;
+  // Batch forms for remote stores (one round trip); callers fall back to get/set without them
+  getMany?<T>(keys: string[]): Promise<(T | null)[]>;
+  setMany?<T>(entries: [string, T][]): Promise<void>;
+}
+
+/**
+ * In-process store (tests, disabled persistence, serverless fallback)
+ */
+export class MemoryStore implements KeyValueStore {
+  private data: Map<string, string> = new Map();
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : JSON.parse(raw) as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    return Array.from(this.data.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+/**
+ * One JSON file per key in a directory
+ * Writes go through a temp file + rename so readers never see partial JSON
+ */
+export class FileStore implements KeyValueStore {
+  constructor(private dir: string) {}
+
+  private fileFor(key: string): string {
+    // Keys are namespaced like "wallet:0xabc" - keep them readable but filesystem-safe
+    return path.join(this.dir, `${encodeURIComponent(key)}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(this.fileFor(key), 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`Storage read failed for ${key}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(key);
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value), 'utf8');
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.fileFor(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+        .filter(key => key.startsWith(prefix));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Redis over the Upstash REST protocol (Upstash, Vercel KV): one JSON command per request
+ * Shared by every instance, so it can hold records that must outlive a function instance
+ */
+export class RestKeyValueStore implements KeyValueStore {
+  constructor(private url: string, private token: string) {}
+
+  private async command<T>(...args: (string | number)[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload || payload.error) {
+      throw new Error(`KV ${args[0]} failed: ${payload?.error || `${response.status} ${response.statusText}`}`);
+    }
+    return payload.result as T;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.command<string | null>('GET', key);
+    return raw === null ? null : JSON.parse(raw) as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.command('SET', key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', key);
+  }
+
+  async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) return [];
+    const raw = await this.command<(string | null)[]>('MGET', ...keys);
+    return raw.map(value => value === null ? null : JSON.parse(value) as T);
+  }
+
+  async setMany<T>(entries: [string, T][]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.command('MSET', ...entries.flatMap(([key, value]) => [key, JSON.stringify(value)]));
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    // SCAN instead of KEYS so a large keyspace doesn't block the server
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.command<[string, string[]]>('SCAN', cursor, 'MATCH', pattern, 'COUNT', 1000);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+function restStoreFromEnv(): RestKeyValueStore | null {
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  return url && token ? new RestKeyValueStore(url, token) : null;
+}
+
+let defaultStore: KeyValueStore | null = null;
+
+/**
+ * Store for the server: the REST KV when KV_REST_API_URL/KV_REST_API_TOKEN
+ * (or the UPSTASH_REDIS_REST_* pair) are set, otherwise files.
+ * DATA_DIR overrides the file location; on Vercel only /tmp is writable (per instance, not shared)
+ * DATA_STORE=memory keeps everything in process memory
+ */
+export function getDefaultStore(): KeyValueStore {
+  if (defaultStore) {
+    return defaultStore;
+  }
+
+  const rest = restStoreFromEnv();
+  if (process.env.DATA_STORE === 'memory') {
+    defaultStore = new MemoryStore();
+  } else if (rest) {
+    defaultStore = rest;
+  } else {
+    const dir = process.env.DATA_DIR
+      || (process.env.VERCEL ? '/tmp/post-screen-data' : path.join(process.cwd(), '.data'));
+    defaultStore = new FileStore(dir);
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Store for records every instance must see (user settings, tokens, share links)
+ * Serverless instances only have their own /tmp - there it takes the REST KV or fails,
+ * rather than silently keeping the records where other instances can't read them
+ */
+export function getSharedStore(purpose: string): KeyValueStore {
+  const store = getDefaultStore();
+  if (process.env.VERCEL && !(store instanceof RestKeyValueStore)) {
+    throw new Error(`${purpose} need a shared store: set KV_REST_API_URL and KV_REST_API_TOKEN (only per-instance /tmp is available)`);
+  }
+  return store;
+}
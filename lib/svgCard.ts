@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import { CardElement, CardScene } from './cardLayouts';
+
+// Canvas fonts map onto the bundled DejaVu faces - serverless images have no system fonts
+const SANS = 'Arial, DejaVu Sans, sans-serif';
+const MONO = 'DejaVu Sans Mono, monospace';
+
+// Read from node_modules at runtime (webpack must not bundle them); next.config.js
+// lists the same files in outputFileTracingIncludes so they ship with the functions
+const WASM_FILE = '@resvg/resvg-wasm/index_bg.wasm';
+const FONT_FILES = [
+  'dejavu-fonts-ttf/ttf/DejaVuSans.ttf',
+  'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf',
+  'dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf',
+];
+
+function modulePath(file: string): string {
+  return path.join(process.cwd(), 'node_modules', file);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function renderElement(element: CardElement, scene: CardScene): string {
+  switch (element.type) {
+    case 'text':
+      return `<text x="${element.x}" y="${element.y}" font-family="${element.mono ? MONO : SANS}" font-size="${element.size}"` +
+        `${element.bold ? ' font-weight="bold"' : ''} fill="${element.color}" text-anchor="${element.anchor || 'start'}">` +
+        `${escapeXml(element.text)}</text>`;
+    case 'rect':
+      return `<rect x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}"` +
+        `${element.radius ? ` rx="${element.radius}"` : ''} fill="${element.color}"/>`;
+    case 'panel': {
+      const { x, y, width, height, radius } = element;
+      return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" fill="${scene.panel.highlight}" filter="url(#highlightShadow)"/>` +
+        `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" fill="${scene.panel.fill}" filter="url(#shadow)"/>`;
+    }
+  }
+}
+
+/**
+ * Card scene (lib/cardLayouts.ts) as an SVG document
+ * Text y is the alphabetic baseline, same as canvas fillText
+ */
+export function renderCardSvg(scene: CardScene): string {
+  const { width, height } = scene;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<defs>',
+    `<linearGradient id="background" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="${width}" y2="${height}">`,
+    `<stop offset="0" stop-color="${scene.background[0]}"/><stop offset="1" stop-color="${scene.background[1]}"/>`,
+    '</linearGradient>',
+    // Canvas shadowBlur is roughly twice the SVG stdDeviation
+    '<filter id="highlightShadow" x="-10%" y="-10%" width="120%" height="120%">',
+    `<feDropShadow dx="-5" dy="-5" stdDeviation="5" flood-color="${scene.panel.highlightShadow}"/>`,
+    '</filter>',
+    '<filter id="shadow" x="-10%" y="-10%" width="120%" height="120%">',
+    `<feDropShadow dx="5" dy="5" stdDeviation="5" flood-color="${scene.panel.shadow}"/>`,
+    '</filter>',
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="url(#background)"/>`,
+    ...scene.elements.map(element => renderElement(element, scene)),
+    '</svg>',
+  ].join('');
+}
+
+// WASM and fonts are tracked apart: initWasm may only run once per process
+// ("Already initialized" otherwise), while a failed font read can be retried
+let wasmReady: Promise<void> | null = null;
+let fontsReady: Promise<Uint8Array[]> | null = null;
+
+function initResvgWasm(): Promise<void> {
+  if (!wasmReady) {
+    wasmReady = (async () => {
+      const wasm = await fs.readFile(modulePath(WASM_FILE));
+      try {
+        await initWasm(wasm);
+      } catch (error: any) {
+        // A previous attempt got as far as initializing the module
+        if (!/already initialized/i.test(error?.message || '')) throw error;
+      }
+    })();
+    wasmReady.catch(() => { wasmReady = null; });
+  }
+  return wasmReady;
+}
+
+function loadFonts(): Promise<Uint8Array[]> {
+  if (!fontsReady) {
+    fontsReady = Promise.all(FONT_FILES.map(async file => new Uint8Array(await fs.readFile(modulePath(file)))));
+    fontsReady.catch(() => { fontsReady = null; });
+  }
+  return fontsReady;
+}
+
+/**
+ * Load the resvg WASM module and the card fonts once per process
+ * A failed step is retried on the next call without redoing the ones that succeeded
+ */
+async function initRasterizer(): Promise<Uint8Array[]> {
+  const [, fontBuffers] = await Promise.all([initResvgWasm(), loadFonts()]);
+  return fontBuffers;
+}
+
+/**
+ * SVG -> PNG with resvg compiled to WASM (no native dependencies)
+ */
+export async function rasterizeSvg(svg: string): Promise<Buffer> {
+  const fontBuffers = await initRasterizer();
+  const resvg = new Resvg(svg, {
+    font: {
+      fontBuffers,
+      defaultFontFamily: 'DejaVu Sans',
+      sansSerifFamily: 'DejaVu Sans',
+      monospaceFamily: 'DejaVu Sans Mono',
+    },
+  });
+  try {
+    const image = resvg.render();
+    const png = Buffer.from(image.asPng());
+    image.free();
+    return png;
+  } finally {
+    resvg.free();
+  }
+}
@@ -0,0 +1,310 @@
+import { ethers } from 'ethers';
+import { ChainDataProvider, createDefaultChainDataProvider } from './chainData';
+import { aggregate3 } from './multicall';
+import { PoolMetadata, UNISWAP_V4_STATE_VIEW } from './uniswapV4Detector';
+
+const STATE_VIEW = new ethers.Interface([
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getTickBitmap(bytes32 poolId, int16 tick) view returns (uint256 tickBitmap)',
+  'function getTickLiquidity(bytes32 poolId, int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet)',
+]);
+
+// ethers rejects the mixed-case constant's checksum inside Multicall3 call data
+const STATE_VIEW_ADDRESS = UNISWAP_V4_STATE_VIEW.toLowerCase();
+
+// TickMath bounds (Uniswap v3/v4)
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const MIN_SQRT_PRICE = 4295128739n;
+const MAX_SQRT_PRICE = 1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n; // lpFee is in hundredths of a bip
+
+// Bitmap words a simulation may walk - each one is two RPC round trips
+const MAX_BITMAP_WORDS = 40;
+
+// TickMath.getSqrtPriceAtTick factors for each bit of |tick|
+const TICK_FACTORS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * sqrt(1.0001^tick) * 2^96, bit-exact with the on-chain TickMath
+ */
+export function getSqrtPriceAtTick(tick: number): bigint {
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  for (const [bit, factor] of TICK_FACTORS) {
+    if (absTick & bit) ratio = (ratio * factor) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+// SqrtPriceMath: currency amounts between two prices at constant liquidity
+function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA < sqrtB ? [sqrtA, sqrtB] : [sqrtB, sqrtA];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : (numerator1 * numerator2 / upper) / lower;
+}
+
+function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA < sqrtB ? [sqrtA, sqrtB] : [sqrtB, sqrtA];
+  return roundUp ? mulDivRoundingUp(liquidity, upper - lower, Q96) : liquidity * (upper - lower) / Q96;
+}
+
+function getNextSqrtPriceFromInput(sqrtPrice: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (amountIn === 0n) return sqrtPrice;
+  if (zeroForOne) {
+    const numerator1 = liquidity << 96n;
+    return mulDivRoundingUp(numerator1, sqrtPrice, numerator1 + amountIn * sqrtPrice);
+  }
+  return sqrtPrice + (amountIn << 96n) / liquidity;
+}
+
+/**
+ * SwapMath.computeSwapStep for exact input
+ */
+function computeSwapStep(
+  sqrtCurrent: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint
+): { sqrtNext: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtCurrent >= sqrtTarget;
+  const amountRemainingLessFee = amountRemaining * (FEE_DENOMINATOR - feePips) / FEE_DENOMINATOR;
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtTarget, sqrtCurrent, liquidity, true)
+    : getAmount1Delta(sqrtCurrent, sqrtTarget, liquidity, true);
+  const sqrtNext = amountRemainingLessFee >= amountIn
+    ? sqrtTarget
+    : getNextSqrtPriceFromInput(sqrtCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+  const reachedTarget = sqrtNext === sqrtTarget;
+
+  let amountOut: bigint;
+  if (zeroForOne) {
+    if (!reachedTarget) amountIn = getAmount0Delta(sqrtNext, sqrtCurrent, liquidity, true);
+    amountOut = getAmount1Delta(sqrtNext, sqrtCurrent, liquidity, false);
+  } else {
+    if (!reachedTarget) amountIn = getAmount1Delta(sqrtCurrent, sqrtNext, liquidity, true);
+    amountOut = getAmount0Delta(sqrtCurrent, sqrtNext, liquidity, false);
+  }
+
+  const feeAmount = reachedTarget
+    ? mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips)
+    : amountRemaining - amountIn;
+  return { sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+function mostSignificantBit(x: bigint): number {
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  return mostSignificantBit(x & -x);
+}
+
+/**
+ * Outcome of selling a token amount into its pool
+ * Amounts in smallest units; `filled` is false when the walk ran out of
+ * liquidity or of bitmap words before the whole amount was sold
+ */
+export interface SwapSimulation {
+  amountIn: bigint; // Token amount sold, fee included
+  amountOut: bigint; // Backing currency received
+  filled: boolean;
+  feePips: number;
+  ticksCrossed: number;
+}
+
+/**
+ * Exact-input swap simulation over a V4 pool's initialized ticks (read through StateView)
+ * Mirrors the PoolManager swap loop, so the output is what a market sell would receive
+ * at the current state - hook fees taken outside the LP fee are not modelled
+ */
+export class V4SwapSimulator {
+  private chainData: ChainDataProvider;
+  // Tick data is shared between simulations of the same pool (partial and full exits)
+  private bitmaps: Map<string, bigint> = new Map();
+  private liquidityNet: Map<string, bigint> = new Map();
+  private fees: Map<string, bigint> = new Map();
+
+  constructor(chainData?: ChainDataProvider) {
+    this.chainData = chainData || createDefaultChainDataProvider();
+  }
+
+  async simulateSell(pool: PoolMetadata, tokenAddress: string, amount: bigint): Promise<SwapSimulation | null> {
+    const token = tokenAddress.toLowerCase();
+    const zeroForOne = pool.currency0.address.toLowerCase() === token;
+    if (!zeroForOne && pool.currency1.address.toLowerCase() !== token) {
+      return null;
+    }
+
+    const feePips = await this.getLpFee(pool);
+    if (feePips === null) {
+      return null;
+    }
+
+    const tickSpacing = pool.key.tickSpacing;
+    const sqrtPriceLimit = zeroForOne ? MIN_SQRT_PRICE + 1n : MAX_SQRT_PRICE - 1n;
+    let sqrtPrice = pool.sqrtPriceX96;
+    let tick = pool.tick;
+    let liquidity = pool.liquidity;
+    let remaining = amount;
+    let amountOut = 0n;
+    let ticksCrossed = 0;
+    const wordsVisited = new Set<number>();
+
+    while (remaining > 0n && sqrtPrice !== sqrtPriceLimit) {
+      const step = await this.nextInitializedTick(pool, tick, tickSpacing, zeroForOne);
+      wordsVisited.add(step.word);
+      if (wordsVisited.size > MAX_BITMAP_WORDS) break;
+
+      const tickNext = Math.max(MIN_TICK, Math.min(MAX_TICK, step.tick));
+      const sqrtNextTick = getSqrtPriceAtTick(tickNext);
+      const sqrtTarget = zeroForOne
+        ? (sqrtNextTick < sqrtPriceLimit ? sqrtPriceLimit : sqrtNextTick)
+        : (sqrtNextTick > sqrtPriceLimit ? sqrtPriceLimit : sqrtNextTick);
+
+      const swap = computeSwapStep(sqrtPrice, sqrtTarget, liquidity, remaining, feePips);
+      sqrtPrice = swap.sqrtNext;
+      remaining -= swap.amountIn + swap.feeAmount;
+      amountOut += swap.amountOut;
+
+      if (sqrtPrice !== sqrtNextTick) break; // Amount exhausted inside the range (or price limit)
+
+      if (step.initialized) {
+        const net = this.liquidityNet.get(`${pool.poolId}:${tickNext}`);
+        if (net === undefined) break; // Unknown liquidity past this tick - stop rather than guess
+        liquidity += zeroForOne ? -net : net;
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    }
+
+    return {
+      amountIn: amount - remaining,
+      amountOut,
+      filled: remaining === 0n,
+      feePips: Number(feePips),
+      ticksCrossed,
+    };
+  }
+
+  private async getLpFee(pool: PoolMetadata): Promise<bigint | null> {
+    const cached = this.fees.get(pool.poolId);
+    if (cached !== undefined) return cached;
+
+    try {
+      const raw = await this.chainData.call({
+        to: STATE_VIEW_ADDRESS,
+        data: STATE_VIEW.encodeFunctionData('getSlot0', [pool.poolId]),
+      });
+      const fee = BigInt(STATE_VIEW.decodeFunctionResult('getSlot0', raw).lpFee);
+      this.fees.set(pool.poolId, fee);
+      return fee;
+    } catch (error: any) {
+      console.warn(`  getSlot0 failed for pool ${pool.poolId.slice(0, 10)}...:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * TickBitmap.nextInitializedTickWithinOneWord; loads the word (and the
+   * liquidityNet of all its initialized ticks) on first use
+   */
+  private async nextInitializedTick(
+    pool: PoolMetadata,
+    tick: number,
+    tickSpacing: number,
+    lte: boolean
+  ): Promise<{ tick: number; initialized: boolean; word: number }> {
+    let compressed = Math.floor(tick / tickSpacing);
+    if (!lte) compressed += 1;
+    const word = compressed >> 8;
+    const bitPos = compressed & 0xff;
+    const bitmap = await this.getBitmapWord(pool, word, tickSpacing);
+
+    if (lte) {
+      const mask = (1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos));
+      const masked = bitmap & mask;
+      return masked !== 0n
+        ? { tick: (compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing, initialized: true, word }
+        : { tick: (compressed - bitPos) * tickSpacing, initialized: false, word };
+    }
+
+    const mask = MAX_UINT256 ^ ((1n << BigInt(bitPos)) - 1n);
+    const masked = bitmap & mask;
+    return masked !== 0n
+      ? { tick: (compressed + (leastSignificantBit(masked) - bitPos)) * tickSpacing, initialized: true, word }
+      : { tick: (compressed + (255 - bitPos)) * tickSpacing, initialized: false, word };
+  }
+
+  private async getBitmapWord(pool: PoolMetadata, word: number, tickSpacing: number): Promise<bigint> {
+    const key = `${pool.poolId}:${word}`;
+    const cached = this.bitmaps.get(key);
+    if (cached !== undefined) return cached;
+
+    const raw = await this.chainData.call({
+      to: STATE_VIEW_ADDRESS,
+      data: STATE_VIEW.encodeFunctionData('getTickBitmap', [pool.poolId, word]),
+    });
+    const bitmap = BigInt(STATE_VIEW.decodeFunctionResult('getTickBitmap', raw)[0]);
+    this.bitmaps.set(key, bitmap);
+
+    // Every initialized tick of the word in one Multicall3 round trip
+    const ticks: number[] = [];
+    for (let bit = 0; bit < 256; bit++) {
+      if ((bitmap >> BigInt(bit)) & 1n) {
+        ticks.push((word * 256 + bit) * tickSpacing);
+      }
+    }
+    if (ticks.length > 0) {
+      const results = await aggregate3(this.chainData, ticks.map(tick => ({
+        target: STATE_VIEW_ADDRESS,
+        callData: STATE_VIEW.encodeFunctionData('getTickLiquidity', [pool.poolId, tick]),
+      })));
+      results.forEach((result, i) => {
+        if (!result.success) return;
+        const decoded = STATE_VIEW.decodeFunctionResult('getTickLiquidity', result.returnData);
+        this.liquidityNet.set(`${pool.poolId}:${ticks[i]}`, BigInt(decoded.liquidityNet));
+      });
+    }
+
+    return bitmap;
+  }
+}
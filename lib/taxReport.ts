@@ -0,0 +1,238 @@
+import { PortfolioAnalytics } from './calcPnL';
+import { CostBasisMethod } from './lotAccounting';
+
+export type TaxReportFormat = 'csv' | 'form8949' | 'json';
+
+export const TAX_REPORT_FORMATS: TaxReportFormat[] = ['csv', 'form8949', 'json'];
+
+// How ETH legs are converted to USD (see AnalyticsService.attachExecutionValues)
+export const ETH_USD_SOURCE = 'Chainlink ETH/USD on Base at each trade\'s block (WETH/USDC pool at that block as fallback)';
+const ETH_USD_ESTIMATE = 'Current ETH/USD (no rate found at the trade\'s block) - estimate';
+
+export interface TaxReportRow {
+  description: string; // e.g. "1234.5000 My Post"
+  tokenAddress: string;
+  tokenName?: string;
+  amount: string;
+  acquiredAt: number; // Unix seconds
+  disposedAt: number; // Unix seconds
+  acquisitionHash: string;
+  disposalHash: string;
+  proceeds: number; // USD
+  costBasis: number; // USD
+  gain: number; // USD
+  holdingPeriodDays: number;
+  term: 'short' | 'long';
+  estimated: boolean; // Valued at the current ETH/USD instead of the rate at execution
+}
+
+export interface TaxReportTotals {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  count: number;
+}
+
+export interface TaxReport {
+  walletAddress?: string;
+  taxYear: number;
+  costBasisMethod?: CostBasisMethod;
+  ethUsdSource: string;
+  generatedAt: number; // ms
+  rows: TaxReportRow[];
+  shortTerm: TaxReportTotals;
+  longTerm: TaxReportTotals;
+  total: TaxReportTotals;
+}
+
+function emptyTotals(): TaxReportTotals {
+  return { proceeds: 0, costBasis: 0, gain: 0, count: 0 };
+}
+
+function addToTotals(totals: TaxReportTotals, row: TaxReportRow): void {
+  totals.proceeds += row.proceeds;
+  totals.costBasis += row.costBasis;
+  totals.gain += row.gain;
+  totals.count++;
+}
+
+/**
+ * Collect every closed lot disposed of during the tax year (UTC calendar year)
+ * Only sales are disposals - gifts and moves between wallets (transfers out) are not
+ */
+export function buildTaxReport(
+  portfolio: PortfolioAnalytics,
+  taxYear: number,
+  walletAddress?: string
+): TaxReport {
+  const yearStart = Date.UTC(taxYear, 0, 1) / 1000;
+  const yearEnd = Date.UTC(taxYear + 1, 0, 1) / 1000;
+  const rows: TaxReportRow[] = [];
+
+  for (const post of portfolio.posts) {
+    const name = post.postName;
+    const label = name || `${post.postTokenAddress.slice(0, 10)}...`;
+    const sales = new Set((post.transactions || []).filter(tx => tx.type === 'sell').map(tx => tx.hash.toLowerCase()));
+
+    for (const lot of post.closedLots || []) {
+      if (lot.disposedAt < yearStart || lot.disposedAt >= yearEnd) continue;
+      if (!sales.has(lot.disposalHash.toLowerCase())) continue;
+
+      const proceeds = parseFloat(lot.proceeds);
+      const costBasis = parseFloat(lot.costBasis);
+      rows.push({
+        description: `${parseFloat(lot.amount).toFixed(4)} ${label}`,
+        tokenAddress: post.postTokenAddress,
+        tokenName: name,
+        amount: lot.amount,
+        acquiredAt: lot.acquiredAt,
+        disposedAt: lot.disposedAt,
+        acquisitionHash: lot.acquisitionHash,
+        disposalHash: lot.disposalHash,
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        holdingPeriodDays: lot.holdingPeriodDays,
+        term: lot.isLongTerm ? 'long' : 'short',
+        estimated: !!lot.estimated,
+      });
+    }
+  }
+
+  rows.sort((a, b) => a.disposedAt - b.disposedAt || a.acquiredAt - b.acquiredAt);
+
+  const shortTerm = emptyTotals();
+  const longTerm = emptyTotals();
+  const total = emptyTotals();
+  for (const row of rows) {
+    addToTotals(row.term === 'long' ? longTerm : shortTerm, row);
+    addToTotals(total, row);
+  }
+
+  return {
+    walletAddress,
+    taxYear,
+    costBasisMethod: portfolio.costBasisMethod,
+    ethUsdSource: ETH_USD_SOURCE,
+    generatedAt: Date.now(),
+    rows,
+    shortTerm,
+    longTerm,
+    total,
+  };
+}
+
+function formatDate(timestampSec: number): string {
+  // MM/DD/YYYY, as on Form 8949
+  const date = new Date(timestampSec * 1000);
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `${mm}/${dd}/${date.getUTCFullYear()}`;
+}
+
+/**
+ * Token names and descriptions are arbitrary on-chain strings - a cell that a
+ * spreadsheet would read as a formula (=, +, -, @, tab, CR) is turned into text
+ * with a leading apostrophe; plain numbers (negative gains) stay numbers
+ */
+function csvCell(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: (string | number)[]): string {
+  return values.map(csvCell).join(',');
+}
+
+/**
+ * Flat disposal-by-disposal CSV
+ */
+export function taxReportToCSV(report: TaxReport): string {
+  const lines = [
+    csvLine([
+      'Description', 'Token', 'Amount', 'Date Acquired', 'Date Disposed',
+      'Proceeds (USD)', 'Cost Basis (USD)', 'Gain/Loss (USD)', 'Holding Days', 'Term',
+      'Acquisition Tx', 'Disposal Tx', 'ETH/USD Source',
+    ]),
+  ];
+
+  for (const row of report.rows) {
+    lines.push(csvLine([
+      row.description,
+      row.tokenAddress,
+      row.amount,
+      formatDate(row.acquiredAt),
+      formatDate(row.disposedAt),
+      row.proceeds.toFixed(2),
+      row.costBasis.toFixed(2),
+      row.gain.toFixed(2),
+      row.holdingPeriodDays,
+      row.term === 'long' ? 'Long-term' : 'Short-term',
+      row.acquisitionHash,
+      row.disposalHash,
+      row.estimated ? ETH_USD_ESTIMATE : report.ethUsdSource,
+    ]));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Form 8949 layout: Part I (short-term) and Part II (long-term), columns (a)-(h)
+ * Digital assets without a 1099-DA are reported with box C / box F checked
+ */
+export function taxReportToForm8949(report: TaxReport): string {
+  const header = csvLine([
+    '(a) Description of property',
+    '(b) Date acquired',
+    '(c) Date sold or disposed of',
+    '(d) Proceeds',
+    '(e) Cost or other basis',
+    '(f) Code(s)',
+    '(g) Amount of adjustment',
+    '(h) Gain or (loss)',
+  ]);
+
+  const part = (title: string, box: string, term: 'short' | 'long', totals: TaxReportTotals): string[] => {
+    const lines = [csvLine([title]), csvLine([box]), header];
+    for (const row of report.rows.filter(r => r.term === term)) {
+      lines.push(csvLine([
+        row.description,
+        formatDate(row.acquiredAt),
+        formatDate(row.disposedAt),
+        row.proceeds.toFixed(2),
+        row.costBasis.toFixed(2),
+        '',
+        '',
+        row.gain.toFixed(2),
+      ]));
+    }
+    lines.push(csvLine([
+      'Totals', '', '',
+      totals.proceeds.toFixed(2),
+      totals.costBasis.toFixed(2),
+      '', '',
+      totals.gain.toFixed(2),
+    ]));
+    return lines;
+  };
+
+  const estimatedCount = report.rows.filter(r => r.estimated).length;
+  const lines = [
+    csvLine([`Form 8949 - Sales and Other Dispositions of Capital Assets - Tax year ${report.taxYear}`]),
+    csvLine([`Wallet: ${report.walletAddress || 'n/a'}`, `Cost basis method: ${(report.costBasisMethod || 'fifo').toUpperCase()}`]),
+    csvLine([`ETH/USD: ${report.ethUsdSource}`]),
+    ...(estimatedCount > 0
+      ? [csvLine([`${estimatedCount} disposal(s) valued at the current ETH/USD (no rate found at the trade's block)`])]
+      : []),
+    '',
+    ...part('Part I - Short-Term (held one year or less)', 'Box C - not reported on Form 1099-B', 'short', report.shortTerm),
+    '',
+    ...part('Part II - Long-Term (held more than one year)', 'Box F - not reported on Form 1099-B', 'long', report.longTerm),
+  ];
+
+  return lines.join('\n') + '\n';
+}
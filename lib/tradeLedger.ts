@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { PostAnalytics } from './calcPnL';
+import { executionValueUSD } from './lotAccounting';
+import { BaseAppPostTransaction } from './detectBaseAppPost';
+
+/**
+ * One buy, sell, mint or transfer of a post token with the position after it
+ */
+export interface LedgerEntry {
+  hash: string;
+  timestamp: number; // Unix seconds
+  blockNumber: number;
+  side: BaseAppPostTransaction['type'];
+  tokenAmount: number;
+  quoteCurrency: 'ETH' | 'USDC' | 'OTHER';
+  ethAmount: number; // ETH paid/received (USDC legs converted at ethPriceUSD)
+  usdAmount: number; // Quote leg in USD at execution
+  ethPriceUSD: number; // ETH/USD at the trade's block
+  pricePerTokenUSD: number; // Execution price; pool price at receipt for transfers in, 0 for author mints and transfers out
+  position: number; // Tokens held after this trade
+  realizedPnL: number; // Cumulative realized PnL after this trade (USD, lot accounting)
+  priceSource: 'receipt' | 'heuristic' | 'unknown';
+}
+
+/**
+ * Trade ledger from the per-token records AnalyticsService.analyzeToken attaches to a post
+ * Realized PnL follows the post's closed lots, so it matches the cost-basis method of the analysis
+ */
+export function buildTradeLedger(post: PostAnalytics): LedgerEntry[] {
+  const transactions = [...(post.transactions || [])]
+    .filter(tx => tx.amount && BigInt(tx.amount) > 0n)
+    .sort((a, b) => a.timestamp - b.timestamp || a.blockNumber - b.blockNumber);
+
+  // Realized PnL per disposal tx (one sell can close several lots)
+  const realizedByHash = new Map<string, number>();
+  for (const lot of post.closedLots || []) {
+    const hash = lot.disposalHash.toLowerCase();
+    realizedByHash.set(hash, (realizedByHash.get(hash) || 0) + parseFloat(lot.realizedPnL));
+  }
+
+  const entries: LedgerEntry[] = [];
+  let position = 0;
+  let realizedPnL = 0;
+  const counted = new Set<string>();
+
+  for (const tx of transactions) {
+    const decimals = post.decimals ?? tx.tokenDecimals ?? 18;
+    const tokenAmount = parseFloat(ethers.formatUnits(tx.amount!, decimals));
+    const isTrade = tx.type === 'buy' || tx.type === 'sell';
+
+    const ethAmount = isTrade ? parseFloat(ethers.formatEther(tx.price || '0')) : 0;
+    // Same valuation as the lots: USDC legs as paid, ETH legs at the rate of the trade's block
+    const usdAmount = executionValueUSD(tx);
+
+    position += tx.type === 'sell' || tx.type === 'transfer_out' ? -tokenAmount : tokenAmount;
+
+    const hash = tx.hash.toLowerCase();
+    if (tx.type === 'sell' && !counted.has(hash)) {
+      realizedPnL += realizedByHash.get(hash) || 0;
+      counted.add(hash);
+    }
+
+    entries.push({
+      hash: tx.hash,
+      timestamp: tx.timestamp,
+      blockNumber: tx.blockNumber,
+      side: tx.type,
+      tokenAmount,
+      quoteCurrency: tx.quoteCurrency || 'ETH',
+      ethAmount,
+      usdAmount,
+      ethPriceUSD: tx.ethPriceUSD ?? post.ethPriceUSD ?? 0,
+      pricePerTokenUSD: tokenAmount > 0 ? usdAmount / tokenAmount : 0,
+      position: Math.max(0, position),
+      realizedPnL,
+      priceSource: tx.priceSource || 'unknown',
+    });
+  }
+
+  return entries;
+}
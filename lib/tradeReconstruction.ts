@@ -0,0 +1,411 @@
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { BaseClient, findPoolForToken, PoolMetadata, UNISWAP_V4_POOL_MANAGER } from './uniswapV4Detector';
+import { ChainDataJsonRpcProvider, createDefaultChainDataProvider } from './chainData';
+import { IndexedPool, PoolIndex, getPoolIndex } from './poolIndex';
+
+// Quote currencies on Base
+const NATIVE_ETH = '0x0000000000000000000000000000000000000000';
+const WETH_BASE = '0x4200000000000000000000000000000000000006';
+const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+// Event signatures
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const V4_SWAP_TOPIC = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+
+// A Swap belongs to the wallet when its token amount is within 1% of the wallet's
+// Transfer amount (token transfer fees and rounding make exact matches rare)
+const SWAP_MATCH_TOLERANCE_BPS = 100n;
+const SWAP_MATCH_TOLERANCE_BPS_DIVISOR = 10_000n;
+// Pools followed back from a non-ETH quote (coin -> creator coin -> ZORA -> ETH)
+const MAX_ROUTE_HOPS = 3;
+
+export type QuoteCurrency = 'ETH' | 'USDC' | 'OTHER';
+
+interface RouteLeg {
+  quoteAddress: string;
+  quoteAmount: bigint;
+  quoteDecimals: number;
+  logIndexes: number[];
+}
+
+export interface ReconstructedTrade {
+  hash: string;
+  blockNumber: number;
+  side: 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
+  tokenAmount: bigint; // Net post tokens moved to/from the wallet (always positive)
+  quoteCurrency?: QuoteCurrency;
+  quoteTokenAddress?: string;
+  quoteAmount: bigint; // Quote leg in the quote currency's smallest units (0 if none found)
+  quoteDecimals?: number;
+  quoteSource?: 'swap' | 'route' | 'transfer' | 'tx-value';
+  logIndexes: number[]; // Logs the amounts were derived from
+}
+
+interface DecodedSwap {
+  logIndex: number;
+  poolId: string;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+function matchesAmount(amount: bigint, target: bigint): boolean {
+  const distance = amount > target ? amount - target : target - amount;
+  return distance * SWAP_MATCH_TOLERANCE_BPS_DIVISOR <= target * SWAP_MATCH_TOLERANCE_BPS;
+}
+
+function topicToAddress(topic: string): string {
+  return ethers.getAddress('0x' + topic.slice(26)).toLowerCase();
+}
+
+export function classifyQuote(address: string): QuoteCurrency {
+  const lower = address.toLowerCase();
+  if (lower === NATIVE_ETH || lower === WETH_BASE.toLowerCase()) return 'ETH';
+  if (lower === USDC_BASE.toLowerCase()) return 'USDC';
+  return 'OTHER';
+}
+
+/**
+ * Rebuilds post token trades from transaction receipts
+ * Reads ERC-20 Transfer logs for the token leg and Uniswap V4 PoolManager Swap
+ * events (for the token's pool, and the pools a multi-hop route went through) for
+ * the quote leg, so trades routed through smart accounts, paymasters and handleOps
+ * get exact amounts. Token moves with no quote leg are transfers, not trades
+ */
+export class TradeReconstructor {
+  private provider: ethers.JsonRpcProvider;
+  private poolClient?: BaseClient;
+  private poolIndex: PoolIndex;
+  private poolCache: Map<string, PoolMetadata | null> = new Map();
+  private receiptCache: Map<string, ethers.TransactionReceipt | null> = new Map();
+
+  constructor(provider?: ethers.JsonRpcProvider, poolClient?: BaseClient, poolIndex: PoolIndex = getPoolIndex()) {
+    this.provider = provider || new ChainDataJsonRpcProvider(createDefaultChainDataProvider());
+    this.poolClient = poolClient;
+    this.poolIndex = poolIndex;
+  }
+
+  /**
+   * Find (and cache) the V4 pool for a token
+   */
+  async getPool(tokenAddress: string): Promise<PoolMetadata | null> {
+    const key = tokenAddress.toLowerCase();
+    if (this.poolCache.has(key)) {
+      return this.poolCache.get(key)!;
+    }
+
+    let pool: PoolMetadata | null = null;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      pool = await Promise.race([
+        findPoolForToken(tokenAddress as Address, this.poolClient),
+        new Promise<null>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Timeout')), 10000);
+        }),
+      ]);
+    } catch (error) {
+      console.warn(`  Pool lookup failed for ${tokenAddress.slice(0, 10)}...:`, error);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.poolCache.set(key, pool);
+    return pool;
+  }
+
+  private async getReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+    const key = txHash.toLowerCase();
+    if (this.receiptCache.has(key)) {
+      return this.receiptCache.get(key)!;
+    }
+
+    let receipt: ethers.TransactionReceipt | null = null;
+    try {
+      receipt = await this.provider.getTransactionReceipt(txHash);
+    } catch (error) {
+      console.warn(`  Receipt fetch failed for ${txHash.slice(0, 10)}...:`, error);
+    }
+
+    this.receiptCache.set(key, receipt);
+    return receipt;
+  }
+
+  /**
+   * Reconstruct the wallet's trade of a token in a single transaction
+   * Returns null if the receipt is unavailable or the wallet's token balance did not change
+   */
+  async reconstructTrade(
+    txHash: string,
+    walletAddress: string,
+    tokenAddress: string,
+    pool?: PoolMetadata | null
+  ): Promise<ReconstructedTrade | null> {
+    const receipt = await this.getReceipt(txHash);
+    if (!receipt) {
+      return null;
+    }
+
+    const wallet = walletAddress.toLowerCase();
+    const token = tokenAddress.toLowerCase();
+
+    // Token leg: net Transfer amount into the wallet
+    let tokenDelta = 0n;
+    const tokenLogIndexes: number[] = [];
+    // Wallet's own WETH/USDC legs (fallback when there is no Swap on the token's pool)
+    const quoteTransferDeltas = new Map<string, { delta: bigint; logIndexes: number[] }>();
+
+    for (const log of receipt.logs) {
+      if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3) continue;
+
+      const from = topicToAddress(log.topics[1]);
+      const to = topicToAddress(log.topics[2]);
+      if (from !== wallet && to !== wallet) continue;
+
+      const value = BigInt(log.data === '0x' ? 0 : log.data);
+      const signed = to === wallet ? value : -value;
+      const contract = log.address.toLowerCase();
+
+      if (contract === token) {
+        tokenDelta += signed;
+        tokenLogIndexes.push(log.index);
+      } else if (classifyQuote(contract) !== 'OTHER') {
+        const entry = quoteTransferDeltas.get(contract) || { delta: 0n, logIndexes: [] };
+        entry.delta += signed;
+        entry.logIndexes.push(log.index);
+        quoteTransferDeltas.set(contract, entry);
+      }
+    }
+
+    if (tokenDelta === 0n) {
+      return null;
+    }
+
+    const isIn = tokenDelta > 0n;
+    const trade: ReconstructedTrade = {
+      hash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      side: isIn ? 'transfer_in' : 'transfer_out',
+      tokenAmount: isIn ? tokenDelta : -tokenDelta,
+      quoteAmount: 0n,
+      logIndexes: tokenLogIndexes,
+    };
+
+    // Quote leg 1: the wallet's own Swap events on the token's pool
+    const receiptSwaps = this.decodeSwaps(receipt);
+    if (pool) {
+      const tokenIs0 = pool.currency0.address.toLowerCase() === token;
+      const poolSwaps = receiptSwaps.filter(swap => swap.poolId === pool.poolId.toLowerCase());
+      const swaps = this.matchWalletSwaps(poolSwaps, tokenIs0, isIn, trade.tokenAmount);
+      if (swaps.length > 0) {
+        const quote = tokenIs0 ? pool.currency1 : pool.currency0;
+        // Swap deltas are from the swapper's side: negative = paid into the pool
+        let quoteDelta = 0n;
+        for (const swap of swaps) {
+          quoteDelta += tokenIs0 ? swap.amount1 : swap.amount0;
+        }
+
+        const quoteAmount = quoteDelta < 0n ? -quoteDelta : quoteDelta;
+        if (quoteAmount > 0n) {
+          trade.side = isIn ? 'buy' : 'sell';
+          trade.quoteCurrency = classifyQuote(quote.address);
+          trade.quoteTokenAddress = quote.address.toLowerCase();
+          trade.quoteAmount = quoteAmount;
+          trade.quoteDecimals = quote.decimals;
+          trade.quoteSource = 'swap';
+          trade.logIndexes = [...tokenLogIndexes, ...swaps.map(s => s.logIndex)];
+          if (trade.quoteCurrency !== 'OTHER') {
+            return trade;
+          }
+
+          // Content coins trade against the creator coin or ZORA: a multi-hop route
+          // settles its ETH/USDC leg in the same receipt, whoever sent the transaction
+          const used = new Set(swaps.map(s => s.logIndex));
+          const route = await this.followRoute(receiptSwaps, used, trade.quoteTokenAddress, quoteAmount, isIn);
+          if (route) {
+            trade.quoteCurrency = classifyQuote(route.quoteAddress);
+            trade.quoteTokenAddress = route.quoteAddress;
+            trade.quoteAmount = route.quoteAmount;
+            trade.quoteDecimals = route.quoteDecimals;
+            trade.quoteSource = 'route';
+            trade.logIndexes.push(...route.logIndexes);
+            return trade;
+          }
+        }
+      }
+    }
+
+    // Quote leg 2: WETH/USDC moving the opposite way in the same transaction
+    for (const [contract, entry] of quoteTransferDeltas) {
+      const oppositeDirection = isIn ? entry.delta < 0n : entry.delta > 0n;
+      if (!oppositeDirection) continue;
+
+      trade.side = isIn ? 'buy' : 'sell';
+      trade.quoteCurrency = classifyQuote(contract);
+      trade.quoteTokenAddress = contract;
+      trade.quoteAmount = entry.delta < 0n ? -entry.delta : entry.delta;
+      trade.quoteDecimals = trade.quoteCurrency === 'USDC' ? 6 : 18;
+      trade.quoteSource = 'transfer';
+      trade.logIndexes = [...tokenLogIndexes, ...entry.logIndexes];
+      return trade;
+    }
+
+    // Quote leg 3: native ETH sent by the wallet itself with the call
+    if (isIn && (!trade.quoteCurrency || trade.quoteCurrency === 'OTHER') && receipt.from.toLowerCase() === wallet) {
+      try {
+        const tx = await this.provider.getTransaction(receipt.hash);
+        if (tx && tx.value > 0n) {
+          trade.side = 'buy';
+          trade.quoteCurrency = 'ETH';
+          trade.quoteTokenAddress = NATIVE_ETH;
+          trade.quoteAmount = tx.value;
+          trade.quoteDecimals = 18;
+          trade.quoteSource = 'tx-value';
+          trade.logIndexes = tokenLogIndexes;
+        }
+      } catch (error) {
+        console.warn(`  Transaction fetch failed for ${txHash.slice(0, 10)}...:`, error);
+      }
+    }
+
+    return trade;
+  }
+
+  /**
+   * Reconstruct trades for many transaction hashes of one token
+   * Duplicate hashes (several Transfer events in one tx) are reconstructed once
+   */
+  async reconstructTrades(
+    txHashes: string[],
+    walletAddress: string,
+    tokenAddress: string
+  ): Promise<Map<string, ReconstructedTrade>> {
+    const results = new Map<string, ReconstructedTrade>();
+    const uniqueHashes = Array.from(new Set(txHashes.map(h => h.toLowerCase())));
+    const pool = await this.getPool(tokenAddress);
+
+    const BATCH_SIZE = 5;
+    for (let i = 0; i < uniqueHashes.length; i += BATCH_SIZE) {
+      const batch = uniqueHashes.slice(i, i + BATCH_SIZE);
+      const trades = await Promise.all(
+        batch.map(hash => this.reconstructTrade(hash, walletAddress, tokenAddress, pool).catch(() => null))
+      );
+      trades.forEach((trade, index) => {
+        if (trade) results.set(batch[index], trade);
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Swaps on the pool that moved the wallet's tokens - a bundle or a batch of
+   * user operations can hold other people's swaps on the same pool
+   * One swap matching the wallet's net token amount wins; otherwise all swaps in the
+   * wallet's direction if together they match it (split routes); otherwise none
+   */
+  private matchWalletSwaps(swaps: DecodedSwap[], tokenIs0: boolean, isIn: boolean, tokenAmount: bigint): DecodedSwap[] {
+    const tokenSide = (swap: DecodedSwap) => tokenIs0 ? swap.amount0 : swap.amount1;
+    const sameDirection = swaps.filter(swap => isIn ? tokenSide(swap) > 0n : tokenSide(swap) < 0n);
+    const tokenOut = (swap: DecodedSwap) => tokenSide(swap) < 0n ? -tokenSide(swap) : tokenSide(swap);
+    const distance = (amount: bigint) => amount > tokenAmount ? amount - tokenAmount : tokenAmount - amount;
+
+    const single = sameDirection.filter(swap => matchesAmount(tokenOut(swap), tokenAmount));
+    if (single.length > 0) {
+      // Closest one if several swaps of similar size landed in the same tx
+      return [single.reduce((best, swap) => distance(tokenOut(swap)) < distance(tokenOut(best)) ? swap : best)];
+    }
+
+    const total = sameDirection.reduce((sum, swap) => sum + tokenOut(swap), 0n);
+    if (sameDirection.length > 1 && matchesAmount(total, tokenAmount)) {
+      return sameDirection;
+    }
+
+    if (swaps.length > 0) {
+      console.warn(`  ${swaps.length} Swap(s) on the pool do not match the wallet's ${tokenAmount} tokens - using transfer legs`);
+    }
+    return [];
+  }
+
+  /**
+   * Walk a multi-hop route back from the quote currency of the token's pool: each hop
+   * is the Swap on a pool of the current currency that delivered it (buy) or took it
+   * (sell) in the amount the previous hop used, until an ETH/USDC leg is reached
+   */
+  private async followRoute(
+    swaps: DecodedSwap[],
+    used: Set<number>,
+    quoteAddress: string,
+    quoteAmount: bigint,
+    isIn: boolean
+  ): Promise<RouteLeg | null> {
+    const logIndexes: number[] = [];
+    let currency = quoteAddress.toLowerCase();
+    let amount = quoteAmount;
+
+    for (let hop = 0; hop < MAX_ROUTE_HOPS; hop++) {
+      const pools = await this.getCurrencyPools(currency);
+      let next: { swap: DecodedSwap; pool: IndexedPool; currencyIs0: boolean } | null = null;
+      for (const swap of swaps) {
+        const pool = pools.get(swap.poolId);
+        if (!pool || used.has(swap.logIndex)) continue;
+
+        const currencyIs0 = pool.currency0.toLowerCase() === currency;
+        const side = currencyIs0 ? swap.amount0 : swap.amount1;
+        if ((isIn ? side > 0n : side < 0n) && matchesAmount(side < 0n ? -side : side, amount)) {
+          next = { swap, pool, currencyIs0 };
+          break;
+        }
+      }
+      if (!next) return null;
+
+      used.add(next.swap.logIndex);
+      logIndexes.push(next.swap.logIndex);
+      const otherSide = next.currencyIs0 ? next.swap.amount1 : next.swap.amount0;
+      currency = (next.currencyIs0 ? next.pool.currency1 : next.pool.currency0).toLowerCase();
+      amount = otherSide < 0n ? -otherSide : otherSide;
+
+      const quoteCurrency = classifyQuote(currency);
+      if (quoteCurrency !== 'OTHER') {
+        return { quoteAddress: currency, quoteAmount: amount, quoteDecimals: quoteCurrency === 'USDC' ? 6 : 18, logIndexes };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Indexed V4 pools that trade a currency, by lowercased pool id
+   */
+  private async getCurrencyPools(currency: string): Promise<Map<string, IndexedPool>> {
+    let pools = await this.poolIndex.getPools(currency);
+    if (pools.length === 0 && this.poolClient) {
+      pools = await this.poolIndex.getRecentPools(currency, this.poolClient).catch(() => []);
+    }
+    return new Map(pools.map(pool => [pool.poolId.toLowerCase(), pool]));
+  }
+
+  /**
+   * Every V4 PoolManager Swap in the receipt, on any pool
+   */
+  private decodeSwaps(receipt: ethers.TransactionReceipt): DecodedSwap[] {
+    const swaps: DecodedSwap[] = [];
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== UNISWAP_V4_POOL_MANAGER.toLowerCase()) continue;
+      if (log.topics[0] !== V4_SWAP_TOPIC || !log.topics[1]) continue;
+
+      try {
+        const [amount0, amount1] = coder.decode(
+          ['int128', 'int128', 'uint160', 'uint128', 'int24', 'uint24'],
+          log.data
+        );
+        swaps.push({ logIndex: log.index, poolId: log.topics[1].toLowerCase(), amount0: BigInt(amount0), amount1: BigInt(amount1) });
+      } catch (error) {
+        console.warn(`  Failed to decode Swap log ${log.index} in ${receipt.hash.slice(0, 10)}...`);
+      }
+    }
+
+    return swaps;
+  }
+}
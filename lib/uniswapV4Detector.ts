@@ -1,15 +1,8 @@
 import { ethers } from 'ethers';
-import { createPublicClient, http, Address } from 'viem';
-import { base } from 'viem/chains';
-
-// Base RPC endpoints (fallback chain for rate limits)
-const BASE_RPC_URLS = [
-  'https://mainnet.base.org',
-  'https://base-mainnet.g.alchemy.com/v2/demo', // Alchemy public endpoint
-  'https://base.publicnode.com', // Public node
-];
-
-const BASE_RPC_URL = BASE_RPC_URLS[0]; // Primary endpoint
+import { Address } from 'viem';
+import { ChainDataProvider, createChainDataClient, createDefaultChainDataProvider } from './chainData';
+import { EthUsdOracle } from './ethUsdOracle';
+import { getPoolIndex } from './poolIndex';
 
 // Uniswap V4 addresses on Base Mainnet
 export const UNISWAP_V4_POOL_MANAGER = '0xA5B4F34780D948b571E676C34aB709D3AcA0498D' as Address;
@@ -29,22 +22,6 @@ export const ZORA_HOOKS = {
 // WETH address on Base
 const WETH_BASE = '0x4200000000000000000000000000000000000006' as Address;
 
-// Uniswap V4 PoolManager ABI (for Initialize event)
-const UNISWAP_V4_POOL_MANAGER_ABI = [
-  {
-    type: 'event',
-    name: 'Initialize',
-    inputs: [
-      { name: 'poolId', type: 'bytes32', indexed: true },
-      { name: 'currency0', type: 'address', indexed: false },
-      { name: 'currency1', type: 'address', indexed: false },
-      { name: 'fee', type: 'uint24', indexed: false },
-      { name: 'tickSpacing', type: 'int24', indexed: false },
-      { name: 'hooks', type: 'address', indexed: false },
-    ],
-  },
-] as const;
-
 // Uniswap V4 StateView ABI
 const STATE_VIEW_ABI = [
   {
@@ -135,19 +112,18 @@ export interface PoolMetadata {
 }
 
 /**
- * Create viem public client for Base chain
+ * Create viem public client for Base chain on top of a chain data provider
  */
-function createBaseClient() {
-  return createPublicClient({
-    chain: base,
-    transport: http(BASE_RPC_URL),
-  });
+export function createBaseClient(chainData?: ChainDataProvider) {
+  return createChainDataClient(chainData || createDefaultChainDataProvider());
 }
 
+export type BaseClient = ReturnType<typeof createBaseClient>;
+
 /**
  * Get currency information (name, symbol, decimals)
  */
-async function getCurrency(address: Address, client: ReturnType<typeof createBaseClient>): Promise<{
+async function getCurrency(address: Address, client: BaseClient): Promise<{
   name: string;
   symbol: string;
   decimals: number;
@@ -204,13 +180,28 @@ export function getPoolId(key: PoolKey): `0x${string}` {
   return ethers.keccak256(encoded) as `0x${string}`;
 }
 
+/**
+ * Price of one token in the pool's other currency (human units) from sqrtPriceX96
+ * Returns 0 when the token is not in the pool or the pool has no price
+ */
+export function getCoinPriceInQuote(pool: PoolMetadata, tokenAddress: string): number {
+  const tokenLower = tokenAddress.toLowerCase();
+  const tokenIs0 = pool.currency0.address.toLowerCase() === tokenLower;
+  if (!tokenIs0 && pool.currency1.address.toLowerCase() !== tokenLower) return 0;
+
+  const sqrtPrice = Number(pool.sqrtPriceX96) / 2 ** 96;
+  const price1Per0 = sqrtPrice * sqrtPrice * 10 ** (pool.currency0.decimals - pool.currency1.decimals);
+  if (!(price1Per0 > 0)) return 0;
+  return tokenIs0 ? price1Per0 : 1 / price1Per0;
+}
+
 /**
  * Try to get platformReferrer from a token address
  * Returns ADDRESS_ZERO if the function doesn't exist (token is not a Zora coin)
  */
 async function tryGetPlatformReferrer(
   address: Address,
-  client: ReturnType<typeof createBaseClient>
+  client: BaseClient
 ): Promise<Address> {
   try {
     const contract = {
@@ -241,7 +232,7 @@ async function tryGetPlatformReferrer(
  */
 export async function isBaseAppTokenByReferrer(
   tokenAddress: Address,
-  client?: ReturnType<typeof createBaseClient>
+  client?: BaseClient
 ): Promise<boolean> {
   if (!client) {
     client = createBaseClient();
@@ -276,7 +267,7 @@ export async function isBaseAppTokenByReferrer(
  */
 export async function isBaseAppTokenByPoolCheck(
   tokenAddress: Address,
-  client?: ReturnType<typeof createBaseClient>
+  client?: BaseClient
 ): Promise<boolean> {
   if (!client) {
     client = createBaseClient();
@@ -284,7 +275,7 @@ export async function isBaseAppTokenByPoolCheck(
 
   try {
     console.log(`    [Pool Check] Finding pool for token ${tokenAddress}...`);
-    const poolData = await findPoolForToken(tokenAddress);
+    const poolData = await findPoolForToken(tokenAddress, client);
     
     if (!poolData) {
       console.log(`    [Pool Check] No pool found for token ${tokenAddress}`);
@@ -324,7 +315,7 @@ export async function isBaseAppTokenByPoolCheck(
 export async function categorizeAppType(
   currency0: Address,
   currency1: Address,
-  client: ReturnType<typeof createBaseClient>
+  client: BaseClient
 ): Promise<'TBA' | 'ZORA'> {
   console.log(`      [Categorize] Checking platformReferrer for both currencies in pool...`);
   console.log(`      [Categorize] Currency0: ${currency0}`);
@@ -379,7 +370,7 @@ export function getCoinType(hooks: Address): 'ZORA_CREATOR_COIN' | 'ZORA_V4_COIN
  */
 export async function loadPoolData(
   key: PoolKey,
-  client: ReturnType<typeof createBaseClient>
+  client: BaseClient
 ): Promise<PoolMetadata | null> {
   try {
     const poolId = getPoolId(key);
@@ -446,12 +437,11 @@ export async function loadPoolData(
 }
 
 /**
- * Try to find pool using known configurations first (faster)
- * Falls back to event scanning if needed
+ * Probe the known Zora hook configurations directly (coins the pool index has not reached yet)
  */
 async function tryFindPoolByConfig(
   tokenAddress: Address,
-  client: ReturnType<typeof createBaseClient>
+  client: BaseClient
 ): Promise<PoolMetadata | null> {
   // Try known Zora hook configurations first (most common for Base App tokens)
   const knownConfigs: Array<{ hook: Address; fee: number; tickSpacing: number }> = [
@@ -491,72 +481,38 @@ async function tryFindPoolByConfig(
 
 /**
  * Find Uniswap V4 pool for a token address
- * First tries known configurations (fast), then searches through Initialize events if needed
+ * Looks the token up in the pool index (PoolManager Initialize events, see lib/poolIndex.ts),
+ * or in the recent Initialize events while the index is behind; the known Zora
+ * configurations are the last resort
  */
 export async function findPoolForToken(
   tokenAddress: Address,
-  startBlock?: bigint,
-  endBlock?: bigint
+  client: BaseClient = createBaseClient()
 ): Promise<PoolMetadata | null> {
-  const client = createBaseClient();
-
-  // First, try known configurations (much faster)
-  console.log(`Trying known pool configurations for token ${tokenAddress}...`);
-  const poolByConfig = await tryFindPoolByConfig(tokenAddress, client);
-  if (poolByConfig) {
-    console.log(`Found pool using known configuration for ${tokenAddress}`);
-    return poolByConfig;
-  }
+  const index = getPoolIndex();
 
-  // If not found, search through events (slower but more thorough)
-  console.log(`Pool not found via known configs, searching Initialize events...`);
-  
-  // If endBlock not provided, get current block
-  if (!endBlock) {
-    endBlock = await client.getBlockNumber();
+  let indexAtHead = false;
+  try {
+    // Keep the index at the chain head - new coins are the most looked up
+    indexAtHead = await index.catchUp(client);
+  } catch (error: any) {
+    console.warn(`Pool index sync failed:`, error.message);
   }
 
-  // Optimize: only search recent blocks (last 1M blocks ~= 2 weeks) for performance
-  // Most Base App tokens are created recently
-  const RECENT_BLOCKS = 1_000_000n;
-  const optimizedStartBlock = startBlock || (endBlock > RECENT_BLOCKS ? endBlock - RECENT_BLOCKS : 0n);
-
-  try {
-    // Get all Initialize events from Uniswap V4 PoolManager
-    const logs = await client.getContractEvents({
-      address: UNISWAP_V4_POOL_MANAGER,
-      abi: UNISWAP_V4_POOL_MANAGER_ABI,
-      eventName: 'Initialize',
-      fromBlock: optimizedStartBlock,
-      toBlock: endBlock,
+  let relevantPools = await index.getPools(tokenAddress);
+  if (relevantPools.length === 0 && !indexAtHead) {
+    // The coin may be newer than the index - look through the recent Initialize events
+    relevantPools = await index.getRecentPools(tokenAddress, client).catch((error: any) => {
+      console.warn(`Recent pool scan failed:`, error.message);
+      return [];
     });
+  }
+  if (relevantPools.length === 0) {
+    console.log(`Token ${tokenAddress} not in pool index, trying known pool configurations...`);
+    return tryFindPoolByConfig(tokenAddress, client);
+  }
 
-    console.log(`Found ${logs.length} Initialize events, searching for token ${tokenAddress}...`);
-
-    // Filter pools that contain our token
-    const tokenLower = tokenAddress.toLowerCase();
-    const relevantPools: PoolKey[] = [];
-
-    for (const log of logs) {
-      const currency0 = (log.args.currency0 as Address).toLowerCase();
-      const currency1 = (log.args.currency1 as Address).toLowerCase();
-
-      if (currency0 === tokenLower || currency1 === tokenLower) {
-        relevantPools.push({
-          currency0: log.args.currency0 as Address,
-          currency1: log.args.currency1 as Address,
-          fee: Number(log.args.fee),
-          tickSpacing: Number(log.args.tickSpacing),
-          hooks: log.args.hooks as Address,
-        });
-      }
-    }
-
-    if (relevantPools.length === 0) {
-      console.log(`No pools found for token ${tokenAddress}`);
-      return null;
-    }
-
+  try {
     // Try to load data for each pool (prioritize Zora pools)
     const zoraPools = relevantPools.filter(
       (p) =>
@@ -565,27 +521,28 @@ export async function findPoolForToken(
     );
 
     const poolsToCheck = zoraPools.length > 0 ? zoraPools : relevantPools;
-
-    for (const poolKey of poolsToCheck) {
-      const poolData = await loadPoolData(poolKey, client);
+    const loaded: PoolMetadata[] = [];
+
+    for (const pool of poolsToCheck) {
+      const poolData = await loadPoolData({
+        currency0: pool.currency0,
+        currency1: pool.currency1,
+        fee: pool.fee,
+        tickSpacing: pool.tickSpacing,
+        hooks: pool.hooks,
+      }, client);
       if (poolData) {
         // Check if this is a Base App token
         if (poolData.appType === 'TBA') {
           console.log(`Found Base App token pool for ${tokenAddress}`);
           return poolData;
         }
+        loaded.push(poolData);
       }
     }
 
     // If no Base App pool found, return the first valid pool
-    for (const poolKey of poolsToCheck) {
-      const poolData = await loadPoolData(poolKey, client);
-      if (poolData) {
-        return poolData;
-      }
-    }
-
-    return null;
+    return loaded[0] || null;
   } catch (error) {
     console.error(`Error finding pool for token ${tokenAddress}:`, error);
     return null;
@@ -596,10 +553,10 @@ export async function findPoolForToken(
  * Check if a token is a Base App token by finding its pool and checking platformReferrer
  * This is the correct method according to Base documentation
  */
-export async function isBaseAppTokenByPool(tokenAddress: Address): Promise<boolean> {
+export async function isBaseAppTokenByPool(tokenAddress: Address, client?: BaseClient): Promise<boolean> {
   try {
     console.log(`    [Pool Check] Looking for pool for token ${tokenAddress}...`);
-    const poolData = await findPoolForToken(tokenAddress);
+    const poolData = await findPoolForToken(tokenAddress, client);
     
     if (!poolData) {
       console.log(`    [Pool Check] No pool found for token ${tokenAddress}`);
@@ -624,20 +581,46 @@ export async function isBaseAppTokenByPool(tokenAddress: Address): Promise<boole
   }
 }
 
+/**
+ * Quote currency held by the in-range liquidity, doubled for the token side
+ * (virtual reserves of a full-range pool with the same L) - a rough depth gauge
+ */
+export function quoteDepthFromLiquidity(
+  liquidity: bigint,
+  sqrtPriceX96: bigint,
+  quoteIsCurrency0: boolean,
+  quoteDecimals: number
+): number {
+  if (liquidity === 0n || sqrtPriceX96 === 0n) {
+    return 0;
+  }
+  const Q96 = 2n ** 96n;
+  const reserve = quoteIsCurrency0 ? (liquidity * Q96) / sqrtPriceX96 : (liquidity * sqrtPriceX96) / Q96;
+  return (2 * Number(reserve)) / Math.pow(10, quoteDecimals);
+}
+
 /**
  * Get token price from Uniswap V4 pool
+ * Assumes the pool is quoted in ETH/WETH; quoteAddress tells callers when it is not
  */
 export async function getTokenPriceFromPool(
   tokenAddress: Address,
-  poolData?: PoolMetadata | null
-): Promise<{ priceInWETH: number; priceInUSD: number; liquidity: bigint } | null> {
+  ethUsd: EthUsdOracle,
+  poolData?: PoolMetadata | null,
+  client: BaseClient = createBaseClient()
+): Promise<{
+  priceInWETH: number;
+  priceInUSD: number;
+  liquidity: bigint;
+  liquidityInWETH: number;
+  poolId: `0x${string}`;
+  quoteAddress: Address;
+} | null> {
   try {
-    const client = createBaseClient();
-    
     // If poolData not provided, find it
     let actualPoolData = poolData;
     if (!actualPoolData) {
-      actualPoolData = await findPoolForToken(tokenAddress);
+      actualPoolData = await findPoolForToken(tokenAddress, client);
       if (!actualPoolData) {
         return null;
       }
@@ -681,30 +664,27 @@ export async function getTokenPriceFromPool(
     }
 
     // Get WETH price in USD
-    const wethPriceUSD = await getWETHPriceUSD();
+    const wethPriceUSD = await ethUsd.getPrice();
     const priceInUSD = priceInWETH * wethPriceUSD;
 
+    const quote = token0IsToken ? actualPoolData.currency1 : actualPoolData.currency0;
+    const liquidityInWETH = quoteDepthFromLiquidity(
+      actualPoolData.liquidity,
+      actualPoolData.sqrtPriceX96,
+      !token0IsToken,
+      quote.decimals
+    );
+
     return {
       priceInWETH,
       priceInUSD,
       liquidity: actualPoolData.liquidity,
+      liquidityInWETH,
+      poolId: actualPoolData.poolId,
+      quoteAddress: quote.address,
     };
   } catch (error) {
     console.error(`Error getting token price from pool for ${tokenAddress}:`, error);
     return null;
   }
 }
-
-/**
- * Get WETH/USD price
- */
-async function getWETHPriceUSD(): Promise<number> {
-  try {
-    const res = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-    const data = await res.json();
-    return data?.ethereum?.usd || 3000;
-  } catch (e) {
-    return 3000; // Fallback
-  }
-}
-
@@ -1,29 +1,21 @@
 import { ethers } from 'ethers';
-
-// Base RPC endpoints (fallback chain for rate limits)
-const BASE_RPC_URLS = [
-  'https://mainnet.base.org',
-  'https://base-mainnet.g.alchemy.com/v2/demo', // Alchemy public endpoint
-  'https://base.publicnode.com', // Public node
-];
-
-const BASE_RPC_URL = BASE_RPC_URLS[0]; // Primary endpoint
-const ETHERSCAN_API_V2 = 'https://api.etherscan.io/v2/api';
-const BASE_CHAIN_ID = '8453'; // Base chain ID for Etherscan API V2
-
-// Helper to get RPC with retry
-function getRpcProvider(): ethers.JsonRpcProvider {
-  return new ethers.JsonRpcProvider(BASE_RPC_URL, {
-    name: 'base',
-    chainId: 8453,
-  });
-}
+import { ChainDataProvider, TokenTransferRow, createDefaultChainDataProvider } from './chainData';
 
 export interface WalletData {
   address: string;
   balance: string;
   tokens: TokenBalance[];
   transactions: Transaction[];
+  lastBlock?: number; // Highest block covered by tokens/transactions (for incremental sync)
+}
+
+/**
+ * Previously fetched wallet state that a sync continues from
+ */
+export interface WalletSyncState {
+  lastBlock: number;
+  tokens: TokenBalance[];
+  transactions: Transaction[];
 }
 
 export interface TokenBalance {
@@ -34,6 +26,7 @@ export interface TokenBalance {
   decimals: number;
   balance: string;
   balanceFormatted: string;
+  lastTransferBlock?: number; // Block of the latest transfer seen for this token
 }
 
 export interface Transaction {
@@ -48,18 +41,19 @@ export interface Transaction {
   isBaseAppPost?: boolean;
   postTokenAddress?: string;
   postId?: string;
-  type?: 'buy' | 'sell' | 'mint';
+  type?: 'buy' | 'sell' | 'mint' | 'transfer_in' | 'transfer_out';
   tokenValue?: string; // Token amount for ERC-20 transfers
   tokenDecimals?: number; // Token decimals
+  logIndex?: number; // Transfer event position in the block (ERC-20 transfer rows)
 }
 
 export class WalletService {
-  private provider: ethers.JsonRpcProvider;
+  private chainData: ChainDataProvider;
   public baseScanApiKey: string;
 
-  constructor(baseScanApiKey?: string) {
-    this.provider = getRpcProvider();
+  constructor(baseScanApiKey?: string, chainData?: ChainDataProvider) {
     this.baseScanApiKey = baseScanApiKey || '';
+    this.chainData = chainData || createDefaultChainDataProvider(this.baseScanApiKey);
   }
 
   async connectWallet(): Promise<string> {
@@ -73,8 +67,16 @@ export class WalletService {
     return address;
   }
 
-  async getWalletData(address: string): Promise<WalletData> {
+  async getWalletData(address: string, previous?: WalletSyncState): Promise<WalletData> {
     console.log('Getting wallet data for:', address);
+
+    if (previous && previous.lastBlock > 0) {
+      const synced = await this.syncWalletData(address, previous);
+      if (synced) {
+        return synced;
+      }
+      console.warn('Incremental sync failed, fetching full wallet history');
+    }
     
     try {
       const [balance, tokens, transactions] = await Promise.all([
@@ -103,6 +105,11 @@ export class WalletService {
         balance: ethers.formatEther(balance),
         tokens,
         transactions,
+        lastBlock: Math.max(
+          0,
+          ...tokens.map(t => t.lastTransferBlock || 0),
+          ...transactions.map(tx => tx.blockNumber || 0)
+        ),
       };
     } catch (error: any) {
       console.error('Error in getWalletData:', error);
@@ -111,7 +118,7 @@ export class WalletService {
   }
 
   async getBalance(address: string): Promise<bigint> {
-    return await this.provider.getBalance(address);
+    return await this.chainData.getBalance(address);
   }
 
   async getTokenBalances(address: string): Promise<TokenBalance[]> {
@@ -128,123 +135,23 @@ export class WalletService {
       
       // Use tokentx endpoint (works with free API plan)
       // Try to fetch as many transactions as possible (up to 10,000 per request)
-      const url = `${ETHERSCAN_API_V2}?chainid=${BASE_CHAIN_ID}&module=account&action=tokentx&address=${address}&startblock=0&endblock=99999999&sort=desc&page=1&offset=10000${this.baseScanApiKey ? `&apikey=${this.baseScanApiKey}` : ''}`;
-      console.log('Fetching token balances from Etherscan API V2 (tokentx):', url.replace(this.baseScanApiKey || '', '***'));
-      console.log('API key in URL:', this.baseScanApiKey ? 'Yes' : 'No');
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error('Etherscan API V2 error:', response.status, response.statusText);
-        throw new Error(`Etherscan API V2 error: ${response.status} ${response.statusText}`);
-      }
-      
-      const responseText = await response.text();
-      console.log('=== Etherscan API V2 Raw Response ===');
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-      console.log('Response text (first 1000 chars):', responseText.slice(0, 1000));
-      
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error('Failed to parse JSON response:', parseError);
-        console.error('Full response text:', responseText);
-        throw new Error(`Invalid JSON response from API: ${responseText.slice(0, 200)}`);
-      }
-      
-      console.log('=== Etherscan API V2 Parsed Response ===');
-      console.log('Full response:', JSON.stringify(data, null, 2));
-      console.log('Status:', data.status);
-      console.log('Message:', data.message);
-      console.log('Result type:', typeof data.result);
-      console.log('Result length:', Array.isArray(data.result) ? data.result.length : 'N/A');
-      console.log('API Key provided:', !!this.baseScanApiKey);
-      console.log('API Key length:', this.baseScanApiKey?.length || 0);
-      console.log('API Key (first 10 chars):', this.baseScanApiKey ? this.baseScanApiKey.slice(0, 10) + '...' : 'N/A');
-      
-      // Check for V1 deprecation message
-      if (data.message?.includes('deprecated V1 endpoint')) {
-        console.error('Still using V1 endpoint! This should not happen with V2.');
-      }
-      
-      // Handle different response statuses
-      if (data.status !== '1') {
-        console.error('❌ Etherscan API V2 returned error:');
-        console.error('  Status:', data.status);
-        console.error('  Message:', data.message);
-        console.error('  Result:', typeof data.result === 'string' ? data.result : JSON.stringify(data.result, null, 2).slice(0, 500));
-        console.error('  Full error response:', JSON.stringify(data, null, 2));
-        
-        // Check for specific error messages
-        const errorMsg = (data.message || '').toLowerCase();
-        const resultMsg = (typeof data.result === 'string' ? data.result : '').toLowerCase();
-        const fullErrorText = errorMsg + ' ' + resultMsg;
-        
-        console.error('  Error analysis:');
-        console.error('    - Contains "rate limit":', fullErrorText.includes('rate limit'));
-        console.error('    - Contains "invalid api key":', fullErrorText.includes('invalid api key'));
-        console.error('    - Contains "api key":', fullErrorText.includes('api key'));
-        console.error('    - Contains "notok":', fullErrorText.includes('notok'));
-        console.error('    - API key present:', !!this.baseScanApiKey);
-        
-        if (fullErrorText.includes('rate limit') || fullErrorText.includes('max rate limit')) {
-          console.error('⚠️ Rate limit exceeded. Please wait a few minutes or upgrade your API plan.');
-        }
-        
-        if (fullErrorText.includes('invalid api key') || 
-            (fullErrorText.includes('api key') && !fullErrorText.includes('rate limit'))) {
-          console.error('⚠️ API key issue. Check if your Etherscan API key is valid.');
-          console.error('   API key format check:', this.baseScanApiKey ? `Length: ${this.baseScanApiKey.length}, Starts with: ${this.baseScanApiKey.slice(0, 5)}...` : 'No API key');
-        }
-        
-        // Always try alternative method if API returns error
-        console.warn('Trying alternative method: direct RPC token balance check...');
-        try {
-          const rpcResult = await this.getTokenBalancesViaRPC(address);
-          if (rpcResult.length > 0) {
-            console.log(`✓ RPC method found ${rpcResult.length} tokens - API may have issues`);
-            return rpcResult;
-          }
-        } catch (rpcError) {
-          console.error('RPC fallback also failed:', rpcError);
-        }
-        
-        // If result is a string error message, log it
-        if (typeof data.result === 'string') {
-          console.error('API error message:', data.result);
-        }
-        
-        return [];
-      }
-      
-      if (!data.result) {
-        console.warn('No result field in API response');
-        console.warn('Full response:', JSON.stringify(data, null, 2).slice(0, 500));
-        return [];
-      }
-      
-      if (!Array.isArray(data.result)) {
-        console.warn('Result is not an array:', typeof data.result, data.result);
-        // Try alternative method
-        return await this.getTokenBalancesViaRPC(address);
-      }
+      console.log(`Fetching token transfers via ${this.chainData.name} provider (tokentx)...`);
+      const transfers: TokenTransferRow[] = await this.chainData.getTokenTransfers({
+        address,
+        sort: 'desc',
+        limit: 10000,
+      });
       
-      if (data.result.length === 0) {
-        console.warn('⚠️ API returned empty array - no token transactions found');
+      if (transfers.length === 0) {
+        console.warn('⚠️ Provider returned no token transactions');
         console.warn('This might mean:');
         console.warn('1. Wallet has no token transactions on Base network');
         console.warn('2. API key has limited access (free tier may have restrictions)');
         console.warn('3. Address has no ERC-20 token activity');
         console.warn('4. All transactions are outside the queried block range');
         console.warn(`Checked address: ${address}`);
-        console.warn(`API endpoint: ${ETHERSCAN_API_V2}`);
-        console.warn(`Chain ID: ${BASE_CHAIN_ID}`);
+        console.warn(`Chain data provider: ${this.chainData.name}`);
         console.warn(`API key present: ${!!this.baseScanApiKey}`);
-        console.warn(`API key length: ${this.baseScanApiKey?.length || 0}`);
-        console.warn(`API response status: ${data.status}`);
-        console.warn(`API response message: ${data.message}`);
         
         // Try alternative method as fallback
         console.warn('Trying alternative RPC method to verify...');
@@ -266,23 +173,23 @@ export class WalletService {
       const tokenMap = new Map<string, TokenBalance>();
 
       console.log(`\n=== PROCESSING TRANSACTIONS ===`);
-      console.log(`Total transactions to process: ${data.result.length}`);
+      console.log(`Total transactions to process: ${transfers.length}`);
       
       // Sample first transaction to see structure
-      if (data.result.length > 0) {
+      if (transfers.length > 0) {
         console.log('\nSample transaction structure:');
-        console.log(JSON.stringify(data.result[0], null, 2).slice(0, 500));
-        console.log('\nSample transaction fields:', Object.keys(data.result[0]));
+        console.log(JSON.stringify(transfers[0], null, 2).slice(0, 500));
+        console.log('\nSample transaction fields:', Object.keys(transfers[0]));
       }
 
       let processedCount = 0;
       let skippedCount = 0;
       const addressLower = address.toLowerCase();
 
-      for (const tx of data.result) {
+      for (const tx of transfers) {
         processedCount++;
         // Handle different field names in API response
-        const contractAddress = tx.contractAddress || tx.tokenAddress || tx.to;
+        const contractAddress = tx.contractAddress;
         if (!contractAddress) {
           console.warn('Transaction missing contractAddress/tokenAddress:', Object.keys(tx));
           continue;
@@ -300,7 +207,7 @@ export class WalletService {
           // This shouldn't happen if API is working correctly, but skip just in case
           skippedCount++;
           if (skippedCount <= 3) { // Only log first few skipped
-            console.warn(`Skipping transaction ${processedCount}/${data.result.length} - address not involved:`, {
+            console.warn(`Skipping transaction ${processedCount}/${transfers.length} - address not involved:`, {
               txHash: tx.hash?.slice(0, 12) + '...',
               from: txFrom.slice(0, 12) + '...',
               to: txTo.slice(0, 12) + '...',
@@ -314,9 +221,9 @@ export class WalletService {
           tokenMap.set(tokenAddress, {
             contractAddress: tokenAddress,
             tokenAddress: tokenAddress,
-            name: tx.tokenName || tx.name || 'Unknown',
-            symbol: tx.tokenSymbol || tx.symbol || 'UNK',
-            decimals: parseInt(tx.tokenDecimal || tx.decimals || '18'),
+            name: tx.tokenName || 'Unknown',
+            symbol: tx.tokenSymbol || 'UNK',
+            decimals: parseInt(tx.tokenDecimal || '18'),
             balance: '0',
             balanceFormatted: '0',
           });
@@ -324,6 +231,7 @@ export class WalletService {
 
         const token = tokenMap.get(tokenAddress)!;
         const value = BigInt(tx.value || '0');
+        token.lastTransferBlock = Math.max(token.lastTransferBlock || 0, parseInt(tx.blockNumber || '0'));
 
         // Calculate balance: add if receiving, subtract if sending
         if (isTo) {
@@ -376,7 +284,7 @@ export class WalletService {
 
       console.log(`✓ Found ${tokens.length} tokens with balance > 0 (belonging to address)`);
       console.log(`✓ Total unique tokens in transaction history: ${tokenMap.size}`);
-      console.log(`✓ Total token transactions processed: ${data.result.length}`);
+      console.log(`✓ Total token transactions processed: ${transfers.length}`);
       
       if (tokens.length > 0) {
         console.log('✓ Token details (with balance > 0):', tokens.slice(0, 20).map(t => ({
@@ -407,11 +315,11 @@ export class WalletService {
       // Return only tokens that belong to the address (balance > 0)
       console.log('\n=== TOKEN BALANCE SUMMARY ===');
       console.log(`Address: ${address}`);
-      console.log(`Total transactions returned by API: ${data.result.length}`);
+      console.log(`Total transactions returned by provider: ${transfers.length}`);
       console.log(`Unique tokens in transaction history: ${tokenMap.size}`);
       console.log(`Tokens with balance > 0 (current holdings): ${tokens.length}`);
       
-      if (data.result.length >= 10000) {
+      if (transfers.length >= 10000) {
         console.warn('⚠️ WARNING: API returned maximum results (10,000 transactions).');
         console.warn('⚠️ There may be more transactions. Current balance calculation may be incomplete.');
       }
@@ -465,30 +373,14 @@ export class WalletService {
       'function name() view returns (string)',
     ];
 
-    // First, try to get token list from a token registry or use Etherscan API V2 with different endpoint
+    // First, try the provider's token list (Etherscan tokenlist endpoint)
     try {
-      // Try to get token list from Etherscan API V2 tokenlist endpoint
-      const tokenListUrl = `${ETHERSCAN_API_V2}?chainid=${BASE_CHAIN_ID}&module=account&action=tokenlist&address=${address}${this.baseScanApiKey ? `&apikey=${this.baseScanApiKey}` : ''}`;
-      console.log('Trying tokenlist endpoint (Etherscan API V2)...');
-      
-      const response = await fetch(tokenListUrl);
-      const responseText = await response.text();
-      console.log('Tokenlist endpoint response status:', response.status);
-      console.log('Tokenlist endpoint response (first 500 chars):', responseText.slice(0, 500));
-      
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error('Failed to parse tokenlist JSON:', parseError);
-        throw new Error(`Invalid JSON from tokenlist endpoint: ${responseText.slice(0, 200)}`);
-      }
-      
-      console.log('Tokenlist endpoint parsed data:', JSON.stringify(data, null, 2).slice(0, 1000));
+      console.log(`Trying token holdings via ${this.chainData.name} provider (tokenlist)...`);
+      const holdings = await this.chainData.getTokenHoldings(address);
       
-      if (data.status === '1' && Array.isArray(data.result)) {
-        console.log(`✓ Found ${data.result.length} tokens via tokenlist endpoint`);
-        const tokens = data.result.map((token: any) => ({
+      if (holdings) {
+        console.log(`✓ Found ${holdings.length} tokens via tokenlist endpoint`);
+        const tokens = holdings.map(token => ({
           contractAddress: token.contractAddress,
           tokenAddress: token.contractAddress,
           name: token.name || 'Unknown',
@@ -510,33 +402,13 @@ export class WalletService {
     return [];
   }
 
-  async getTransactions(address: string, limit: number = 1000): Promise<Transaction[]> {
+  async getTransactions(address: string, limit: number = 1000, startBlock: number = 0): Promise<Transaction[]> {
     try {
-      const url = `${ETHERSCAN_API_V2}?chainid=${BASE_CHAIN_ID}&module=account&action=txlist&address=${address}&startblock=0&endblock=99999999&sort=desc${this.baseScanApiKey ? `&apikey=${this.baseScanApiKey}` : ''}`;
-      console.log('Fetching transactions from Etherscan API V2:', url.replace(this.baseScanApiKey || '', '***'));
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error('Etherscan API V2 error:', response.status, response.statusText);
-        throw new Error(`Etherscan API V2 error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log('Transactions API response status:', data.status);
-      console.log('Transactions count:', data.result?.length || 0);
-
-      if (data.status !== '1') {
-        console.error('Etherscan API V2 returned error:', data.message || data.result);
-        return [];
-      }
-      
-      if (!data.result || !Array.isArray(data.result)) {
-        console.warn('No transactions found or invalid format');
-        return [];
-      }
+      console.log(`Fetching transactions via ${this.chainData.name} provider (txlist)...`);
+      const rows = await this.chainData.getTransactionList({ address, startBlock, sort: 'desc' });
+      console.log('Transactions count:', rows.length);
 
-      const transactions: Transaction[] = data.result.slice(0, limit).map((tx: any) => {
+      const transactions: Transaction[] = rows.slice(0, limit).map(tx => {
         const methodId = tx.input.length >= 10 ? tx.input.slice(0, 10) : undefined;
 
         return {
@@ -559,6 +431,126 @@ export class WalletService {
       return [];
     }
   }
-}
 
+  /**
+   * Continue from a previous snapshot: fetch only token transfers and transactions
+   * after previous.lastBlock and apply them on top of the cached balances
+   * Returns null if the transfer history could not be fetched
+   */
+  private async syncWalletData(address: string, previous: WalletSyncState): Promise<WalletData | null> {
+    const startBlock = previous.lastBlock + 1;
+    console.log(`Incremental wallet sync for ${address} from block ${startBlock}`);
+
+    const [balance, transfers, newTransactions] = await Promise.all([
+      this.getBalance(address).catch(err => {
+        console.error('Error getting balance:', err);
+        return 0n;
+      }),
+      this.getTokenTransfersSince(address, startBlock),
+      this.getTransactions(address, 1000, startBlock),
+    ]);
+
+    if (!transfers) {
+      return null;
+    }
+
+    const addressLower = address.toLowerCase();
+    const tokenMap = new Map<string, TokenBalance>(
+      previous.tokens.map(token => [token.tokenAddress.toLowerCase(), { ...token }])
+    );
+    let lastBlock = previous.lastBlock;
+
+    // Oldest first so a buy is applied before the sell that follows it
+    const ordered = [...transfers].sort((a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber));
+    // Only blocks after the snapshot are fetched, so every row is new - except a
+    // log returned twice (overlapping pages), which is recognized by hash and log index
+    // (explorer rows get theirs from the receipt in the chain data provider)
+    const applied = new Set<string>();
+    for (const tx of ordered) {
+      const tokenAddress = (tx.contractAddress || '').toLowerCase();
+      const blockNumber = parseInt(tx.blockNumber || '0');
+      if (!tokenAddress) continue;
+      lastBlock = Math.max(lastBlock, blockNumber);
+
+      const isTo = (tx.to || '').toLowerCase() === addressLower;
+      const isFrom = (tx.from || '').toLowerCase() === addressLower;
+      if (!isTo && !isFrom) continue;
+
+      if (tx.logIndex !== undefined) {
+        const key = `${tx.hash.toLowerCase()}:${tx.logIndex}`;
+        if (applied.has(key)) continue;
+        applied.add(key);
+      }
+
+      let token = tokenMap.get(tokenAddress);
+
+      if (!token) {
+        token = {
+          contractAddress: tokenAddress,
+          tokenAddress,
+          name: tx.tokenName || 'Unknown',
+          symbol: tx.tokenSymbol || 'UNK',
+          decimals: parseInt(tx.tokenDecimal || '18'),
+          balance: '0',
+          balanceFormatted: '0',
+        };
+        tokenMap.set(tokenAddress, token);
+      }
+
+      const value = BigInt(tx.value || '0');
+      let next = BigInt(token.balance);
+      if (isTo) next += value;
+      if (isFrom) next -= value;
+      token.balance = (next > 0n ? next : 0n).toString();
+      token.lastTransferBlock = blockNumber;
+    }
+
+    const tokens = Array.from(tokenMap.values())
+      .map(token => ({
+        ...token,
+        balanceFormatted: parseFloat(ethers.formatUnits(token.balance, token.decimals)).toFixed(6),
+      }))
+      .filter(token => parseFloat(token.balanceFormatted) > 0);
+
+    // New transactions first (txlist is sorted desc), drop overlaps by hash
+    const seen = new Set<string>();
+    const transactions = [...newTransactions, ...previous.transactions].filter(tx => {
+      const hash = tx.hash.toLowerCase();
+      if (seen.has(hash)) return false;
+      seen.add(hash);
+      return true;
+    }).slice(0, 1000);
+
+    for (const tx of newTransactions) {
+      lastBlock = Math.max(lastBlock, tx.blockNumber);
+    }
+
+    console.log(`Incremental sync: ${transfers.length} new token transfers, ${newTransactions.length} new transactions, last block ${lastBlock}`);
 
+    return {
+      address,
+      balance: ethers.formatEther(balance),
+      tokens,
+      transactions,
+      lastBlock,
+    };
+  }
+
+  /**
+   * Raw tokentx rows from a block on; [] when there are none, null on API failure
+   */
+  private async getTokenTransfersSince(address: string, startBlock: number): Promise<TokenTransferRow[] | null> {
+    try {
+      const transfers = await this.chainData.getTokenTransfers({ address, startBlock, sort: 'asc', limit: 10000 });
+      if (transfers.length >= 10000) {
+        // Page is full - a partial sync would leave balances inconsistent
+        console.warn('⚠️ Too many new token transfers for incremental sync');
+        return null;
+      }
+      return transfers;
+    } catch (error) {
+      console.error('Error fetching new token transfers:', error);
+      return null;
+    }
+  }
+}
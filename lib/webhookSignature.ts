@@ -0,0 +1,84 @@
+import { createPublicKey, verify } from 'crypto';
+import { FarcasterHub, createDefaultFarcasterHub } from './farcaster';
+
+/**
+ * JSON Farcaster Signature envelope the Mini App client POSTs to the webhook
+ * header/payload/signature are base64url; the signature covers "header.payload"
+ */
+export interface SignedWebhookBody {
+  header: string;
+  payload: string;
+  signature: string;
+}
+
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+export type MiniAppWebhookEvent =
+  | { event: 'miniapp_added'; notificationDetails?: NotificationDetails }
+  | { event: 'miniapp_removed' }
+  | { event: 'notifications_enabled'; notificationDetails: NotificationDetails }
+  | { event: 'notifications_disabled' };
+
+export interface VerifiedWebhookEvent {
+  fid: number; // User the event is about
+  appFid?: number; // Client app (Base App, Farcaster) whose key signed it
+  key: string;
+  event: MiniAppWebhookEvent;
+}
+
+// DER prefix that turns a raw 32-byte Ed25519 public key into SPKI
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function decodeJson(part: string, name: string): any {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error(`Invalid webhook ${name} encoding`);
+  }
+}
+
+/**
+ * Verify a webhook body: the Ed25519 signature must match the header's app key,
+ * and that key must be an active signer of the header's FID
+ * Throws with a message suitable for a 401 response
+ */
+export async function verifyWebhookEvent(
+  body: SignedWebhookBody,
+  hub: FarcasterHub = createDefaultFarcasterHub()
+): Promise<VerifiedWebhookEvent> {
+  if (!body || typeof body.header !== 'string' || typeof body.payload !== 'string' || typeof body.signature !== 'string') {
+    throw new Error('Webhook body is not a signed event');
+  }
+
+  const header = decodeJson(body.header, 'header');
+  const fid = Number(header?.fid);
+  const key: string = header?.key || '';
+  if (!Number.isInteger(fid) || fid <= 0 || header?.type !== 'app_key' || !/^0x[a-fA-F0-9]{64}$/.test(key)) {
+    throw new Error('Invalid webhook header');
+  }
+
+  const publicKey = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(key.slice(2), 'hex')]),
+    format: 'der',
+    type: 'spki',
+  });
+  const signed = Buffer.from(`${body.header}.${body.payload}`, 'utf8');
+  if (!verify(null, signed, publicKey, Buffer.from(body.signature, 'base64url'))) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const signer = await hub.getSigner(fid, key);
+  if (!signer) {
+    throw new Error(`Key ${key.slice(0, 10)}... is not an active app key of FID ${fid}`);
+  }
+
+  const event = decodeJson(body.payload, 'payload') as MiniAppWebhookEvent;
+  if (!event || typeof event.event !== 'string') {
+    throw new Error('Invalid webhook payload');
+  }
+
+  return { fid, appFid: signer.appFid, key, event };
+}
@@ -0,0 +1,201 @@
+import { ethers } from 'ethers';
+import type { ChainDataProvider, RpcLog } from './chainData';
+import { getCoinPriceInQuote, PoolMetadata } from './uniswapV4Detector';
+
+// Emitted by the Zora coin hooks (ZORA_HOOKS) after every swap that pays out market rewards
+const ZORA_HOOK_EVENTS = new ethers.Interface([
+  'event CoinMarketRewardsV4(address coin, address currency, address payoutRecipient, address platformReferrer, address tradeReferrer, address protocolRewardRecipient, address dopplerRecipient, (uint256 creatorPayoutAmountCurrency, uint256 creatorPayoutAmountCoin, uint256 platformReferrerAmountCurrency, uint256 platformReferrerAmountCoin, uint256 tradeReferrerAmountCurrency, uint256 tradeReferrerAmountCoin, uint256 protocolAmountCurrency, uint256 protocolAmountCoin, uint256 dopplerAmountCurrency, uint256 dopplerAmountCoin) marketRewards)',
+]);
+
+export const COIN_MARKET_REWARDS_TOPIC = ZORA_HOOK_EVENTS.getEvent('CoinMarketRewardsV4')!.topicHash;
+
+// Concurrent eth_getLogs calls when reading rewards block by block
+const REWARDS_CONCURRENCY = 5;
+
+/**
+ * One reward distribution of a swap; amounts are in the pool's backing
+ * currency (`currency`) and in the coin itself, smallest units
+ */
+export interface MarketRewardsPayout {
+  hash: string;
+  blockNumber: number;
+  logIndex: number;
+  coin: string; // Lowercased
+  currency: string; // Lowercased
+  payoutRecipient: string; // Creator payout address, lowercased
+  platformReferrer: string;
+  tradeReferrer: string;
+  creatorAmountCurrency: bigint;
+  creatorAmountCoin: bigint;
+  platformReferrerAmountCurrency: bigint;
+  platformReferrerAmountCoin: bigint;
+  tradeReferrerAmountCurrency: bigint;
+  tradeReferrerAmountCoin: bigint;
+}
+
+/**
+ * Decode a CoinMarketRewardsV4 log; null for any other log
+ */
+export function decodeMarketRewards(log: RpcLog): MarketRewardsPayout | null {
+  if (log.topics[0] !== COIN_MARKET_REWARDS_TOPIC) {
+    return null;
+  }
+
+  try {
+    const parsed = ZORA_HOOK_EVENTS.parseLog({ topics: log.topics, data: log.data });
+    if (!parsed) return null;
+    const rewards = parsed.args.marketRewards;
+    return {
+      hash: log.transactionHash,
+      blockNumber: Number(log.blockNumber),
+      logIndex: Number(log.logIndex),
+      coin: (parsed.args.coin as string).toLowerCase(),
+      currency: (parsed.args.currency as string).toLowerCase(),
+      payoutRecipient: (parsed.args.payoutRecipient as string).toLowerCase(),
+      platformReferrer: (parsed.args.platformReferrer as string).toLowerCase(),
+      tradeReferrer: (parsed.args.tradeReferrer as string).toLowerCase(),
+      creatorAmountCurrency: rewards.creatorPayoutAmountCurrency,
+      creatorAmountCoin: rewards.creatorPayoutAmountCoin,
+      platformReferrerAmountCurrency: rewards.platformReferrerAmountCurrency,
+      platformReferrerAmountCoin: rewards.platformReferrerAmountCoin,
+      tradeReferrerAmountCurrency: rewards.tradeReferrerAmountCurrency,
+      tradeReferrerAmountCoin: rewards.tradeReferrerAmountCoin,
+    };
+  } catch (error) {
+    console.warn(`  Failed to decode CoinMarketRewardsV4 log ${log.logIndex} in ${log.transactionHash.slice(0, 10)}...`);
+    return null;
+  }
+}
+
+/**
+ * Reward distributions of one coin in the given blocks
+ * The hooks serve every Zora coin and the coin is not indexed, so callers pass
+ * the blocks the coin's pool swapped in instead of scanning whole ranges
+ */
+export async function getMarketRewardsInBlocks(
+  chainData: ChainDataProvider,
+  hooks: string,
+  coin: string,
+  blocks: number[]
+): Promise<MarketRewardsPayout[]> {
+  const uniqueBlocks = Array.from(new Set(blocks)).sort((a, b) => a - b);
+  const coinLower = coin.toLowerCase();
+  const payouts: MarketRewardsPayout[] = [];
+
+  for (let i = 0; i < uniqueBlocks.length; i += REWARDS_CONCURRENCY) {
+    const batch = uniqueBlocks.slice(i, i + REWARDS_CONCURRENCY);
+    const results = await Promise.all(batch.map(block => chainData.getLogs({
+      address: hooks,
+      topics: [COIN_MARKET_REWARDS_TOPIC],
+      fromBlock: block,
+      toBlock: block,
+    })));
+
+    for (const log of results.flat()) {
+      const payout = decodeMarketRewards(log);
+      if (payout && payout.coin === coinLower) {
+        payouts.push(payout);
+      }
+    }
+  }
+
+  return payouts;
+}
+
+/**
+ * Hook rewards one wallet earned on one coin, by role; amounts in smallest units
+ */
+export interface RewardsIncome {
+  currency: string; // Backing currency the rewards were paid in, lowercased
+  payouts: number; // Reward events that paid the wallet in any role
+  creatorAmount: bigint; // As the coin's payout recipient
+  platformReferrerAmount: bigint;
+  tradeReferrerAmount: bigint;
+  coinAmount: bigint; // Paid in the coin itself, all roles
+}
+
+/**
+ * Rewards the hook of a coin's pool paid to a wallet
+ * Payouts are ERC-20 transfers of the backing currency from the hook, so the
+ * wallet's own transfers point at the blocks to decode. Null when the pool has
+ * no Zora hook or is backed by native ETH (internal transfers are not indexed by address)
+ */
+export async function getWalletRewardsIncome(
+  chainData: ChainDataProvider,
+  pool: PoolMetadata,
+  tokenAddress: string,
+  walletAddress: string,
+  startBlock: number = 0
+): Promise<RewardsIncome | null> {
+  if (!pool.coinType) {
+    return null;
+  }
+
+  const token = tokenAddress.toLowerCase();
+  const wallet = walletAddress.toLowerCase();
+  const hooks = pool.key.hooks.toLowerCase();
+  const currency = (pool.currency0.address.toLowerCase() === token ? pool.currency1 : pool.currency0).address.toLowerCase();
+  if (currency === ethers.ZeroAddress) {
+    return null;
+  }
+
+  const transfers = await chainData.getTokenTransfers({ address: wallet, contractAddress: currency, startBlock, sort: 'asc' });
+  const fromHook = transfers.filter(row => row.from.toLowerCase() === hooks && row.to.toLowerCase() === wallet);
+  const income: RewardsIncome = {
+    currency,
+    payouts: 0,
+    creatorAmount: 0n,
+    platformReferrerAmount: 0n,
+    tradeReferrerAmount: 0n,
+    coinAmount: 0n,
+  };
+  if (fromHook.length === 0) {
+    return income;
+  }
+
+  const hashes = new Set(fromHook.map(row => row.hash.toLowerCase()));
+  const payouts = await getMarketRewardsInBlocks(chainData, hooks, token, fromHook.map(row => Number(row.blockNumber)));
+  for (const payout of payouts) {
+    if (!hashes.has(payout.hash.toLowerCase())) continue;
+
+    let paid = false;
+    if (payout.payoutRecipient === wallet) {
+      income.creatorAmount += payout.creatorAmountCurrency;
+      income.coinAmount += payout.creatorAmountCoin;
+      paid = true;
+    }
+    if (payout.platformReferrer === wallet) {
+      income.platformReferrerAmount += payout.platformReferrerAmountCurrency;
+      income.coinAmount += payout.platformReferrerAmountCoin;
+      paid = true;
+    }
+    if (payout.tradeReferrer === wallet) {
+      income.tradeReferrerAmount += payout.tradeReferrerAmountCurrency;
+      income.coinAmount += payout.tradeReferrerAmountCoin;
+      paid = true;
+    }
+    if (paid) income.payouts++;
+  }
+
+  return income;
+}
+
+/**
+ * USD value of rewards income; the backing currency is valued through the
+ * coin's USD price and its pool price, so no second price lookup is needed
+ */
+export function rewardsIncomeUSD(
+  income: RewardsIncome,
+  pool: PoolMetadata,
+  tokenAddress: string,
+  coinPriceUSD: number,
+  coinDecimals: number = 18
+): number {
+  const quote = pool.currency0.address.toLowerCase() === income.currency ? pool.currency0 : pool.currency1;
+  const priceInQuote = getCoinPriceInQuote(pool, tokenAddress);
+  const quoteUSD = priceInQuote > 0 ? coinPriceUSD / priceInQuote : 0;
+  const currencyAmount = income.creatorAmount + income.platformReferrerAmount + income.tradeReferrerAmount;
+
+  return parseFloat(ethers.formatUnits(currencyAmount, quote.decimals)) * quoteUSD
+    + parseFloat(ethers.formatUnits(income.coinAmount, coinDecimals)) * coinPriceUSD;
+}
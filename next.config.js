@@ -4,6 +4,13 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // SVG card rasterizer assets, read from node_modules at runtime (lib/svgCard.ts)
+    outputFileTracingIncludes: {
+      '/api/generateCard': ['./node_modules/@resvg/resvg-wasm/index_bg.wasm', './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+      '/api/card/[id]': ['./node_modules/@resvg/resvg-wasm/index_bg.wasm', './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+    },
+  },
   webpack: (config) => {
     config.resolve.fallback = {
       ...config.resolve.fallback,
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AlertStore, AlertRuleInput, MAX_ALERTS_PER_FID, validateAlertRule } from '@/lib/alerts';
+import { getAuthenticatedFid } from '@/lib/quickAuth';
+import { CoinAuthorshipDetector } from '@/lib/coinAuthorship';
+
+/**
+ * Alert rules of the signed-in Mini App user
+ * GET lists, POST { rule } creates, DELETE ?id= removes
+ * Requests carry a Quick Auth token: Authorization: Bearer <token>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const fid = await getAuthenticatedFid(req.headers.authorization, req.headers.host);
+  if (!fid) {
+    return res.status(401).json({ error: 'Sign in with Farcaster to manage alerts' });
+  }
+
+  try {
+    const alertStore = new AlertStore();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ rules: await alertStore.list(fid) });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = req.query.id;
+      if (typeof id !== 'string' || !/^[a-z0-9]+$/.test(id)) {
+        return res.status(400).json({ error: 'Alert id is required' });
+      }
+      await alertStore.delete(fid, id);
+      return res.status(200).json({ success: true });
+    }
+
+    const rule = req.body?.rule;
+    const validationError = validateAlertRule(rule);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // The creator is read from the coin when the rule runs - only coins that name one qualify
+    if (rule.type === 'creator_sell' && (await new CoinAuthorshipDetector().getCreators(rule.tokenAddress)).length === 0) {
+      return res.status(400).json({ error: 'The creator of this token could not be found on-chain' });
+    }
+
+    const existing = await alertStore.list(fid);
+    if (existing.length >= MAX_ALERTS_PER_FID) {
+      return res.status(400).json({ error: `At most ${MAX_ALERTS_PER_FID} alerts per account` });
+    }
+
+    const created = await alertStore.create(fid, rule as AlertRuleInput);
+    console.log(`🔔 Alert ${created.id} (${created.type}) created for FID ${fid}`);
+    return res.status(201).json({ rule: created });
+  } catch (error: any) {
+    console.error('Alerts API error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
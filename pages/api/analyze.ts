@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { AnalyticsService } from '@/lib/analyze';
+import { resolveAnalysisRequest } from '@/lib/analysisRequest';
+import { createShareTicket } from '@/lib/snapshots';
 
 // Configure max duration for Vercel (60 seconds)
 export const config = {
@@ -18,10 +20,15 @@ export default async function handler(
   res.setHeader('Connection', 'keep-alive');
   
   try {
-    const { address, baseScanApiKey, coinGeckoApiKey } = req.body;
+    const { baseScanApiKey, coinGeckoApiKey } = req.body;
+    const resolved = await resolveAnalysisRequest(req.body);
+    if (!resolved.ok) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+    const { walletAddresses, farcasterUsername, costBasisMethod, refresh } = resolved.request;
 
     console.log('=== API Analyze Request ===');
-    console.log('Address:', address);
+    console.log('Addresses:', walletAddresses.join(', '));
     console.log('Has BaseScan API key (from body):', !!baseScanApiKey);
     console.log('BaseScan API key from body (first 10 chars):', baseScanApiKey ? baseScanApiKey.slice(0, 10) + '...' : 'N/A');
     console.log('Has CoinGecko API key (from body):', !!coinGeckoApiKey);
@@ -48,25 +55,25 @@ export default async function handler(
       console.error('This will cause rate limiting and may prevent token fetching.');
     }
 
-    if (!address) {
-      return res.status(400).json({ error: 'Wallet address is required' });
-    }
-
-    // Validate address format
-    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return res.status(400).json({ error: 'Invalid wallet address format' });
-    }
-
-    const analyticsService = new AnalyticsService(finalBaseScanKey, finalCoinGeckoKey);
+    const analyticsService = new AnalyticsService(finalBaseScanKey, finalCoinGeckoKey, { costBasisMethod, refresh });
     
     // Start analysis and periodically send logs
-    const result = await analyticsService.analyzeWallet(address);
+    const result = await analyticsService.analyzeWallets(walletAddresses);
     
     // Ensure logs are included in result
     if (!result.logs) {
       result.logs = [];
     }
 
+    // Nothing is published here - the ticket lets the user share this result later
+    if (result.portfolio.countOfPostTokens > 0) {
+      try {
+        result.share = createShareTicket(result, farcasterUsername);
+      } catch (error) {
+        console.warn('Share ticket unavailable:', error);
+      }
+    }
+
     console.log('\n=== ANALYSIS COMPLETE ===');
     console.log('Total tokens found:', result.wallet.tokens.length);
     console.log('Tokens with balance > 0:', result.wallet.tokens.filter(t => parseFloat(t.balanceFormatted) > 0).length);
@@ -96,7 +103,8 @@ export default async function handler(
             'BaseScan API may be experiencing issues'
           ],
           hasApiKey: !!finalBaseScanKey,
-          walletAddress: address
+          walletAddress: walletAddresses[0],
+          walletAddresses
         }
       });
     } else if (result.wallet.tokens.length > 0) {
@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AnalyticsService } from '@/lib/analyze';
+import { resolveAnalysisRequest } from '@/lib/analysisRequest';
+import { AnalysisStreamEvent, formatStreamEvent } from '@/lib/analysisStream';
+import { createShareTicket } from '@/lib/snapshots';
+
+// Same budget as /api/analyze - the stream only changes how results are delivered
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { baseScanApiKey, coinGeckoApiKey } = req.body;
+  const resolved = await resolveAnalysisRequest(req.body);
+  if (!resolved.ok) {
+    return res.status(resolved.status).json({ error: resolved.error });
+  }
+  const { walletAddresses, farcasterUsername, costBasisMethod, refresh } = resolved.request;
+
+  const finalBaseScanKey = baseScanApiKey || process.env.NEXT_PUBLIC_BASESCAN_API_KEY || '';
+  const finalCoinGeckoKey = coinGeckoApiKey || process.env.NEXT_PUBLIC_COINGECKO_API_KEY || '';
+
+  console.log('=== API Analyze Stream Request ===');
+  console.log('Addresses:', walletAddresses.join(', '));
+  console.log('Using BaseScan API key:', !!finalBaseScanKey);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Disable gzip in Next and proxy buffering so events are flushed immediately
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+
+  // The response closes when we end it or when the client goes away - in the
+  // latter case the analysis stops at its next step (req 'close' only means
+  // the request body was read)
+  let closed = false;
+  const abortController = new AbortController();
+  res.on('close', () => {
+    closed = true;
+    abortController.abort();
+  });
+
+  const send = (event: AnalysisStreamEvent) => {
+    if (closed) return;
+    res.write(formatStreamEvent(event));
+  };
+
+  // Keep-alive comments while long steps (RPC scans) run without logging
+  const keepAlive = setInterval(() => {
+    if (!closed) res.write(': ping\n\n');
+  }, 15000);
+
+  const analyticsService = new AnalyticsService(finalBaseScanKey, finalCoinGeckoKey, { costBasisMethod, refresh });
+
+  // Logger notifies with the full list - forward only the new entries
+  let sentLogs = 0;
+  const unsubscribe = analyticsService.subscribeToLogs((logs) => {
+    if (logs.length < sentLogs) sentLogs = 0; // Logger was cleared
+    for (const entry of logs.slice(sentLogs)) {
+      send({ event: 'log', data: entry });
+    }
+    sentLogs = logs.length;
+  });
+
+  try {
+    const result = await analyticsService.analyzeWallets(walletAddresses, {
+      onProgress: (progress) => send({ event: 'progress', data: progress }),
+      onPost: (post) => send({ event: 'post', data: post }),
+      signal: abortController.signal,
+    });
+
+    if (!result.logs) {
+      result.logs = [];
+    }
+
+    // Nothing is published here - the ticket lets the user share this result later
+    if (result.portfolio.countOfPostTokens > 0) {
+      try {
+        result.share = createShareTicket(result, farcasterUsername);
+      } catch (error) {
+        console.warn('Share ticket unavailable:', error);
+      }
+    }
+
+    console.log(`Stream complete: ${result.portfolio.countOfPostTokens} posts, PnL ${result.portfolio.totalPnLPct.toFixed(2)}%`);
+    send({ event: 'result', data: result });
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      console.log('Client disconnected - analysis stopped');
+      return;
+    }
+    console.error('Analysis stream error:', error);
+    send({
+      event: 'error',
+      data: {
+        error: error.message || 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined,
+      },
+    });
+  } finally {
+    clearInterval(keepAlive);
+    unsubscribe();
+    res.end();
+  }
+}
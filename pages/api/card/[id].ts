@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CardGenerator } from '@/lib/generateCard';
+import { SnapshotStore } from '@/lib/snapshots';
+
+/**
+ * GET /api/card/<snapshot id> - PNG card for a shared snapshot
+ * Used as the og:image and Mini App embed image of /p/<id>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = String(req.query.id || '');
+  const snapshot = await new SnapshotStore().get(id);
+  if (!snapshot) {
+    return res.status(404).json({ error: 'Snapshot not found' });
+  }
+
+  try {
+    // Mini App embeds require a 3:2 image
+    const generator = new CardGenerator({ template: 'embed' });
+    const imageBuffer = await generator.generateCard(
+      snapshot.portfolio,
+      snapshot.walletAddress,
+      snapshot.username
+    );
+
+    // Snapshots never change - let clients and the CDN keep the image
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.status(200).send(imageBuffer);
+  } catch (error: any) {
+    // Canvas is optional - unfurl with the static hero image instead of a broken one
+    console.warn(`Card image for snapshot ${id} unavailable (optional feature):`, error.message);
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.redirect(302, '/hero.png');
+  }
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CreatorAnalyticsService, CreatorCoinInput } from '@/lib/creatorAnalytics';
+import { getAuthenticatedFid } from '@/lib/quickAuth';
+
+// Coins per request - each one can take several log scans
+const MAX_COINS = 20;
+
+// Long coin histories are scanned across several requests (see CreatorAnalyticsService)
+export const config = {
+  maxDuration: 60,
+};
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * POST { addresses, coins: [{ tokenAddress, name? }] }
+ * Creator dashboard for the post coins the analyzed wallets created
+ * Requests carry a Quick Auth token: Authorization: Bearer <token>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const fid = await getAuthenticatedFid(req.headers.authorization, req.headers.host);
+  if (!fid) {
+    return res.status(401).json({ error: 'Sign in with Farcaster to load creator stats' });
+  }
+
+  try {
+    const { addresses, coins } = req.body || {};
+
+    if (!Array.isArray(addresses) || addresses.length === 0 || !addresses.every(a => typeof a === 'string' && ADDRESS_PATTERN.test(a))) {
+      return res.status(400).json({ error: 'Creator wallet addresses are required' });
+    }
+
+    if (!Array.isArray(coins) || coins.length === 0 || coins.length > MAX_COINS) {
+      return res.status(400).json({ error: `Between 1 and ${MAX_COINS} coins are required` });
+    }
+
+    const inputs: CreatorCoinInput[] = [];
+    for (const coin of coins) {
+      if (!coin || typeof coin.tokenAddress !== 'string' || !ADDRESS_PATTERN.test(coin.tokenAddress)) {
+        return res.status(400).json({ error: 'Invalid coin address' });
+      }
+      inputs.push({
+        tokenAddress: coin.tokenAddress,
+        name: typeof coin.name === 'string' ? coin.name.slice(0, 100) : undefined,
+      });
+    }
+
+    console.log(`=== Creator analytics: ${inputs.length} coins for ${addresses.length} address(es), FID ${fid} ===`);
+    const service = new CreatorAnalyticsService(undefined, undefined, process.env.NEXT_PUBLIC_COINGECKO_API_KEY);
+    const analytics = await service.analyzeCoins(addresses, inputs);
+    return res.status(200).json({ coins: analytics });
+  } catch (error: any) {
+    console.error('Creator analytics error:', error);
+    return res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AlertEvaluator } from '@/lib/alerts';
+
+// Re-pricing every watched token can take a while on public RPCs
+export const config = {
+  maxDuration: 60,
+};
+
+/**
+ * Scheduled alert evaluation (Vercel Cron, see vercel.json)
+ * Vercel sends "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (secret ? req.headers.authorization !== `Bearer ${secret}` : process.env.NODE_ENV === 'production') {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const evaluator = new AlertEvaluator({
+      coinGeckoApiKey: process.env.NEXT_PUBLIC_COINGECKO_API_KEY,
+    });
+    const summary = await evaluator.evaluateAll();
+    return res.status(200).json(summary);
+  } catch (error: any) {
+    console.error('Alert evaluation failed:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
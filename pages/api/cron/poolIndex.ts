@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPoolIndex } from '@/lib/poolIndex';
+import { getSharedStore } from '@/lib/storage';
+import { createBaseClient } from '@/lib/uniswapV4Detector';
+
+// Each run ingests as many block ranges as fit, the next run continues
+export const config = {
+  maxDuration: 60,
+};
+
+/**
+ * Scheduled Uniswap V4 pool index sync (Vercel Cron, see vercel.json)
+ * Vercel sends "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (secret ? req.headers.authorization !== `Bearer ${secret}` : process.env.NODE_ENV === 'production') {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // An index in per-instance /tmp would be synced here and read nowhere else
+    getSharedStore('Pool index syncs');
+    const result = await getPoolIndex().sync(createBaseClient());
+    return res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Pool index sync failed:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { CardGenerator } from '@/lib/generateCard';
-import { PortfolioAnalytics } from '@/lib/calcPnL';
+import { CardGenerator, CardRenderer } from '@/lib/generateCard';
+import { PortfolioAnalytics, PostAnalytics } from '@/lib/calcPnL';
+import { CARD_LAYOUTS, CARD_SIZES, CARD_TEMPLATES, CARD_THEMES, CardLayout, CardSize, CardThemeName } from '@/lib/cardLayouts';
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,17 +12,60 @@ export default async function handler(
   }
 
   try {
-    const { portfolio, walletAddress, username } = req.body;
+    const { portfolio, walletAddress, username, renderer, format, template, size, theme, layout, title, postAddress } = req.body;
 
     if (!portfolio || !walletAddress) {
       return res.status(400).json({ error: 'Portfolio and wallet address are required' });
     }
 
-    const generator = new CardGenerator();
+    if (renderer && !['canvas', 'svg', 'auto'].includes(renderer)) {
+      return res.status(400).json({ error: 'Invalid renderer. Use one of: canvas, svg, auto' });
+    }
+
+    const choices: [string, unknown, string[]][] = [
+      ['template', template, Object.keys(CARD_TEMPLATES)],
+      ['size', size, Object.keys(CARD_SIZES)],
+      ['theme', theme, Object.keys(CARD_THEMES)],
+      ['layout', layout, CARD_LAYOUTS],
+    ];
+    for (const [name, value, allowed] of choices) {
+      if (value && !allowed.includes(value as string)) {
+        return res.status(400).json({ error: `Invalid ${name}. Use one of: ${allowed.join(', ')}` });
+      }
+    }
+
+    // Spotlight card for one post of the portfolio
+    let post: PostAnalytics | undefined;
+    if (postAddress) {
+      post = (portfolio as PortfolioAnalytics).posts?.find(
+        p => p.postTokenAddress.toLowerCase() === String(postAddress).toLowerCase()
+      );
+      if (!post) {
+        return res.status(400).json({ error: 'Post not found in portfolio' });
+      }
+    }
+
+    const generator = new CardGenerator({
+      renderer: renderer as CardRenderer | undefined,
+      template,
+      size: size as CardSize | undefined,
+      theme: theme as CardThemeName | undefined,
+      layout: layout as CardLayout | undefined,
+      title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+    });
+
+    // Raw SVG needs no rasterizer at all
+    if (format === 'svg') {
+      res.setHeader('Content-Type', 'image/svg+xml');
+      res.setHeader('Content-Disposition', 'inline; filename="portfolio-card.svg"');
+      return res.status(200).send(generator.generateSvg(portfolio as PortfolioAnalytics, walletAddress, username, post));
+    }
+
     const imageBuffer = await generator.generateCard(
       portfolio as PortfolioAnalytics,
       walletAddress,
-      username
+      username,
+      post
     );
 
     res.setHeader('Content-Type', 'image/png');
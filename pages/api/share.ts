@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ShareableAnalysis, ShareTicket, SnapshotStore, snapshotUrl, verifyShareTicket } from '@/lib/snapshots';
+
+// The result comes back with every post's records (detail pages need them)
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '4mb' },
+  },
+};
+
+/**
+ * Publish an analysis result as a snapshot (public share link)
+ * POST { result: { wallet: { address }, portfolio, addresses?, wallets? }, share }
+ * `share` is the ticket the analysis returned - only unmodified results are accepted
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const result = req.body?.result as ShareableAnalysis | undefined;
+  const share = req.body?.share as ShareTicket | undefined;
+  if (!result?.portfolio || typeof result.wallet?.address !== 'string' || typeof share?.token !== 'string') {
+    return res.status(400).json({ error: 'Analysis result and share ticket are required' });
+  }
+  if (share.username !== undefined && typeof share.username !== 'string') {
+    return res.status(400).json({ error: 'Invalid share ticket' });
+  }
+
+  try {
+    if (!verifyShareTicket(result, share)) {
+      return res.status(403).json({ error: 'This result can no longer be shared - run the analysis again' });
+    }
+
+    const snapshot = await new SnapshotStore().create(result, share.username);
+    return res.status(200).json({ id: snapshot.id, url: snapshotUrl(snapshot.id) });
+  } catch (error: any) {
+    console.error('Share failed:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
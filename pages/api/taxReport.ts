@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AnalyticsService } from '@/lib/analyze';
+import { COST_BASIS_METHODS, CostBasisMethod } from '@/lib/lotAccounting';
+import {
+  buildTaxReport,
+  taxReportToCSV,
+  taxReportToForm8949,
+  TAX_REPORT_FORMATS,
+  TaxReportFormat,
+} from '@/lib/taxReport';
+
+// Runs a full wallet analysis, same budget as /api/analyze
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { address, taxYear, format = 'csv', costBasisMethod, baseScanApiKey, coinGeckoApiKey } = req.body;
+
+    console.log('=== API Tax Report Request ===');
+    console.log('Address:', address, 'Tax year:', taxYear, 'Format:', format, 'Method:', costBasisMethod || 'default');
+
+    if (!address) {
+      return res.status(400).json({ error: 'Wallet address is required' });
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({ error: 'Invalid wallet address format' });
+    }
+
+    const year = Number(taxYear ?? new Date().getUTCFullYear());
+    if (!Number.isInteger(year) || year < 2020 || year > new Date().getUTCFullYear()) {
+      return res.status(400).json({ error: 'Invalid tax year' });
+    }
+
+    if (!TAX_REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Invalid format. Use one of: ${TAX_REPORT_FORMATS.join(', ')}` });
+    }
+
+    if (costBasisMethod && !COST_BASIS_METHODS.includes(costBasisMethod)) {
+      return res.status(400).json({ error: `Invalid cost basis method. Use one of: ${COST_BASIS_METHODS.join(', ')}` });
+    }
+
+    const finalBaseScanKey = baseScanApiKey || process.env.NEXT_PUBLIC_BASESCAN_API_KEY || '';
+    const finalCoinGeckoKey = coinGeckoApiKey || process.env.NEXT_PUBLIC_COINGECKO_API_KEY || '';
+
+    const analyticsService = new AnalyticsService(finalBaseScanKey, finalCoinGeckoKey, {
+      costBasisMethod: costBasisMethod as CostBasisMethod | undefined,
+    });
+    const result = await analyticsService.analyzeWallet(address);
+    const report = buildTaxReport(result.portfolio, year, address);
+
+    console.log(`Tax report ${year}: ${report.rows.length} disposals (${report.shortTerm.count} short, ${report.longTerm.count} long), gain $${report.total.gain.toFixed(2)}`);
+
+    if ((format as TaxReportFormat) === 'json') {
+      return res.status(200).json(report);
+    }
+
+    const body = format === 'form8949' ? taxReportToForm8949(report) : taxReportToCSV(report);
+    const fileName = `${format === 'form8949' ? 'form-8949' : 'tax-report'}-${year}-${address.slice(0, 8)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).send(body);
+  } catch (error: any) {
+    console.error('Tax report error:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -1,4 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { verifyWebhookEvent, VerifiedWebhookEvent } from '@/lib/webhookSignature';
+import { NotificationStore, parseNotificationDetails } from '@/lib/notifications';
 
 // Configure max duration for Vercel
 export const config = {
@@ -14,11 +16,9 @@ export const config = {
  * - Enable notifications (notifications_enabled)
  * - Disable notifications (notifications_disabled)
  * 
- * For now, this is a basic implementation that returns 200 OK.
- * To enable full notification functionality, you'll need to:
- * 1. Install @farcaster/miniapp-node: npm install @farcaster/miniapp-node
- * 2. Set NEYNAR_API_KEY in environment variables
- * 3. Implement verification and token storage
+ * Events arrive as JSON Farcaster Signatures signed by the user's app key;
+ * they are verified against the hub (see lib/webhookSignature.ts) and the
+ * notification token/URL is stored per FID and client app (lib/notifications.ts)
  */
 export default async function handler(
   req: NextApiRequest,
@@ -28,49 +28,66 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  let verified: VerifiedWebhookEvent;
   try {
-    const event = req.body;
+    verified = await verifyWebhookEvent(req.body);
+  } catch (error: any) {
+    console.warn('⚠️ Rejected webhook event:', error.message);
+    return res.status(401).json({ success: false, error: error.message });
+  }
+
+  try {
+    const { fid, appFid, event } = verified;
+    const notificationStore = new NotificationStore();
 
     console.log('📬 Webhook event received:', {
       event: event.event,
-      fid: event.fid,
-      appFid: event.appFid,
+      fid,
+      appFid,
       timestamp: new Date().toISOString(),
     });
 
     // Handle different event types
     switch (event.event) {
-      case 'miniapp_added':
-        console.log('✅ Mini App added by user:', event.fid);
-        if (event.notificationDetails) {
+      case 'miniapp_added': {
+        console.log('✅ Mini App added by user:', fid);
+        const details = parseNotificationDetails(event.notificationDetails);
+        if (details) {
           console.log('📱 Notifications enabled on add');
-          // TODO: Save notification token and URL to database
-          // await saveNotificationDetails(event.fid, event.appFid, event.notificationDetails);
+          await notificationStore.save(fid, appFid, details);
+        } else if (event.notificationDetails) {
+          console.warn('⚠️ Ignoring invalid notification details on add for user:', fid);
         }
         break;
+      }
 
       case 'miniapp_removed':
-        console.log('❌ Mini App removed by user:', event.fid);
-        // TODO: Delete notification details from database
-        // await deleteNotificationDetails(event.fid, event.appFid);
+        console.log('❌ Mini App removed by user:', fid);
+        await notificationStore.delete(fid, appFid);
         break;
 
-      case 'notifications_enabled':
-        console.log('🔔 Notifications enabled for user:', event.fid);
-        if (event.notificationDetails) {
-          // TODO: Save notification token and URL to database
-          // await saveNotificationDetails(event.fid, event.appFid, event.notificationDetails);
+      case 'notifications_enabled': {
+        console.log('🔔 Notifications enabled for user:', fid);
+        const details = parseNotificationDetails(event.notificationDetails);
+        if (!details) {
+          // A malformed event won't get better on retry - reject it, don't 500
+          console.warn('⚠️ Invalid notification details for user:', fid);
+          return res.status(400).json({ success: false, error: 'Invalid notificationDetails' });
         }
+        await notificationStore.save(fid, appFid, details);
         break;
+      }
 
       case 'notifications_disabled':
-        console.log('🔕 Notifications disabled for user:', event.fid);
-        // TODO: Delete notification details from database
-        // await deleteNotificationDetails(event.fid, event.appFid);
+        console.log('🔕 Notifications disabled for user:', fid);
+        await notificationStore.delete(fid, appFid);
         break;
 
-      default:
-        console.warn('⚠️ Unknown event type:', event.event);
+      default: {
+        // Every known event is handled above; anything else is a newer client's event
+        const unknownEvent: never = event;
+        console.warn('⚠️ Unknown event type:', (unknownEvent as { event?: string }).event);
+      }
     }
 
     // Return 200 OK immediately (Base app waits for response)
@@ -81,11 +98,10 @@ export default async function handler(
     });
   } catch (error: any) {
     console.error('❌ Webhook error:', error);
-    // Still return 200 to avoid retries for malformed requests
-    return res.status(200).json({ 
+    // Storage failure: a non-2xx makes the client retry the event later
+    return res.status(500).json({ 
       success: false,
       error: error.message 
     });
   }
 }
-
@@ -5,13 +5,43 @@ import PortfolioCard from '@/components/PortfolioCard';
 import PostList from '@/components/PostList';
 import PortfolioChart from '@/components/PortfolioChart';
 import LogsWindow from '@/components/LogsWindow';
-import { PortfolioAnalytics } from '@/lib/calcPnL';
-import { AnalysisResult } from '@/lib/analyze';
-import { getMiniAppUserProfile, isInMiniApp } from '@/lib/miniapp';
+import AlertsPanel from '@/components/AlertsPanel';
+import CreatorDashboard from '@/components/CreatorDashboard';
+import PostPriceChart from '@/components/PostPriceChart';
+import TradeLedger from '@/components/TradeLedger';
+import { PortfolioAnalytics, PostAnalytics } from '@/lib/calcPnL';
+import { AnalysisResult, AnalysisProgress } from '@/lib/analyze';
+import { readAnalysisStream } from '@/lib/analysisStream';
+import { composeCastWithEmbed, getMiniAppUserProfile, isInMiniApp } from '@/lib/miniapp';
 import { LogEntry } from '@/lib/logger';
+import { buildTradeLedger } from '@/lib/tradeLedger';
+
+const stepLabels: Record<'ru' | 'en', Record<AnalysisProgress['step'], string>> = {
+  ru: {
+    wallet: 'Загрузка данных кошелька',
+    bytecode: 'Проверка байткода',
+    referrer: 'Проверка platformReferrer()',
+    prices: 'Получение цен',
+    posts: 'Анализ постов',
+    portfolio: 'Расчет статистики',
+    history: 'История портфеля',
+    done: 'Готово',
+  },
+  en: {
+    wallet: 'Loading wallet data',
+    bytecode: 'Bytecode check',
+    referrer: 'Verifying platformReferrer()',
+    prices: 'Fetching prices',
+    posts: 'Analyzing posts',
+    portfolio: 'Calculating totals',
+    history: 'Portfolio history',
+    done: 'Done',
+  },
+};
 
 export default function Home() {
   const [walletAddress, setWalletAddress] = useState<string>('');
+  const [extraWallets, setExtraWallets] = useState<string>(''); // Other owned addresses, comma/space separated
   const [userProfile, setUserProfile] = useState<{
     fid?: number;
     username?: string;
@@ -23,9 +53,15 @@ export default function Home() {
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [cardImageUrl, setCardImageUrl] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [sharing, setSharing] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [showLogs, setShowLogs] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [livePosts, setLivePosts] = useState<PostAnalytics[]>([]);
   const [language, setLanguage] = useState<'ru' | 'en'>('ru');
+  const [taxYear, setTaxYear] = useState<number>(new Date().getUTCFullYear());
+  const [detailPost, setDetailPost] = useState<PostAnalytics | null>(null); // Post whose trade ledger is open
 
   useEffect(() => {
     // Check if we're in a Mini App and get user profile on mount
@@ -42,6 +78,12 @@ export default function Home() {
             console.log('✅ Got user profile from Mini App on mount:', userProfile);
             console.log(`   FID: ${userProfile.fid}, Username: ${userProfile.username || 'N/A'}`);
             setUserProfile(userProfile);
+
+            // One tap: the FID resolves to every wallet linked to the account
+            if (userProfile.fid) {
+              console.log(`🔗 Analyzing wallets linked to FID ${userProfile.fid}`);
+              analyzeWallet(userProfile.fid);
+            }
           }
         } else {
           console.log('ℹ️ App is running in standalone mode (not as Mini App)');
@@ -71,16 +113,23 @@ export default function Home() {
     }
   };
 
-  const analyzeWallet = async () => {
-    if (!walletAddress) {
+  const analyzeWallet = async (farcasterFid?: number) => {
+    if (!walletAddress && !farcasterFid) {
       setError('Please connect your wallet first');
       return;
     }
 
+    // Connected wallet first, then any other wallets analyzed as the same portfolio
+    const addresses = walletAddress ? [walletAddress, ...extraWallets.split(/[\s,]+/).filter(Boolean)] : [];
+    const invalid = addresses.find(a => !/^0x[a-fA-F0-9]{40}$/.test(a));
+    if (invalid) {
+      setError(`Invalid wallet address: ${invalid}`);
+      return;
+    }
+
     // Set a longer timeout for the fetch request (70 seconds to account for Vercel's 60s limit)
     const controller = new AbortController();
     let timeoutId: NodeJS.Timeout | null = null;
-    let logInterval: NodeJS.Timeout | null = null;
 
     try {
       setLoading(true);
@@ -88,8 +137,10 @@ export default function Home() {
 
       timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes timeout (for large wallets)
       
-      // Clear previous logs
+      // Clear previous logs and partial results
       setLogs([]);
+      setProgress(null);
+      setLivePosts([]);
       // Не открываем окно автоматически
       
       // Log API keys status (without exposing full keys)
@@ -99,49 +150,19 @@ export default function Home() {
       console.log('  BaseScan:', baseScanKey ? `Present (${baseScanKey.length} chars)` : 'Missing');
       console.log('  CoinGecko:', coinGeckoKey ? `Present (${coinGeckoKey.length} chars)` : 'Missing');
       
-      // Add initial log
-      const initialLog: LogEntry = {
-        id: 'init',
-        timestamp: Date.now(),
-        level: 'info',
-        message: language === 'ru' ? '🚀 Начало анализа кошелька...' : '🚀 Starting wallet analysis...'
-      };
-      setLogs([initialLog]);
-      
-      // Simulate real-time log updates by adding logs progressively
-      logInterval = setInterval(() => {
-        setLogs(prev => {
-          // Add a placeholder log to show activity
-          const lastLog = prev[prev.length - 1];
-          if (lastLog && lastLog.id !== 'activity') {
-            return [...prev, {
-              id: 'activity',
-              timestamp: Date.now(),
-              level: 'info' as const,
-              message: language === 'ru' ? '⏳ Анализ в процессе...' : '⏳ Analysis in progress...'
-            }];
-          }
-          return prev;
-        });
-      }, 2000); // Update every 2 seconds
-      
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyzeStream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          address: walletAddress,
+          addresses,
+          fid: farcasterFid,
           baseScanApiKey: baseScanKey,
           coinGeckoApiKey: coinGeckoKey,
         }),
         signal: controller.signal,
       });
-      
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = null;
-      }
 
       if (!response.ok) {
         // Handle 504 Gateway Timeout specifically
@@ -171,35 +192,24 @@ export default function Home() {
         throw new Error(errorData.error || `Analysis failed: ${response.status} ${response.statusText}`);
       }
 
-      // Parse response as JSON, handle HTML error pages
-      let result: AnalysisResult;
-      try {
-        const text = await response.text();
-        try {
-          result = JSON.parse(text);
-        } catch (parseError) {
-          // Response is not JSON (likely HTML error page from Vercel)
-          console.error('Response is not JSON, likely HTML error page:', text.slice(0, 500));
-          throw new Error('Server returned invalid response. The analysis may have timed out or the server is experiencing issues.');
-        }
-      } catch (parseError: any) {
-        if (parseError.message.includes('timed out') || parseError.message.includes('timeout')) {
-          throw new Error('GATEWAY_TIMEOUT');
-        }
-        throw parseError;
+      // Logs, progress and finished posts arrive while the analysis runs
+      const result = await readAnalysisStream(response, {
+        onLog: (entry) => setLogs(prev => [...prev, entry]),
+        onProgress: (update) => setProgress(update),
+        onPost: (post) => setLivePosts(prev => [...prev, post]),
+      });
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
       }
+
       console.log('\n=== CLIENT: Analysis result ===');
       console.log('Total tokens:', result.wallet.tokens.length);
       console.log('Tokens with balance:', result.wallet.tokens.filter(t => parseFloat(t.balanceFormatted || '0') > 0).length);
       console.log('Posts analyzed:', result.portfolio.countOfPostTokens);
       console.log('Full result:', result);
       
-      // Clear interval
-      if (logInterval) {
-        clearInterval(logInterval);
-        logInterval = null;
-      }
-      
       // Update logs if available
       if (result.logs && result.logs.length > 0) {
         setLogs(result.logs);
@@ -255,6 +265,10 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
         }
       }
       
+      // FID analysis: show the primary linked wallet as the connected one
+      if (!walletAddress && result.wallet.address) {
+        setWalletAddress(result.wallet.address);
+      }
       setAnalysis(result);
 
       // Generate card image (optional - skip if fails)
@@ -267,11 +281,6 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
         }
       }
     } catch (err: any) {
-      // Clear interval on error
-      if (logInterval) {
-        clearInterval(logInterval);
-        logInterval = null;
-      }
       if (timeoutId) {
         clearTimeout(timeoutId);
         timeoutId = null;
@@ -295,6 +304,8 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
       }
     } finally {
       setLoading(false);
+      setProgress(null);
+      setLivePosts([]);
     }
   };
 
@@ -337,6 +348,38 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
     }
   };
 
+  const downloadTaxReport = async (format: 'csv' | 'form8949') => {
+    try {
+      const response = await fetch('/api/taxReport', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          address: walletAddress,
+          taxYear,
+          format,
+          costBasisMethod: analysis?.portfolio.costBasisMethod,
+          baseScanApiKey: process.env.NEXT_PUBLIC_BASESCAN_API_KEY,
+          coinGeckoApiKey: process.env.NEXT_PUBLIC_COINGECKO_API_KEY,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to export tax report: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${format === 'form8949' ? 'form-8949' : 'tax-report'}-${taxYear}.csv`;
+      link.click();
+    } catch (err: any) {
+      setError(err.message || 'Failed to export tax report');
+    }
+  };
+
   const shareCard = () => {
     if (!cardImageUrl) return;
 
@@ -347,6 +390,64 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
     link.click();
   };
 
+  /**
+   * Publish the current result as a snapshot - only done when the user asks to share
+   */
+  const createSnapshot = async (result: AnalysisResult): Promise<string | null> => {
+    if (result.snapshotId) return result.snapshotId;
+    if (!result.share) return null;
+
+    setSharing(true);
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          result: { wallet: { address: result.wallet.address }, portfolio: result.portfolio, addresses: result.addresses, wallets: result.wallets },
+          share: result.share,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Share failed');
+      }
+      setAnalysis(current => current === result ? { ...result, snapshotId: data.id } : current);
+      return data.id;
+    } catch (err: any) {
+      setError(err.message || 'Share failed');
+      return null;
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const shareLink = async () => {
+    if (!analysis) return;
+    const snapshotId = await createSnapshot(analysis);
+    if (!snapshotId) return;
+
+    const url = `${window.location.origin}/p/${snapshotId}`;
+    const pnlPct = analysis.portfolio.totalPnLPct;
+    const text = `My BaseApp posts portfolio: ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(2)}% PnL`;
+
+    // In the Mini App the link unfurls into the card right in the cast
+    if (await composeCastWithEmbed(text, url)) return;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "BasePost's portfolio screen", text, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      }
+    } catch (err: any) {
+      console.log('Share cancelled:', err?.message || 'Unknown error');
+    }
+  };
+
+  const detailLedger = detailPost ? buildTradeLedger(detailPost) : [];
+
   return (
     <div className="min-h-screen bg-[#0d0f14] text-white">
       {/* Header with enhanced design */}
@@ -382,10 +483,26 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                 <UserProfile address={walletAddress} userProfile={userProfile} />
               </div>
             )}
+
+            {walletAddress && (
+              <div className="mt-4">
+                <label className="block text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">
+                  {language === 'ru' ? 'Другие мои кошельки (необязательно)' : 'Other wallets I own (optional)'}
+                </label>
+                <input
+                  type="text"
+                  value={extraWallets}
+                  onChange={(e) => setExtraWallets(e.target.value)}
+                  placeholder="0x..., 0x..."
+                  disabled={loading}
+                  className="w-full bg-white/5 border border-white/20 rounded-xl px-4 py-3 text-sm font-mono text-white placeholder-gray-500 focus:outline-none focus:border-purple-400"
+                />
+              </div>
+            )}
             
             {walletAddress && (
               <button
-                onClick={analyzeWallet}
+                onClick={() => analyzeWallet()}
                 disabled={loading}
                 className="mt-4 w-full bg-gradient-to-r from-blue-500 via-purple-600 to-pink-500 hover:from-blue-600 hover:via-purple-700 hover:to-pink-600 text-white font-bold py-4 px-6 rounded-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl hover:scale-[1.02] transform"
               >
@@ -418,6 +535,27 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                 {language === 'ru' ? 'Анализ кошелька...' : 'Analyzing wallet...'}
               </h3>
             </div>
+            {progress && (
+              <div className="mb-4">
+                <div className="flex justify-between text-sm text-gray-300 mb-2">
+                  <span>
+                    {stepLabels[language][progress.step]}
+                    {progress.detail && <span className="text-gray-500"> · {progress.detail}</span>}
+                  </span>
+                  {progress.step === 'posts' && progress.current && progress.total && (
+                    <span>{progress.current}/{progress.total}</span>
+                  )}
+                </div>
+                {progress.step === 'posts' && progress.current && progress.total && (
+                  <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
+                      style={{ width: `${(progress.current / progress.total) * 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
             {logs.length > 0 ? (
               <div className="max-h-96 overflow-y-auto space-y-2 font-mono text-sm">
                 {logs.slice(-20).map((log) => (
@@ -447,6 +585,11 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                 </p>
               </div>
             )}
+            {livePosts.length > 0 && (
+              <div className="mt-6">
+                <PostList posts={livePosts} />
+              </div>
+            )}
           </div>
         )}
 
@@ -460,7 +603,7 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                 <h2 className="text-2xl font-bold mb-6 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
                   Portfolio Summary
                 </h2>
-                <PortfolioCard portfolio={analysis.portfolio} language={language} />
+                <PortfolioCard portfolio={analysis.portfolio} wallets={analysis.wallets} language={language} />
               </div>
 
               {/* Performance Stats */}
@@ -491,6 +634,13 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                   </div>
                 </div>
               )}
+
+              {/* Alerts - notifications need the Mini App (FID + Quick Auth) */}
+              {userProfile?.fid && analysis.portfolio.posts.length > 0 && (
+                <div className="bg-gradient-to-br from-yellow-500/10 via-orange-500/10 to-transparent backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
+                  <AlertsPanel analysis={analysis} language={language} />
+                </div>
+              )}
             </div>
 
             {/* Right Column - Chart and Posts */}
@@ -516,7 +666,14 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
               {/* Portfolio Chart */}
               {analysis.portfolio.posts.length > 0 && (
                 <div className="bg-gradient-to-br from-indigo-500/10 via-purple-500/10 to-pink-500/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
-                  <PortfolioChart portfolio={analysis.portfolio} />
+                  <PortfolioChart portfolio={analysis.portfolio} history={analysis.history} />
+                </div>
+              )}
+
+              {/* Creator Dashboard - coins the analyzed wallets created */}
+              {analysis.portfolio.authorTokens?.count > 0 && (
+                <div className="bg-gradient-to-br from-green-500/10 via-emerald-500/10 to-transparent backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
+                  <CreatorDashboard analysis={analysis} language={language} />
                 </div>
               )}
 
@@ -525,9 +682,71 @@ BaseApp posts are tokens created on Base App platform. Make sure you're analyzin
                 <h2 className="text-2xl font-bold mb-6 bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
                   BaseApp Posts
                 </h2>
-                <PostList posts={analysis.portfolio.posts} />
+                <PostList
+                  posts={analysis.portfolio.posts}
+                  onSelectDetail={post => setDetailPost(detailPost === post ? null : post)}
+                />
               </div>
 
+              {/* Trade ledger of the selected post (built from the analysis itself, no snapshot needed) */}
+              {detailPost && analysis.portfolio.posts.includes(detailPost) && (
+                <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-6">
+                  <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-semibold">
+                      {detailPost.postName || `${detailPost.postTokenAddress.slice(0, 8)}...${detailPost.postTokenAddress.slice(-6)}`}
+                    </h2>
+                    <button onClick={() => setDetailPost(null)} className="text-gray-400 hover:text-white">✕</button>
+                  </div>
+                  <PostPriceChart ledger={detailLedger} currentPrice={parseFloat(detailPost.currentPrice)} />
+                  <TradeLedger ledger={detailLedger} language={language} />
+                </div>
+              )}
+
+              {/* Tax Report Export */}
+              {(analysis.portfolio.closedLotCount || 0) > 0 && (
+                <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+                  <h2 className="text-xl font-semibold mb-4">{language === 'ru' ? 'Налоговый отчёт' : 'Tax Report'}</h2>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select
+                      value={taxYear}
+                      onChange={(e) => setTaxYear(parseInt(e.target.value))}
+                      className="bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white"
+                    >
+                      {Array.from({ length: new Date().getUTCFullYear() - 2022 }, (_, i) => new Date().getUTCFullYear() - i).map(year => (
+                        <option key={year} value={year} className="bg-[#0d0f14]">{year}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => downloadTaxReport('csv')}
+                      className="bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-200"
+                    >
+                      CSV
+                    </button>
+                    <button
+                      onClick={() => downloadTaxReport('form8949')}
+                      className="bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-200"
+                    >
+                      Form 8949
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Share Link */}
+              {(analysis.snapshotId || analysis.share) && (
+                <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 text-center">
+                  <h2 className="text-xl font-semibold mb-2">Share Portfolio</h2>
+                  <p className="text-sm text-gray-400 mb-4">Public read-only page with a preview card</p>
+                  <button
+                    onClick={shareLink}
+                    disabled={sharing}
+                    className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold py-2 px-6 rounded-xl transition-all duration-200 disabled:opacity-50"
+                  >
+                    {sharing ? 'Creating link...' : linkCopied ? 'Link Copied' : 'Share Link'}
+                  </button>
+                </div>
+              )}
+
               {/* Share Card */}
               {cardImageUrl && (
                 <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 text-center">
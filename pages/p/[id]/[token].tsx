@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import type { GetServerSideProps } from 'next';
+import PostPriceChart from '@/components/PostPriceChart';
+import TradeLedger from '@/components/TradeLedger';
+import type { PostAnalytics } from '@/lib/calcPnL';
+import { LedgerEntry, buildTradeLedger } from '@/lib/tradeLedger';
+import { SnapshotStore } from '@/lib/snapshots';
+
+interface PostDetailProps {
+  snapshotId: string;
+  owner: string;
+  post: Omit<PostAnalytics, 'transactions' | 'openLots' | 'closedLots'>;
+  ledger: LedgerEntry[];
+}
+
+const translations = {
+  ru: {
+    back: '← К портфелю',
+    authorToken: 'Авторский токен',
+    avgBuy: 'Средняя цена покупки',
+    current: 'Текущая цена',
+    balance: 'Остаток',
+    pnl: 'PnL',
+    realizedPnL: 'Реализованный PnL',
+    unrealizedPnL: 'Нереализованный PnL',
+    priceChart: 'Цена и сделки',
+    trades: 'Сделки',
+  },
+  en: {
+    back: '← Back to portfolio',
+    authorToken: 'Author token',
+    avgBuy: 'Avg Buy',
+    current: 'Current',
+    balance: 'Balance',
+    pnl: 'PnL',
+    realizedPnL: 'Realized PnL',
+    unrealizedPnL: 'Unrealized PnL',
+    priceChart: 'Price & Trades',
+    trades: 'Trades',
+  },
+};
+
+export const getServerSideProps: GetServerSideProps<PostDetailProps> = async ({ params, res }) => {
+  const id = String(params?.id || '');
+  const token = String(params?.token || '').toLowerCase();
+  const snapshot = await new SnapshotStore().get(id);
+  const post = snapshot?.portfolio.posts.find(p => p.postTokenAddress.toLowerCase() === token);
+  if (!snapshot || !post) {
+    return { notFound: true };
+  }
+
+  // Snapshots are immutable
+  res.setHeader('Cache-Control', 'public, s-maxage=86400, stale-while-revalidate=604800');
+
+  // The raw records are only needed for the ledger - keep them out of the page payload
+  const { transactions, openLots, closedLots, ...summary } = post;
+  return {
+    props: {
+      snapshotId: id,
+      owner: snapshot.username ? `@${snapshot.username}` : `${snapshot.walletAddress.slice(0, 6)}...${snapshot.walletAddress.slice(-4)}`,
+      post: summary,
+      ledger: buildTradeLedger(post),
+    },
+  };
+};
+
+export default function PostDetailPage({ snapshotId, owner, post, ledger }: PostDetailProps) {
+  const [language, setLanguage] = useState<'ru' | 'en'>('en');
+  const t = translations[language];
+
+  const name = post.postName || `${post.postTokenAddress.slice(0, 8)}...${post.postTokenAddress.slice(-6)}`;
+  const pnlColor = post.pnlPct >= 0 ? 'text-green-400' : 'text-red-400';
+  const formatUsd = (value: string | undefined) => {
+    const num = parseFloat(value || '0');
+    return `${num >= 0 ? '+' : '-'}$${Math.abs(num).toFixed(2)}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0d0f14] text-white">
+      <Head>
+        <title>{`${name} - ${owner} | BasePost Portfolio`}</title>
+      </Head>
+
+      <header className="border-b border-white/10 bg-gradient-to-r from-blue-500/10 via-purple-500/10 to-pink-500/10 backdrop-blur-md">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex justify-between items-start">
+            <div>
+              <a href={`/p/${snapshotId}`} className="text-sm text-blue-400 hover:text-blue-300">{t.back}</a>
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent mt-2 mb-2">
+                {name}
+              </h1>
+              <p className="text-gray-300 font-mono text-sm">
+                <a
+                  href={`https://basescan.org/token/${post.postTokenAddress}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-white"
+                >
+                  {post.postTokenAddress}
+                </a>
+                {post.isAuthorToken && <span className="ml-3 font-sans text-purple-300">{t.authorToken}</span>}
+              </p>
+            </div>
+            <button
+              onClick={() => setLanguage(language === 'ru' ? 'en' : 'ru')}
+              className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-200 hover:scale-105"
+            >
+              <span>{language === 'ru' ? '🇷🇺' : '🇺🇸'}</span>
+              <span>{language.toUpperCase()}</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+          {[
+            [t.pnl, `${post.pnlPct >= 0 ? '+' : ''}${post.pnlPct.toFixed(2)}% (${formatUsd(post.pnl)})`, pnlColor],
+            [t.avgBuy, `$${parseFloat(post.averageBuyPrice).toFixed(6)}`, 'text-blue-300'],
+            [t.current, `$${parseFloat(post.currentPrice).toFixed(6)}`, 'text-purple-300'],
+            [t.balance, parseFloat(post.balanceFormatted).toFixed(4), 'text-white'],
+            [t.realizedPnL, formatUsd(post.realizedPnL), parseFloat(post.realizedPnL || '0') >= 0 ? 'text-green-400' : 'text-red-400'],
+            [t.unrealizedPnL, formatUsd(post.unrealizedPnL), parseFloat(post.unrealizedPnL || '0') >= 0 ? 'text-green-400' : 'text-red-400'],
+          ].map(([label, value, color]) => (
+            <div key={label} className="bg-white/5 rounded-xl p-4 border border-white/10">
+              <div className="text-xs text-gray-400 mb-2 font-medium uppercase tracking-wide">{label}</div>
+              <div className={`text-base font-bold ${color}`}>{value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+          <h2 className="text-xl font-semibold mb-6">{t.priceChart}</h2>
+          <PostPriceChart ledger={ledger} currentPrice={parseFloat(post.currentPrice)} />
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+          <h2 className="text-xl font-semibold mb-6">
+            {t.trades} <span className="text-gray-400 text-base font-normal">({post.buyCount} buys • {post.sellCount} sells)</span>
+          </h2>
+          <TradeLedger ledger={ledger} language={language} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import type { GetServerSideProps } from 'next';
+import PortfolioCard from '@/components/PortfolioCard';
+import PostList from '@/components/PostList';
+import type { PortfolioSnapshot } from '@/lib/snapshots';
+import { SnapshotStore, snapshotEmbed, snapshotImageUrl, snapshotUrl } from '@/lib/snapshots';
+
+interface SnapshotPageProps {
+  snapshot: PortfolioSnapshot;
+  pageUrl: string;
+  imageUrl: string;
+  miniAppEmbed: string; // JSON for the fc:miniapp meta tag
+  frameEmbed: string; // Same embed for clients that only read fc:frame
+}
+
+const translations = {
+  ru: {
+    sharedPortfolio: 'Портфель',
+    snapshotFrom: 'Снимок от',
+    wallets: 'кошельков',
+    posts: 'Посты',
+    analyzeYours: 'Проанализировать свой кошелек',
+  },
+  en: {
+    sharedPortfolio: 'Portfolio',
+    snapshotFrom: 'Snapshot from',
+    wallets: 'wallets',
+    posts: 'Posts',
+    analyzeYours: 'Analyze your wallet',
+  },
+};
+
+export const getServerSideProps: GetServerSideProps<SnapshotPageProps> = async ({ params, res }) => {
+  const id = String(params?.id || '');
+  const snapshot = await new SnapshotStore().get(id);
+  if (!snapshot) {
+    return { notFound: true };
+  }
+
+  // Snapshots are immutable
+  res.setHeader('Cache-Control', 'public, s-maxage=86400, stale-while-revalidate=604800');
+
+  return {
+    props: {
+      snapshot,
+      pageUrl: snapshotUrl(id),
+      imageUrl: snapshotImageUrl(id),
+      miniAppEmbed: JSON.stringify(snapshotEmbed(id)),
+      frameEmbed: JSON.stringify(snapshotEmbed(id, 'launch_frame')),
+    },
+  };
+};
+
+export default function SnapshotPage({ snapshot, pageUrl, imageUrl, miniAppEmbed, frameEmbed }: SnapshotPageProps) {
+  const [language, setLanguage] = useState<'ru' | 'en'>('en');
+  const t = translations[language];
+
+  const owner = snapshot.username
+    ? `@${snapshot.username}`
+    : `${snapshot.walletAddress.slice(0, 6)}...${snapshot.walletAddress.slice(-4)}`;
+  const pnlPct = snapshot.portfolio.totalPnLPct;
+  const title = `${owner} - PnL ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(2)}%`;
+  const description = `${snapshot.portfolio.countOfPostTokens} BaseApp posts, $${parseFloat(snapshot.portfolio.totalCurrentValue).toFixed(2)} current value`;
+
+  return (
+    <div className="min-h-screen bg-[#0d0f14] text-white">
+      <Head>
+        <title>{`${title} | BasePost Portfolio`}</title>
+        <meta name="description" content={description} />
+        <meta property="og:title" content={title} />
+        <meta property="og:description" content={description} />
+        <meta property="og:url" content={pageUrl} />
+        <meta property="og:image" content={imageUrl} />
+        <meta name="twitter:card" content="summary_large_image" />
+        <meta name="fc:miniapp" content={miniAppEmbed} />
+        <meta name="fc:frame" content={frameEmbed} />
+      </Head>
+
+      <header className="border-b border-white/10 bg-gradient-to-r from-blue-500/10 via-purple-500/10 to-pink-500/10 backdrop-blur-md">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+                {t.sharedPortfolio} {owner}
+              </h1>
+              <p className="text-gray-300">
+                {t.snapshotFrom} {new Date(snapshot.createdAt).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US')}
+                {snapshot.addresses && ` • ${snapshot.addresses.length} ${t.wallets}`}
+              </p>
+            </div>
+            <button
+              onClick={() => setLanguage(language === 'ru' ? 'en' : 'ru')}
+              className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-200 hover:scale-105"
+            >
+              <span>{language === 'ru' ? '🇷🇺' : '🇺🇸'}</span>
+              <span>{language.toUpperCase()}</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1 space-y-6">
+            <div className="bg-gradient-to-br from-blue-500/10 via-purple-500/10 to-transparent backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
+              <PortfolioCard portfolio={snapshot.portfolio} wallets={snapshot.wallets} language={language} />
+            </div>
+            <a
+              href="/"
+              className="block text-center bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200"
+            >
+              {t.analyzeYours}
+            </a>
+          </div>
+
+          <div className="lg:col-span-2">
+            <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+              <h2 className="text-2xl font-bold mb-6">{t.posts}</h2>
+              <PostList posts={snapshot.portfolio.posts} detailHref={post => `/p/${snapshot.id}/${post.postTokenAddress}`} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
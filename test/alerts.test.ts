@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+import { ethers } from 'ethers';
+
+process.env.DATA_STORE = 'memory';
+
+import { AlertEvaluator, AlertStore } from '../lib/alerts';
+import { ChainDataProvider, LogFilter, RpcLog } from '../lib/chainData';
+import { CoinAuthorshipDetector } from '../lib/coinAuthorship';
+import { NotificationSender, NotificationStore } from '../lib/notifications';
+import { MemoryStore } from '../lib/storage';
+import { UNISWAP_V4_POOL_MANAGER } from '../lib/uniswapV4Detector';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const COIN = '0x2222222222222222222222222222222222222222';
+const CREATOR = '0x3333333333333333333333333333333333333333';
+const FRIEND = '0x5555555555555555555555555555555555555555';
+
+const topic = (address: string) => ethers.zeroPadValue(address.toLowerCase(), 32);
+
+function transferLog(from: string, to: string, amount: string, block: number): RpcLog {
+  return {
+    address: COIN,
+    topics: [TRANSFER_TOPIC, topic(from), topic(to)],
+    data: ethers.toBeHex(ethers.parseUnits(amount, 18), 32),
+    blockNumber: ethers.toBeHex(block),
+    transactionHash: ethers.id(`${from}-${to}-${block}`),
+    logIndex: '0x0',
+  };
+}
+
+/**
+ * Chain at `latestBlock` whose getLogs applies address/topic filters to `logs`
+ * (token metadata calls fail, so notifications fall back to shortened addresses)
+ */
+function chainWith(logs: RpcLog[], blocks: number[]): ChainDataProvider & { filters: LogFilter[] } {
+  const filters: LogFilter[] = [];
+  const matches = (value: string, wanted: string | string[] | null | undefined) =>
+    wanted == null || (Array.isArray(wanted) ? wanted : [wanted]).some(w => w.toLowerCase() === value.toLowerCase());
+  return {
+    filters,
+    getBlockNumber: async () => blocks.shift()!,
+    call: async () => { throw new Error('no contracts here'); },
+    getLogs: async (filter: LogFilter) => {
+      filters.push(filter);
+      return logs.filter(log => {
+        const block = Number(log.blockNumber);
+        return matches(log.address, filter.address as string)
+          && block >= (filter.fromBlock as number) && block <= (filter.toBlock as number)
+          && (filter.topics || []).every((wanted, i) => matches(log.topics[i], wanted));
+      });
+    },
+  } as unknown as ChainDataProvider & { filters: LogFilter[] };
+}
+
+async function subscribed(...fids: number[]): Promise<NotificationStore> {
+  const notifications = new NotificationStore(new MemoryStore());
+  for (const fid of fids) {
+    await notifications.save(fid, 9152, { url: 'https://api.farcaster.xyz/v1/frame-notifications', token: `token-${fid}` });
+  }
+  return notifications;
+}
+
+async function evaluatorFor(chainData: ChainDataProvider, store: AlertStore, sent: string[], notifications?: NotificationStore): Promise<AlertEvaluator> {
+  const sender = {
+    sendToFid: async (_fid: number, notification: { body: string }) => {
+      sent.push(notification.body);
+      return { delivered: 1, invalid: 0, rateLimited: 0, skipped: 0, failed: 0 };
+    },
+  } as unknown as NotificationSender;
+  const evaluator = new AlertEvaluator({ store, sender, chainData, notifications: notifications || await subscribed(7) });
+  evaluator['authorship'] = { getCreators: async () => [CREATOR] } as unknown as CoinAuthorshipDetector;
+  return evaluator;
+}
+
+test('creator_sell fires for the on-chain creator selling into the pool, not for transfers or client-named wallets', async () => {
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'log', () => {});
+  try {
+    const store = new AlertStore(new MemoryStore());
+    // Fields a client might still send are dropped - the creator comes from the coin
+    await store.create(7, { type: 'creator_sell', tokenAddress: COIN, creatorAddress: FRIEND } as any);
+    const [rule] = await store.list(7);
+    assert.equal((rule as any).creatorAddress, undefined);
+
+    const chain = chainWith([
+      transferLog(CREATOR, FRIEND, '500', 1500), // A gift
+      transferLog(FRIEND, UNISWAP_V4_POOL_MANAGER, '300', 1600), // Someone else's sale
+      transferLog(CREATOR, UNISWAP_V4_POOL_MANAGER, '1000', 1700),
+    ], [1000, 2000]);
+    const sent: string[] = [];
+    const evaluator = await evaluatorFor(chain, store, sent);
+
+    await evaluator.evaluateAll(1); // Records where to start
+    assert.equal(sent.length, 0);
+
+    const summary = await evaluator.evaluateAll(2);
+    assert.equal(summary.triggered, 1);
+    assert.deepEqual(sent, [`The creator sold 1,000 ${COIN.slice(0, 8)}... into its pool`]);
+    assert.deepEqual(chain.filters[0].topics, [TRANSFER_TOPIC, [topic(CREATOR)], topic(UNISWAP_V4_POOL_MANAGER)]);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('creator_sell stays quiet for tokens without an on-chain creator', async () => {
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'log', () => {});
+  try {
+    const store = new AlertStore(new MemoryStore());
+    await store.create(7, { type: 'creator_sell', tokenAddress: COIN });
+
+    const chain = chainWith([transferLog(CREATOR, UNISWAP_V4_POOL_MANAGER, '1000', 1700)], [1000, 2000]);
+    const sent: string[] = [];
+    const evaluator = await evaluatorFor(chain, store, sent);
+    evaluator['authorship'] = { getCreators: async () => [] } as unknown as CoinAuthorshipDetector;
+
+    await evaluator.evaluateAll(1);
+    const summary = await evaluator.evaluateAll(2);
+    assert.equal(summary.triggered, 0);
+    assert.equal(chain.filters.length, 0);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('rules of users without a notification token are parked and start over when notifications come back', async () => {
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'log', () => {});
+  try {
+    const store = new AlertStore(new MemoryStore());
+    await store.create(7, { type: 'creator_sell', tokenAddress: COIN });
+    await store.create(8, { type: 'creator_sell', tokenAddress: COIN });
+
+    const chain = chainWith([transferLog(CREATOR, UNISWAP_V4_POOL_MANAGER, '1000', 1700)], [1000, 2000, 3000, 4000]);
+    const notifications = await subscribed(7);
+    const sent: string[] = [];
+    const evaluator = await evaluatorFor(chain, store, sent, notifications);
+
+    await evaluator.evaluateAll(1);
+    const summary = await evaluator.evaluateAll(2);
+    assert.equal(summary.parked, 1);
+    assert.equal(summary.triggered, 1); // FID 7 only
+    assert.equal(chain.filters.length, 1);
+    const [parked] = await store.list(8);
+    assert.deepEqual(parked.state, { parkedAt: 1 });
+
+    // Notifications on: the sale from while the rule was parked is not news
+    await notifications.save(8, 9152, { url: 'https://api.farcaster.xyz/v1/frame-notifications', token: 'token-8' });
+    await evaluator.evaluateAll(3);
+    const [resumed] = await store.list(8);
+    assert.deepEqual(resumed.state, { lastBlock: 3000, lastCheckedAt: 3 });
+    assert.equal((await evaluator.evaluateAll(4)).triggered, 0);
+    assert.equal(sent.length, 1);
+  } finally {
+    mock.restoreAll();
+  }
+});
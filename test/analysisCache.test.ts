@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AnalysisCache } from '../lib/analysisCache';
+import { WalletData } from '../lib/wallet';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const COIN = '0x2222222222222222222222222222222222222222';
+
+test('the cached wallet state keeps the balances as of lastBlock when the analysis refreshes them', () => {
+  const walletData: WalletData = {
+    address: WALLET,
+    balance: '0.1',
+    lastBlock: 100,
+    tokens: [{
+      contractAddress: COIN,
+      tokenAddress: COIN,
+      name: 'Unknown',
+      symbol: 'UNK',
+      decimals: 18,
+      balance: '1000',
+      balanceFormatted: '0.000000',
+      lastTransferBlock: 100,
+    }],
+    transactions: [],
+  };
+
+  const entry = AnalysisCache.createEntry(WALLET, walletData);
+  // What applyTokenInspection does with balanceOf() at latest
+  walletData.tokens[0].balance = '400';
+  walletData.tokens[0].symbol = 'POST';
+  walletData.transactions.push({ hash: '0x01', from: WALLET, to: COIN, value: '0', timestamp: 0, blockNumber: 101, input: '0x' });
+
+  assert.equal(entry.wallet.lastBlock, 100);
+  assert.equal(entry.wallet.tokens[0].balance, '1000');
+  assert.equal(entry.wallet.tokens[0].symbol, 'UNK');
+  assert.equal(entry.wallet.transactions.length, 0);
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+
+process.env.DATA_STORE = 'memory';
+
+import { resolveAnalysisRequest } from '../lib/analysisRequest';
+import { FarcasterResolver } from '../lib/farcaster';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const SMART_WALLET = '0x2222222222222222222222222222222222222222';
+const CUSTODY = '0x3333333333333333333333333333333333333333';
+
+test('a single address is analyzed with the requested cost basis method', async () => {
+  const result = await resolveAnalysisRequest({ address: WALLET, costBasisMethod: 'hifo', refresh: true });
+  assert.deepEqual(result, {
+    ok: true,
+    request: { walletAddresses: [WALLET], farcasterUsername: undefined, costBasisMethod: 'hifo', refresh: true },
+  });
+});
+
+test('invalid requests are rejected with the status to answer with', async () => {
+  const rejected = async (body: any) => {
+    const result = await resolveAnalysisRequest(body);
+    return result.ok ? null : [result.status, result.error];
+  };
+  assert.deepEqual(await rejected({}), [400, 'Wallet address is required']);
+  assert.deepEqual(await rejected({ address: '0x123' }), [400, 'Invalid wallet address format']);
+  assert.deepEqual(await rejected({ addresses: Array(6).fill(WALLET) }), [400, 'Too many wallets: at most 5 per analysis']);
+  assert.deepEqual(await rejected({ fid: '12a' }), [400, 'Invalid FID']);
+  assert.deepEqual((await rejected({ address: WALLET, costBasisMethod: 'magic' }))?.[0], 400);
+});
+
+test('a Farcaster account adds its linked addresses once', async () => {
+  mock.method(console, 'log', () => {});
+  mock.method(FarcasterResolver.prototype, 'resolve', async (fid: number | string) => fid === 42
+    ? { fid: 42, username: 'alice', custodyAddress: CUSTODY, verifiedAddresses: [SMART_WALLET, WALLET.toUpperCase().replace('0X', '0x')] }
+    : null);
+  try {
+    const result = await resolveAnalysisRequest({ address: WALLET, fid: '42' });
+    assert.ok(result.ok);
+    assert.deepEqual(result.request.walletAddresses, [WALLET, SMART_WALLET, CUSTODY]);
+    assert.equal(result.request.farcasterUsername, 'alice');
+
+    const unknown = await resolveAnalysisRequest({ username: 'nobody' });
+    assert.deepEqual(unknown, { ok: false, status: 404, error: 'No Ethereum addresses linked to this Farcaster account' });
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+import { ethers } from 'ethers';
+
+process.env.DATA_STORE = 'memory';
+
+import { AnalyticsService } from '../lib/analyze';
+import { BaseAppPostTransaction } from '../lib/detectBaseAppPost';
+import { HistoricalPriceService } from '../lib/historicalPrice';
+import { computeLots } from '../lib/lotAccounting';
+import { ReconstructedTrade } from '../lib/tradeReconstruction';
+import { TokenBalance, Transaction } from '../lib/wallet';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const COIN = '0x2222222222222222222222222222222222222222';
+const CREATOR = '0x3333333333333333333333333333333333333333';
+const FRIEND = '0x5555555555555555555555555555555555555555';
+
+const units = (amount: string) => ethers.parseUnits(amount, 18);
+
+const TOKEN: TokenBalance = {
+  contractAddress: COIN,
+  tokenAddress: COIN,
+  name: 'Post',
+  symbol: 'POST',
+  decimals: 18,
+  balance: units('1000').toString(),
+  balanceFormatted: '1000',
+};
+
+function transferRow(hash: string, from: string, to: string, amount: bigint, blockNumber: number): Transaction {
+  return {
+    hash,
+    from,
+    to,
+    value: amount.toString(),
+    timestamp: 1_700_000_000 + blockNumber * 2,
+    blockNumber,
+    input: '0x',
+    tokenValue: amount.toString(),
+    tokenDecimals: 18,
+  };
+}
+
+function trade(hash: string, side: ReconstructedTrade['side'], tokenAmount: bigint, blockNumber: number, quote?: Partial<ReconstructedTrade>): ReconstructedTrade {
+  return { hash, blockNumber, side, tokenAmount, quoteAmount: 0n, logIndexes: [0], ...quote };
+}
+
+/**
+ * Service with ETH at $3,000 at every block, the post coin at $0.02 and the
+ * creator coin at $0.50 in their pools
+ */
+function createService(): AnalyticsService {
+  const service = new AnalyticsService(undefined, undefined, { cache: null });
+  const poolPrices: Record<string, number> = { [COIN]: 0.02, [CREATOR]: 0.5 };
+  service['historicalPrices'] = {
+    getEthPriceAt: async () => 3000,
+    getPriceAt: async (token: string) => poolPrices[token.toLowerCase()]
+      ? { priceUSD: poolPrices[token.toLowerCase()] }
+      : null,
+  } as unknown as HistoricalPriceService;
+  return service;
+}
+
+async function records(trades: [Transaction, ReconstructedTrade][]): Promise<BaseAppPostTransaction[]> {
+  const service = createService();
+  const result = trades.map(([row, decoded]) => service['toPostTransaction'](row, decoded, TOKEN));
+  await service['attachExecutionValues'](result, TOKEN);
+  return result;
+}
+
+test('a transfer out is recorded as a move without a price, not a sell', async () => {
+  const [record] = await records([
+    [transferRow('0xb1', WALLET, FRIEND, units('400'), 10), trade('0xb1', 'transfer_out', units('400'), 10)],
+  ]);
+
+  assert.equal(record.type, 'transfer_out');
+  assert.equal(record.valueUSD, 0);
+  assert.equal(record.quoteCurrency, undefined);
+  assert.equal(record.priceSource, undefined);
+});
+
+test('a transfer in is valued at the coin pool price of its block', async () => {
+  const [record] = await records([
+    [transferRow('0xb2', FRIEND, WALLET, units('500'), 10), trade('0xb2', 'transfer_in', units('500'), 10)],
+  ]);
+
+  assert.equal(record.type, 'transfer_in');
+  assert.ok(Math.abs(record.valueUSD! - 10) < 1e-9); // 500 x $0.02
+});
+
+test('a swap against the creator coin is valued at the creator coin price of its block', async () => {
+  const [record] = await records([
+    [
+      transferRow('0xb3', CREATOR, WALLET, units('1000'), 10),
+      trade('0xb3', 'buy', units('1000'), 10, {
+        quoteCurrency: 'OTHER',
+        quoteTokenAddress: CREATOR,
+        quoteAmount: units('20'),
+        quoteDecimals: 18,
+        quoteSource: 'swap',
+      }),
+    ],
+  ]);
+
+  assert.equal(record.type, 'buy');
+  assert.ok(Math.abs(record.valueUSD! - 10) < 1e-9); // 20 creator coins x $0.50
+  assert.ok(Math.abs(parseFloat(ethers.formatEther(record.price!)) - 10 / 3000) < 1e-12);
+});
+
+test('a creator coin swap without a quote price stays at zero value instead of borrowing another transaction', async () => {
+  mock.method(console, 'warn', () => {});
+  try {
+    const [record] = await records([
+      [
+        transferRow('0xb4', '0x9999999999999999999999999999999999999999', WALLET, units('1000'), 10),
+        trade('0xb4', 'buy', units('1000'), 10, {
+          quoteCurrency: 'OTHER',
+          quoteTokenAddress: '0x9999999999999999999999999999999999999999',
+          quoteAmount: units('20'),
+          quoteDecimals: 18,
+        }),
+      ],
+    ]);
+
+    assert.equal(record.valueUSD, 0);
+    assert.equal(record.price, '0');
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('a transfer without a readable receipt is a move taken from its Transfer rows', () => {
+  const service = createService();
+  mock.method(console, 'warn', () => {});
+  try {
+    const rows = [
+      transferRow('0xb5', WALLET, FRIEND, units('300'), 10),
+      transferRow('0xb5', FRIEND, WALLET, units('100'), 10),
+    ];
+    const move = service['transferMove'](rows, WALLET);
+    assert.equal(move?.side, 'transfer_out');
+    assert.equal(move?.tokenAmount, units('200'));
+
+    // Tokens out and back in the same transaction
+    assert.equal(service['transferMove']([rows[0], { ...rows[0], from: FRIEND, to: WALLET }], WALLET), null);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('lots leave with a transfer out without a realized loss', async () => {
+  const result = await records([
+    [
+      transferRow('0xb6', CREATOR, WALLET, units('1000'), 10),
+      trade('0xb6', 'buy', units('1000'), 10, {
+        quoteCurrency: 'ETH',
+        quoteTokenAddress: '0x0000000000000000000000000000000000000000',
+        quoteAmount: units('0.01'),
+        quoteDecimals: 18,
+      }),
+    ],
+    [transferRow('0xb7', WALLET, FRIEND, units('400'), 20), trade('0xb7', 'transfer_out', units('400'), 20)],
+  ]);
+
+  const lots = computeLots(result, 18, 'fifo');
+  assert.equal(lots.closedLots.length, 0);
+  assert.equal(lots.realizedPnL, 0);
+  assert.equal(lots.transferredOutAmount, '400.0');
+  assert.ok(Math.abs(lots.remainingCostBasis - 18) < 0.01); // 600 of the $30 lot
+});
+
+test('transfers are deduplicated by hash and log index, so identical transfers in one tx both count', async () => {
+  const service = createService();
+  const twin = (logIndex: number, blockNumber = 30) => ({ ...transferRow('0xb8', FRIEND, WALLET, units('5'), blockNumber), logIndex });
+  const cached = [twin(1), twin(2), { ...transferRow('0xb9', FRIEND, WALLET, units('5'), 20), logIndex: 0 }];
+  // The new page overlaps the cached range by one event
+  service['findTokenTransactions'] = async () => [{ ...transferRow('0xba', FRIEND, WALLET, units('5'), 40), logIndex: 3 }, twin(2)];
+  mock.method(console, 'log', () => {});
+  try {
+    const transfers = await service['loadTokenTransfers'](
+      WALLET,
+      { ...TOKEN, lastTransferBlock: 40 },
+      { address: WALLET, balance: '0', tokens: [], transactions: [] } as any,
+      { lastBlock: 30, transfers: cached, trades: {} }
+    );
+    assert.deepEqual(transfers.map(tx => `${tx.hash}:${tx.logIndex}`), ['0xba:3', '0xb8:2', '0xb8:1', '0xb9:0']);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { mock, test } from 'node:test';
+
+// Everything the analysis persists stays in this process
+process.env.DATA_STORE = 'memory';
+
+import { AnalyticsService } from '../lib/analyze';
+import { FixtureChainDataProvider } from '../lib/fixtureChainData';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'chain', 'base-app-post.json');
+const WALLET = '0x1111111111111111111111111111111111111111';
+const COIN = '0x2222222222222222222222222222222222222222';
+
+/**
+ * The fixture was recorded from a synthetic chain: the wallet holds 1,000 of one
+ * Base App coin, bought in a single swap for 0.01 ETH at ETH = $3,000, and
+ * DexScreener prices the coin at $0.06 now. Chainlink reverts, so ETH/USD comes
+ * from the WETH/USDC pool
+ */
+test('replays a wallet analysis from a recorded fixture', async () => {
+  const warnings: string[] = [];
+  const collect = (...args: unknown[]) => {
+    warnings.push(args.map(String).join(' '));
+  };
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', collect);
+  mock.method(console, 'error', collect);
+
+  try {
+    const chainData = new FixtureChainDataProvider(FIXTURE, 'replay');
+    const service = new AnalyticsService(undefined, undefined, { chainData, cache: null });
+    const result = await service.analyzeWallet(WALLET);
+
+    // Every call the analysis made was in the fixture
+    assert.deepEqual(warnings.filter(message => message.includes('No fixture response')), []);
+
+    assert.equal(result.wallet.balance, '0.1');
+    assert.equal(result.portfolio.posts.length, 1);
+
+    const post = result.portfolio.posts[0];
+    assert.equal(post.postTokenAddress.toLowerCase(), COIN);
+    assert.equal(post.postName, 'Synthetic Post');
+    assert.equal(post.currentPrice, '0.060000');
+
+    const buys = (post.transactions || []).filter(tx => tx.type === 'buy');
+    assert.equal(buys.length, 1);
+    assert.equal(buys[0].ethPriceSource, 'block');
+    assert.ok(Math.abs(buys[0].ethPriceUSD! - 3000) < 0.01);
+    assert.ok(Math.abs(buys[0].valueUSD! - 30) < 0.01);
+
+    // $30 in, 1,000 coins at $0.06 now
+    assert.ok(Math.abs(post.pnlPct - 100) < 0.01);
+    assert.ok(Math.abs(result.portfolio.totalPnLPct - 100) < 0.01);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('an aborted analysis rejects before analyzing posts', async () => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+
+  try {
+    const chainData = new FixtureChainDataProvider(FIXTURE, 'replay');
+    const service = new AnalyticsService(undefined, undefined, { chainData, cache: null });
+    const controller = new AbortController();
+    const posts: unknown[] = [];
+
+    await assert.rejects(service.analyzeWallet(WALLET, {
+      // The client goes away while prices load
+      onProgress: (progress) => {
+        if (progress.step === 'prices') controller.abort();
+      },
+      onPost: (post) => posts.push(post),
+      signal: controller.signal,
+    }), { name: 'AbortError' });
+    assert.deepEqual(posts, []);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ethers } from 'ethers';
+
+import { ChainDataProvider, EtherscanChainDataProvider, TokenTransferRow } from '../lib/chainData';
+import { RpcCall } from '../lib/rpcTransport';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const COIN = '0x2222222222222222222222222222222222222222';
+const WALLET = '0x1111111111111111111111111111111111111111';
+const FRIEND = '0x5555555555555555555555555555555555555555';
+
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+function transferLog(from: string, to: string, value: bigint, logIndex: number) {
+  return { address: COIN, topics: [TRANSFER_TOPIC, topic(from), topic(to)], data: ethers.toBeHex(value, 32), logIndex: ethers.toQuantity(logIndex) };
+}
+
+function row(hash: string, from: string, to: string, value: bigint): TokenTransferRow {
+  return {
+    hash,
+    blockNumber: '100',
+    timeStamp: '1700000000',
+    from,
+    to,
+    value: value.toString(),
+    contractAddress: COIN,
+    tokenName: 'Post',
+    tokenSymbol: 'POST',
+    tokenDecimal: '18',
+  };
+}
+
+test('tokentx rows get the log index of their Transfer event from the receipt', async () => {
+  const receipts: Record<string, unknown> = {
+    '0xaa': {
+      logs: [
+        { ...transferLog(WALLET, FRIEND, 5n, 3), address: '0x9999999999999999999999999999999999999999' }, // Another token
+        transferLog(FRIEND, WALLET, 5n, 4),
+        transferLog(FRIEND, WALLET, 5n, 7), // Same transfer twice in one tx
+      ],
+    },
+  };
+  const requested: RpcCall[] = [];
+  const rpc = {
+    requestBatch: async (calls: RpcCall[]) => {
+      requested.push(...calls);
+      return calls.map(call => ({ result: receipts[call.params![0] as string] ?? null }));
+    },
+  } as unknown as ChainDataProvider;
+  const provider = new EtherscanChainDataProvider('', rpc);
+
+  const rows = await provider['attachLogIndexes']([
+    row('0xAA', FRIEND, WALLET, 5n),
+    row('0xaa', FRIEND, WALLET, 5n),
+    { ...row('0xbb', FRIEND, WALLET, 1n), logIndex: '2' },
+    row('0xcc', FRIEND, WALLET, 1n), // Receipt unavailable
+  ]);
+
+  assert.deepEqual(rows.map(r => r.logIndex), ['4', '7', '2', undefined]);
+  // Rows that already have an index are not looked up
+  assert.deepEqual(requested.map(call => call.params![0]), ['0xaa', '0xcc']);
+});
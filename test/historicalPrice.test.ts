@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+
+import { ChainDataProvider } from '../lib/chainData';
+import { EthUsdOracle } from '../lib/ethUsdOracle';
+import { HistoricalPriceService } from '../lib/historicalPrice';
+import { MemoryStore } from '../lib/storage';
+import { PoolMetadata } from '../lib/uniswapV4Detector';
+
+const ETH = '0x0000000000000000000000000000000000000000';
+const COIN = '0x2222222222222222222222222222222222222222';
+
+// ETH/COIN pool at 1:1
+const POOL = {
+  poolId: '0x01',
+  key: { currency0: ETH, currency1: COIN, fee: 30000, tickSpacing: 200, hooks: ETH },
+  currency0: { name: 'Ether', symbol: 'ETH', decimals: 18, address: ETH },
+  currency1: { name: 'Post', symbol: 'POST', decimals: 18, address: COIN },
+  sqrtPriceX96: 2n ** 96n,
+  tick: 0,
+  liquidity: 0n,
+} as unknown as PoolMetadata;
+
+function serviceWith(store: MemoryStore): HistoricalPriceService {
+  const service = new HistoricalPriceService({} as ChainDataProvider, {} as EthUsdOracle, store);
+  service['getPool'] = async () => POOL;
+  service['readSqrtPrice'] = async () => ({ sqrtPriceX96: 2n ** 96n, source: 'slot0' as const });
+  service['getEthPriceAtBlock'] = async () => 3000;
+  service['blockTimestamp'] = async (block: number) => 1_700_000_000 + block * 2;
+  return service;
+}
+
+test('a price whose store write fails is still returned', async () => {
+  const store = new MemoryStore();
+  store.set = async () => { throw new Error('store is read-only'); };
+  const warnings: string[] = [];
+  mock.method(console, 'warn', (...args: unknown[]) => warnings.push(args.map(String).join(' ')));
+  try {
+    const price = await serviceWith(store).getPriceAt(COIN, 100);
+    assert.equal(price?.priceUSD, 3000);
+    assert.equal(price?.source, 'slot0');
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /Failed to store/);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+/**
+ * Service on a pruned node: getSlot0 always fails and no Swap events are found
+ */
+function prunedServiceWith(store: MemoryStore): { service: HistoricalPriceService; logQueries: () => number } {
+  let logQueries = 0;
+  const chainData = {
+    call: async () => { throw new Error('missing trie node'); },
+    getLogs: async () => {
+      logQueries++;
+      return [];
+    },
+  } as unknown as ChainDataProvider;
+  const service = new HistoricalPriceService(chainData, {} as EthUsdOracle, store);
+  service['getPool'] = async () => POOL;
+  return { service, logQueries: () => logQueries };
+}
+
+test('a Swap event scan that found nothing is not repeated', async () => {
+  mock.method(console, 'warn', () => {});
+  try {
+    const store = new MemoryStore();
+    const first = prunedServiceWith(store);
+    assert.equal(await first.service.getPriceAt(COIN, 50_000), null);
+    assert.equal(first.logQueries(), 6); // Down to block 0
+
+    // Another analysis within the TTL
+    const second = prunedServiceWith(store);
+    assert.equal(await second.service.getPriceAt(COIN, 50_000), null);
+    assert.equal(second.logQueries(), 0);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('Swap event scans stop at the per-analysis query budget', async () => {
+  const warnings: string[] = [];
+  mock.method(console, 'warn', (...args: unknown[]) => warnings.push(args.map(String).join(' ')));
+  try {
+    const store = new MemoryStore();
+    const { service, logQueries } = prunedServiceWith(store);
+    // 20 samples far from genesis - 10 queries each without a budget
+    for (let i = 0; i < 20; i++) {
+      assert.equal(await service.getPriceAt(COIN, 10_000_000 + i * 100_000), null);
+    }
+    assert.equal(logQueries(), 150);
+    assert.equal(warnings.filter(message => message.includes('budget')).length, 1);
+    // Samples the budget cut short are not remembered as misses
+    assert.equal((await store.keys('price-miss:')).length, 15);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ethers } from 'ethers';
+
+import { BaseAppPostTransaction } from '../lib/detectBaseAppPost';
+import { CostBasisMethod, computeLots } from '../lib/lotAccounting';
+
+const COIN = '0x2222222222222222222222222222222222222222';
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+const at = (date: string) => Date.parse(`${date}T12:00:00Z`) / 1000;
+
+function record(
+  hash: string,
+  type: BaseAppPostTransaction['type'],
+  tokens: string,
+  date: string,
+  valueUSD: number,
+  logIndexes?: number[]
+): BaseAppPostTransaction {
+  return {
+    hash,
+    from: WALLET,
+    to: COIN,
+    value: '0',
+    timestamp: at(date),
+    blockNumber: at(date),
+    input: '0x',
+    isBaseAppPost: true,
+    postTokenAddress: COIN,
+    type,
+    amount: ethers.parseUnits(tokens, 18).toString(),
+    valueUSD,
+    ethPriceSource: 'block',
+    logIndexes,
+  };
+}
+
+// 100 tokens each at $1, $3 and $2, then 150 sold at $4
+const HISTORY = [
+  record('0xb1', 'buy', '100', '2024-01-01', 100),
+  record('0xb2', 'buy', '100', '2024-02-01', 300),
+  record('0xb3', 'buy', '100', '2024-03-01', 200),
+  record('0xs1', 'sell', '150', '2024-04-01', 600),
+];
+
+function lotsBy(method: CostBasisMethod) {
+  const result = computeLots(HISTORY, 18, method, at('2024-05-01') * 1000);
+  return {
+    realized: result.realizedPnL,
+    remaining: result.remainingCostBasis,
+    closed: result.closedLots.map(lot => [lot.acquisitionHash, lot.amount, lot.costBasis, lot.proceeds]),
+    open: result.openLots.map(lot => [lot.acquisitionHash, lot.amount]),
+  };
+}
+
+test('FIFO sells the oldest lots first', () => {
+  assert.deepEqual(lotsBy('fifo'), {
+    realized: 350,
+    remaining: 350,
+    closed: [['0xb1', '100.0', '100.00', '400.00'], ['0xb2', '50.0', '150.00', '200.00']],
+    open: [['0xb2', '50.0'], ['0xb3', '100.0']],
+  });
+});
+
+test('LIFO sells the newest lots first', () => {
+  assert.deepEqual(lotsBy('lifo'), {
+    realized: 250,
+    remaining: 250,
+    closed: [['0xb3', '100.0', '200.00', '400.00'], ['0xb2', '50.0', '150.00', '200.00']],
+    open: [['0xb1', '100.0'], ['0xb2', '50.0']],
+  });
+});
+
+test('HIFO sells the most expensive lots first', () => {
+  assert.deepEqual(lotsBy('hifo'), {
+    realized: 200,
+    remaining: 200,
+    closed: [['0xb2', '100.0', '300.00', '400.00'], ['0xb3', '50.0', '100.00', '200.00']],
+    open: [['0xb1', '100.0'], ['0xb3', '50.0']],
+  });
+});
+
+test('average cost prices every sold token at the pooled cost, oldest lots first', () => {
+  assert.deepEqual(lotsBy('average'), {
+    realized: 300,
+    remaining: 300,
+    closed: [['0xb1', '100.0', '200.00', '400.00'], ['0xb2', '50.0', '100.00', '200.00']],
+    open: [['0xb2', '50.0'], ['0xb3', '100.0']],
+  });
+});
+
+test('records of one block are applied in log order', () => {
+  // A buy and its resale in the same block, listed sell-first
+  const result = computeLots([
+    record('0xs1', 'sell', '100', '2024-01-01', 150, [9]),
+    record('0xb1', 'buy', '100', '2024-01-01', 100, [3]),
+  ], 18, 'fifo');
+  assert.equal(result.unmatchedSellAmount, '0.0');
+  assert.equal(result.realizedPnL, 50);
+
+  // Two buys in one block: LIFO takes the later log first
+  const lifo = computeLots([
+    record('0xb1', 'buy', '100', '2024-01-01', 100, [1]),
+    record('0xb2', 'buy', '100', '2024-01-01', 200, [5]),
+    record('0xs1', 'sell', '100', '2024-02-01', 300, [0]),
+  ], 18, 'lifo');
+  assert.equal(lifo.closedLots[0].acquisitionHash, '0xb2');
+});
+
+test('a holding is long-term only when sold after the anniversary of its acquisition date', () => {
+  const term = (acquired: string, sold: string) => computeLots([
+    record('0xb1', 'buy', '1', acquired, 1),
+    record('0xs1', 'sell', '1', sold, 1),
+  ], 18, 'fifo').closedLots[0].isLongTerm;
+
+  assert.equal(term('2023-03-01', '2024-03-01'), false); // 366 days across Feb 29, but not more than a year
+  assert.equal(term('2023-03-01', '2024-03-02'), true);
+  assert.equal(term('2022-06-15', '2023-06-15'), false);
+  assert.equal(term('2022-06-15', '2023-06-16'), true);
+  assert.equal(term('2024-02-29', '2025-02-28'), false);
+  assert.equal(term('2024-02-29', '2025-03-01'), true);
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ethers } from 'ethers';
+
+import { ChainDataProvider } from '../lib/chainData';
+import { MULTICALL3_ADDRESS } from '../lib/multicall';
+import { V4SwapSimulator, getSqrtPriceAtTick } from '../lib/swapSimulator';
+import { PoolMetadata } from '../lib/uniswapV4Detector';
+
+const STATE_VIEW = new ethers.Interface([
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getTickBitmap(bytes32 poolId, int16 tick) view returns (uint256 tickBitmap)',
+  'function getTickLiquidity(bytes32 poolId, int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet)',
+]);
+const MULTICALL3 = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const Q96 = 1n << 96n;
+const POOL_ID = ethers.id('pool') as `0x${string}`;
+const TOKEN0 = '0x1111111111111111111111111111111111111111';
+const TOKEN1 = '0x2222222222222222222222222222222222222222';
+const LIQUIDITY = 2n * 10n ** 18n;
+const FEE_PIPS = 600n;
+
+/**
+ * StateView of a pool at price 1 (tick 0, spacing 60) whose only initialized
+ * tick is `tick`, with `liquidityNet` there
+ */
+function stateViewWith(tick: number | null, liquidityNet: bigint): ChainDataProvider {
+  const tickLiquidity = (data: string) => {
+    const [, wanted] = STATE_VIEW.decodeFunctionData('getTickLiquidity', data);
+    const net = Number(wanted) === tick ? liquidityNet : 0n;
+    return STATE_VIEW.encodeFunctionResult('getTickLiquidity', [net < 0n ? -net : net, net]);
+  };
+  return {
+    call: async ({ to, data }: { to: string; data: string }) => {
+      if (to === MULTICALL3_ADDRESS) {
+        const [calls] = MULTICALL3.decodeFunctionData('aggregate3', data);
+        return MULTICALL3.encodeFunctionResult('aggregate3', [calls.map((call: any) => [true, tickLiquidity(call.callData)])]);
+      }
+      const { name, args } = STATE_VIEW.parseTransaction({ data })!;
+      if (name === 'getSlot0') {
+        return STATE_VIEW.encodeFunctionResult('getSlot0', [Q96, 0, 0, FEE_PIPS]);
+      }
+      const compressed = tick === null ? null : Math.floor(tick / 60);
+      const bitmap = compressed !== null && compressed >> 8 === Number(args[1]) ? 1n << BigInt(compressed & 0xff) : 0n;
+      return STATE_VIEW.encodeFunctionResult('getTickBitmap', [bitmap]);
+    },
+  } as unknown as ChainDataProvider;
+}
+
+const pool = {
+  poolId: POOL_ID,
+  key: { tickSpacing: 60 },
+  currency0: { name: 'Zero', symbol: 'ZERO', decimals: 18, address: TOKEN0 },
+  currency1: { name: 'One', symbol: 'ONE', decimals: 18, address: TOKEN1 },
+  sqrtPriceX96: Q96,
+  tick: 0,
+  liquidity: LIQUIDITY,
+} as unknown as PoolMetadata;
+
+test('getSqrtPriceAtTick matches TickMath', () => {
+  assert.equal(getSqrtPriceAtTick(0), Q96);
+  assert.equal(getSqrtPriceAtTick(1), 79232123823359799118286999568n);
+  assert.equal(getSqrtPriceAtTick(-1), 79224201403219477170569942574n);
+  assert.equal(getSqrtPriceAtTick(50), 79426470787362580746886972461n);
+  assert.equal(getSqrtPriceAtTick(100), 79625275426524748796330556128n);
+  assert.equal(getSqrtPriceAtTick(1000), 83290069058676223003182343270n);
+  // MIN_SQRT_PRICE / MAX_SQRT_PRICE
+  assert.equal(getSqrtPriceAtTick(-887272), 4295128739n);
+  assert.equal(getSqrtPriceAtTick(887272), 1461446703485210103287273052203988822378723970342n);
+});
+
+test('a sell that fits in the current range matches SwapMath.computeSwapStep', async () => {
+  const simulator = new V4SwapSimulator(stateViewWith(null, 0n));
+
+  // SwapMath test vector: 1e18 in at price 1, 2e18 liquidity, 0.06% fee -
+  // 999400000000000000 swapped plus a 600000000000000 fee
+  const sale = await simulator.simulateSell(pool, TOKEN1, 10n ** 18n);
+  assert.deepEqual(sale, {
+    amountIn: 10n ** 18n,
+    amountOut: 666399946655997866n,
+    filled: true,
+    feePips: 600,
+    ticksCrossed: 0,
+  });
+
+  assert.equal(await simulator.simulateSell(pool, '0x3333333333333333333333333333333333333333', 10n ** 18n), null);
+});
+
+test('a sell that drains the liquidity stops at the initialized tick and reports a partial fill', async () => {
+  // Crossing tick -60 downwards removes all of the pool's liquidity
+  const simulator = new V4SwapSimulator(stateViewWith(-60, LIQUIDITY));
+  const sale = (await simulator.simulateSell(pool, TOKEN0, 10n ** 20n))!;
+
+  const lower = getSqrtPriceAtTick(-60);
+  // Δy = L·Δ√P rounded down; Δx = L·Δ(1/√P) rounded up, plus the fee - the
+  // contract rounds the input and the fee up separately, so allow a wei or two
+  const expectedOut = LIQUIDITY * (Q96 - lower) / Q96;
+  const numerator = (LIQUIDITY << 96n) * (Q96 - lower);
+  const swapped = numerator / (Q96 * lower) + (numerator % (Q96 * lower) > 0n ? 1n : 0n);
+
+  assert.equal(sale.filled, false);
+  assert.equal(sale.ticksCrossed, 1);
+  assert.equal(sale.amountOut, expectedOut);
+  const fee = swapped * FEE_PIPS / (1_000_000n - FEE_PIPS);
+  assert.ok(sale.amountIn - swapped - fee >= 0n && sale.amountIn - swapped - fee <= 2n, `amountIn ${sale.amountIn}`);
+});
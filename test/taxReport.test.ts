@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ethers } from 'ethers';
+
+import { PortfolioAnalytics, PostAnalytics } from '../lib/calcPnL';
+import { BaseAppPostTransaction } from '../lib/detectBaseAppPost';
+import { computeLots } from '../lib/lotAccounting';
+import { TaxReport, buildTaxReport, taxReportToCSV, taxReportToForm8949 } from '../lib/taxReport';
+
+const COIN = '0x2222222222222222222222222222222222222222';
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+const at = (date: string) => Date.parse(`${date}T12:00:00Z`) / 1000;
+
+function record(hash: string, type: BaseAppPostTransaction['type'], tokens: string, date: string, valueUSD: number): BaseAppPostTransaction {
+  return {
+    hash,
+    from: WALLET,
+    to: COIN,
+    value: '0',
+    timestamp: at(date),
+    blockNumber: at(date),
+    input: '0x',
+    isBaseAppPost: true,
+    postTokenAddress: COIN,
+    type,
+    amount: ethers.parseUnits(tokens, 18).toString(),
+    valueUSD,
+    ethPriceSource: 'block',
+  };
+}
+
+function portfolioOf(transactions: BaseAppPostTransaction[], postName: string): PortfolioAnalytics {
+  const lots = computeLots(transactions, 18, 'fifo');
+  const post = {
+    postTokenAddress: COIN,
+    postName,
+    transactions,
+    closedLots: lots.closedLots,
+  } as PostAnalytics;
+  return { posts: [post], costBasisMethod: 'fifo' } as PortfolioAnalytics;
+}
+
+test('only sales of the tax year are disposals, split by holding period', () => {
+  const portfolio = portfolioOf([
+    record('0x01', 'buy', '1000', '2022-06-01', 10),
+    record('0x02', 'buy', '1000', '2024-01-10', 30),
+    record('0x03', 'sell', '1000', '2024-06-15', 50), // Lot 0x01, held two years
+    record('0x04', 'sell', '500', '2024-07-01', 5), // Half of lot 0x02
+    record('0x05', 'transfer_out', '500', '2024-08-01', 0), // A gift, not a sale
+    record('0x06', 'sell', '0', '2023-12-31', 0),
+  ], 'Post');
+
+  const report = buildTaxReport(portfolio, 2024, WALLET);
+  assert.deepEqual(report.rows.map(row => row.disposalHash), ['0x03', '0x04']);
+  assert.equal(report.longTerm.count, 1);
+  assert.equal(report.shortTerm.count, 1);
+  assert.equal(report.longTerm.gain, 40);
+  assert.equal(report.shortTerm.gain, -10);
+  assert.equal(report.total.proceeds, 55);
+});
+
+test('a closed lot disposed of by a transfer is not reported', () => {
+  const portfolio = portfolioOf([
+    record('0x01', 'buy', '1000', '2024-01-10', 30),
+    record('0x02', 'transfer_out', '1000', '2024-02-01', 0),
+  ], 'Post');
+  // Lot closed by the transfer, as histories from before transfers were told apart recorded it
+  portfolio.posts[0].closedLots = [{
+    lotId: '0x01-0',
+    acquiredAt: at('2024-01-10'),
+    acquisitionHash: '0x01',
+    disposedAt: at('2024-02-01'),
+    disposalHash: '0x02',
+    amount: '1000.0',
+    proceeds: '0.00',
+    costBasis: '30.00',
+    realizedPnL: '-30.00',
+    holdingPeriodDays: 22,
+    isLongTerm: false,
+  }];
+
+  const report = buildTaxReport(portfolio, 2024, WALLET);
+  assert.equal(report.rows.length, 0);
+  assert.equal(report.total.gain, 0);
+});
+
+test('CSV cells that a spreadsheet would run as formulas are turned into text', () => {
+  const row = {
+    tokenAddress: COIN,
+    amount: '1',
+    acquiredAt: at('2024-01-10'),
+    disposedAt: at('2024-02-10'),
+    acquisitionHash: '0x01',
+    disposalHash: '0x02',
+    proceeds: 1,
+    costBasis: 13.5,
+    gain: -12.5,
+    holdingPeriodDays: 31,
+    term: 'short' as const,
+    estimated: false,
+  };
+  const report: TaxReport = {
+    taxYear: 2024,
+    ethUsdSource: 'test',
+    generatedAt: 0,
+    rows: [
+      { ...row, description: '=HYPERLINK("https://evil.example","Click")' },
+      { ...row, description: '+1+1' },
+      { ...row, description: '@SUM(A1)' },
+      { ...row, description: '\tTabbed' },
+      { ...row, description: '-1+1' },
+      { ...row, description: 'Plain, with a comma' },
+    ],
+    shortTerm: { proceeds: 6, costBasis: 81, gain: -75, count: 6 },
+    longTerm: { proceeds: 0, costBasis: 0, gain: 0, count: 0 },
+    total: { proceeds: 6, costBasis: 81, gain: -75, count: 6 },
+  };
+
+  const lines = taxReportToCSV(report).trim().split('\n');
+  const descriptions = lines.slice(1).map(line => line.slice(0, line.indexOf(',0x2222')));
+  assert.deepEqual(descriptions, [
+    '"\'=HYPERLINK(""https://evil.example"",""Click"")"',
+    "'+1+1",
+    "'@SUM(A1)",
+    "'\tTabbed",
+    "'-1+1",
+    '"Plain, with a comma"',
+  ]);
+  // Losses stay numbers
+  assert.ok(lines[1].includes(',1.00,13.50,-12.50,31,Short-term,'));
+
+  const form = taxReportToForm8949(report);
+  assert.ok(form.includes('"\'=HYPERLINK(""https://evil.example"",""Click"")",01/10/2024,02/10/2024'));
+  assert.ok(form.includes('Totals,,,6.00,81.00,,,-75.00'));
+});
+
+test('Form 8949 puts short- and long-term sales in their parts with totals', () => {
+  const portfolio = portfolioOf([
+    record('0x01', 'buy', '1000', '2022-06-01', 10),
+    record('0x02', 'buy', '1000', '2024-01-10', 30),
+    record('0x03', 'sell', '1000', '2024-06-15', 50),
+    record('0x04', 'sell', '500', '2024-07-01', 5),
+  ], 'My Post');
+
+  const lines = taxReportToForm8949(buildTaxReport(portfolio, 2024, WALLET)).split('\n');
+  const partI = lines.indexOf('Part I - Short-Term (held one year or less)');
+  const partII = lines.indexOf('Part II - Long-Term (held more than one year)');
+  assert.ok(partI > 0 && partII > partI);
+
+  assert.deepEqual(lines.slice(partI + 3, partI + 5), [
+    '500.0000 My Post,01/10/2024,07/01/2024,5.00,15.00,,,-10.00',
+    'Totals,,,5.00,15.00,,,-10.00',
+  ]);
+  assert.deepEqual(lines.slice(partII + 3, partII + 5), [
+    '1000.0000 My Post,06/01/2022,06/15/2024,50.00,10.00,,,40.00',
+    'Totals,,,50.00,10.00,,,40.00',
+  ]);
+});
@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ethers } from 'ethers';
+
+process.env.DATA_STORE = 'memory';
+
+import { TradeReconstructor } from '../lib/tradeReconstruction';
+import { IndexedPool, PoolIndex } from '../lib/poolIndex';
+import { MemoryStore } from '../lib/storage';
+import { PoolKey, PoolMetadata, UNISWAP_V4_POOL_MANAGER, getPoolId } from '../lib/uniswapV4Detector';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const SWAP_TOPIC = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+
+const ETH = '0x0000000000000000000000000000000000000000';
+const WALLET = '0x1111111111111111111111111111111111111111';
+const COIN = '0x2222222222222222222222222222222222222222';
+const CREATOR = '0x3333333333333333333333333333333333333333';
+const ZORA = '0x4444444444444444444444444444444444444444';
+const FRIEND = '0x5555555555555555555555555555555555555555';
+const BUNDLER = '0x6666666666666666666666666666666666666666';
+const HOOKS = '0x7777777777777777777777777777777777777777';
+
+const units = (amount: string) => ethers.parseUnits(amount, 18);
+
+function poolKey(currency0: string, currency1: string): PoolKey {
+  return { currency0, currency1, fee: 30000, tickSpacing: 200, hooks: HOOKS } as PoolKey;
+}
+
+function indexed(key: PoolKey): IndexedPool {
+  return { ...key, poolId: getPoolId(key), blockNumber: 1 };
+}
+
+function metadata(key: PoolKey, symbol0: string, symbol1: string): PoolMetadata {
+  return {
+    poolId: getPoolId(key),
+    key,
+    currency0: { name: symbol0, symbol: symbol0, decimals: 18, address: key.currency0 },
+    currency1: { name: symbol1, symbol: symbol1, decimals: 18, address: key.currency1 },
+    sqrtPriceX96: 0n,
+    tick: 0,
+    liquidity: 0n,
+  };
+}
+
+// ETH/ZORA -> ZORA/creator coin -> creator coin/content coin, the usual route into a content coin
+const ETH_ZORA = poolKey(ETH, ZORA);
+const CREATOR_ZORA = poolKey(CREATOR, ZORA);
+const COIN_CREATOR = poolKey(COIN, CREATOR);
+const COIN_ETH = poolKey(ETH, COIN);
+
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+function transferLog(token: string, from: string, to: string, value: bigint, index: number) {
+  return { address: token, topics: [TRANSFER_TOPIC, topic(from), topic(to)], data: ethers.toBeHex(value, 32), index };
+}
+
+// Amounts from the swapper's side: negative = paid into the pool
+function swapLog(key: PoolKey, amount0: bigint, amount1: bigint, index: number) {
+  const data = ethers.AbiCoder.defaultAbiCoder().encode(
+    ['int128', 'int128', 'uint160', 'uint128', 'int24', 'uint24'],
+    [amount0, amount1, 2n ** 96n, 1n, 0, 30000]
+  );
+  return { address: UNISWAP_V4_POOL_MANAGER, topics: [SWAP_TOPIC, getPoolId(key), topic(BUNDLER)], data, index };
+}
+
+interface FakeReceipt {
+  from: string;
+  logs: ReturnType<typeof transferLog>[];
+  value?: bigint; // Native ETH sent with the transaction
+}
+
+async function reconstructorFor(receipts: Record<string, FakeReceipt>): Promise<TradeReconstructor> {
+  const provider = {
+    getTransactionReceipt: async (hash: string) => receipts[hash]
+      ? { hash, blockNumber: 100, from: receipts[hash].from, logs: receipts[hash].logs }
+      : null,
+    getTransaction: async (hash: string) => ({ value: receipts[hash]?.value || 0n }),
+  } as unknown as ethers.JsonRpcProvider;
+
+  const store = new MemoryStore();
+  await store.set(`pools:${CREATOR}`, { pools: [indexed(CREATOR_ZORA), indexed(COIN_CREATOR)] });
+  await store.set(`pools:${ZORA}`, { pools: [indexed(ETH_ZORA), indexed(CREATOR_ZORA)] });
+  return new TradeReconstructor(provider, undefined, new PoolIndex(store));
+}
+
+test('an ETH-quoted swap on the coin pool is a buy with the exact ETH leg', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa1': {
+      from: WALLET,
+      logs: [
+        swapLog(COIN_ETH, -units('0.01'), units('1000'), 0),
+        transferLog(COIN, UNISWAP_V4_POOL_MANAGER, WALLET, units('1000'), 1),
+      ],
+    },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa1', WALLET, COIN, metadata(COIN_ETH, 'ETH', 'COIN'));
+  assert.equal(trade?.side, 'buy');
+  assert.equal(trade?.quoteCurrency, 'ETH');
+  assert.equal(trade?.quoteAmount, units('0.01'));
+  assert.equal(trade?.quoteSource, 'swap');
+});
+
+test('a token received without a quote leg is a transfer in, not a buy', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa2': { from: FRIEND, logs: [transferLog(COIN, FRIEND, WALLET, units('50'), 0)] },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa2', WALLET, COIN, metadata(COIN_CREATOR, 'COIN', 'CREATOR'));
+  assert.equal(trade?.side, 'transfer_in');
+  assert.equal(trade?.tokenAmount, units('50'));
+  assert.equal(trade?.quoteAmount, 0n);
+  assert.equal(trade?.quoteCurrency, undefined);
+});
+
+test('a token sent away without a quote leg is a transfer out, not a sell', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa3': { from: WALLET, logs: [transferLog(COIN, WALLET, FRIEND, units('25'), 0)] },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa3', WALLET, COIN, metadata(COIN_CREATOR, 'COIN', 'CREATOR'));
+  assert.equal(trade?.side, 'transfer_out');
+  assert.equal(trade?.tokenAmount, units('25'));
+  assert.equal(trade?.quoteAmount, 0n);
+});
+
+test('a swap against the creator coin keeps its quote token when no route leads to ETH', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa4': {
+      from: WALLET,
+      logs: [
+        swapLog(COIN_CREATOR, units('1000'), -units('20'), 0),
+        transferLog(COIN, UNISWAP_V4_POOL_MANAGER, WALLET, units('1000'), 1),
+      ],
+    },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa4', WALLET, COIN, metadata(COIN_CREATOR, 'COIN', 'CREATOR'));
+  assert.equal(trade?.side, 'buy');
+  assert.equal(trade?.quoteCurrency, 'OTHER');
+  assert.equal(trade?.quoteTokenAddress, CREATOR);
+  assert.equal(trade?.quoteAmount, units('20'));
+  assert.equal(trade?.quoteDecimals, 18);
+});
+
+test('a multi-hop buy sent by a bundler gets its ETH leg from the route', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa5': {
+      from: BUNDLER,
+      logs: [
+        // Someone else's ETH -> ZORA swap in the same bundle
+        swapLog(ETH_ZORA, -units('0.5'), units('25000'), 0),
+        swapLog(ETH_ZORA, -units('0.01'), units('500'), 1),
+        swapLog(CREATOR_ZORA, units('20'), -units('500'), 2),
+        swapLog(COIN_CREATOR, units('1000'), -units('20'), 3),
+        transferLog(COIN, UNISWAP_V4_POOL_MANAGER, WALLET, units('1000'), 4),
+      ],
+    },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa5', WALLET, COIN, metadata(COIN_CREATOR, 'COIN', 'CREATOR'));
+  assert.equal(trade?.side, 'buy');
+  assert.equal(trade?.quoteCurrency, 'ETH');
+  assert.equal(trade?.quoteAmount, units('0.01'));
+  assert.equal(trade?.quoteSource, 'route');
+  assert.deepEqual([...trade!.logIndexes].sort(), [1, 2, 3, 4]);
+});
+
+test('a multi-hop sell is followed to the ETH it paid out', async () => {
+  const reconstructor = await reconstructorFor({
+    '0xa6': {
+      from: BUNDLER,
+      logs: [
+        transferLog(COIN, WALLET, UNISWAP_V4_POOL_MANAGER, units('1000'), 0),
+        swapLog(COIN_CREATOR, -units('1000'), units('20'), 1),
+        swapLog(CREATOR_ZORA, -units('20'), units('500'), 2),
+        swapLog(ETH_ZORA, units('0.01'), -units('500'), 3),
+      ],
+    },
+  });
+
+  const trade = await reconstructor.reconstructTrade('0xa6', WALLET, COIN, metadata(COIN_CREATOR, 'COIN', 'CREATOR'));
+  assert.equal(trade?.side, 'sell');
+  assert.equal(trade?.quoteCurrency, 'ETH');
+  assert.equal(trade?.quoteAmount, units('0.01'));
+  assert.equal(trade?.quoteSource, 'route');
+});